@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
   PieChart, Pie, Cell, LineChart, Line, AreaChart, Area
@@ -20,48 +20,291 @@ import {
   Scale,
   RotateCcw,
   BarChart3,
-  Search,
   FileSpreadsheet,
-  CheckCircle2,
   FileUp,
   ChevronRight,
   ClipboardList,
-  Layers
+  Layers,
+  BookOpen,
+  Lock,
+  Target,
+  Coins,
+  Building2,
+  History,
+  MessageSquareText,
+  Pencil
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { Transaction, FinancialStatements, AccountCategory, TransactionType } from './types';
-import { calculateStatements, sampleTransactions, formatCurrency, performBankReconciliation, sampleBankStatement, getTrendData } from './utils/finance';
-import { getFinancialAnalysis } from './services/geminiService';
+import { Transaction, JournalEntry, DraftEntry, AnalysisSettings, AnalysisReport, ReportCitation, StoredAnalysisReport, Account, BankAccount, BankRule, BankStatement, ReconciliationSettings, CurrencySettings, ExchangeRate, ImportProfile, ImportTransforms, KpiSettings, NoteTemplate, Workspace, WorkspaceBackup, WorkspaceData, ClosedPeriod, CashFlowMethod, Budget, MaterialityThresholds, FinancialStatements, AccountCategory, FiscalSettings, PeriodGranularity } from './types';
+import { calculateStatements, sampleJournalEntries, formatCurrency, buildComparative } from './utils/finance';
+import { LedgerError, flattenEntries, postEntries } from './utils/ledger';
+import { defaultChartOfAccounts } from './utils/accounts';
+import { defaultFiscalSettings, listPeriods, periodContaining, priorPeriod } from './utils/periods';
+import { defaultMateriality, monthsInPeriod, sampleBudgets } from './utils/budget';
+import { lockedThrough } from './utils/periodClose';
+import { defaultReconciliationSettings, reconcileBankAccount, sampleBankAccounts, sampleBankStatements } from './utils/reconciliation';
+import { sampleBankRules } from './utils/bankRules';
+import { defaultCurrencySettings, sampleExchangeRates } from './utils/fx';
+import { newPostingAudit } from './utils/audit';
+import { defaultKpiSettings, ratioTrend } from './utils/ratios';
+import { defaultNoteTemplates } from './utils/notes';
+import { DateOrder, detectDateOrder } from './utils/dates';
+import { ImportField, ImportRow, rowsFromSheet, validateImport } from './utils/importValidation';
+import { CONFIDENT_SUGGESTION, CategorySuggestion, UnlabelledRow, buildHistoryModel, mergeSuggestions, suggestCategories } from './utils/categorisation';
+import { applyProfile, defaultImportTransforms, fieldUsedByLayout, guessAmountLayout, guessMappings, mappingsForLayout, matchProfiles, missingImportFields, saveImportProfile } from './utils/importProfiles';
+import { DELIMITER_LABELS, decodeText, parseDelimited } from './utils/delimited';
+import { PACK_SECTIONS_BY_TAB, FULL_PACK, PackSection, buildReportPack, packFileName } from './utils/reportPack';
+import { buildWorkbook, workbookFileName } from './utils/workbook';
+import { DrillRequest } from './utils/drillDown';
+import { hashStatements, reportToText } from './utils/analysisReport';
+import { backupFileName, buildBackup, emptyWorkspaceData, newWorkspace, sampleWorkspaceData, uniqueWorkspaceName } from './utils/workspace';
+import ChartOfAccounts from './components/ChartOfAccounts';
+import PeriodClose from './components/PeriodClose';
+import BudgetManager from './components/BudgetManager';
+import VarianceAnalysis from './components/VarianceAnalysis';
+import BankReconciliation from './components/BankReconciliation';
+import Currencies from './components/Currencies';
+import WorkspaceManager from './components/WorkspaceManager';
+import AuditLog from './components/AuditLog';
+import AnalysisSettingsPanel from './components/AnalysisSettingsPanel';
+import AnalysisReportView from './components/AnalysisReportView';
+import AnalysisHistory from './components/AnalysisHistory';
+import GeneralLedger from './components/GeneralLedger';
+import AskLedger from './components/AskLedger';
+import RatioDashboard from './components/RatioDashboard';
+import TrendAnalysis from './components/TrendAnalysis';
+import NoteTemplateEditor from './components/NoteTemplateEditor';
+import ImportReview from './components/ImportReview';
+import ImportMapping from './components/ImportMapping';
+import PeriodSelector from './components/PeriodSelector';
+import PdfExportDialog, { PdfScope } from './components/PdfExportDialog';
+import LedgerDrillDown from './components/LedgerDrillDown';
+import { TrialBalanceReport, IncomeStatementReport, BalanceSheetReport, CashFlowReport, periodSubtitle } from './components/FinancialReports';
+import { formatChangePercent, scrollIntoView } from './components/ReportLayout';
+import { AnalysisError, PROVIDER_LABELS } from './services/analysisProvider';
+import { findCachedReport, runAnalysis } from './services/analysisService';
+import { suggestWithModel } from './services/categorisationService';
+import { BUILT_IN_GEMINI_KEY } from './services/geminiService';
+import { clearRecordedResponses, deleteWorkspace, isStorageAvailable, listWorkspaces, loadAnalysisSettings, loadUserName, loadWorkspaceData, saveAnalysisSettings, saveUserName, saveWorkspace, touchWorkspace } from './services/workspaceStore';
 
-const REQUIRED_FIELDS = [
+const REQUIRED_FIELDS: { key: ImportField; label: string; optional?: boolean }[] = [
   { key: 'date', label: 'Date' },
   { key: 'description', label: 'Description' },
-  { key: 'accountName', label: 'Account Name' },
-  { key: 'category', label: 'Category' },
+  { key: 'accountName', label: 'Account (Code or Name)' }, // Optional when rows are posted against an offset account
+  { key: 'category', label: 'Category (for new accounts)', optional: true },
   { key: 'amount', label: 'Amount' },
-  { key: 'type', label: 'Type (Debit/Credit)' }
+  { key: 'type', label: 'Type (Debit/Credit)' },
+  { key: 'debit', label: 'Debit Amount', optional: true },
+  { key: 'credit', label: 'Credit Amount', optional: true },
+  { key: 'reference', label: 'Entry Reference', optional: true },
+  { key: 'currency', label: 'Currency (if not functional)', optional: true }
 ];
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'transactions' | 'trial-balance' | 'income' | 'balance-sheet' | 'cashflow' | 'equity' | 'notes' | 'reconciliation' | 'variance' | 'trend' | 'ai'>('dashboard');
-  const [transactions, setTransactions] = useState<Transaction[]>(sampleTransactions);
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'transactions' | 'accounts' | 'close' | 'trial-balance' | 'income' | 'balance-sheet' | 'cashflow' | 'equity' | 'notes' | 'reconciliation' | 'currencies' | 'workspaces' | 'audit' | 'budgets' | 'variance' | 'trend' | 'ai' | 'ask-ledger'>('dashboard');
+  const [entries, setEntries] = useState<JournalEntry[]>(sampleJournalEntries);
+  const [accounts, setAccounts] = useState<Account[]>(defaultChartOfAccounts);
+  const [fiscalSettings, setFiscalSettings] = useState<FiscalSettings>(defaultFiscalSettings);
+  const [granularity, setGranularity] = useState<PeriodGranularity>('month');
+  const [selectedPeriodId, setSelectedPeriodId] = useState<string | null>(null);
+  const [closedPeriods, setClosedPeriods] = useState<ClosedPeriod[]>([]);
+  const [cashFlowMethod, setCashFlowMethod] = useState<CashFlowMethod>('indirect');
+  const [budgets, setBudgets] = useState<Budget[]>(sampleBudgets);
+  const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(sampleBudgets[0]?.id ?? null);
+  const [materiality, setMateriality] = useState<MaterialityThresholds>(defaultMateriality);
+  const [kpiSettings, setKpiSettings] = useState<KpiSettings>(defaultKpiSettings);
+  const [noteTemplates, setNoteTemplates] = useState<NoteTemplate[]>(defaultNoteTemplates);
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>(sampleBankAccounts);
+  const [bankStatements, setBankStatements] = useState<BankStatement[]>(sampleBankStatements);
+  const [reconSettings, setReconSettings] = useState<ReconciliationSettings>(defaultReconciliationSettings);
+  const [bankRules, setBankRules] = useState<BankRule[]>(sampleBankRules);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(defaultCurrencySettings);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(sampleExchangeRates);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [draftEntries, setDraftEntries] = useState<DraftEntry[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [userName, setUserName] = useState(loadUserName);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [analysisReports, setAnalysisReports] = useState<StoredAnalysisReport[]>([]);
+  const [activeReportId, setActiveReportId] = useState<string | null>(null);
+  const [compareReportId, setCompareReportId] = useState<string | null>(null);
+  const [reportPreview, setReportPreview] = useState<AnalysisReport | null>(null);
+  const [citationFocus, setCitationFocus] = useState<ReportCitation | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+  const [drillDown, setDrillDown] = useState<DrillRequest | null>(null);
   
   // Import States
   const [showImportModal, setShowImportModal] = useState(false);
-  const [importStep, setImportStep] = useState<'input' | 'mapping'>('input');
+  const [importStep, setImportStep] = useState<'input' | 'mapping' | 'review'>('input');
   const [importText, setImportText] = useState('');
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [csvRows, setCsvRows] = useState<any[]>([]);
   const [mappings, setMappings] = useState<Record<string, string>>({});
+  const [importTransforms, setImportTransforms] = useState<ImportTransforms>(defaultImportTransforms);
+  const [importProfileId, setImportProfileId] = useState<string | null>(null);
+  const [importSource, setImportSource] = useState<{ summary: string; problems: string[] }>({ summary: '', problems: [] });
+  const [importRows, setImportRows] = useState<ImportRow[]>([]);
+  const [importDateOrder, setImportDateOrder] = useState<DateOrder>('MDY');
+  const [importDateConflict, setImportDateConflict] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [modelSuggestions, setModelSuggestions] = useState<CategorySuggestion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const statements = useMemo(() => calculateStatements(transactions), [transactions]);
-  const trendData = useMemo(() => getTrendData(transactions), [transactions]);
-  
-  const bankTransactions = useMemo(() => transactions.filter(t => t.accountName === 'Cash'), [transactions]);
-  const reconMatches = useMemo(() => performBankReconciliation(bankTransactions, sampleBankStatement), [bankTransactions]);
+  const workspaceData: WorkspaceData = useMemo(() => ({
+    entries, accounts, fiscalSettings, closedPeriods, budgets, materiality, kpiSettings, noteTemplates, bankAccounts, bankStatements,
+    reconSettings, bankRules, currencySettings, exchangeRates, importProfiles, draftEntries, analysisReports
+  }), [entries, accounts, fiscalSettings, closedPeriods, budgets, materiality, kpiSettings, noteTemplates, bankAccounts, bankStatements, reconSettings, bankRules, currencySettings, exchangeRates, importProfiles, draftEntries, analysisReports]);
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const applyWorkspaceData = (data: WorkspaceData) => {
+    setEntries(data.entries);
+    setAccounts(data.accounts);
+    setFiscalSettings(data.fiscalSettings);
+    setClosedPeriods(data.closedPeriods);
+    setBudgets(data.budgets);
+    setSelectedBudgetId(data.budgets[0]?.id ?? null);
+    setMateriality(data.materiality);
+    setKpiSettings(data.kpiSettings);
+    setNoteTemplates(data.noteTemplates);
+    setBankAccounts(data.bankAccounts);
+    setBankStatements(data.bankStatements);
+    setReconSettings(data.reconSettings);
+    setBankRules(data.bankRules);
+    setCurrencySettings(data.currencySettings);
+    setExchangeRates(data.exchangeRates);
+    setImportProfiles(data.importProfiles);
+    setDraftEntries(data.draftEntries);
+    setAnalysisReports(data.analysisReports);
+    setActiveReportId(data.analysisReports[0]?.id ?? null);
+    setCompareReportId(null);
+    setSelectedPeriodId(null);
+    setAiError(null);
+  };
+
+  const storageFailed = (action: string) => (e: unknown) => {
+    console.error(`Workspace ${action} failed:`, e);
+    setStorageError(`Could not ${action} the workspace in this browser's storage. Changes since then are not saved.`);
+  };
+
+  // Open the most recently used company, or store the sample ledger as the first one
+  useEffect(() => {
+    if (!isStorageAvailable()) return;
+    let cancelled = false;
+    (async () => {
+      const stored = await listWorkspaces();
+      if (cancelled) return;
+      if (stored.length === 0) {
+        const demo = newWorkspace('Demo Company');
+        await saveWorkspace(demo, sampleWorkspaceData());
+        if (cancelled) return;
+        setWorkspaces([demo]);
+        setActiveWorkspaceId(demo.id);
+        return;
+      }
+      const data = await loadWorkspaceData(stored[0].id);
+      if (cancelled) return;
+      applyWorkspaceData(data ?? emptyWorkspaceData());
+      setWorkspaces(stored);
+      setActiveWorkspaceId(stored[0].id);
+    })().catch(storageFailed('load'));
+    return () => { cancelled = true; };
+  }, []);
+
+  // Autosave shortly after the last change; workspace and data are always set in the same render
+  useEffect(() => {
+    if (!activeWorkspace) return;
+    const timer = setTimeout(() => {
+      const now = new Date().toISOString();
+      saveWorkspace({ ...activeWorkspace, updatedAt: now }, workspaceData)
+        .then(() => { setLastSavedAt(now); setStorageError(null); })
+        .catch(storageFailed('save'));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [workspaceData, activeWorkspace]);
+
+  const openWorkspace = async (workspace: Workspace, data: WorkspaceData) => {
+    const opened = { ...workspace, lastOpenedAt: new Date().toISOString() };
+    await touchWorkspace(opened);
+    applyWorkspaceData(data);
+    setWorkspaces(list => [opened, ...list.filter(w => w.id !== opened.id)]);
+    setActiveWorkspaceId(opened.id);
+    setLastSavedAt(null);
+  };
+
+  const switchWorkspace = (workspaceId: string) => {
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!workspace) return;
+    loadWorkspaceData(workspaceId)
+      .then(data => openWorkspace(workspace, data ?? emptyWorkspaceData()))
+      .catch(storageFailed('open'));
+  };
+
+  const createWorkspace = (name: string, withSampleData: boolean, data = withSampleData ? sampleWorkspaceData() : emptyWorkspaceData()) => {
+    const workspace = newWorkspace(name);
+    saveWorkspace(workspace, data)
+      .then(() => openWorkspace(workspace, data))
+      .catch(storageFailed('create'));
+  };
+
+  const renameWorkspace = (workspaceId: string, name: string) => {
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!workspace) return;
+    const renamed = { ...workspace, name };
+    touchWorkspace(renamed)
+      .then(() => setWorkspaces(list => list.map(w => (w.id === workspaceId ? renamed : w))))
+      .catch(storageFailed('rename'));
+  };
+
+  const removeWorkspace = (workspaceId: string) => {
+    deleteWorkspace(workspaceId)
+      .then(() => setWorkspaces(list => list.filter(w => w.id !== workspaceId)))
+      .catch(storageFailed('delete'));
+  };
+
+  const handleBackup = () => {
+    if (!activeWorkspace) return;
+    const backup = buildBackup(activeWorkspace, workspaceData);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = backupFileName(activeWorkspace, backup.exportedAt);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // A restore always becomes a new company so it can never overwrite the one it was taken from
+  const handleRestore = (backup: WorkspaceBackup) => {
+    createWorkspace(uniqueWorkspaceName(backup.workspace.name, workspaces), false, backup.data);
+  };
+
+  const changeUserName = (name: string) => {
+    setUserName(name);
+    saveUserName(name);
+  };
+
+  const transactions = useMemo(() => flattenEntries(entries, accounts), [entries, accounts]);
+  // Closing entries zero revenue and expense accounts; questions are about trading, as the statements are
+  const queryTransactions = useMemo(() => flattenEntries(entries.filter(e => e.kind !== 'closing'), accounts), [entries, accounts]);
+  const periods = useMemo(() => listPeriods(entries.map(e => e.date), granularity, fiscalSettings), [entries, granularity, fiscalSettings]);
+  const selectedPeriod = periods.find(p => p.id === selectedPeriodId) ?? periods[0];
+  const comparativePeriod = useMemo(() => priorPeriod(selectedPeriod, fiscalSettings), [selectedPeriod, fiscalSettings]);
+  const selectedBudget = budgets.find(b => b.id === selectedBudgetId);
+  const statementOptions = useMemo(() => ({ cashFlowMethod, budget: selectedBudget, materiality, currency: currencySettings, rates: exchangeRates, noteTemplates }), [cashFlowMethod, selectedBudget, materiality, currencySettings, exchangeRates, noteTemplates]);
+  const statements = useMemo(() => calculateStatements(entries, accounts, selectedPeriod, statementOptions), [entries, accounts, selectedPeriod, statementOptions]);
+  const priorStatements = useMemo(() => calculateStatements(entries, accounts, comparativePeriod, statementOptions), [entries, accounts, comparativePeriod, statementOptions]);
+  const statementsHash = useMemo(() => hashStatements(statements), [statements]);
+  const periodMonths = useMemo(() => monthsInPeriod(selectedPeriod), [selectedPeriod]);
+  const fiscalYearMonths = useMemo(() => monthsInPeriod(periodContaining(selectedPeriod.start, 'year', fiscalSettings)), [selectedPeriod, fiscalSettings]);
+  const usedAccountCodes = useMemo(() => new Set(transactions.map(t => t.accountCode)), [transactions]);
+  const ratios = useMemo(() => ratioTrend(entries, accounts, selectedPeriod, fiscalSettings, statementOptions), [entries, accounts, selectedPeriod, fiscalSettings, statementOptions]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -69,52 +312,138 @@ const App: React.FC = () => {
 
     const reader = new FileReader();
     reader.onload = (event) => {
-      const bstr = event.target?.result;
-      const wb = XLSX.read(bstr, { type: 'binary' });
+      const buffer = event.target?.result as ArrayBuffer;
+      // Delimited text goes through our own parser so quoting, delimiter and encoding are handled alike for files and pastes
+      if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+        const { text, encoding } = decodeText(buffer);
+        const parsed = parseDelimited(text);
+        if (parsed.rows.length > 0) processRawData(parsed.rows, `${file.name} · ${DELIMITER_LABELS[parsed.delimiter]}-separated · ${encoding.toUpperCase()}`, parsed.problems);
+        return;
+      }
+      const wb = XLSX.read(buffer, { type: 'array' });
       const wsname = wb.SheetNames[0];
       const ws = wb.Sheets[wsname];
       const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-      if (data.length > 0) processRawData(data as any[][]);
+      if (data.length > 0) processRawData(data as any[][], `${file.name} · sheet ${wsname}`, []);
     };
-    reader.readAsBinaryString(file);
+    reader.readAsArrayBuffer(file);
+    e.target.value = '';
+  };
+
+  const applyImportProfile = (profile: ImportProfile, headers: string[]) => {
+    setMappings(applyProfile(profile, headers));
+    setImportTransforms(profile.transforms);
+    setImportProfileId(profile.id);
   };
 
-  const processRawData = (rows: any[][]) => {
-    const headers = rows[0].map(h => String(h).trim());
+  // A profile whose columns are all present is applied straight away; otherwise the headers are guessed
+  const processRawData = (rows: any[][], summary: string, problems: string[]) => {
+    const headers = rows[0].map(h => String(h ?? '').trim());
     setCsvHeaders(headers);
     setCsvRows(rows.slice(1));
-    const initialMappings: Record<string, string> = {};
-    REQUIRED_FIELDS.forEach(field => {
-      const match = headers.find(h => h.toLowerCase().includes(field.key.toLowerCase()) || h.toLowerCase().includes(field.label.toLowerCase()));
-      if (match) initialMappings[field.key] = match;
-    });
-    setMappings(initialMappings);
+    setImportSource({ summary: `${summary} · ${rows.length - 1} rows`, problems });
+    const best = matchProfiles(importProfiles, headers)[0];
+    if (best?.score === 1) applyImportProfile(best.profile, headers);
+    else {
+      const guessed = guessMappings(headers, REQUIRED_FIELDS.map(f => f.key));
+      setMappings(guessed);
+      setImportTransforms({ ...defaultImportTransforms, amountLayout: guessAmountLayout(guessed) });
+      setImportProfileId(null);
+    }
     setImportStep('mapping');
   };
 
   const handleTextImport = () => {
-    const rows = importText.trim().split('\n').map(l => l.split(',').map(cell => cell.trim()));
-    if (rows.length > 0) processRawData(rows);
+    const parsed = parseDelimited(importText);
+    if (parsed.rows.length > 0) processRawData(parsed.rows, `Pasted text · ${DELIMITER_LABELS[parsed.delimiter]}-separated`, parsed.problems);
+  };
+
+  const saveProfile = (name: string) => {
+    const next = saveImportProfile(importProfiles, name, mappings, importTransforms);
+    setImportProfiles(next);
+    setImportProfileId(next.find(p => p.name.toLowerCase() === name.trim().toLowerCase())?.id ?? null);
+  };
+
+  const deleteProfile = (profileId: string) => {
+    setImportProfiles(importProfiles.filter(p => p.id !== profileId));
+    if (importProfileId === profileId) setImportProfileId(null);
+  };
+
+  const importFields = REQUIRED_FIELDS
+    .filter(f => fieldUsedByLayout(f.key, importTransforms.amountLayout))
+    .map(f => f.key === 'accountName' && importTransforms.offsetAccountCode ? { ...f, optional: true } : f);
+  const importProfileMatches = useMemo(() => matchProfiles(importProfiles, csvHeaders), [importProfiles, csvHeaders]);
+
+  const reviewImport = () => {
+    const layoutMappings = mappingsForLayout(mappings, importTransforms.amountLayout);
+    const rows = rowsFromSheet(csvRows, csvHeaders, layoutMappings);
+    const detected = detectDateOrder(rows.map(r => r.values.date));
+    setMappings(layoutMappings);
+    setImportRows(rows);
+    setImportDateOrder(importTransforms.dateOrder ?? detected.order);
+    setImportDateConflict(detected.conflicting);
+    setImportErrors([]);
+    setModelSuggestions([]);
+    setSuggestionError(null);
+    setImportStep('review');
+  };
+
+  const importContext = {
+    chart: accounts,
+    ledger: entries,
+    dateOrder: importDateOrder,
+    dateOrderConflicting: importDateConflict,
+    transforms: importTransforms,
+    functionalCurrency: currencySettings.functionalCurrency,
+    rates: exchangeRates,
+    lockedThrough: lockedThrough(closedPeriods)
+  };
+  const importValidation = useMemo(
+    () => importStep === 'review' ? validateImport(importRows, { ...importContext, batch: 'preview' }) : null,
+    [importStep, importRows, importDateOrder, importDateConflict, importTransforms, accounts, entries, currencySettings, exchangeRates, closedPeriods]
+  );
+
+  // Included rows that arrived without an account, with the side their amount puts them on
+  const unlabelledRows: UnlabelledRow[] = useMemo(() => importValidation
+    ? importRows.filter(r => !r.excluded && !r.values.accountName.trim()).map(r => ({ rowIndex: r.index, description: r.values.description, type: importValidation.sides[r.index] ?? null }))
+    : [], [importRows, importValidation]);
+  const importHistory = useMemo(
+    () => importStep === 'review' ? buildHistoryModel(transactions, importTransforms.offsetAccountCode) : null,
+    [importStep, transactions, importTransforms.offsetAccountCode]
+  );
+  const importSuggestions = useMemo(() => {
+    if (!importHistory) return [];
+    const wanted = new Set(unlabelledRows.map(r => r.rowIndex));
+    return mergeSuggestions(suggestCategories(unlabelledRows, bankRules, importHistory, accounts), modelSuggestions.filter(s => wanted.has(s.rowIndex)));
+  }, [unlabelledRows, importHistory, bankRules, accounts, modelSuggestions]);
+
+  // Only rows the rules and past postings could not place with confidence go to the model
+  const suggestImportAccounts = async () => {
+    const confident = new Set(importSuggestions.filter(s => s.confidence >= CONFIDENT_SUGGESTION).map(s => s.rowIndex));
+    setIsSuggesting(true);
+    setSuggestionError(null);
+    try {
+      const suggested = await suggestWithModel(unlabelledRows.filter(r => !confident.has(r.rowIndex)), accounts, statements, analysisSettings);
+      setModelSuggestions(prev => [...prev.filter(p => !suggested.some(s => s.rowIndex === p.rowIndex)), ...suggested]);
+    } catch (e) {
+      setSuggestionError(e instanceof AnalysisError ? e.message : 'Suggestions could not be fetched.');
+    } finally {
+      setIsSuggesting(false);
+    }
   };
 
   const finalizeImport = () => {
+    const audit = newPostingAudit(userName, 'import');
+    const result = validateImport(importRows, { ...importContext, batch: String(Date.parse(audit.postedAt)) });
+    if (result.entries.length === 0) return;
     try {
-      const newTransactions: Transaction[] = csvRows.map((row, idx) => {
-        const getVal = (fieldKey: string) => row[csvHeaders.indexOf(mappings[fieldKey])];
-        const amount = parseFloat(String(getVal('amount')).replace(/[^0-9.-]+/g, ""));
-        return {
-          id: `new-${idx}-${Date.now()}`,
-          date: String(getVal('date')),
-          description: String(getVal('description')),
-          accountName: String(getVal('accountName')),
-          category: String(getVal('category')) as AccountCategory,
-          amount: isNaN(amount) ? 0 : amount,
-          type: String(getVal('type')).toLowerCase().includes('credit') ? TransactionType.CREDIT : TransactionType.DEBIT
-        };
-      });
-      setTransactions([...transactions, ...newTransactions]);
+      setEntries(postEntries(entries, result.entries, result.chart, importContext.lockedThrough, audit));
+      setAccounts(result.chart);
+      if (importProfileId) setImportProfiles(importProfiles.map(p => p.id === importProfileId ? { ...p, lastUsedAt: audit.postedAt } : p));
       resetImport();
-    } catch (e) { alert("Error processing data."); }
+    } catch (e) {
+      setImportErrors(e instanceof LedgerError ? e.problems : ['The import could not be posted.']);
+    }
   };
 
   const resetImport = () => {
@@ -124,44 +453,100 @@ const App: React.FC = () => {
     setCsvHeaders([]);
     setCsvRows([]);
     setMappings({});
+    setImportTransforms(defaultImportTransforms);
+    setImportProfileId(null);
+    setImportSource({ summary: '', problems: [] });
+    setImportRows([]);
+    setImportErrors([]);
+    setModelSuggestions([]);
+    setSuggestionError(null);
   };
 
-  const handleExportExcel = () => {
-    const wb = XLSX.utils.book_new();
-    let ws;
-    let fileName = `FinReport_${activeTab}_${new Date().toISOString().split('T')[0]}.xlsx`;
-
-    switch (activeTab) {
-      case 'transactions':
-        ws = XLSX.utils.json_to_sheet(transactions);
-        XLSX.utils.book_append_sheet(wb, ws, "Transactions");
-        break;
-      case 'income':
-        ws = XLSX.utils.aoa_to_sheet([["Revenue"], ...statements.incomeStatement.revenue.map(i => [i.label, i.amount]), ["Total", statements.incomeStatement.totalRevenue], [], ["Expenses"], ...statements.incomeStatement.expenses.map(i => [i.label, i.amount]), ["Total", statements.incomeStatement.totalExpenses], [], ["Net Income", statements.incomeStatement.netIncome]]);
-        XLSX.utils.book_append_sheet(wb, ws, "Income Statement");
-        break;
-      case 'equity':
-        ws = XLSX.utils.json_to_sheet(statements.equityChanges);
-        XLSX.utils.book_append_sheet(wb, ws, "Changes in Equity");
-        break;
-      case 'notes':
-        ws = XLSX.utils.aoa_to_sheet(statements.notes.flatMap(n => [[`Note ${n.noteNumber}: ${n.title}`], [n.content], ...(n.data?.map(d => [d.label, d.amount]) || []), []]));
-        XLSX.utils.book_append_sheet(wb, ws, "Notes");
-        break;
-      default:
-        ws = XLSX.utils.json_to_sheet(transactions);
-        XLSX.utils.book_append_sheet(wb, ws, "Ledger");
-    }
-    XLSX.writeFile(wb, fileName);
+  // Each bank account's latest reconciliation within the statements' period
+  const handleExportWorkbook = () => {
+    const periodEnd = statements.period?.end;
+    const reconciliations = bankAccounts.flatMap(bankAccount => {
+      const results = reconcileBankAccount(entries, accounts, bankAccount, bankStatements, reconSettings).filter(r => !periodEnd || r.statement.periodEnd <= periodEnd);
+      return results.length > 0 ? [{ bankAccount, reconciliation: results[results.length - 1] }] : [];
+    });
+    const companyName = activeWorkspace?.name ?? 'Company';
+    const bytes = buildWorkbook({ companyName, statements, entries, accounts, functionalCurrency: currencySettings.functionalCurrency, rates: exchangeRates, reconciliations });
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = workbookFileName(companyName, statements);
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  const handleGenerateAI = async () => {
-    setIsAnalyzing(true);
+  const activeReport = analysisReports.find(r => r.id === activeReportId) ?? null;
+  const reportIsCurrent = activeReport?.statementsHash === statementsHash;
+  const commentary = activeReport ? reportToText(activeReport.report, activeReport.currency) : undefined;
+
+  // The AI CFO tab only prints once there is an analysis to print
+  const pdfSection = PACK_SECTIONS_BY_TAB[activeTab] === 'commentary' && !commentary ? null : PACK_SECTIONS_BY_TAB[activeTab] ?? null;
+
+  const handleExportPdf = (scope: PdfScope, includeCommentary: boolean) => {
+    const companyName = activeWorkspace?.name ?? 'Company';
+    const section = pdfSection ?? undefined;
+    const sections: PackSection[] = scope === 'pack'
+      ? [...FULL_PACK, ...(includeCommentary && commentary ? ['commentary' as PackSection] : [])]
+      : section ? [section] : FULL_PACK;
+    const bytes = buildReportPack({ companyName, current: statements, prior: priorStatements, sections, cover: scope === 'pack', commentary });
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = packFileName(companyName, statements, scope === 'pack' ? undefined : section);
+    link.click();
+    URL.revokeObjectURL(url);
+    setShowPdfDialog(false);
+  };
+
+  const changeAnalysisSettings = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+  };
+
+  // A report already made from these exact statements by the same provider and model is shown
+  // again instead of asking for a new one, unless a fresh one is asked for
+  const handleGenerateAI = async (regenerate = false) => {
     setActiveTab('ai');
-    const analysis = await getFinancialAnalysis(statements);
-    setAiAnalysis(analysis || "No analysis generated.");
-    setIsAnalyzing(false);
+    setAiError(null);
+    const cached = regenerate ? undefined : findCachedReport(analysisReports, statementsHash, analysisSettings);
+    if (cached) {
+      setActiveReportId(cached.id);
+      return;
+    }
+    setIsAnalyzing(true);
+    setReportPreview(null);
+    try {
+      const stored = await runAnalysis(statements, analysisSettings, setReportPreview);
+      setAnalysisReports(prev => [stored, ...prev]);
+      setCompareReportId(prev => prev ?? activeReportId);
+      setActiveReportId(stored.id);
+    } catch (e) {
+      setAiError(e instanceof AnalysisError ? e.message : 'The analysis failed.');
+    } finally {
+      setIsAnalyzing(false);
+      setReportPreview(null);
+    }
+  };
+
+  const deleteReport = (id: string) => {
+    setAnalysisReports(prev => prev.filter(r => r.id !== id));
+    if (activeReportId === id) setActiveReportId(analysisReports.find(r => r.id !== id)?.id ?? null);
+    if (compareReportId === id) setCompareReportId(null);
+  };
+
+  // Citations open the statement they cite with the line highlighted
+  const openCitation = (citation: ReportCitation) => {
+    setCitationFocus(citation);
+    setActiveTab(citation.report);
   };
+  const highlightLabel = citationFocus?.report === activeTab ? citationFocus.label : undefined;
+  useEffect(() => {
+    if (citationFocus && citationFocus.report !== activeTab) setCitationFocus(null);
+  }, [activeTab]);
 
   const COLORS = ['#10b981', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6'];
 
@@ -173,7 +558,14 @@ const App: React.FC = () => {
           <div className="bg-emerald-500 p-2 rounded-lg">
             <DollarSign size={24} className="text-white" />
           </div>
-          <h1 className="text-xl font-bold tracking-tight">FinReport Pro</h1>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold tracking-tight">FinReport Pro</h1>
+            {activeWorkspace && (
+              <select value={activeWorkspace.id} onChange={(e) => switchWorkspace(e.target.value)} className="mt-1 max-w-full bg-transparent text-xs font-bold text-slate-400 outline-none cursor-pointer hover:text-white">
+                {workspaces.map(w => <option key={w.id} value={w.id} className="text-slate-900">{w.name}</option>)}
+              </select>
+            )}
+          </div>
         </div>
         
         <nav className="flex-1 p-4 space-y-1">
@@ -184,6 +576,21 @@ const App: React.FC = () => {
           <button onClick={() => setActiveTab('transactions')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'transactions' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/50' : 'text-slate-400 hover:bg-slate-800'}`}>
             <ArrowRightLeft size={18} /> General Ledger
           </button>
+          <button onClick={() => setActiveTab('accounts')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'accounts' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/50' : 'text-slate-400 hover:bg-slate-800'}`}>
+            <BookOpen size={18} /> Chart of Accounts
+          </button>
+          <button onClick={() => setActiveTab('close')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'close' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/50' : 'text-slate-400 hover:bg-slate-800'}`}>
+            <Lock size={18} /> Period Close
+          </button>
+          <button onClick={() => setActiveTab('currencies')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'currencies' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/50' : 'text-slate-400 hover:bg-slate-800'}`}>
+            <Coins size={18} /> Currencies & FX
+          </button>
+          <button onClick={() => setActiveTab('workspaces')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'workspaces' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/50' : 'text-slate-400 hover:bg-slate-800'}`}>
+            <Building2 size={18} /> Companies
+          </button>
+          <button onClick={() => setActiveTab('audit')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'audit' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/50' : 'text-slate-400 hover:bg-slate-800'}`}>
+            <History size={18} /> Audit Trail
+          </button>
 
           <p className="px-4 py-2 mt-4 text-[10px] uppercase font-bold text-slate-500 tracking-widest">Reports</p>
           <button onClick={() => setActiveTab('trial-balance')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'trial-balance' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>
@@ -209,6 +616,9 @@ const App: React.FC = () => {
           <button onClick={() => setActiveTab('reconciliation')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'reconciliation' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>
             <RotateCcw size={18} /> Bank Recon
           </button>
+          <button onClick={() => setActiveTab('budgets')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'budgets' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>
+            <Target size={18} /> Budgets
+          </button>
           <button onClick={() => setActiveTab('variance')} className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${activeTab === 'variance' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:bg-slate-800'}`}>
             <BarChart3 size={18} /> Variance Analysis
           </button>
@@ -217,9 +627,12 @@ const App: React.FC = () => {
           </button>
           
           <div className="pt-4 mt-4 border-t border-slate-800">
-            <button onClick={handleGenerateAI} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'ai' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/50' : 'text-indigo-400 hover:bg-slate-800 hover:text-indigo-300'}`}>
+            <button onClick={() => handleGenerateAI()} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'ai' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/50' : 'text-indigo-400 hover:bg-slate-800 hover:text-indigo-300'}`}>
               <BrainCircuit size={20} /> AI CFO Insights
             </button>
+            <button onClick={() => setActiveTab('ask-ledger')} className={`mt-2 w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${activeTab === 'ask-ledger' ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-900/50' : 'text-indigo-400 hover:bg-slate-800 hover:text-indigo-300'}`}>
+              <MessageSquareText size={20} /> Ask the Ledger
+            </button>
           </div>
         </nav>
       </aside>
@@ -231,26 +644,49 @@ const App: React.FC = () => {
             {activeTab.replace('-', ' ')}
           </h2>
           <div className="flex gap-3">
+            <PeriodSelector
+              periods={periods}
+              selected={selectedPeriod}
+              granularity={granularity}
+              fiscalSettings={fiscalSettings}
+              onSelect={setSelectedPeriodId}
+              onGranularityChange={(g) => { setGranularity(g); setSelectedPeriodId(null); }}
+              onFiscalSettingsChange={(fs) => { setFiscalSettings(fs); setSelectedPeriodId(null); }}
+            />
             <button onClick={() => setShowImportModal(true)} className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-all text-sm font-bold border border-slate-200">
               <Upload size={16} /> Import
             </button>
-            <button onClick={handleExportExcel} className="flex items-center gap-2 px-3 py-1.5 bg-white text-slate-700 rounded-lg hover:bg-slate-50 transition-all text-sm font-bold border border-slate-200 shadow-sm">
-              <FileSpreadsheet size={16} className="text-emerald-600" /> Excel
+            <button onClick={handleExportWorkbook} title="Every statement in one workbook, with formulas linked to the ledger" className="flex items-center gap-2 px-3 py-1.5 bg-white text-slate-700 rounded-lg hover:bg-slate-50 transition-all text-sm font-bold border border-slate-200 shadow-sm">
+              <FileSpreadsheet size={16} className="text-emerald-600" /> Workbook
             </button>
-            <button className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-all text-sm font-bold shadow-md shadow-emerald-200">
+            <button onClick={() => setShowPdfDialog(true)} className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-all text-sm font-bold shadow-md shadow-emerald-200">
               <Download size={16} /> PDF
             </button>
           </div>
         </header>
 
         <div className="flex-1 p-8 overflow-y-auto">
+          {storageError && activeTab !== 'workspaces' && (
+            <div className="mb-8 p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+              <AlertCircle size={18} className="shrink-0 mt-0.5" />
+              <p>{storageError}</p>
+            </div>
+          )}
+
+          {statements.currency !== currencySettings.reportingCurrency && (
+            <div className="mb-8 p-6 bg-amber-50 border-2 border-amber-200 rounded-2xl text-sm font-bold text-amber-800 flex gap-3">
+              <AlertCircle size={18} className="shrink-0 mt-0.5" />
+              <p>No {currencySettings.functionalCurrency}/{currencySettings.reportingCurrency} rate on or before {selectedPeriod.end}, so statements are shown in {statements.currency}. Add a rate under Currencies & FX.</p>
+            </div>
+          )}
+
           {/* Dashboard View */}
           {activeTab === 'dashboard' && (
             <div className="space-y-8 animate-in fade-in slide-in-from-bottom-2 duration-500">
                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                 <div className="bg-white p-6 rounded-2xl border shadow-sm hover:shadow-md transition-shadow">
                   <p className="text-slate-500 text-xs font-black uppercase tracking-widest">Net Income</p>
-                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.incomeStatement.netIncome)}</p>
+                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.incomeStatement.netIncome, statements.currency)}</p>
                   <div className={`flex items-center gap-1 text-xs font-bold mt-2 ${statements.incomeStatement.netIncome > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
                     <TrendingUp size={14} /> {(statements.incomeStatement.netIncome / (statements.incomeStatement.totalRevenue || 1) * 100).toFixed(1)}% Margin
                   </div>
@@ -258,21 +694,23 @@ const App: React.FC = () => {
                 {/* Other cards... */}
                 <div className="bg-white p-6 rounded-2xl border shadow-sm">
                   <p className="text-slate-500 text-xs font-black uppercase tracking-widest">Total Assets</p>
-                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.balanceSheet.totalAssets)}</p>
+                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.balanceSheet.totalAssets, statements.currency)}</p>
                   <div className="text-[10px] text-slate-400 font-bold mt-2 uppercase tracking-tight">Financial Health: Excellent</div>
                 </div>
                 <div className="bg-white p-6 rounded-2xl border shadow-sm">
                   <p className="text-slate-500 text-xs font-black uppercase tracking-widest">Total Equity</p>
-                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.balanceSheet.totalEquity)}</p>
+                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.balanceSheet.totalEquity, statements.currency)}</p>
                   <div className="text-[10px] text-emerald-600 font-bold mt-2 uppercase">Stable Base</div>
                 </div>
                 <div className="bg-white p-6 rounded-2xl border shadow-sm">
-                  <p className="text-slate-500 text-xs font-black uppercase tracking-widest">Operating Cash</p>
-                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.cashFlow.netCashFlow)}</p>
+                  <p className="text-slate-500 text-xs font-black uppercase tracking-widest">Net Cash Flow</p>
+                  <p className="text-3xl font-black text-slate-900 mt-2">{formatCurrency(statements.cashFlow.netCashFlow, statements.currency)}</p>
                   <div className="text-[10px] text-blue-600 font-bold mt-2 uppercase">Liquid Asset</div>
                 </div>
               </div>
 
+              <RatioDashboard trend={ratios} settings={kpiSettings} currency={statements.currency} onSettingsChange={setKpiSettings} />
+
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 <div className="lg:col-span-2 bg-white p-8 rounded-2xl border shadow-sm">
                   <h3 className="text-lg font-black text-slate-800 mb-8 border-b pb-4">Revenue Performance</h3>
@@ -301,7 +739,7 @@ const App: React.FC = () => {
                         <Pie data={statements.balanceSheet.assets} cx="50%" cy="50%" innerRadius={60} outerRadius={85} paddingAngle={8} dataKey="amount" nameKey="label" label={({ percent }) => `${(percent * 100).toFixed(0)}%`}>
                           {statements.balanceSheet.assets.map((_, index) => ( <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} className="outline-none" /> ))}
                         </Pie>
-                        <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                        <Tooltip formatter={(value: number) => formatCurrency(value, statements.currency)} />
                       </PieChart>
                     </ResponsiveContainer>
                    </div>
@@ -315,7 +753,7 @@ const App: React.FC = () => {
             <div className="max-w-5xl mx-auto bg-white p-12 rounded-3xl border shadow-xl animate-in fade-in slide-in-from-bottom-4">
               <div className="text-center mb-16">
                 <h1 className="text-4xl font-black text-slate-900 tracking-tighter">Statement of Changes in Equity</h1>
-                <p className="text-slate-500 font-bold uppercase tracking-widest text-sm mt-3">For the Period Ended October 31, 2023</p>
+                <p className="text-slate-500 font-bold uppercase tracking-widest text-sm mt-3">{periodSubtitle(statements, 'For the Period Ended')}</p>
               </div>
 
               <div className="overflow-x-auto">
@@ -326,30 +764,43 @@ const App: React.FC = () => {
                       <th className="py-6 px-4 font-black text-slate-900 uppercase tracking-tighter text-lg text-right">Opening Balance</th>
                       <th className="py-6 px-4 font-black text-slate-900 uppercase tracking-tighter text-lg text-right">Net Income</th>
                       <th className="py-6 px-4 font-black text-slate-900 uppercase tracking-tighter text-lg text-right">Contributions</th>
-                      <th className="py-6 px-4 font-black text-slate-900 uppercase tracking-tighter text-lg text-right">Withdrawals</th>
+                      <th className="py-6 px-4 font-black text-slate-900 uppercase tracking-tighter text-lg text-right">Drawings / Dividends</th>
                       <th className="py-6 px-4 font-black text-slate-900 uppercase tracking-tighter text-lg text-right bg-slate-50">Closing Balance</th>
+                      <th className="py-6 px-4 font-black text-slate-500 uppercase tracking-tighter text-lg text-right">{comparativePeriod.label}</th>
+                      <th className="py-6 px-4 font-black text-slate-500 uppercase tracking-tighter text-lg text-right">Change</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                     {statements.equityChanges.map((row, idx) => (
-                      <tr key={idx} className="hover:bg-slate-50 transition-colors">
+                      <tr key={idx} ref={row.accountName === highlightLabel ? scrollIntoView : undefined} className={`hover:bg-slate-50 transition-colors ${row.accountName === highlightLabel ? 'bg-amber-50 ring-2 ring-inset ring-amber-300' : ''}`}>
                         <td className="py-5 px-4 font-bold text-slate-800">{row.accountName}</td>
-                        <td className="py-5 px-4 text-right font-mono text-slate-600">{formatCurrency(row.openingBalance)}</td>
-                        <td className="py-5 px-4 text-right font-mono text-emerald-600">{row.netIncome !== 0 ? formatCurrency(row.netIncome) : '-'}</td>
-                        <td className="py-5 px-4 text-right font-mono text-blue-600">{row.additions !== 0 ? formatCurrency(row.additions) : '-'}</td>
-                        <td className="py-5 px-4 text-right font-mono text-rose-600">{row.withdrawals !== 0 ? formatCurrency(row.withdrawals) : '-'}</td>
-                        <td className="py-5 px-4 text-right font-black font-mono bg-slate-50 text-slate-900">{formatCurrency(row.closingBalance)}</td>
+                        <td className="py-5 px-4 text-right font-mono text-slate-600">{formatCurrency(row.openingBalance, statements.currency)}</td>
+                        <td className="py-5 px-4 text-right font-mono text-emerald-600">{row.netIncome !== 0 ? formatCurrency(row.netIncome, statements.currency) : '-'}</td>
+                        <td className="py-5 px-4 text-right font-mono text-blue-600">{row.additions !== 0 ? formatCurrency(row.additions, statements.currency) : '-'}</td>
+                        <td className="py-5 px-4 text-right font-mono text-rose-600">{row.withdrawals !== 0 ? formatCurrency(row.withdrawals, statements.currency) : '-'}</td>
+                        <td className="py-5 px-4 text-right font-black font-mono bg-slate-50 text-slate-900">{formatCurrency(row.closingBalance, statements.currency)}</td>
+                        {(() => {
+                          const prior = priorStatements.equityChanges.find(p => p.accountName === row.accountName)?.closingBalance ?? 0;
+                          return (
+                            <>
+                              <td className="py-5 px-4 text-right font-mono text-slate-500">{formatCurrency(prior, statements.currency)}</td>
+                              <td className="py-5 px-4 text-right font-mono text-slate-600">{formatCurrency(row.closingBalance - prior, statements.currency)} <span className="text-xs">{formatChangePercent(prior === 0 ? null : (row.closingBalance - prior) / Math.abs(prior) * 100)}</span></td>
+                            </>
+                          );
+                        })()}
                       </tr>
                     ))}
                   </tbody>
                   <tfoot>
                     <tr className="border-t-4 border-slate-900 bg-slate-900 text-white">
                       <td className="py-6 px-4 font-black text-xl">TOTAL EQUITY</td>
-                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.openingBalance, 0))}</td>
-                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.netIncome, 0))}</td>
-                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.additions, 0))}</td>
-                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.withdrawals, 0))}</td>
-                      <td className="py-6 px-4 text-right font-black font-mono text-2xl">{formatCurrency(statements.balanceSheet.totalEquity)}</td>
+                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.openingBalance, 0), statements.currency)}</td>
+                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.netIncome, 0), statements.currency)}</td>
+                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.additions, 0), statements.currency)}</td>
+                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.equityChanges.reduce((s, r) => s + r.withdrawals, 0), statements.currency)}</td>
+                      <td className="py-6 px-4 text-right font-black font-mono text-2xl">{formatCurrency(statements.balanceSheet.totalEquity, statements.currency)}</td>
+                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(priorStatements.balanceSheet.totalEquity, statements.currency)}</td>
+                      <td className="py-6 px-4 text-right font-mono">{formatCurrency(statements.balanceSheet.totalEquity - priorStatements.balanceSheet.totalEquity, statements.currency)}</td>
                     </tr>
                   </tfoot>
                 </table>
@@ -359,38 +810,67 @@ const App: React.FC = () => {
 
           {/* Financial Notes View */}
           {activeTab === 'notes' && (
-            <div className="max-w-4xl mx-auto bg-white p-16 rounded-3xl border shadow-xl animate-in fade-in slide-in-from-bottom-4 space-y-16">
-              <div className="text-center">
-                <h1 className="text-4xl font-black text-slate-900 tracking-tighter uppercase">Notes to the Financial Statements</h1>
-                <p className="text-slate-500 font-bold mt-4 uppercase tracking-widest text-sm">Integral part of the 2023 Financial Reporting Package</p>
+            <div className="max-w-4xl mx-auto space-y-6">
+              <div className="flex justify-end">
+                <button onClick={() => setEditingNotes(!editingNotes)} className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black border-2 ${editingNotes ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 hover:bg-slate-50'}`}>
+                  <Pencil size={14} /> {editingNotes ? 'Done' : 'Edit Templates'}
+                </button>
               </div>
+              {editingNotes ? (
+                <NoteTemplateEditor templates={noteTemplates} notes={statements.notes} onChange={setNoteTemplates} />
+              ) : (
+                <div className="bg-white p-16 rounded-3xl border shadow-xl animate-in fade-in slide-in-from-bottom-4 space-y-16">
+                  <div className="text-center">
+                    <h1 className="text-4xl font-black text-slate-900 tracking-tighter uppercase">Notes to the Financial Statements</h1>
+                    <p className="text-slate-500 font-bold mt-4 uppercase tracking-widest text-sm">Integral part of the {selectedPeriod.label} Financial Reporting Package</p>
+                  </div>
 
-              <div className="space-y-12">
-                {statements.notes.map((note) => (
-                  <section key={note.noteNumber} className="border-l-4 border-slate-900 pl-8">
-                    <h2 className="text-2xl font-black text-slate-900 mb-4 tracking-tight">Note {note.noteNumber}. {note.title}</h2>
-                    <p className="text-slate-600 leading-relaxed text-lg mb-6">{note.content}</p>
-                    {note.data && note.data.length > 0 && (
-                      <div className="bg-slate-50 p-6 rounded-2xl border">
-                        <table className="w-full text-sm">
-                          <tbody>
-                            {note.data.map((item, i) => (
-                              <tr key={i} className="border-b border-slate-200 last:border-0">
-                                <td className="py-3 font-bold text-slate-700">{item.label}</td>
-                                <td className="py-3 text-right font-mono text-slate-900">{formatCurrency(item.amount)}</td>
-                              </tr>
-                            ))}
-                            <tr className="border-t-2 border-slate-400">
-                              <td className="py-4 font-black text-slate-900">Total</td>
-                              <td className="py-4 text-right font-black text-slate-900">{formatCurrency(note.data.reduce((s, x) => s + x.amount, 0))}</td>
-                            </tr>
-                          </tbody>
-                        </table>
-                      </div>
-                    )}
-                  </section>
-                ))}
-              </div>
+                  <div className="space-y-12">
+                    {statements.notes.map((note) => (
+                      <section key={note.noteNumber} className="border-l-4 border-slate-900 pl-8">
+                        <h2 className="text-2xl font-black text-slate-900 mb-4 tracking-tight">Note {note.noteNumber}. {note.title}</h2>
+                        <p className="text-slate-600 leading-relaxed text-lg mb-6">{note.content}</p>
+                        {note.data && note.data.length > 0 && (() => {
+                          const priorData = priorStatements.notes.find(n => n.id === note.id)?.data ?? [];
+                          const rows = buildComparative(note.data, priorData);
+                          return (
+                            <div className="bg-slate-50 p-6 rounded-2xl border">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-[10px] uppercase font-black tracking-widest text-slate-500">
+                                    <th></th>
+                                    <th className="pb-2 text-right">{selectedPeriod.label}</th>
+                                    <th className="pb-2 text-right">{comparativePeriod.label}</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {rows.map((item, i) => (
+                                    <tr
+                                      key={i}
+                                      onClick={item.source ? () => setDrillDown({ label: item.label, amount: item.current, source: item.source! }) : undefined}
+                                      title={item.source ? 'Show the ledger postings behind this line' : undefined}
+                                      className={`border-b border-slate-200 last:border-0 ${item.source ? 'cursor-pointer group hover:bg-white' : ''}`}
+                                    >
+                                      <td className="py-3 font-bold text-slate-700 group-hover:text-emerald-700 group-hover:underline">{item.label}</td>
+                                      <td className="py-3 text-right font-mono text-slate-900">{formatCurrency(item.current, statements.currency)}</td>
+                                      <td className="py-3 text-right font-mono text-slate-500">{formatCurrency(item.prior, statements.currency)}</td>
+                                    </tr>
+                                  ))}
+                                  <tr className="border-t-2 border-slate-400">
+                                    <td className="py-4 font-black text-slate-900">{note.totalLabel ?? 'Total'}</td>
+                                    <td className="py-4 text-right font-black text-slate-900">{formatCurrency(rows.reduce((s, x) => s + x.current, 0), statements.currency)}</td>
+                                    <td className="py-4 text-right font-black text-slate-500">{formatCurrency(rows.reduce((s, x) => s + x.prior, 0), statements.currency)}</td>
+                                  </tr>
+                                </tbody>
+                              </table>
+                            </div>
+                          );
+                        })()}
+                      </section>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -406,12 +886,12 @@ const App: React.FC = () => {
                    </div>
                    <div>
                      <h3 className="text-4xl font-black tracking-tighter">AI CFO Assistant</h3>
-                     <p className="text-indigo-300 font-bold uppercase tracking-widest text-xs mt-1">powered by Gemini Intelligence</p>
+                     <p className="text-indigo-300 font-bold uppercase tracking-widest text-xs mt-1">powered by {PROVIDER_LABELS[analysisSettings.provider]}</p>
                    </div>
                  </div>
-                 {!aiAnalysis && !isAnalyzing && (
-                   <button onClick={handleGenerateAI} className="bg-indigo-600 text-white px-10 py-5 rounded-2xl font-black text-lg hover:bg-indigo-500 transition-all flex items-center gap-4 shadow-xl shadow-indigo-600/30 group active:scale-95">
-                     Analyze Full Period Data <ArrowRightLeft className="group-hover:rotate-180 transition-transform duration-700" />
+                 {!isAnalyzing && (
+                   <button onClick={() => handleGenerateAI(reportIsCurrent)} className="bg-indigo-600 text-white px-10 py-5 rounded-2xl font-black text-lg hover:bg-indigo-500 transition-all flex items-center gap-4 shadow-xl shadow-indigo-600/30 group active:scale-95">
+                     {reportIsCurrent ? 'Regenerate Analysis' : 'Analyze Full Period Data'} <ArrowRightLeft className="group-hover:rotate-180 transition-transform duration-700" />
                    </button>
                  )}
                  {isAnalyzing && (
@@ -423,69 +903,217 @@ const App: React.FC = () => {
                </div>
              </div>
 
-             {aiAnalysis && (
+             {aiError && (
+               <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+                 <AlertCircle size={18} className="shrink-0 mt-0.5" />
+                 <p>{aiError}</p>
+               </div>
+             )}
+
+             {!isAnalyzing && (
+               <AnalysisSettingsPanel settings={analysisSettings} hasBuiltInKey={!!BUILT_IN_GEMINI_KEY} onChange={changeAnalysisSettings} onClearRecordings={clearRecordedResponses} />
+             )}
+
+             {isAnalyzing && reportPreview && (
+               <div className="bg-white p-16 rounded-[40px] border shadow-2xl relative border-slate-200">
+                 <AnalysisReportView report={reportPreview} currency={statements.currency} streaming onCite={openCitation} />
+               </div>
+             )}
+
+             {!isAnalyzing && activeReport && (
                <div className="bg-white p-16 rounded-[40px] border shadow-2xl leading-relaxed max-w-none relative border-slate-200">
-                 <div className="flex items-center gap-4 text-slate-400 mb-12 border-b border-slate-100 pb-8 uppercase text-[10px] font-black tracking-[0.2em]">
+                 <div className="flex flex-wrap items-center gap-4 text-slate-400 mb-12 border-b border-slate-100 pb-8 uppercase text-[10px] font-black tracking-[0.2em]">
                    <AlertCircle size={18} className="text-indigo-500" />
-                   <span>Financial Strategy Briefing • Professional Grade • Gemini 3.0</span>
-                 </div>
-                 <div className="whitespace-pre-wrap text-slate-900 text-xl font-medium selection:bg-indigo-100 leading-loose">
-                   {aiAnalysis}
+                   <span>Financial Strategy Briefing • {activeReport.periodLabel} • {activeReport.providerLabel}{activeReport.model !== 'rules' && ` • ${activeReport.model}`}</span>
+                   {reportIsCurrent
+                     ? <span className="text-emerald-600">Current figures</span>
+                     : <span className="text-amber-600">The statements have changed since this report</span>}
+                   {activeReport.fallbackReason && <span className="ml-auto normal-case tracking-normal text-amber-600">{activeReport.fallbackReason}; the offline analyst wrote this report</span>}
+                   {activeReport.droppedCitations > 0 && <span className="normal-case tracking-normal text-amber-600">{activeReport.droppedCitations} citation{activeReport.droppedCitations === 1 ? '' : 's'} to unknown lines removed</span>}
                  </div>
+                 <AnalysisReportView report={activeReport.report} currency={activeReport.currency} onCite={openCitation} />
                </div>
              )}
+
+             {!isAnalyzing && analysisReports.length > 0 && (
+               <AnalysisHistory
+                 reports={analysisReports}
+                 activeId={activeReportId}
+                 compareId={compareReportId}
+                 onSelect={setActiveReportId}
+                 onCompare={setCompareReportId}
+                 onDelete={deleteReport}
+               />
+             )}
            </div>
           )}
 
+          {activeTab === 'ask-ledger' && (
+            <AskLedger
+              accounts={accounts}
+              transactions={queryTransactions}
+              statements={statements}
+              fiscal={fiscalSettings}
+              settings={analysisSettings}
+            />
+          )}
+
           {/* Omitted other tabs for brevity - in reality, all would be here */}
-          {/* General Ledger, Trial Balance, etc. remain the same */}
           {activeTab === 'transactions' && (
-             <div className="bg-white rounded-3xl border shadow-sm overflow-hidden animate-in fade-in">
-                <div className="p-6 border-b bg-slate-50 flex justify-between items-center">
-                   <div className="relative">
-                     <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
-                     <input type="text" placeholder="Search general ledger..." className="pl-12 pr-6 py-3 border-2 border-slate-200 rounded-xl text-sm font-bold focus:border-emerald-500 outline-none w-80 bg-white transition-all" />
-                   </div>
-                </div>
-                <div className="overflow-x-auto">
-                 <table className="w-full text-left border-collapse">
-                   <thead className="bg-slate-50 text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
-                     <tr>
-                       <th className="px-8 py-5">Date</th>
-                       <th className="px-8 py-5">Description</th>
-                       <th className="px-8 py-5">Account</th>
-                       <th className="px-8 py-5">Amount</th>
-                       <th className="px-8 py-5">Type</th>
-                     </tr>
-                   </thead>
-                   <tbody className="divide-y divide-slate-100 text-sm">
-                     {transactions.map(tx => (
-                       <tr key={tx.id} className="hover:bg-slate-50 transition-colors">
-                         <td className="px-8 py-5 text-slate-500 font-mono font-bold">{tx.date}</td>
-                         <td className="px-8 py-5 font-black text-slate-900">{tx.description}</td>
-                         <td className="px-8 py-5 font-bold text-slate-600">{tx.accountName}</td>
-                         <td className="px-8 py-5 font-black text-slate-900">{formatCurrency(tx.amount)}</td>
-                         <td className="px-8 py-5">
-                           <span className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest ${tx.type === TransactionType.DEBIT ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'}`}>
-                             {tx.type}
-                           </span>
-                         </td>
-                       </tr>
-                     ))}
-                   </tbody>
-                 </table>
-                </div>
-             </div>
+            <GeneralLedger
+              currency={currencySettings.functionalCurrency}
+              user={userName}
+              entries={entries}
+              drafts={draftEntries}
+              accounts={accounts}
+              lockedThrough={lockedThrough(closedPeriods)}
+              onEntriesChange={setEntries}
+              onDraftsChange={setDraftEntries}
+            />
           )}
-          
-          {/* Trial Balance, Balance Sheet, etc. views are omitted for brevity but follow the same professional styling */}
+
+          {activeTab === 'trial-balance' && <TrialBalanceReport current={statements} prior={priorStatements} onDrillDown={setDrillDown} />}
+          {activeTab === 'income' && <IncomeStatementReport current={statements} prior={priorStatements} onDrillDown={setDrillDown} highlightLabel={highlightLabel} />}
+          {activeTab === 'balance-sheet' && <BalanceSheetReport current={statements} prior={priorStatements} onDrillDown={setDrillDown} highlightLabel={highlightLabel} />}
+          {activeTab === 'cashflow' && <CashFlowReport current={statements} prior={priorStatements} onDrillDown={setDrillDown} highlightLabel={highlightLabel} onMethodChange={setCashFlowMethod} />}
+
+          {activeTab === 'budgets' && (
+            <BudgetManager
+              currency={currencySettings.functionalCurrency}
+              budgets={budgets}
+              accounts={accounts}
+              months={fiscalYearMonths}
+              selectedBudgetId={selectedBudgetId}
+              onSelect={setSelectedBudgetId}
+              onChange={(next, id) => { setBudgets(next); setSelectedBudgetId(id); }}
+            />
+          )}
+
+          {activeTab === 'variance' && (
+            <VarianceAnalysis
+              currency={currencySettings.functionalCurrency}
+              statements={statements}
+              entries={entries}
+              accounts={accounts}
+              budgets={budgets}
+              selectedBudgetId={selectedBudgetId}
+              months={periodMonths}
+              materiality={materiality}
+              onSelectBudget={setSelectedBudgetId}
+              onMaterialityChange={setMateriality}
+              highlightLabel={highlightLabel}
+            />
+          )}
+
+          {activeTab === 'trend' && (
+            <TrendAnalysis currencySettings={currencySettings} rates={exchangeRates} entries={entries} accounts={accounts} />
+          )}
+
+          {activeTab === 'currencies' && (
+            <Currencies
+              user={userName}
+              settings={currencySettings}
+              rates={exchangeRates}
+              entries={entries}
+              accounts={accounts}
+              closedPeriods={closedPeriods}
+              period={selectedPeriod}
+              onSettingsChange={setCurrencySettings}
+              onRatesChange={setExchangeRates}
+              onEntriesChange={setEntries}
+            />
+          )}
+
+          {activeTab === 'audit' && (
+            <AuditLog
+              currency={currencySettings.functionalCurrency}
+              user={userName}
+              entries={entries}
+              accounts={accounts}
+              lockedThrough={lockedThrough(closedPeriods)}
+              onUserChange={changeUserName}
+              onEntriesChange={setEntries}
+            />
+          )}
+
+          {activeTab === 'workspaces' && (
+            <WorkspaceManager
+              workspaces={workspaces}
+              activeId={activeWorkspaceId}
+              lastSavedAt={lastSavedAt}
+              storageError={isStorageAvailable() ? storageError : 'This browser does not offer local storage, so changes are lost when the tab closes.'}
+              onSwitch={switchWorkspace}
+              onCreate={(name, withSampleData) => createWorkspace(name, withSampleData)}
+              onRename={renameWorkspace}
+              onDelete={removeWorkspace}
+              onBackup={handleBackup}
+              onRestore={handleRestore}
+            />
+          )}
+
+          {activeTab === 'close' && (
+            <PeriodClose
+              currency={currencySettings.functionalCurrency}
+              user={userName}
+              entries={entries}
+              accounts={accounts}
+              closedPeriods={closedPeriods}
+              period={selectedPeriod}
+              onChange={(nextEntries, nextClosed) => { setEntries(nextEntries); setClosedPeriods(nextClosed); }}
+            />
+          )}
+
+          {activeTab === 'accounts' && (
+            <ChartOfAccounts accounts={accounts} usedCodes={usedAccountCodes} onChange={setAccounts} />
+          )}
+
+          {activeTab === 'reconciliation' && (
+            <BankReconciliation
+              currency={currencySettings.functionalCurrency}
+              user={userName}
+              entries={entries}
+              accounts={accounts}
+              bankAccounts={bankAccounts}
+              statements={bankStatements}
+              settings={reconSettings}
+              rules={bankRules}
+              lockedThrough={lockedThrough(closedPeriods)}
+              onSettingsChange={setReconSettings}
+              onRulesChange={setBankRules}
+              onEntriesChange={setEntries}
+              onBankAccountsChange={setBankAccounts}
+              onStatementsChange={setBankStatements}
+            />
+          )}
+
+          {/* Trend view is omitted for brevity but follows the same professional styling */}
         </div>
       </main>
 
       {/* Import Modal */}
+      {drillDown && (
+        <LedgerDrillDown
+          request={drillDown}
+          statements={statements}
+          entries={entries}
+          accounts={accounts}
+          functionalCurrency={currencySettings.functionalCurrency}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+
+      {showPdfDialog && (
+        <PdfExportDialog
+          activeSection={pdfSection}
+          hasCommentary={!!commentary}
+          onExport={handleExportPdf}
+          onClose={() => setShowPdfDialog(false)}
+        />
+      )}
+
       {showImportModal && (
         <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-xl z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
-          <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-4xl overflow-hidden border border-slate-200 flex flex-col max-h-[90vh]">
+          <div className={`bg-white rounded-[40px] shadow-2xl w-full ${importStep === 'review' ? 'max-w-7xl' : 'max-w-4xl'} overflow-hidden border border-slate-200 flex flex-col max-h-[90vh]`}>
             <div className="p-10 border-b flex justify-between items-center bg-slate-50 shrink-0">
               <div className="flex items-center gap-6">
                 <div className="bg-emerald-600 p-4 rounded-3xl text-white shadow-xl shadow-emerald-200">
@@ -497,6 +1125,8 @@ const App: React.FC = () => {
                     <span className={importStep === 'input' ? 'text-emerald-600' : ''}>1. Source Data</span>
                     <ChevronRight size={14} />
                     <span className={importStep === 'mapping' ? 'text-emerald-600' : ''}>2. Column Schema</span>
+                    <ChevronRight size={14} />
+                    <span className={importStep === 'review' ? 'text-emerald-600' : ''}>3. Review</span>
                   </div>
                 </div>
               </div>
@@ -515,9 +1145,9 @@ const App: React.FC = () => {
                       </div>
                       <div className="text-center">
                         <p className="font-black text-slate-900 text-xl tracking-tight">Financial Dataset</p>
-                        <p className="text-sm font-bold text-slate-400 mt-1 uppercase tracking-widest">CSV • XLSX • XLS</p>
+                        <p className="text-sm font-bold text-slate-400 mt-1 uppercase tracking-widest">CSV • TSV • XLSX • XLS</p>
                       </div>
-                      <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.xlsx,.xls" className="hidden" />
+                      <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.tsv,.txt,.xlsx,.xls" className="hidden" />
                     </div>
 
                     <div className="border-2 border-slate-200 rounded-[32px] p-8 flex flex-col gap-6 bg-slate-50 shadow-inner">
@@ -532,34 +1162,51 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 <div className="space-y-10 animate-in slide-in-from-right-10">
-                  <div className="bg-white border-4 border-slate-100 rounded-[32px] overflow-hidden shadow-sm">
-                    <table className="w-full text-left border-collapse">
-                      <thead className="bg-slate-50 border-b-2">
-                        <tr>
-                          <th className="px-8 py-6 text-sm font-black text-slate-900 uppercase tracking-widest">Financial Field</th>
-                          <th className="px-8 py-6 text-sm font-black text-slate-900 uppercase tracking-widest">Detected CSV Column</th>
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-slate-100">
-                        {REQUIRED_FIELDS.map(field => (
-                          <tr key={field.key}>
-                            <td className="px-8 py-6">
-                              <div className="flex items-center gap-3">
-                                <span className="font-black text-slate-800 tracking-tight text-lg">{field.label}</span>
-                                {mappings[field.key] && <CheckCircle2 size={20} className="text-emerald-500" />}
-                              </div>
-                            </td>
-                            <td className="px-8 py-6">
-                              <select value={mappings[field.key] || ''} onChange={(e) => setMappings({ ...mappings, [field.key]: e.target.value })} className="w-full p-4 border-2 rounded-xl bg-slate-50 font-bold focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none appearance-none transition-all">
-                                <option value="">-- Select Source Column --</option>
-                                {csvHeaders.map(h => ( <option key={h} value={h}>{h}</option> ))}
-                              </select>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
+                  {importErrors.length > 0 && importStep === 'review' && (
+                    <div className="bg-rose-50 border-2 border-rose-200 rounded-[32px] p-8">
+                      <div className="flex items-center gap-3 font-black text-rose-700 uppercase tracking-widest text-xs mb-4">
+                        <AlertCircle size={18} />
+                        <span>Nothing was posted — fix these entries and commit again</span>
+                      </div>
+                      <ul className="space-y-2 text-sm font-bold text-rose-900 list-disc pl-6">
+                        {importErrors.map((problem, i) => <li key={i}>{problem}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {importStep === 'review' && importValidation ? (
+                    <ImportReview
+                      rows={importRows}
+                      validation={importValidation}
+                      fields={importFields.filter(f => mappings[f.key] || (importTransforms.offsetAccountCode && (f.key === 'accountName' || f.key === 'category')))}
+                      dateOrder={importDateOrder}
+                      dateOrderConflicting={importDateConflict}
+                      suggestions={importSuggestions}
+                      suggesting={isSuggesting}
+                      suggestionError={suggestionError}
+                      onRowsChange={setImportRows}
+                      onDateOrderChange={setImportDateOrder}
+                      onSuggestWithModel={suggestImportAccounts}
+                    />
+                  ) : (
+                    <ImportMapping
+                      key={importProfileId ?? 'unsaved'}
+                      headers={csvHeaders}
+                      fields={importFields}
+                      mappings={mappings}
+                      transforms={importTransforms}
+                      accounts={accounts}
+                      profiles={importProfiles}
+                      matches={importProfileMatches}
+                      activeProfileId={importProfileId}
+                      sourceSummary={importSource.summary}
+                      sourceProblems={importSource.problems}
+                      onMappingsChange={setMappings}
+                      onTransformsChange={setImportTransforms}
+                      onApplyProfile={(id) => { const profile = importProfiles.find(p => p.id === id); if (profile) applyImportProfile(profile, csvHeaders); }}
+                      onSaveProfile={saveProfile}
+                      onDeleteProfile={deleteProfile}
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -568,10 +1215,16 @@ const App: React.FC = () => {
               {importStep === 'mapping' && (
                 <button onClick={() => setImportStep('input')} className="px-8 py-4 border-2 rounded-2xl font-black text-slate-600 hover:bg-white transition-all">Back to Source</button>
               )}
+              {importStep === 'review' && (
+                <button onClick={() => setImportStep('mapping')} className="px-8 py-4 border-2 rounded-2xl font-black text-slate-600 hover:bg-white transition-all">Back to Columns</button>
+              )}
               <div className="flex gap-4 ml-auto">
                 <button onClick={resetImport} className="px-8 py-4 font-black text-slate-400 hover:text-slate-600 uppercase tracking-widest text-xs">Abort Import</button>
                 {importStep === 'mapping' && (
-                  <button onClick={finalizeImport} disabled={REQUIRED_FIELDS.some(f => !mappings[f.key])} className="px-12 py-4 bg-emerald-600 text-white rounded-2xl font-black text-xl shadow-2xl shadow-emerald-200 hover:bg-emerald-700 disabled:opacity-50 disabled:shadow-none transition-all active:scale-95">Commit {csvRows.length} Ledger Entries</button>
+                  <button onClick={reviewImport} disabled={missingImportFields(mappings, importTransforms).length > 0} className="px-12 py-4 bg-slate-900 text-white rounded-2xl font-black text-xl shadow-2xl hover:bg-slate-800 disabled:opacity-50 disabled:shadow-none transition-all active:scale-95">Review {csvRows.length} Rows</button>
+                )}
+                {importStep === 'review' && importValidation && (
+                  <button onClick={finalizeImport} disabled={importValidation.entries.length === 0} className="px-12 py-4 bg-emerald-600 text-white rounded-2xl font-black text-xl shadow-2xl shadow-emerald-200 hover:bg-emerald-700 disabled:opacity-50 disabled:shadow-none transition-all active:scale-95">Commit {importValidation.entries.length} Ledger Entries</button>
                 )}
               </div>
             </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { GitCompare, History, Trash2 } from 'lucide-react';
+import { StoredAnalysisReport } from '../types';
+import { compareKpis, compareRisks, formatKpi } from '../utils/analysisReport';
+
+interface AnalysisHistoryProps {
+  reports: StoredAnalysisReport[]; // Newest first
+  activeId: string | null;
+  compareId: string | null;
+  onSelect: (id: string) => void;
+  onCompare: (id: string | null) => void;
+  onDelete: (id: string) => void;
+}
+
+const generatedOn = (report: StoredAnalysisReport) =>
+  new Date(report.generatedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ reports, activeId, compareId, onSelect, onCompare, onDelete }) => {
+  const active = reports.find(r => r.id === activeId);
+  const previous = reports.find(r => r.id === compareId && r.id !== activeId);
+  const kpis = active && previous ? compareKpis(active.report, previous.report) : [];
+  const risks = active && previous ? compareRisks(active.report, previous.report) : null;
+
+  return (
+    <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+      <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><History size={20} /> Report History</h3>
+      <table className="w-full text-left border-collapse text-sm">
+        <thead>
+          <tr className="border-b-2 border-slate-200 text-[10px] uppercase font-black tracking-widest text-slate-500">
+            <th className="py-3 px-3">Period</th>
+            <th className="py-3 px-3">Generated</th>
+            <th className="py-3 px-3">Provider</th>
+            <th className="py-3 px-3 text-right">Risks</th>
+            <th className="py-3 px-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {reports.map(r => (
+            <tr key={r.id} onClick={() => onSelect(r.id)} className={`cursor-pointer transition-colors ${r.id === activeId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+              <td className="py-3 px-3 font-bold text-slate-800">{r.periodLabel}</td>
+              <td className="py-3 px-3 text-slate-600">{generatedOn(r)}</td>
+              <td className="py-3 px-3 text-slate-600">{r.providerLabel}{r.model !== 'rules' && ` · ${r.model}`}</td>
+              <td className="py-3 px-3 text-right font-mono text-slate-700">{r.report.risks.length}</td>
+              <td className="py-3 px-3 text-right">
+                <button onClick={(e) => { e.stopPropagation(); onDelete(r.id); }} title="Delete this report" className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50">
+                  <Trash2 size={14} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {active && reports.length > 1 && (
+        <div className="border-t pt-6 space-y-6">
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500 flex items-center gap-2"><GitCompare size={14} /> Compare {active.periodLabel} with
+            <select value={previous?.id ?? ''} onChange={(e) => onCompare(e.target.value || null)} className="mt-1 block w-72 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500 normal-case tracking-normal">
+              <option value="">No comparison</option>
+              {reports.filter(r => r.id !== active.id).map(r => <option key={r.id} value={r.id}>{r.periodLabel} · {generatedOn(r)}</option>)}
+            </select>
+          </label>
+
+          {previous && (
+            <>
+              <table className="w-full text-left border-collapse text-sm">
+                <thead>
+                  <tr className="border-b-2 border-slate-900 uppercase tracking-tighter font-black text-slate-900">
+                    <th className="py-3 px-3">KPI</th>
+                    <th className="py-3 px-3 text-right">{active.periodLabel}</th>
+                    <th className="py-3 px-3 text-right text-slate-500">{previous.periodLabel}</th>
+                    <th className="py-3 px-3 text-right text-slate-500">Change</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {kpis.map(k => (
+                    <tr key={k.label}>
+                      <td className="py-3 px-3 font-bold text-slate-700">{k.label}</td>
+                      <td className="py-3 px-3 text-right font-mono text-slate-900">{k.current === null ? '-' : formatKpi({ value: k.current, unit: k.unit }, active.currency)}</td>
+                      <td className="py-3 px-3 text-right font-mono text-slate-500">{k.previous === null ? '-' : formatKpi({ value: k.previous, unit: k.unit }, previous.currency)}</td>
+                      <td className={`py-3 px-3 text-right font-mono font-bold ${k.change === null || k.change === 0 ? 'text-slate-400' : k.change > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {k.change === null ? 'n/a' : `${k.change > 0 ? '+' : ''}${formatKpi({ value: k.change, unit: k.unit }, active.currency)}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {risks && (
+                <div className="grid grid-cols-2 gap-6">
+                  <div>
+                    <p className="text-[10px] uppercase font-black tracking-widest text-rose-600 mb-2">New risks</p>
+                    {risks.raised.length === 0 && <p className="text-sm italic text-slate-400">None</p>}
+                    {risks.raised.map(r => <p key={r.title} className="text-sm font-bold text-slate-800">{r.title} <span className="text-xs uppercase text-slate-400">· {r.severity}</span></p>)}
+                  </div>
+                  <div>
+                    <p className="text-[10px] uppercase font-black tracking-widest text-emerald-600 mb-2">No longer reported</p>
+                    {risks.resolved.length === 0 && <p className="text-sm italic text-slate-400">None</p>}
+                    {risks.resolved.map(r => <p key={r.title} className="text-sm font-bold text-slate-800">{r.title} <span className="text-xs uppercase text-slate-400">· {r.severity}</span></p>)}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistory;
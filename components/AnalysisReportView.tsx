@@ -0,0 +1,114 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2, Link2, ShieldAlert } from 'lucide-react';
+import { AnalysisReport, ReportCitation, RiskSeverity } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { CITABLE_REPORT_TITLES, formatKpi } from '../utils/analysisReport';
+
+interface AnalysisReportViewProps {
+  report: AnalysisReport;
+  currency: string;
+  streaming?: boolean; // Still arriving; missing citations are not flagged yet
+  onCite: (citation: ReportCitation) => void;
+}
+
+const SEVERITY_STYLES: Record<RiskSeverity, string> = {
+  critical: 'bg-rose-600 text-white',
+  high: 'bg-rose-100 text-rose-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-slate-100 text-slate-600'
+};
+
+// Citation chips open the cited statement with the line highlighted
+const Citations: React.FC<{ citations: ReportCitation[]; currency: string; streaming?: boolean; onCite: (citation: ReportCitation) => void }> = ({ citations, currency, streaming, onCite }) => {
+  if (citations.length === 0) {
+    return streaming ? null : <span className="inline-block ml-2 px-2 py-0.5 rounded-md bg-amber-50 text-amber-700 text-[10px] font-black uppercase tracking-widest align-middle">Uncited</span>;
+  }
+  return (
+    <span className="inline-flex flex-wrap gap-1.5 ml-2 align-middle">
+      {citations.map(c => (
+        <button
+          key={c.id}
+          onClick={() => onCite(c)}
+          title={`${CITABLE_REPORT_TITLES[c.report]} · ${c.label} · ${formatCurrency(c.amount, currency)}`}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-indigo-50 text-indigo-700 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100"
+        >
+          <Link2 size={10} /> {c.label}
+        </button>
+      ))}
+    </span>
+  );
+};
+
+const AnalysisReportView: React.FC<AnalysisReportViewProps> = ({ report, currency, streaming, onCite }) => {
+  const cite = (citations: ReportCitation[]) => <Citations citations={citations} currency={currency} streaming={streaming} onCite={onCite} />;
+
+  return (
+    <div className="space-y-12">
+      {report.summary.text && (
+        <section>
+          <h4 className="text-[10px] uppercase font-black tracking-widest text-slate-500 mb-4">Executive Summary</h4>
+          <p className="text-slate-900 text-xl font-medium leading-loose">{report.summary.text}{cite(report.summary.citations)}</p>
+        </section>
+      )}
+
+      {report.kpis.length > 0 && (
+        <section className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {report.kpis.map((kpi, i) => (
+            <div key={i} className="p-5 bg-slate-50 rounded-2xl border">
+              <p className="text-[10px] uppercase font-black tracking-widest text-slate-500">{kpi.label}</p>
+              <p className="text-2xl font-black font-mono text-slate-900 mt-2">{formatKpi(kpi, currency)}</p>
+              <div className="mt-2 -ml-2">{cite(kpi.citations)}</div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {report.sections.map((section, i) => (
+        <section key={i}>
+          <h4 className="text-2xl font-black text-slate-900 tracking-tight mb-4">{section.title}</h4>
+          <ul className="space-y-3">
+            {section.claims.map((claim, j) => (
+              <li key={j} className="text-slate-800 text-lg leading-relaxed">{claim.text}{cite(claim.citations)}</li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      {report.risks.length > 0 && (
+        <section>
+          <h4 className="text-2xl font-black text-slate-900 tracking-tight mb-4 flex items-center gap-2"><ShieldAlert size={22} className="text-rose-500" /> Risks</h4>
+          <div className="space-y-3">
+            {report.risks.map((risk, i) => (
+              <div key={i} className="p-5 rounded-2xl border flex gap-4 items-start">
+                <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest shrink-0 ${SEVERITY_STYLES[risk.severity]}`}>{risk.severity}</span>
+                <div>
+                  <p className="font-black text-slate-900">{risk.title}</p>
+                  <p className="text-slate-700 mt-1">{risk.detail}{cite(risk.citations)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {report.recommendations.length > 0 && (
+        <section>
+          <h4 className="text-2xl font-black text-slate-900 tracking-tight mb-4 flex items-center gap-2"><CheckCircle2 size={22} className="text-emerald-500" /> Recommendations</h4>
+          <ol className="space-y-3 list-decimal pl-6">
+            {report.recommendations.map((r, i) => (
+              <li key={i} className="text-slate-800">
+                <span className="font-black text-slate-900">{r.title}.</span> {r.detail}{cite(r.citations)}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      {streaming && (
+        <p className="flex items-center gap-2 text-sm font-bold text-indigo-500"><AlertCircle size={16} className="animate-pulse" /> Receiving report...</p>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisReportView;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { KeyRound, Settings2, Trash2 } from 'lucide-react';
+import { AnalysisProviderKind, AnalysisSettings } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS } from '../services/analysisProvider';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  hasBuiltInKey: boolean; // The app was built with a Gemini key
+  onChange: (settings: AnalysisSettings) => void;
+  onClearRecordings: () => void;
+}
+
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, hasBuiltInKey, onChange, onClearRecordings }) => {
+  const set = <K extends keyof AnalysisSettings>(key: K, value: AnalysisSettings[K]) => onChange({ ...settings, [key]: value });
+
+  // Switching provider swaps in its default model unless a custom one was typed
+  const setProvider = (provider: AnalysisProviderKind) => {
+    const isDefaultModel = Object.values(DEFAULT_MODELS).includes(settings.model) || !settings.model;
+    onChange({ ...settings, provider, model: isDefaultModel ? DEFAULT_MODELS[provider] : settings.model });
+  };
+
+  const usesModel = settings.provider !== 'offline';
+  const isLive = settings.provider === 'gemini' || settings.provider === 'openai';
+  const geminiFallsBack = settings.provider === 'gemini' && !settings.apiKey.trim() && !hasBuiltInKey;
+
+  return (
+    <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+      <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><Settings2 size={20} /> Analysis Settings</h3>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Provider
+          <select value={settings.provider} onChange={(e) => setProvider(e.target.value as AnalysisProviderKind)} className="mt-1 block w-64 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {(Object.keys(PROVIDER_LABELS) as AnalysisProviderKind[]).map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+          </select>
+        </label>
+        {usesModel && (
+          <>
+            <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Model
+              <input value={settings.model} onChange={(e) => set('model', e.target.value)} className="mt-1 block w-56 p-3 border-2 rounded-xl text-sm font-bold font-mono text-slate-900 outline-none focus:border-emerald-500" />
+            </label>
+            {isLive && (
+              <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Temperature · {settings.temperature.toFixed(1)}
+                <input type="range" min={0} max={2} step={0.1} value={settings.temperature} onChange={(e) => set('temperature', Number(e.target.value))} className="mt-3 block w-40 accent-emerald-600" />
+              </label>
+            )}
+            <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Timeout (seconds)
+              <input type="number" min={5} max={600} value={Math.round(settings.timeoutMs / 1000)} onChange={(e) => set('timeoutMs', Math.max(5, Number(e.target.value) || 0) * 1000)} className="mt-1 block w-28 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+            </label>
+          </>
+        )}
+      </div>
+      {isLive && (
+        <div className="flex flex-wrap items-end gap-4">
+          {settings.provider === 'openai' && (
+            <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Base URL
+              <input value={settings.baseUrl} onChange={(e) => set('baseUrl', e.target.value)} placeholder="http://localhost:11434/v1" className="mt-1 block w-96 p-3 border-2 rounded-xl text-sm font-bold font-mono text-slate-900 outline-none focus:border-emerald-500" />
+            </label>
+          )}
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">API Key
+            <div className="mt-1 flex items-center gap-2">
+              <KeyRound size={18} className="text-slate-400" />
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => set('apiKey', e.target.value)}
+                placeholder={settings.provider === 'gemini' && hasBuiltInKey ? 'Using the built-in key' : settings.provider === 'openai' ? 'Not needed for most local servers' : ''}
+                autoComplete="off"
+                className="w-80 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500"
+              />
+            </div>
+          </label>
+          <label className="flex items-center gap-2 pb-3 text-xs font-bold text-slate-600">
+            <input type="checkbox" checked={settings.recordResponses} onChange={(e) => set('recordResponses', e.target.checked)} className="accent-emerald-600" />
+            Record responses for offline replay
+          </label>
+        </div>
+      )}
+      {(settings.recordResponses || settings.provider === 'recorded') && (
+        <button onClick={onClearRecordings} className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black border-2 text-slate-700 hover:bg-slate-50">
+          <Trash2 size={14} /> Clear Recorded Responses
+        </button>
+      )}
+      <p className="text-xs font-bold text-slate-400">
+        {settings.provider === 'recorded'
+          ? 'Replays responses recorded in this browser, plus a bundled one for the sample company\'s October 2023 report. Nothing is sent anywhere; a request that was never recorded with this model fails instead of being guessed.'
+          : settings.provider === 'offline'
+            ? 'The offline analyst writes a rule-based report from the statements alone. Nothing leaves this browser and the same figures always give the same report.'
+            : geminiFallsBack
+              ? 'No Gemini API key is configured, so the offline analyst will write the report instead.'
+              : 'Statement totals are sent to the provider. Settings and keys are kept in this browser only and are not part of workspace backups.'}
+      </p>
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { AlertCircle, MessageSquareText, Play, Search } from 'lucide-react';
+import { Account, AnalysisSettings, FinancialStatements, FiscalSettings, Transaction } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { toDateKey } from '../utils/periods';
+import { LedgerQuery, chartSeries, defaultLedgerQuery, describeLedgerQuery, ledgerDisagreements, runLedgerQuery, validateLedgerQuery } from '../utils/ledgerQuery';
+import { AnalysisError } from '../services/analysisProvider';
+import { translateQuestion } from '../services/ledgerQueryService';
+
+interface AskLedgerProps {
+  accounts: Account[];
+  transactions: Transaction[]; // Without closing entries
+  statements: FinancialStatements; // Of the selected period
+  fiscal: FiscalSettings;
+  settings: AnalysisSettings;
+}
+
+const EXAMPLES = [
+  'What did we spend on rent in Q3 vs Q2?',
+  'Which expense accounts grew most month over month?',
+  'Revenue by month this fiscal year',
+  'What are the largest lines on the balance sheet?'
+];
+
+const COLORS = ['#10b981', '#6366f1', '#f59e0b', '#ef4444', '#3b82f6', '#8b5cf6', '#14b8a6', '#64748b'];
+
+const AskLedger: React.FC<AskLedgerProps> = ({ accounts, transactions, statements, fiscal, settings }) => {
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState<LedgerQuery | null>(null);
+  const [queryText, setQueryText] = useState('');
+  // Re-run whenever the ledger changes, so an answer never goes stale
+  const result = useMemo(() => query && runLedgerQuery(query, transactions, statements, fiscal), [query, transactions, statements, fiscal]);
+  const disagreements = useMemo(() => ledgerDisagreements(transactions, statements, fiscal), [transactions, statements, fiscal]);
+
+  const run = (next: LedgerQuery) => {
+    setQuery(next);
+    setQueryText(JSON.stringify(next, null, 2));
+  };
+
+  const ask = async (text: string) => {
+    if (!text.trim()) return;
+    setQuestion(text);
+    setAsking(true);
+    setError(null);
+    const dates = transactions.map(t => toDateKey(t.date)).sort();
+    try {
+      run(await translateQuestion(text.trim(), {
+        accounts, fiscal, statements,
+        firstDate: dates[0] ?? null,
+        lastDate: dates[dates.length - 1] ?? null,
+        today: new Date().toISOString().slice(0, 10)
+      }, settings));
+    } catch (e) {
+      setError(e instanceof AnalysisError ? e.message : 'The question could not be answered.');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  // Hand-edited queries go through the same validation as the model's
+  const runEdited = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(queryText);
+    } catch {
+      setError('The query is not valid JSON.');
+      return;
+    }
+    const { query: checked, problems } = validateLedgerQuery(parsed, accounts);
+    if (!checked) {
+      setError(`The query cannot be run: ${problems.join('; ')}.`);
+      return;
+    }
+    setError(null);
+    run(checked);
+  };
+
+  const format = (value: number) => (query?.measure === 'count' ? value.toLocaleString() : formatCurrency(value, result?.currency ?? statements.currency));
+  const chart = query && result && query.chart !== 'table' && result.rows.length > 0 ? chartSeries(query, result) : null;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-5">
+        <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><MessageSquareText size={20} /> Ask the Ledger</h3>
+        <form onSubmit={(e) => { e.preventDefault(); ask(question); }} className="flex gap-3">
+          <div className="relative flex-1">
+            <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="Ask a question about your ledger..."
+              className="w-full pl-12 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500"
+            />
+          </div>
+          <button type="submit" disabled={asking || !question.trim()} className="px-6 py-3 bg-emerald-600 text-white rounded-xl text-sm font-black hover:bg-emerald-700 disabled:opacity-40 flex items-center gap-2">
+            {asking ? <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <Play size={16} />} Ask
+          </button>
+        </form>
+        <div className="flex flex-wrap gap-2">
+          {EXAMPLES.map(example => (
+            <button key={example} onClick={() => ask(example)} disabled={asking} className="px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 text-xs font-bold hover:bg-slate-200 disabled:opacity-40">{example}</button>
+          ))}
+        </div>
+        <p className="text-xs font-bold text-slate-400">The model only writes the query. Every figure below is computed from the ledger in this browser.</p>
+      </div>
+
+      {disagreements.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{disagreements.map(d => <p key={d}>{d}.</p>)}</div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+
+      {query && result && (
+        <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+          <div>
+            <p className="text-[10px] uppercase font-black tracking-widest text-slate-500">Answer</p>
+            <p className="text-lg font-black text-slate-900 mt-1">{describeLedgerQuery(query, accounts)}</p>
+            <p className="text-xs font-bold text-slate-400 mt-1">
+              {result.matched} {query.source === 'statements' ? 'statement line' : 'posting'}{result.matched === 1 ? '' : 's'} matched
+              {query.measure !== 'count' && ` · amounts in ${result.currency}${result.currency !== statements.currency ? `, the functional currency; the statements are translated to ${statements.currency}` : ''}`}
+            </p>
+          </div>
+
+          {chart && (
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                {query.chart === 'line' ? (
+                  <LineChart data={chart.data}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend iconType="circle" />
+                    {chart.series.map((s, i) => <Line key={s} type="monotone" dataKey={s} stroke={COLORS[i % COLORS.length]} strokeWidth={3} dot={false} />)}
+                  </LineChart>
+                ) : (
+                  <BarChart data={chart.data}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend iconType="circle" />
+                    {chart.series.map((s, i) => <Bar key={s} dataKey={s} fill={COLORS[i % COLORS.length]} radius={[8, 8, 0, 0]} />)}
+                  </BarChart>
+                )}
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <table className="w-full text-left border-collapse text-sm">
+            <thead>
+              <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+                {result.columns.map((c, i) => <th key={c} className={`py-3 px-4 ${i === result.columns.length - 1 ? 'text-right' : ''}`}>{c}</th>)}
+                {result.hasChange && <th className="py-3 px-4 text-right">Change</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {result.rows.length === 0 && (
+                <tr><td colSpan={result.columns.length + 1} className="py-6 px-4 text-center italic text-slate-400">Nothing matched this query</td></tr>
+              )}
+              {result.rows.map(row => (
+                <tr key={row.keys.join('|')} className="hover:bg-slate-50">
+                  {row.group.map((g, i) => <td key={i} className="py-3 px-4 font-bold text-slate-700">{g}</td>)}
+                  <td className="py-3 px-4 text-right font-mono text-slate-900">{format(row.value)}</td>
+                  {result.hasChange && (
+                    <td className={`py-3 px-4 text-right font-mono font-bold ${row.change === null || row.change === 0 ? 'text-slate-400' : row.change > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {row.change === null ? 'n/a' : format(row.change)}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+            {result.rows.length > 1 && query.orderBy !== 'change' && (
+              <tfoot>
+                <tr className="border-t-2 border-slate-300 font-black text-slate-900">
+                  <td colSpan={result.columns.length - 1} className="py-3 px-4">Total</td>
+                  <td className="py-3 px-4 text-right font-mono">{format(result.total)}</td>
+                  {result.hasChange && <td></td>}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] uppercase font-black tracking-widest text-slate-500">Query</p>
+          <div className="flex gap-2">
+            {!query && !queryText && (
+              <button onClick={() => setQueryText(JSON.stringify(defaultLedgerQuery, null, 2))} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-black hover:bg-slate-200">Start from a template</button>
+            )}
+            <button onClick={runEdited} disabled={!queryText.trim()} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-xs font-black hover:bg-slate-700 disabled:opacity-40 flex items-center gap-2"><Play size={14} /> Run Query</button>
+          </div>
+        </div>
+        <textarea
+          value={queryText}
+          onChange={(e) => setQueryText(e.target.value)}
+          spellCheck={false}
+          rows={12}
+          placeholder="The query behind each answer appears here. Edit it and run it again, or write one by hand."
+          className="w-full p-4 border-2 rounded-xl text-xs font-mono text-slate-900 bg-slate-50 outline-none focus:border-emerald-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AskLedger;
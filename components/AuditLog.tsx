@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ChevronRight, History, RotateCcw, Undo2, UserRound } from 'lucide-react';
+import { Account, JournalEntry, PostingSource } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { LedgerError, entryTotals } from '../utils/ledger';
+import { AuditBatch, LEGACY_BATCH_ID, SOURCE_LABELS, newPostingAudit, reverseEntries, reversalsByEntry, summariseBatches } from '../utils/audit';
+
+interface AuditLogProps {
+  currency: string;
+  user: string;
+  entries: JournalEntry[];
+  accounts: Account[];
+  lockedThrough?: string;
+  onUserChange: (user: string) => void;
+  onEntriesChange: (entries: JournalEntry[]) => void;
+}
+
+const formatTimestamp = (iso?: string) => (iso ? new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' }) : 'Before audit trail');
+
+const AuditLog: React.FC<AuditLogProps> = ({ currency, user, entries, accounts, lockedThrough, onUserChange, onEntriesChange }) => {
+  const [batchFilter, setBatchFilter] = useState('');
+  const [sourceFilter, setSourceFilter] = useState<PostingSource | ''>('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const batches = useMemo(() => summariseBatches(entries), [entries]);
+  const reversed = useMemo(() => reversalsByEntry(entries), [entries]);
+  const visible = batches.filter(b => (!batchFilter || b.batchId === batchFilter) && (!sourceFilter || b.sources.includes(sourceFilter)));
+  const batchLabel = (b: AuditBatch) => b.batchId === LEGACY_BATCH_ID ? 'Before audit trail' : `${formatTimestamp(b.postedAt)} · ${b.postedBy}`;
+
+  const reverse = (entryIds: string[], description: string) => {
+    if (!window.confirm(`${description}? Reversing entries are posted; nothing is deleted.`)) return;
+    try {
+      onEntriesChange(reverseEntries(entries, entryIds, accounts, lockedThrough, newPostingAudit(user, 'manual')));
+      setProblems([]);
+    } catch (e) {
+      setProblems(e instanceof LedgerError ? e.problems : ['The reversal failed.']);
+    }
+  };
+
+  const toggle = (batchId: string) => {
+    const next = new Set(expanded);
+    if (next.has(batchId)) next.delete(batchId); else next.add(batchId);
+    setExpanded(next);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-wrap items-end gap-6">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Posting As
+          <div className="mt-1 flex items-center gap-2">
+            <UserRound size={18} className="text-slate-400" />
+            <input value={user} onChange={(e) => onUserChange(e.target.value)} placeholder="Your name" className="w-56 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+          </div>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Batch
+          <select value={batchFilter} onChange={(e) => setBatchFilter(e.target.value)} className="mt-1 block w-80 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="">All batches</option>
+            {batches.map(b => <option key={b.batchId} value={b.batchId}>{batchLabel(b)}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Source
+          <select value={sourceFilter} onChange={(e) => setSourceFilter(e.target.value as PostingSource | '')} className="mt-1 block w-40 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="">Any</option>
+            {(Object.keys(SOURCE_LABELS) as PostingSource[]).map(s => <option key={s} value={s}>{SOURCE_LABELS[s]}</option>)}
+          </select>
+        </label>
+        <p className="text-xs font-bold text-slate-400 max-w-sm">The ledger is append-only. Corrections post a reversing entry dated on the original date, or the first open day if that period is closed.</p>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-slate-50">
+          <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><History size={20} /> Audit Trail</h3>
+          <p className="text-xs font-bold text-slate-400 mt-1">{visible.length} of {batches.length} posting batches</p>
+        </div>
+        <table className="w-full text-left border-collapse text-sm">
+          <thead className="text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+            <tr>
+              <th className="px-6 py-4">Posted</th>
+              <th className="px-6 py-4">User</th>
+              <th className="px-6 py-4">Source</th>
+              <th className="px-6 py-4 text-right">Entries</th>
+              <th className="px-6 py-4 text-right">Total</th>
+              <th className="px-6 py-4">Status</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          {visible.map(b => {
+            const open = expanded.has(b.batchId);
+            const reversible = b.entries.filter(e => !e.reversalOf && !reversed.has(e.id));
+            const status = b.reversesBatchIds.length > 0 ? 'Reversal'
+              : b.reversedCount === 0 ? 'Active'
+              : b.reversedCount === b.entries.length ? 'Rolled back' : `${b.reversedCount} reversed`;
+            return (
+              <tbody key={b.batchId} className="border-b border-slate-100">
+                <tr className="hover:bg-slate-50">
+                  <td className="px-6 py-3">
+                    <button onClick={() => toggle(b.batchId)} className="flex items-center gap-2 font-bold text-slate-700">
+                      <ChevronRight size={16} className={`transition-transform ${open ? 'rotate-90' : ''}`} />
+                      {formatTimestamp(b.postedAt)}
+                    </button>
+                    <div className="pl-6 text-[10px] font-mono text-slate-400">{b.batchId}</div>
+                  </td>
+                  <td className="px-6 py-3 font-bold text-slate-600">{b.postedBy ?? '-'}</td>
+                  <td className="px-6 py-3 text-xs font-black uppercase text-slate-500">{b.sources.map(s => SOURCE_LABELS[s]).join(', ') || '-'}</td>
+                  <td className="px-6 py-3 text-right font-mono">{b.entries.length}</td>
+                  <td className="px-6 py-3 text-right font-mono">{formatCurrency(b.total, currency)}</td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-1 rounded-md text-[10px] font-black uppercase tracking-widest ${status === 'Active' ? 'bg-emerald-50 text-emerald-700' : status === 'Reversal' ? 'bg-indigo-50 text-indigo-700' : 'bg-slate-100 text-slate-500'}`}>{status}</span>
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    {reversible.length > 0 && b.reversesBatchIds.length === 0 && (
+                      <button onClick={() => reverse(reversible.map(e => e.id), `Roll back ${reversible.length} entr${reversible.length === 1 ? 'y' : 'ies'} from this batch`)} className="flex items-center gap-2 ml-auto px-3 py-2 border-2 rounded-lg text-xs font-black text-rose-600 hover:bg-rose-50">
+                        <RotateCcw size={14} /> Roll Back Batch
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {open && b.entries.map(entry => {
+                  const reversal = reversed.get(entry.id);
+                  return (
+                    <tr key={entry.id} className="bg-slate-50/60 text-slate-600">
+                      <td className="pl-14 pr-6 py-2 font-mono text-xs">{entry.date}</td>
+                      <td className="px-6 py-2 font-mono text-xs text-slate-400" colSpan={2}>{entry.reference || entry.id}</td>
+                      <td className="px-6 py-2"></td>
+                      <td className="px-6 py-2 text-right font-mono">{formatCurrency(entryTotals(entry).debit, currency)}</td>
+                      <td className="px-6 py-2 text-xs font-bold">
+                        {entry.memo}
+                        {reversal && <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Reversed by {reversal.reference || reversal.id}</div>}
+                      </td>
+                      <td className="px-6 py-2 text-right">
+                        {!entry.reversalOf && !reversal && (
+                          <button onClick={() => reverse([entry.id], `Reverse ${entry.reference || entry.memo}`)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Reverse entry">
+                            <Undo2 size={16} />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            );
+          })}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
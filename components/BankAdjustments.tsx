@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Trash2, AlertCircle, Wand2, BookmarkPlus } from 'lucide-react';
+import { Account, BankAccount, BankRule, BankRuleMatch, BankStatement, JournalEntry, ReconMatch } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { findAccount } from '../utils/accounts';
+import { LedgerError, postEntries } from '../utils/ledger';
+import { newPostingAudit } from '../utils/audit';
+import { buildAdjustingEntry, proposeAdjustments, validateRule } from '../utils/bankRules';
+
+interface BankAdjustmentsProps {
+  currency: string;
+  user: string;
+  statement: BankStatement;
+  bankAccount: BankAccount;
+  matches: ReconMatch[];
+  entries: JournalEntry[];
+  accounts: Account[];
+  rules: BankRule[];
+  lockedThrough?: string;
+  onRulesChange: (rules: BankRule[]) => void;
+  onEntriesChange: (entries: JournalEntry[]) => void;
+}
+
+const MATCH_LABELS: Record<BankRuleMatch, string> = { contains: 'Contains', starts_with: 'Starts with', regex: 'Regex' };
+
+const BankAdjustments: React.FC<BankAdjustmentsProps> = ({ currency, user, statement, bankAccount, matches, entries, accounts, rules, lockedThrough, onRulesChange, onEntriesChange }) => {
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [problems, setProblems] = useState<string[]>([]);
+  const [draft, setDraft] = useState<BankRule>({ id: '', pattern: '', matchType: 'contains', accountCode: '', memo: '' });
+
+  const proposals = useMemo(() => proposeAdjustments(matches, rules), [matches, rules]);
+  const postable = accounts.filter(a => a.active && a.code !== bankAccount.ledgerAccountCode);
+  const accountFor = (itemId: string, suggested?: string) => chosen[itemId] ?? suggested ?? '';
+  const approved = proposals.filter(p => !skipped.has(p.item.id) && accountFor(p.item.id, p.accountCode));
+
+  const post = () => {
+    try {
+      // One batch; entries coded by a rule are attributed to it, overridden or hand-picked ones to the user
+      const audit = newPostingAudit(user, 'manual');
+      const adjustments = approved.map(p => {
+        const rule = p.accountCode === accountFor(p.item.id, p.accountCode) ? p.rule : undefined;
+        return { ...buildAdjustingEntry(entries, statement, bankAccount, p.item, accountFor(p.item.id, p.accountCode), rule), audit: { ...audit, source: rule ? 'rule' as const : 'manual' as const } };
+      });
+      onEntriesChange(postEntries(entries, adjustments, accounts, lockedThrough, audit));
+      setChosen({});
+      setProblems([]);
+    } catch (e) {
+      setProblems(e instanceof LedgerError ? e.problems : ['Posting the adjusting entries failed.']);
+    }
+  };
+
+  const addRule = (rule: BankRule) => {
+    const ruleProblems = validateRule(rule, accounts);
+    if (ruleProblems.length > 0) { setProblems(ruleProblems); return false; }
+    onRulesChange([...rules, { ...rule, id: `rule-${Date.now()}`, pattern: rule.pattern.trim(), memo: rule.memo?.trim() || undefined }]);
+    setProblems([]);
+    return true;
+  };
+
+  const toggleSkip = (itemId: string) => {
+    const next = new Set(skipped);
+    if (next.has(itemId)) next.delete(itemId); else next.add(itemId);
+    setSkipped(next);
+  };
+
+  return (
+    <div className="space-y-8">
+      {problems.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-slate-50 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><Wand2 size={20} /> Proposed Adjusting Entries</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">Statement lines missing from the books, coded by your bank rules. Approved entries post on the bank date.</p>
+          </div>
+          <button onClick={post} disabled={approved.length === 0} className="px-6 py-3 bg-emerald-600 text-white rounded-xl font-black disabled:opacity-50 shrink-0">
+            Post {approved.length} Entr{approved.length === 1 ? 'y' : 'ies'}
+          </button>
+        </div>
+        {proposals.length === 0 ? (
+          <p className="p-8 text-sm font-bold text-slate-400">Every statement line is in the books.</p>
+        ) : (
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+              <tr>
+                <th className="px-6 py-4">Approve</th>
+                <th className="px-6 py-4">Statement Line</th>
+                <th className="px-6 py-4 text-right">Amount</th>
+                <th className="px-6 py-4">Post To</th>
+                <th className="px-6 py-4">Entry</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {proposals.map(p => {
+                const code = accountFor(p.item.id, p.accountCode);
+                const acc = findAccount(accounts, code);
+                const bankName = findAccount(accounts, bankAccount.ledgerAccountCode)?.name ?? bankAccount.ledgerAccountCode;
+                return (
+                  <tr key={p.item.id} className={skipped.has(p.item.id) ? 'opacity-50' : ''}>
+                    <td className="px-6 py-3"><input type="checkbox" checked={!skipped.has(p.item.id) && !!code} disabled={!code} onChange={() => toggleSkip(p.item.id)} /></td>
+                    <td className="px-6 py-3 text-slate-700">
+                      <span className="font-mono text-slate-400 mr-2">{p.item.date}</span>{p.item.description}
+                      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{p.rule ? `Rule: ${MATCH_LABELS[p.rule.matchType]} "${p.rule.pattern}"` : 'No rule matched'}</div>
+                    </td>
+                    <td className="px-6 py-3 text-right font-mono">{formatCurrency(p.item.amount, currency)}</td>
+                    <td className="px-6 py-3">
+                      <select value={code} onChange={(e) => setChosen({ ...chosen, [p.item.id]: e.target.value })} className="w-56 p-2 border-2 rounded-xl text-sm font-bold bg-white outline-none focus:border-emerald-500">
+                        <option value="">-- Choose account --</option>
+                        {postable.map(a => <option key={a.code} value={a.code}>{a.code} {a.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-6 py-3 text-xs font-bold text-slate-500">
+                      {acc && (p.item.amount > 0
+                        ? <>Dr {bankName} / Cr {acc.name}</>
+                        : <>Dr {acc.name} / Cr {bankName}</>)}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      {code && !p.rule && (
+                        <button onClick={() => addRule({ id: '', pattern: p.item.description, matchType: 'contains', accountCode: code })} className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg" title="Save as rule">
+                          <BookmarkPlus size={16} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl border shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 mb-6">Bank Rules</h3>
+        <table className="w-full text-left text-sm mb-6">
+          <thead className="text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+            <tr>
+              <th className="py-3">Match</th>
+              <th className="py-3">Pattern</th>
+              <th className="py-3">Account</th>
+              <th className="py-3">Memo</th>
+              <th className="py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rules.map(rule => (
+              <tr key={rule.id}>
+                <td className="py-3 text-xs font-black uppercase text-slate-500">{MATCH_LABELS[rule.matchType]}</td>
+                <td className="py-3 font-mono text-slate-800">{rule.pattern}</td>
+                <td className="py-3 text-slate-700"><span className="font-mono text-slate-400 mr-2">{rule.accountCode}</span>{findAccount(accounts, rule.accountCode)?.name ?? 'Unknown account'}</td>
+                <td className="py-3 text-slate-500">{rule.memo ?? '-'}</td>
+                <td className="py-3 text-right">
+                  <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Delete rule"><Trash2 size={16} /></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap gap-3">
+          <select value={draft.matchType} onChange={(e) => setDraft({ ...draft, matchType: e.target.value as BankRuleMatch })} className="w-36 p-3 border-2 rounded-xl text-sm font-bold bg-white outline-none focus:border-emerald-500">
+            {(Object.keys(MATCH_LABELS) as BankRuleMatch[]).map(m => <option key={m} value={m}>{MATCH_LABELS[m]}</option>)}
+          </select>
+          <input value={draft.pattern} onChange={(e) => setDraft({ ...draft, pattern: e.target.value })} placeholder="Description pattern, e.g. BANK FEE" className="w-64 p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+          <select value={draft.accountCode} onChange={(e) => setDraft({ ...draft, accountCode: e.target.value })} className="w-64 p-3 border-2 rounded-xl text-sm font-bold bg-white outline-none focus:border-emerald-500">
+            <option value="">-- Account --</option>
+            {postable.map(a => <option key={a.code} value={a.code}>{a.code} {a.name}</option>)}
+          </select>
+          <input value={draft.memo ?? ''} onChange={(e) => setDraft({ ...draft, memo: e.target.value })} placeholder="Entry memo (optional)" className="w-56 p-3 border-2 rounded-xl text-sm font-bold outline-none focus:border-emerald-500" />
+          <button
+            onClick={() => { if (addRule(draft)) setDraft({ id: '', pattern: '', matchType: 'contains', accountCode: '', memo: '' }); }}
+            disabled={!draft.pattern.trim() || !draft.accountCode}
+            className="flex items-center gap-2 px-4 py-3 bg-slate-900 text-white rounded-xl text-sm font-black disabled:opacity-50"
+          >
+            <Plus size={16} /> Add Rule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankAdjustments;
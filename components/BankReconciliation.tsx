@@ -0,0 +1,382 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Plus, AlertCircle, CheckCircle2, Landmark, Link2, Unlink } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { Account, AccountSubType, BankAccount, BankRule, BankStatement, BankStatementFormat, JournalEntry, ReconciliationSettings, ReconMatch } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { accountsBySubType, findAccount } from '../utils/accounts';
+import { DateOrder } from '../utils/dates';
+import { CsvStatementMapping, buildStatement, detectStatementFormat, parseCsvStatement, parseStatementText } from '../utils/bankImport';
+import { bankAmount, bookLineKey, buildMatch, confirmMatch, reconcileBankAccount, unmatch } from '../utils/reconciliation';
+import ReconciliationReport from './ReconciliationReport';
+import BankAdjustments from './BankAdjustments';
+
+interface BankReconciliationProps {
+  currency: string;
+  user: string;
+  entries: JournalEntry[];
+  accounts: Account[];
+  bankAccounts: BankAccount[];
+  statements: BankStatement[];
+  settings: ReconciliationSettings;
+  rules: BankRule[];
+  lockedThrough?: string;
+  onSettingsChange: (settings: ReconciliationSettings) => void;
+  onRulesChange: (rules: BankRule[]) => void;
+  onEntriesChange: (entries: JournalEntry[]) => void;
+  onBankAccountsChange: (bankAccounts: BankAccount[]) => void;
+  onStatementsChange: (statements: BankStatement[]) => void;
+}
+
+const FORMAT_LABELS: Record<BankStatementFormat, string> = { csv: 'CSV', ofx: 'OFX / QFX', qif: 'QIF', camt053: 'CAMT.053' };
+
+const STATUS_STYLES: Record<ReconMatch['status'], { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-emerald-100 text-emerald-700' },
+  missing_in_statement: { label: 'Not on statement', className: 'bg-amber-100 text-amber-700' },
+  missing_in_book: { label: 'Not in books', className: 'bg-rose-100 text-rose-700' },
+  amount_mismatch: { label: 'Amount differs', className: 'bg-orange-100 text-orange-700' }
+};
+
+const CSV_FIELDS: { key: keyof Omit<CsvStatementMapping, 'dateOrder'>; label: string; pattern: RegExp }[] = [
+  { key: 'date', label: 'Date', pattern: /date/i },
+  { key: 'description', label: 'Description', pattern: /desc|narrative|details|payee|memo|particulars/i },
+  { key: 'amount', label: 'Signed Amount', pattern: /^amount$|^value$/i },
+  { key: 'debit', label: 'Money Out', pattern: /debit|withdraw|paid out|money out/i },
+  { key: 'credit', label: 'Money In', pattern: /credit|deposit|paid in|money in/i },
+  { key: 'balance', label: 'Running Balance', pattern: /balance/i },
+  { key: 'reference', label: 'Reference', pattern: /ref|cheque|check|transaction id/i }
+];
+
+interface PendingCsv {
+  fileName: string;
+  headers: string[];
+  rows: unknown[][];
+  mapping: Partial<CsvStatementMapping>;
+}
+
+const BankReconciliation: React.FC<BankReconciliationProps> = ({ currency, user, entries, accounts, bankAccounts, statements, settings, rules, lockedThrough, onSettingsChange, onRulesChange, onEntriesChange, onBankAccountsChange, onStatementsChange }) => {
+  const [bankAccountId, setBankAccountId] = useState<string>(bankAccounts[0]?.id ?? '');
+  const [statementId, setStatementId] = useState<string | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('MDY');
+  const [pendingCsv, setPendingCsv] = useState<PendingCsv | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newAccount, setNewAccount] = useState({ name: '', accountNumber: '', ledgerAccountCode: '' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const cashAccounts = useMemo(() => accountsBySubType(accounts, AccountSubType.CASH_EQUIVALENT).filter(a => a.active), [accounts]);
+  const bankAccount = bankAccounts.find(b => b.id === bankAccountId) ?? bankAccounts[0];
+  const accountStatements = statements.filter(s => s.bankAccountId === bankAccount?.id).sort((a, b) => b.periodEnd.localeCompare(a.periodEnd));
+  const statement = accountStatements.find(s => s.id === statementId) ?? accountStatements[0];
+
+  const reconciliations = useMemo(() => bankAccount ? reconcileBankAccount(entries, accounts, bankAccount, statements, settings) : [], [entries, accounts, bankAccount, statements, settings]);
+  const result = reconciliations.find(r => r.statement.id === statement?.id);
+
+  const addStatement = (next: BankStatement, fileProblems: string[]) => {
+    setProblems(fileProblems);
+    if (next.items.length === 0) { setProblems([...fileProblems, 'The file contained no transactions']); return; }
+    onStatementsChange([...statements, next]);
+    setStatementId(next.id);
+  };
+
+  const updateStatement = (patch: Partial<BankStatement>) => {
+    if (!statement) return;
+    onStatementsChange(statements.map(s => s.id === statement.id ? { ...s, ...patch } : s));
+  };
+
+  const replaceStatement = (next: BankStatement) => {
+    onStatementsChange(statements.map(s => s.id === next.id ? next : s));
+    setSelected(new Set());
+  };
+
+  // Manual matching pairs any selected unmatched book and statement lines, whatever their amounts
+  const unmatched = result?.matches.filter(m => m.status === 'missing_in_book' || m.status === 'missing_in_statement') ?? [];
+  const selectedBook = unmatched.flatMap(m => m.bookEntries).filter(tx => selected.has(bookLineKey(tx)));
+  const selectedBank = unmatched.flatMap(m => m.statementEntries).filter(st => selected.has(st.id));
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    setSelected(next);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !bankAccount) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const text = String(event.target?.result ?? '');
+      const format = detectStatementFormat(text, file.name);
+      if (format === 'csv') {
+        const wb = XLSX.read(text, { type: 'string', raw: true });
+        const rows = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { header: 1, raw: true }) as unknown[][];
+        const headers = (rows[0] ?? []).map(h => String(h ?? '').trim());
+        const mapping: Partial<CsvStatementMapping> = {};
+        CSV_FIELDS.forEach(f => {
+          const idx = headers.findIndex((h, i) => f.pattern.test(h) && !Object.values(mapping).includes(i));
+          if (idx >= 0) mapping[f.key] = idx;
+        });
+        // A signed amount column makes the in/out columns redundant
+        if (mapping.amount !== undefined) { delete mapping.debit; delete mapping.credit; }
+        setPendingCsv({ fileName: file.name, headers, rows: rows.slice(1), mapping });
+        setProblems([]);
+        return;
+      }
+      const parsed = parseStatementText(text, format, `${bankAccount.id}-${Date.now()}`, dateOrder);
+      addStatement(buildStatement(parsed, bankAccount.id, format, file.name), parsed.problems);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const finishCsv = () => {
+    if (!pendingCsv || !bankAccount) return;
+    const parsed = parseCsvStatement(pendingCsv.rows, { ...pendingCsv.mapping, dateOrder } as CsvStatementMapping, `${bankAccount.id}-${Date.now()}`);
+    addStatement(buildStatement(parsed, bankAccount.id, 'csv', pendingCsv.fileName), parsed.problems);
+    setPendingCsv(null);
+  };
+
+  const csvReady = pendingCsv && pendingCsv.mapping.date !== undefined && pendingCsv.mapping.description !== undefined &&
+    (pendingCsv.mapping.amount !== undefined || pendingCsv.mapping.debit !== undefined || pendingCsv.mapping.credit !== undefined);
+
+  const addBankAccount = () => {
+    const name = newAccount.name.trim();
+    if (!name || !newAccount.ledgerAccountCode) return;
+    const id = `bank-${Date.now()}`;
+    onBankAccountsChange([...bankAccounts, { id, name, ledgerAccountCode: newAccount.ledgerAccountCode, accountNumber: newAccount.accountNumber.trim() || undefined }]);
+    setBankAccountId(id);
+    setStatementId(null);
+    setNewAccount({ name: '', accountNumber: '', ledgerAccountCode: '' });
+  };
+
+  const summary = result?.summary;
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-wrap items-end gap-6">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Bank Account
+          <select value={bankAccount?.id ?? ''} onChange={(e) => { setBankAccountId(e.target.value); setStatementId(null); }} className="mt-1 block w-64 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {bankAccounts.length === 0 && <option value="">No bank accounts yet</option>}
+            {bankAccounts.map(b => <option key={b.id} value={b.id}>{b.name}{b.accountNumber ? ` · ${b.accountNumber}` : ''}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Statement
+          <select value={statement?.id ?? ''} onChange={(e) => setStatementId(e.target.value)} className="mt-1 block w-72 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {accountStatements.length === 0 && <option value="">No statements imported</option>}
+            {accountStatements.map(s => <option key={s.id} value={s.id}>{s.periodStart} to {s.periodEnd} · {FORMAT_LABELS[s.format]}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Numeric Dates
+          <select value={dateOrder} onChange={(e) => setDateOrder(e.target.value as DateOrder)} className="mt-1 block w-40 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="MDY">MM/DD/YYYY</option>
+            <option value="DMY">DD/MM/YYYY</option>
+          </select>
+        </label>
+        <div className="ml-auto">
+          <button onClick={() => fileInputRef.current?.click()} disabled={!bankAccount} className="flex items-center gap-2 px-4 py-3 bg-slate-900 text-white rounded-xl text-sm font-black hover:bg-slate-800 disabled:opacity-50">
+            <FileUp size={16} /> Import Statement
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.ofx,.qfx,.qif,.xml,.txt" className="hidden" />
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      {pendingCsv && (
+        <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-black text-slate-800">Map columns · {pendingCsv.fileName}</h3>
+            <p className="text-xs font-bold text-slate-400">Use a signed amount column, or money in / money out columns</p>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CSV_FIELDS.map(f => (
+              <label key={f.key} className="text-[10px] uppercase font-black tracking-widest text-slate-500">{f.label}
+                <select
+                  value={pendingCsv.mapping[f.key] ?? ''}
+                  onChange={(e) => setPendingCsv({ ...pendingCsv, mapping: { ...pendingCsv.mapping, [f.key]: e.target.value === '' ? undefined : Number(e.target.value) } })}
+                  className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500"
+                >
+                  <option value="">-- None --</option>
+                  {pendingCsv.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setPendingCsv(null)} className="px-6 py-3 font-black text-slate-400 hover:text-slate-600 uppercase tracking-widest text-xs">Cancel</button>
+            <button onClick={finishCsv} disabled={!csvReady} className="px-6 py-3 bg-emerald-600 text-white rounded-xl font-black disabled:opacity-50">Import {pendingCsv.rows.length} Rows</button>
+          </div>
+        </div>
+      )}
+
+      {statement && summary && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="bg-white p-8 rounded-3xl border shadow-sm space-y-4">
+            <h3 className="text-[10px] uppercase font-black tracking-widest text-slate-500">Statement Balances</h3>
+            <label className="block text-xs font-bold text-slate-500">Opening balance
+              <input type="number" value={statement.openingBalance} onChange={(e) => updateStatement({ openingBalance: Number(e.target.value) || 0 })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+            </label>
+            <label className="block text-xs font-bold text-slate-500">Closing balance
+              <input type="number" value={statement.closingBalance} onChange={(e) => updateStatement({ closingBalance: Number(e.target.value) || 0 })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+            </label>
+            <p className={`text-xs font-bold flex items-center gap-2 ${summary.statementRunningTotalValid ? 'text-emerald-600' : 'text-rose-600'}`}>
+              {summary.statementRunningTotalValid ? <CheckCircle2 size={14} /> : <AlertCircle size={14} />}
+              {summary.statementRunningTotalValid ? 'Opening balance plus transactions agrees to closing' : `Opening plus transactions is ${formatCurrency(statement.openingBalance + statement.items.reduce((s, i) => s + i.amount, 0), currency)}`}
+            </p>
+            <p className="text-xs font-bold text-slate-400">{statement.items.length} lines · {statement.fileName ?? FORMAT_LABELS[statement.format]} · reconciles to {bankAccount.ledgerAccountCode} {findAccount(accounts, bankAccount.ledgerAccountCode)?.name ?? 'Unknown account'}</p>
+          </div>
+
+          <div className="lg:col-span-2 bg-white p-8 rounded-3xl border shadow-sm space-y-6">
+            <h3 className="text-[10px] uppercase font-black tracking-widest text-slate-500">Matching Rules</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="block text-xs font-bold text-slate-500">Date tolerance (days)
+                <input type="number" min={0} value={settings.dateToleranceDays} onChange={(e) => onSettingsChange({ ...settings, dateToleranceDays: Math.max(0, Number(e.target.value) || 0) })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+              </label>
+              <label className="block text-xs font-bold text-slate-500">Description similarity (0-1)
+                <input type="number" min={0} max={1} step={0.05} value={settings.minSimilarity} onChange={(e) => onSettingsChange({ ...settings, minSimilarity: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+              </label>
+              <label className="block text-xs font-bold text-slate-500">Max lines per group
+                <input type="number" min={1} max={5} value={settings.maxGroupSize} onChange={(e) => onSettingsChange({ ...settings, maxGroupSize: Math.min(5, Math.max(1, Number(e.target.value) || 1)) })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(['matched', 'amount_mismatch', 'missing_in_statement', 'missing_in_book'] as ReconMatch['status'][]).map(status => (
+                <div key={status} className="p-4 rounded-2xl bg-slate-50 border">
+                  <p className="text-[10px] uppercase font-black tracking-widest text-slate-500">{STATUS_STYLES[status].label}</p>
+                  <p className="text-2xl font-black text-slate-900 mt-1">{result?.matches.filter(m => m.status === status).length ?? 0}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-slate-50 flex items-center justify-between gap-4">
+            <p className="text-xs font-bold text-slate-500">Tick unmatched book and statement lines to match them by hand. Confirmed matches are kept for future runs.</p>
+            <button
+              onClick={() => replaceStatement(confirmMatch(result.statement, buildMatch(selectedBook, selectedBank)))}
+              disabled={selectedBook.length === 0 || selectedBank.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-black disabled:opacity-50 shrink-0"
+            >
+              <Link2 size={16} /> Match {selectedBook.length} book to {selectedBank.length} statement
+            </button>
+          </div>
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+              <tr>
+                <th className="px-6 py-4">Status</th>
+                <th className="px-6 py-4">Book</th>
+                <th className="px-6 py-4 text-right">Book Amount</th>
+                <th className="px-6 py-4">Statement</th>
+                <th className="px-6 py-4 text-right">Statement Amount</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {result.matches.map(m => {
+                const paired = m.bookEntries.length > 0 && m.statementEntries.length > 0;
+                return (
+                  <tr key={m.id} className="hover:bg-slate-50 align-top">
+                    <td className="px-6 py-3">
+                      <span className={`px-2 py-1 rounded-md text-[10px] font-black uppercase ${STATUS_STYLES[m.status].className}`}>{STATUS_STYLES[m.status].label}</span>
+                      {m.confirmed && <span className="ml-2 text-[10px] font-black uppercase text-slate-400">Confirmed</span>}
+                      {!m.confirmed && paired && m.score !== undefined && <span className="ml-2 text-[10px] font-bold text-slate-400">{Math.round(m.score * 100)}%</span>}
+                    </td>
+                    <td className="px-6 py-3 text-slate-700">
+                      {m.bookEntries.length === 0 && '-'}
+                      {m.bookEntries.map(tx => (
+                        <label key={bookLineKey(tx)} className="flex items-center gap-2">
+                          {!paired && <input type="checkbox" checked={selected.has(bookLineKey(tx))} onChange={() => toggle(bookLineKey(tx))} />}
+                          <span className="font-mono text-slate-400">{tx.date}</span>{tx.description}
+                        </label>
+                      ))}
+                    </td>
+                    <td className="px-6 py-3 text-right font-mono">{m.bookEntries.map(tx => <div key={bookLineKey(tx)}>{formatCurrency(bankAmount(tx), currency)}</div>)}</td>
+                    <td className="px-6 py-3 text-slate-700">
+                      {m.statementEntries.length === 0 && '-'}
+                      {m.statementEntries.map(st => (
+                        <label key={st.id} className="flex items-center gap-2">
+                          {!paired && <input type="checkbox" checked={selected.has(st.id)} onChange={() => toggle(st.id)} />}
+                          <span className="font-mono text-slate-400">{st.date}</span>{st.description}
+                        </label>
+                      ))}
+                    </td>
+                    <td className="px-6 py-3 text-right font-mono">
+                      {m.statementEntries.map(st => <div key={st.id}>{formatCurrency(st.amount, currency)}</div>)}
+                      {m.status === 'amount_mismatch' && <div className="text-xs font-bold text-orange-600">Diff {formatCurrency(m.difference, currency)}</div>}
+                    </td>
+                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                      {paired && !m.confirmed && (
+                        <button onClick={() => replaceStatement(confirmMatch(result.statement, m))} className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg" title="Confirm match"><CheckCircle2 size={16} /></button>
+                      )}
+                      {paired && (
+                        <button onClick={() => replaceStatement(unmatch(result.statement, m))} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Unmatch"><Unlink size={16} /></button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result && bankAccount && (
+        <BankAdjustments
+          currency={currency}
+          user={user}
+          statement={result.statement}
+          bankAccount={bankAccount}
+          matches={result.matches}
+          entries={entries}
+          accounts={accounts}
+          rules={rules}
+          lockedThrough={lockedThrough}
+          onRulesChange={onRulesChange}
+          onEntriesChange={onEntriesChange}
+        />
+      )}
+
+      {result && bankAccount && (
+        <ReconciliationReport
+          currency={currency}
+          bankAccount={bankAccount}
+          ledgerAccountLabel={`${bankAccount.ledgerAccountCode} ${findAccount(accounts, bankAccount.ledgerAccountCode)?.name ?? 'Unknown account'}`}
+          reconciliation={result}
+        />
+      )}
+
+      <div className="bg-white p-8 rounded-3xl border shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2"><Landmark size={20} /> Bank Accounts</h3>
+        <table className="w-full text-left text-sm mb-6">
+          <tbody className="divide-y divide-slate-100">
+            {bankAccounts.map(b => (
+              <tr key={b.id}>
+                <td className="py-3 font-bold text-slate-800">{b.name}</td>
+                <td className="py-3 font-mono text-slate-500">{b.accountNumber ?? '-'}</td>
+                <td className="py-3 text-slate-600">Ledger: <span className="font-mono">{b.ledgerAccountCode}</span> {findAccount(accounts, b.ledgerAccountCode)?.name ?? 'Unknown account'}</td>
+                <td className="py-3 text-right text-xs font-bold text-slate-400">{statements.filter(s => s.bankAccountId === b.id).length} statement(s)</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap gap-3">
+          <input value={newAccount.name} onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })} placeholder="Account name" className="w-56 p-3 border-2 rounded-xl text-sm font-bold outline-none focus:border-emerald-500" />
+          <input value={newAccount.accountNumber} onChange={(e) => setNewAccount({ ...newAccount, accountNumber: e.target.value })} placeholder="Account number / IBAN" className="w-56 p-3 border-2 rounded-xl text-sm font-bold outline-none focus:border-emerald-500" />
+          <select value={newAccount.ledgerAccountCode} onChange={(e) => setNewAccount({ ...newAccount, ledgerAccountCode: e.target.value })} className="w-64 p-3 border-2 rounded-xl text-sm font-bold bg-white outline-none focus:border-emerald-500">
+            <option value="">-- Ledger cash account --</option>
+            {cashAccounts.map(a => <option key={a.code} value={a.code}>{a.code} {a.name}</option>)}
+          </select>
+          <button onClick={addBankAccount} disabled={!newAccount.name.trim() || !newAccount.ledgerAccountCode} className="flex items-center gap-2 px-4 py-3 bg-slate-900 text-white rounded-xl text-sm font-black disabled:opacity-50"><Plus size={16} /> Add</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BankReconciliation;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileUp, Plus, Save, AlertCircle } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { Account, AccountCategory, Budget, BudgetLine } from '../types';
+import { budgetLabel, latestVersion, mergeBudgetLines, parseBudgetRows, saveBudgetVersion, scenarios } from '../utils/budget';
+import { formatCurrency } from '../utils/finance';
+
+interface BudgetManagerProps {
+  currency: string;
+  budgets: Budget[];
+  accounts: Account[];
+  months: string[]; // Months shown in the editing grid
+  selectedBudgetId: string | null;
+  onSelect: (budgetId: string) => void;
+  onChange: (budgets: Budget[], selectId: string) => void;
+}
+
+const BudgetManager: React.FC<BudgetManagerProps> = ({ currency, budgets, accounts, months, selectedBudgetId, onSelect, onChange }) => {
+  const selected = budgets.find(b => b.id === selectedBudgetId);
+  const [draft, setDraft] = useState<BudgetLine[]>(selected?.lines ?? []);
+  const [newScenario, setNewScenario] = useState('');
+  const [note, setNote] = useState('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { setDraft(selected?.lines ?? []); }, [selected]);
+
+  const budgetAccounts = useMemo(() => accounts.filter(a => a.active && (a.category === AccountCategory.REVENUE || a.category === AccountCategory.EXPENSE)), [accounts]);
+  const cell = (code: string, month: string) => draft.find(l => l.accountCode === code && l.month === month)?.amount;
+  const isDirty = JSON.stringify(mergeBudgetLines(draft)) !== JSON.stringify(selected?.lines ?? []);
+
+  const setCell = (code: string, month: string, value: string) => {
+    const amount = parseFloat(value);
+    const rest = draft.filter(l => !(l.accountCode === code && l.month === month));
+    setDraft(value.trim() === '' || isNaN(amount) ? rest : [...rest, { accountCode: code, month, amount }]);
+  };
+
+  const save = (scenario: string, lines: BudgetLine[], versionNote?: string) => {
+    const next = saveBudgetVersion(budgets, scenario, lines, versionNote);
+    onChange(next, latestVersion(next, scenario)!.id);
+    setNote('');
+  };
+
+  const createScenario = () => {
+    const name = newScenario.trim();
+    if (!name) return;
+    if (scenarios(budgets).includes(name)) { setProblems([`A scenario named "${name}" already exists`]); return; }
+    // A new scenario starts as a copy of whatever is on screen, e.g. a reforecast of the original
+    save(name, selected ? draft : [], selected ? `Copied from ${budgetLabel(selected)}` : undefined);
+    setNewScenario('');
+    setProblems([]);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !selected) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const wb = XLSX.read(event.target?.result, { type: 'binary' });
+      const rows = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { header: 1 }) as unknown[][];
+      const result = parseBudgetRows(rows, accounts);
+      setProblems(result.problems);
+      if (result.problems.length === 0) save(selected.scenario, result.lines, `Imported from ${file.name}`);
+    };
+    reader.readAsBinaryString(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-wrap items-end gap-6">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Scenario / Version
+          <select value={selectedBudgetId ?? ''} onChange={(e) => onSelect(e.target.value)} className="mt-1 block w-64 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {budgets.length === 0 && <option value="">No budgets yet</option>}
+            {scenarios(budgets).map(sc => (
+              <optgroup key={sc} label={sc}>
+                {budgets.filter(b => b.scenario === sc).sort((a, b) => b.version - a.version).map(b => (
+                  <option key={b.id} value={b.id}>{budgetLabel(b)} · {new Date(b.createdAt).toLocaleDateString()}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">New Scenario
+          <div className="mt-1 flex gap-2">
+            <input value={newScenario} onChange={(e) => setNewScenario(e.target.value)} placeholder="e.g. Reforecast" className="w-48 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+            <button onClick={createScenario} disabled={!newScenario.trim()} className="px-4 bg-slate-900 text-white rounded-xl disabled:opacity-50"><Plus size={18} /></button>
+          </div>
+        </label>
+        <div className="ml-auto flex gap-3">
+          <button onClick={() => fileInputRef.current?.click()} disabled={!selected} className="flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+            <FileUp size={16} /> Import CSV / XLSX
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.xlsx,.xls" className="hidden" />
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-slate-50 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-black text-slate-900">{budgetLabel(selected)}</p>
+              <p className="text-xs font-bold text-slate-400">{selected.note ?? 'Created manually'}</p>
+            </div>
+            <div className="flex gap-2">
+              <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Version note" className="w-56 px-3 py-2 border-2 rounded-xl text-sm font-bold outline-none focus:border-emerald-500" />
+              <button onClick={() => save(selected.scenario, draft, note || undefined)} disabled={!isDirty} className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl text-sm font-black disabled:opacity-50">
+                <Save size={16} /> Save as v{(latestVersion(budgets, selected.scenario)?.version ?? 0) + 1}
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+                <tr>
+                  <th className="px-6 py-4 sticky left-0 bg-slate-50">Account</th>
+                  {months.map(m => <th key={m} className="px-3 py-4 text-right">{m}</th>)}
+                  <th className="px-6 py-4 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {budgetAccounts.map(acc => (
+                  <tr key={acc.code} className="hover:bg-slate-50">
+                    <td className="px-6 py-2 font-bold text-slate-700 whitespace-nowrap sticky left-0 bg-white">{acc.code} {acc.name}</td>
+                    {months.map(m => (
+                      <td key={m} className="px-1 py-1">
+                        <input
+                          type="number"
+                          value={cell(acc.code, m) ?? ''}
+                          onChange={(e) => setCell(acc.code, m, e.target.value)}
+                          className="w-24 px-2 py-1 text-right font-mono rounded-lg border border-transparent hover:border-slate-200 focus:border-emerald-500 outline-none"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-6 py-2 text-right font-black font-mono">{formatCurrency(months.reduce((s, m) => s + (cell(acc.code, m) ?? 0), 0), currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetManager;
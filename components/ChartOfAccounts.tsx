@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Plus, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Account, AccountCategory, AccountSubType, TransactionType } from '../types';
+import { SUB_TYPE_CATEGORY, defaultNormalBalance, nextAccountCode, subTypesForCategory, validateAccount } from '../utils/accounts';
+
+interface ChartOfAccountsProps {
+  accounts: Account[];
+  usedCodes: Set<string>;
+  onChange: (accounts: Account[]) => void;
+}
+
+const emptyDraft = (accounts: Account[]): Account => ({
+  code: nextAccountCode(accounts, AccountCategory.EXPENSE),
+  name: '',
+  category: AccountCategory.EXPENSE,
+  subType: AccountSubType.OPERATING_EXPENSE,
+  normalBalance: TransactionType.DEBIT,
+  active: true
+});
+
+const ChartOfAccounts: React.FC<ChartOfAccountsProps> = ({ accounts, usedCodes, onChange }) => {
+  const [draft, setDraft] = useState<Account>(() => emptyDraft(accounts));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const setDraftSubType = (subType: AccountSubType) => {
+    setDraft({ ...draft, subType, category: SUB_TYPE_CATEGORY[subType], normalBalance: defaultNormalBalance(subType) });
+  };
+
+  const addAccount = () => {
+    const problems = validateAccount(draft, accounts, true);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    const next = [...accounts, { ...draft, name: draft.name.trim() }].sort((a, b) => a.code.localeCompare(b.code));
+    onChange(next);
+    setDraft(emptyDraft(next));
+  };
+
+  const updateAccount = (code: string, patch: Partial<Account>) => {
+    const current = accounts.find(a => a.code === code)!;
+    const updated = { ...current, ...patch };
+    if (patch.subType) updated.category = SUB_TYPE_CATEGORY[patch.subType];
+    const problems = validateAccount(updated, accounts, false);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    onChange(accounts.map(a => a.code === code ? updated : a));
+  };
+
+  const subTypeOptions = (category?: AccountCategory) =>
+    (category ? subTypesForCategory(category) : (Object.values(AccountSubType) as AccountSubType[])).map(st => (
+      <option key={st} value={st}>{category ? st : `${SUB_TYPE_CATEGORY[st]} · ${st}`}</option>
+    ));
+
+  return (
+    <div className="bg-white rounded-3xl border shadow-sm overflow-hidden animate-in fade-in">
+      <div className="p-6 border-b bg-slate-50 grid grid-cols-12 gap-3 items-end">
+        <label className="col-span-2 text-[10px] uppercase font-black tracking-widest text-slate-500">Code
+          <input value={draft.code} onChange={(e) => setDraft({ ...draft, code: e.target.value.trim() })} className="mt-1 w-full p-3 border-2 rounded-xl font-mono text-sm text-slate-900 focus:border-emerald-500 outline-none" />
+        </label>
+        <label className="col-span-3 text-[10px] uppercase font-black tracking-widest text-slate-500">Name
+          <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Insurance Expense" className="mt-1 w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 focus:border-emerald-500 outline-none" />
+        </label>
+        <label className="col-span-4 text-[10px] uppercase font-black tracking-widest text-slate-500">Sub-type
+          <select value={draft.subType} onChange={(e) => setDraftSubType(e.target.value as AccountSubType)} className="mt-1 w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white focus:border-emerald-500 outline-none">
+            {subTypeOptions()}
+          </select>
+        </label>
+        <label className="col-span-2 text-[10px] uppercase font-black tracking-widest text-slate-500">Normal Balance
+          <select value={draft.normalBalance} onChange={(e) => setDraft({ ...draft, normalBalance: e.target.value as TransactionType })} className="mt-1 w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white focus:border-emerald-500 outline-none">
+            <option value={TransactionType.DEBIT}>Debit</option>
+            <option value={TransactionType.CREDIT}>Credit</option>
+          </select>
+        </label>
+        <button onClick={addAccount} className="col-span-1 h-[46px] flex items-center justify-center bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-all shadow-md">
+          <Plus size={20} />
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="px-8 py-4 bg-rose-50 border-b border-rose-100 text-sm font-bold text-rose-700 flex items-start gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{errors.map((e, i) => <p key={i}>{e}</p>)}</div>
+        </div>
+      )}
+
+      <table className="w-full text-left border-collapse">
+        <thead className="bg-slate-50 text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+          <tr>
+            <th className="px-8 py-5">Code</th>
+            <th className="px-8 py-5">Name</th>
+            <th className="px-8 py-5">Category</th>
+            <th className="px-8 py-5">Sub-type</th>
+            <th className="px-8 py-5">Normal Balance</th>
+            <th className="px-8 py-5 text-center">Active</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-sm">
+          {accounts.map(acc => {
+            const inUse = usedCodes.has(acc.code);
+            return (
+              <tr key={acc.code} className={`hover:bg-slate-50 transition-colors ${acc.active ? '' : 'opacity-50'}`}>
+                <td className="px-8 py-3 font-mono font-bold text-slate-500">{acc.code}</td>
+                <td className="px-8 py-3">
+                  <input defaultValue={acc.name} onBlur={(e) => e.target.value !== acc.name && updateAccount(acc.code, { name: e.target.value.trim() })} className="w-full px-2 py-1 rounded-lg font-black text-slate-900 bg-transparent border border-transparent hover:border-slate-200 focus:border-emerald-500 outline-none" />
+                </td>
+                <td className="px-8 py-3 font-bold text-slate-600">{acc.category}</td>
+                <td className="px-8 py-3">
+                  {/* Moving a posted account to another category would silently restate prior reports */}
+                  <select value={acc.subType} onChange={(e) => updateAccount(acc.code, { subType: e.target.value as AccountSubType })} className="px-2 py-1 rounded-lg font-bold text-slate-700 bg-transparent border border-slate-200 outline-none">
+                    {subTypeOptions(inUse ? acc.category : undefined)}
+                  </select>
+                </td>
+                <td className="px-8 py-3">
+                  <select value={acc.normalBalance} onChange={(e) => updateAccount(acc.code, { normalBalance: e.target.value as TransactionType })} className="px-2 py-1 rounded-lg font-bold text-slate-700 bg-transparent border border-slate-200 outline-none">
+                    <option value={TransactionType.DEBIT}>Debit</option>
+                    <option value={TransactionType.CREDIT}>Credit</option>
+                  </select>
+                </td>
+                <td className="px-8 py-3 text-center">
+                  <button onClick={() => updateAccount(acc.code, { active: !acc.active })} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest ${acc.active ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                    {acc.active ? <span className="flex items-center gap-1"><CheckCircle2 size={12} /> Active</span> : 'Inactive'}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ChartOfAccounts;
@@ -0,0 +1,187 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Plus, Trash2, AlertCircle, RefreshCw } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { Account, ClosedPeriod, CurrencySettings, ExchangeRate, JournalEntry, ReportingPeriod } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { LedgerError, postEntries, uniqueEntryId } from '../utils/ledger';
+import { newPostingAudit, reversalsByEntry } from '../utils/audit';
+import { lockedThrough } from '../utils/periodClose';
+import { COMMON_CURRENCIES, buildRevaluation, mergeRates, parseRateRows } from '../utils/fx';
+
+interface CurrenciesProps {
+  user: string;
+  settings: CurrencySettings;
+  rates: ExchangeRate[];
+  entries: JournalEntry[];
+  accounts: Account[];
+  closedPeriods: ClosedPeriod[];
+  period: ReportingPeriod;
+  onSettingsChange: (settings: CurrencySettings) => void;
+  onRatesChange: (rates: ExchangeRate[]) => void;
+  onEntriesChange: (entries: JournalEntry[]) => void;
+}
+
+const CurrencySelect: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">{label}
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="mt-1 block w-40 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+      {[...new Set([value, ...COMMON_CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+  </label>
+);
+
+const Currencies: React.FC<CurrenciesProps> = ({ user, settings, rates, entries, accounts, closedPeriods, period, onSettingsChange, onRatesChange, onEntriesChange }) => {
+  const [problems, setProblems] = useState<string[]>([]);
+  const [draft, setDraft] = useState({ date: period.end, base: 'EUR', quote: settings.functionalCurrency, rate: '' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const revaluation = useMemo(() => buildRevaluation(entries, accounts, settings, rates, period), [entries, accounts, settings, rates, period]);
+  const reversed = reversalsByEntry(entries);
+  const posted = entries.some(e => e.kind === 'revaluation' && e.id.startsWith(`fxreval-${period.id}`) && !e.reversalOf && !reversed.has(e.id));
+  const usesForeignCurrency = entries.some(e => e.lines.some(l => l.currency && l.currency !== settings.functionalCurrency));
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const wb = XLSX.read(event.target?.result, { type: 'binary' });
+      const rows = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]], { header: 1 }) as unknown[][];
+      const result = parseRateRows(rows, settings.functionalCurrency);
+      setProblems(result.problems);
+      if (result.problems.length === 0) onRatesChange(mergeRates(rates, result.rates));
+    };
+    reader.readAsBinaryString(file);
+    e.target.value = '';
+  };
+
+  const addRate = () => {
+    const rate = parseFloat(draft.rate);
+    const base = draft.base.trim().toUpperCase();
+    const quote = draft.quote.trim().toUpperCase();
+    if (isNaN(rate) || rate <= 0 || base === quote) { setProblems(['Enter a positive rate between two different currencies']); return; }
+    onRatesChange(mergeRates(rates, [{ date: draft.date, base, quote, rate }]));
+    setDraft({ ...draft, rate: '' });
+    setProblems([]);
+  };
+
+  const postRevaluation = () => {
+    if (!revaluation.entry) return;
+    try {
+      const entry = { ...revaluation.entry, id: uniqueEntryId(entries, revaluation.entry.id) };
+      onEntriesChange(postEntries(entries, [entry], accounts, lockedThrough(closedPeriods), newPostingAudit(user, 'manual')));
+      setProblems([]);
+    } catch (e) {
+      setProblems(e instanceof LedgerError ? e.problems : ['Posting the revaluation failed.']);
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-wrap items-end gap-6">
+        <CurrencySelect label="Functional Currency" value={settings.functionalCurrency} onChange={(c) => onSettingsChange({ ...settings, functionalCurrency: c })} />
+        <CurrencySelect label="Reporting Currency" value={settings.reportingCurrency} onChange={(c) => onSettingsChange({ ...settings, reportingCurrency: c })} />
+        <p className="text-xs font-bold text-slate-400 max-w-md">
+          The ledger is kept in the functional currency{usesForeignCurrency ? ', so change it only before foreign-currency entries are posted' : ''}. Statements and exports are translated into the reporting currency at the period-end rate.
+        </p>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-slate-50 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><RefreshCw size={20} /> Period-end Revaluation · {period.label}</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">Foreign-currency cash, receivables, payables and loans retranslated at the rate on {period.end}.</p>
+          </div>
+          <button onClick={postRevaluation} disabled={!revaluation.entry || posted} className="px-6 py-3 bg-slate-900 text-white rounded-xl font-black disabled:opacity-50 shrink-0">
+            {posted ? 'Revaluation Posted' : 'Post Revaluation'}
+          </button>
+        </div>
+        {revaluation.problems.length > 0 && (
+          <div className="px-6 py-4 bg-amber-50 text-sm font-bold text-amber-800">{revaluation.problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        )}
+        {revaluation.lines.length === 0 ? (
+          <p className="p-8 text-sm font-bold text-slate-400">No foreign-currency monetary balances at {period.end}.</p>
+        ) : (
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+              <tr>
+                <th className="px-6 py-4">Account</th>
+                <th className="px-6 py-4 text-right">Foreign Balance</th>
+                <th className="px-6 py-4 text-right">Carrying ({settings.functionalCurrency})</th>
+                <th className="px-6 py-4 text-right">Closing Rate</th>
+                <th className="px-6 py-4 text-right">Revalued</th>
+                <th className="px-6 py-4 text-right">Gain / (Loss)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {revaluation.lines.map(l => (
+                <tr key={`${l.accountCode}-${l.currency}`}>
+                  <td className="px-6 py-3 font-bold text-slate-700"><span className="font-mono text-slate-400 mr-2">{l.accountCode}</span>{l.accountName}</td>
+                  <td className="px-6 py-3 text-right font-mono">{formatCurrency(l.foreignBalance, l.currency)}</td>
+                  <td className="px-6 py-3 text-right font-mono text-slate-500">{formatCurrency(l.carryingAmount, settings.functionalCurrency)}</td>
+                  <td className="px-6 py-3 text-right font-mono text-slate-500">{l.rate.toFixed(4)}</td>
+                  <td className="px-6 py-3 text-right font-mono">{formatCurrency(l.revaluedAmount, settings.functionalCurrency)}</td>
+                  <td className={`px-6 py-3 text-right font-mono font-bold ${l.adjustment >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(l.adjustment, settings.functionalCurrency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-slate-50 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-black text-slate-800">Exchange Rates</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">CSV columns: Date, Base, Quote, Rate (or Date, Currency, Rate into {settings.functionalCurrency}). The latest rate on or before a date is used.</p>
+          </div>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-white shrink-0">
+            <FileUp size={16} /> Import CSV / XLSX
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.xlsx,.xls" className="hidden" />
+        </div>
+        <table className="w-full text-left border-collapse text-sm">
+          <thead className="text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+            <tr>
+              <th className="px-6 py-4">Date</th>
+              <th className="px-6 py-4">Pair</th>
+              <th className="px-6 py-4 text-right">Rate</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rates.map(r => (
+              <tr key={`${r.date}-${r.base}-${r.quote}`} className="hover:bg-slate-50">
+                <td className="px-6 py-3 font-mono text-slate-500">{r.date}</td>
+                <td className="px-6 py-3 font-bold text-slate-700">1 {r.base} = {r.quote}</td>
+                <td className="px-6 py-3 text-right font-mono">{r.rate}</td>
+                <td className="px-6 py-3 text-right">
+                  <button onClick={() => onRatesChange(rates.filter(x => x !== r))} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Delete rate"><Trash2 size={16} /></button>
+                </td>
+              </tr>
+            ))}
+            <tr className="bg-slate-50/60">
+              <td className="px-6 py-3"><input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className="p-2 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" /></td>
+              <td className="px-6 py-3 flex items-center gap-2 font-bold text-slate-500">
+                1 <input value={draft.base} onChange={(e) => setDraft({ ...draft, base: e.target.value })} maxLength={3} className="w-16 p-2 border-2 rounded-xl text-sm font-bold uppercase outline-none focus:border-emerald-500" />
+                = <input value={draft.quote} onChange={(e) => setDraft({ ...draft, quote: e.target.value })} maxLength={3} className="w-16 p-2 border-2 rounded-xl text-sm font-bold uppercase outline-none focus:border-emerald-500" />
+              </td>
+              <td className="px-6 py-3 text-right"><input type="number" step="0.0001" value={draft.rate} onChange={(e) => setDraft({ ...draft, rate: e.target.value })} className="w-32 p-2 border-2 rounded-xl text-sm font-bold font-mono text-right outline-none focus:border-emerald-500" /></td>
+              <td className="px-6 py-3 text-right">
+                <button onClick={addRate} disabled={!draft.rate} className="p-2 bg-slate-900 text-white rounded-lg disabled:opacity-50" title="Add rate"><Plus size={16} /></button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Currencies;
@@ -0,0 +1,189 @@
+import React from 'react';
+import { CashFlowMethod, ComparativeRow, FinancialStatements, TransactionType } from '../types';
+import { buildComparative, formatCurrency } from '../utils/finance';
+import { formatPeriodEnd } from '../utils/periods';
+import { DrillRequest, trialBalanceSource } from '../utils/drillDown';
+import { ComparativeTable, ReportHeader, formatChangePercent } from './ReportLayout';
+
+interface ReportProps {
+  current: FinancialStatements;
+  prior: FinancialStatements;
+  onDrillDown?: (request: DrillRequest) => void;
+  highlightLabel?: string;
+}
+
+const sum = (items: { amount: number }[]) => items.reduce((s, i) => s + i.amount, 0);
+
+// Drill-downs always show the current period's postings
+const drillRow = (onDrillDown?: (request: DrillRequest) => void) => onDrillDown && ((row: ComparativeRow) => {
+  if (row.source) onDrillDown({ label: row.label, amount: row.current, source: row.source });
+});
+
+export const periodSubtitle = (statements: FinancialStatements, prefix: string) => {
+  const dated = statements.period ? `${prefix} ${formatPeriodEnd(statements.period)}` : 'All Recorded Activity';
+  const t = statements.translation;
+  return t ? `${dated} · ${statements.currency} at ${t.rate.toFixed(4)} per ${t.from}` : dated;
+};
+
+const columnLabel = (statements: FinancialStatements) => statements.period?.label ?? 'Current';
+
+const Sheet: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="max-w-5xl mx-auto bg-white p-12 rounded-3xl border shadow-xl animate-in fade-in slide-in-from-bottom-4">
+    {children}
+  </div>
+);
+
+export const TrialBalanceReport: React.FC<ReportProps> = ({ current, prior, onDrillDown }) => {
+  const balanceOf = (statements: FinancialStatements, code: string) => {
+    const item = statements.trialBalance.find(i => i.accountCode === code);
+    return item ? item.debit - item.credit : 0;
+  };
+  const codes = [...new Set([...current.trialBalance, ...prior.trialBalance].map(i => i.accountCode))].sort();
+  const totalDebit = current.trialBalance.reduce((s, i) => s + i.debit, 0);
+  const totalCredit = current.trialBalance.reduce((s, i) => s + i.credit, 0);
+
+  return (
+    <Sheet>
+      <ReportHeader title="Trial Balance" subtitle={periodSubtitle(current, 'As at')} />
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+            <th className="py-5 px-4">Code</th>
+            <th className="py-5 px-4">Account</th>
+            <th className="py-5 px-4 text-right">Debit</th>
+            <th className="py-5 px-4 text-right">Credit</th>
+            <th className="py-5 px-4 text-right text-slate-500">{columnLabel(prior)} Net</th>
+            <th className="py-5 px-4 text-right text-slate-500">Change</th>
+            <th className="py-5 px-4 text-right text-slate-500">%</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-sm">
+          {codes.map(code => {
+            const row = current.trialBalance.find(i => i.accountCode === code);
+            const name = row?.accountName ?? prior.trialBalance.find(i => i.accountCode === code)!.accountName;
+            const cur = balanceOf(current, code);
+            const pri = balanceOf(prior, code);
+            return (
+              <tr
+                key={code}
+                onClick={onDrillDown && row ? () => onDrillDown({ label: `${code} ${name}`, amount: trialBalanceSource(row).increasesWith === TransactionType.DEBIT ? cur : -cur, source: trialBalanceSource(row) }) : undefined}
+                title={onDrillDown && row ? 'Show the ledger postings behind this balance' : undefined}
+                className={`hover:bg-slate-50 transition-colors ${onDrillDown && row ? 'cursor-pointer group' : ''}`}
+              >
+                <td className="py-3 px-4 font-mono font-bold text-slate-400">{code}</td>
+                <td className="py-3 px-4 font-bold text-slate-800 group-hover:text-emerald-700 group-hover:underline">{name}</td>
+                <td className="py-3 px-4 text-right font-mono">{row && row.debit ? formatCurrency(row.debit, current.currency) : '-'}</td>
+                <td className="py-3 px-4 text-right font-mono">{row && row.credit ? formatCurrency(row.credit, current.currency) : '-'}</td>
+                <td className="py-3 px-4 text-right font-mono text-slate-500">{formatCurrency(pri, current.currency)}</td>
+                <td className="py-3 px-4 text-right font-mono text-slate-600">{formatCurrency(cur - pri, current.currency)}</td>
+                <td className="py-3 px-4 text-right font-mono text-slate-600">{formatChangePercent(pri === 0 ? null : (cur - pri) / Math.abs(pri) * 100)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-4 border-slate-900 bg-slate-900 text-white">
+            <td className="py-5 px-4 font-black" colSpan={2}>TOTAL</td>
+            <td className="py-5 px-4 text-right font-black font-mono">{formatCurrency(totalDebit, current.currency)}</td>
+            <td className="py-5 px-4 text-right font-black font-mono">{formatCurrency(totalCredit, current.currency)}</td>
+            <td className="py-5 px-4 text-right text-xs font-black uppercase tracking-widest" colSpan={3}>
+              {Math.abs(totalDebit - totalCredit) < 0.005 ? 'In Balance' : `Out of balance by ${formatCurrency(totalDebit - totalCredit, current.currency)}`}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </Sheet>
+  );
+};
+
+export const IncomeStatementReport: React.FC<ReportProps> = ({ current, prior, onDrillDown, highlightLabel }) => (
+  <Sheet>
+    <ReportHeader title="Income Statement" subtitle={periodSubtitle(current, 'For the Period Ended')} />
+    <ComparativeTable
+      currency={current.currency}
+      currentLabel={columnLabel(current)}
+      priorLabel={columnLabel(prior)}
+      onDrillDown={drillRow(onDrillDown)}
+      highlightLabel={highlightLabel}
+      sections={[
+        { title: 'Revenue', rows: buildComparative(current.incomeStatement.revenue, prior.incomeStatement.revenue), total: { label: 'Total Revenue', current: current.incomeStatement.totalRevenue, prior: prior.incomeStatement.totalRevenue } },
+        { title: 'Expenses', rows: buildComparative(current.incomeStatement.expenses, prior.incomeStatement.expenses), total: { label: 'Total Expenses', current: current.incomeStatement.totalExpenses, prior: prior.incomeStatement.totalExpenses } }
+      ]}
+      grandTotal={{ label: 'NET INCOME', current: current.incomeStatement.netIncome, prior: prior.incomeStatement.netIncome }}
+    />
+  </Sheet>
+);
+
+export const BalanceSheetReport: React.FC<ReportProps> = ({ current, prior, onDrillDown, highlightLabel }) => {
+  const cur = current.balanceSheet;
+  const pri = prior.balanceSheet;
+  return (
+    <Sheet>
+      <ReportHeader title="Balance Sheet" subtitle={periodSubtitle(current, 'As at')} />
+      <ComparativeTable
+        currency={current.currency}
+        currentLabel={columnLabel(current)}
+        priorLabel={columnLabel(prior)}
+        onDrillDown={drillRow(onDrillDown)}
+        highlightLabel={highlightLabel}
+        sections={[
+          { title: 'Assets', rows: buildComparative(cur.assets, pri.assets), total: { label: 'Total Assets', current: cur.totalAssets, prior: pri.totalAssets } },
+          { title: 'Liabilities', rows: buildComparative(cur.liabilities, pri.liabilities), total: { label: 'Total Liabilities', current: cur.totalLiabilities, prior: pri.totalLiabilities } },
+          { title: 'Equity', rows: buildComparative(cur.equity, pri.equity), total: { label: 'Total Equity', current: cur.totalEquity, prior: pri.totalEquity } }
+        ]}
+        grandTotal={{ label: 'LIABILITIES & EQUITY', current: cur.totalLiabilities + cur.totalEquity, prior: pri.totalLiabilities + pri.totalEquity }}
+      />
+    </Sheet>
+  );
+};
+
+interface CashFlowReportProps extends ReportProps {
+  onMethodChange: (method: CashFlowMethod) => void;
+}
+
+export const CashFlowReport: React.FC<CashFlowReportProps> = ({ current, prior, onDrillDown, highlightLabel, onMethodChange }) => {
+  const cur = current.cashFlow;
+  const pri = prior.cashFlow;
+  const reconciled = Math.abs(cur.difference) < 0.005;
+  return (
+    <Sheet>
+      <ReportHeader title="Statement of Cash Flows" subtitle={periodSubtitle(current, 'For the Period Ended')} />
+      <div className="flex justify-center gap-2 -mt-6 mb-10">
+        {(['indirect', 'direct'] as CashFlowMethod[]).map(m => (
+          <button key={m} onClick={() => onMethodChange(m)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all ${cur.method === m ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+            {m} method
+          </button>
+        ))}
+      </div>
+      <ComparativeTable
+        currency={current.currency}
+        currentLabel={columnLabel(current)}
+        priorLabel={columnLabel(prior)}
+        onDrillDown={drillRow(onDrillDown)}
+        highlightLabel={highlightLabel}
+        sections={[
+          { title: 'Operating Activities', rows: buildComparative(cur.operating, pri.operating), total: { label: 'Net Cash from Operating Activities', current: sum(cur.operating), prior: sum(pri.operating) } },
+          { title: 'Investing Activities', rows: buildComparative(cur.investing, pri.investing), total: { label: 'Net Cash from Investing Activities', current: sum(cur.investing), prior: sum(pri.investing) } },
+          { title: 'Financing Activities', rows: buildComparative(cur.financing, pri.financing), total: { label: 'Net Cash from Financing Activities', current: sum(cur.financing), prior: sum(pri.financing) } }
+        ]}
+        grandTotal={{ label: 'NET CHANGE IN CASH', current: cur.netCashFlow, prior: pri.netCashFlow }}
+      />
+      <div className="mt-10 grid grid-cols-3 gap-6 text-center">
+        <div className="p-6 bg-slate-50 rounded-2xl border">
+          <p className="text-[10px] uppercase font-black tracking-widest text-slate-500">Opening Cash</p>
+          <p className="text-2xl font-black font-mono text-slate-900 mt-2">{formatCurrency(cur.openingCash, current.currency)}</p>
+        </div>
+        <div className="p-6 bg-slate-50 rounded-2xl border">
+          <p className="text-[10px] uppercase font-black tracking-widest text-slate-500">Closing Cash</p>
+          <p className="text-2xl font-black font-mono text-slate-900 mt-2">{formatCurrency(cur.closingCash, current.currency)}</p>
+        </div>
+        <div className={`p-6 rounded-2xl border-2 ${reconciled ? 'bg-emerald-50 border-emerald-200' : 'bg-rose-50 border-rose-300'}`}>
+          <p className={`text-[10px] uppercase font-black tracking-widest ${reconciled ? 'text-emerald-700' : 'text-rose-700'}`}>
+            {reconciled ? 'Reconciled to cash balances' : 'Unreconciled difference'}
+          </p>
+          <p className={`text-2xl font-black font-mono mt-2 ${reconciled ? 'text-emerald-700' : 'text-rose-700'}`}>{formatCurrency(cur.difference, current.currency)}</p>
+        </div>
+      </div>
+    </Sheet>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown, Ban, BookOpen, Pencil, Plus, Search, Send } from 'lucide-react';
+import { Account, AccountCategory, DraftEntry, JournalEntry } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { LedgerError, entryTotals } from '../utils/ledger';
+import { parseMoney } from '../utils/bankImport';
+import { LEGACY_BATCH_ID, newPostingAudit, summariseBatches } from '../utils/audit';
+import {
+  LedgerFilters, LedgerSortKey, SortDirection, buildLedgerRows, emptyLedgerFilters, filterLedgerRows, newDraft, postDraft, saveDraft, sortLedgerRows, voidDraft
+} from '../utils/generalLedger';
+import JournalEntryForm from './JournalEntryForm';
+
+interface GeneralLedgerProps {
+  currency: string;
+  user: string;
+  entries: JournalEntry[];
+  drafts: DraftEntry[];
+  accounts: Account[];
+  lockedThrough?: string;
+  onEntriesChange: (entries: JournalEntry[]) => void;
+  onDraftsChange: (drafts: DraftEntry[]) => void;
+}
+
+// Only the rows in view are rendered. Every row has the same fixed height, so the scroll offset
+// alone says which rows those are and spacer rows stand in for the rest.
+const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 12;
+
+const COLUMNS: { key: LedgerSortKey; label: string; className: string }[] = [
+  { key: 'date', label: 'Date', className: 'w-32' },
+  { key: 'reference', label: 'Reference', className: 'w-40' },
+  { key: 'description', label: 'Description', className: '' },
+  { key: 'account', label: 'Account', className: 'w-64' },
+  { key: 'debit', label: 'Debit', className: 'w-36 text-right' },
+  { key: 'credit', label: 'Credit', className: 'w-36 text-right' }
+];
+
+const amountOrNull = (text: string): number | null => {
+  const amount = parseMoney(text);
+  return text.trim() && isFinite(amount) ? amount : null;
+};
+
+const GeneralLedger: React.FC<GeneralLedgerProps> = ({ currency, user, entries, drafts, accounts, lockedThrough, onEntriesChange, onDraftsChange }) => {
+  const [filters, setFilters] = useState<LedgerFilters>(emptyLedgerFilters);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [sort, setSort] = useState<{ key: LedgerSortKey; direction: SortDirection }>({ key: 'date', direction: 'asc' });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<DraftEntry | null>(null);
+  const [formProblems, setFormProblems] = useState<string[]>([]);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [showVoided, setShowVoided] = useState(false);
+  const scroller = useRef<HTMLDivElement>(null);
+
+  const batches = useMemo(() => summariseBatches(entries), [entries]);
+  const rows = useMemo(() => buildLedgerRows(entries, accounts), [entries, accounts]);
+
+  // Typing stays responsive on a large ledger: the table catches up once React has time to spare
+  const deferredFilters = useDeferredValue(filters);
+  const deferredMin = useDeferredValue(minAmount);
+  const deferredMax = useDeferredValue(maxAmount);
+  const filtered = useMemo(
+    () => filterLedgerRows(rows, { ...deferredFilters, minAmount: amountOrNull(deferredMin), maxAmount: amountOrNull(deferredMax) }),
+    [rows, deferredFilters, deferredMin, deferredMax]
+  );
+  const sorted = useMemo(() => sortLedgerRows(filtered, sort.key, sort.direction), [filtered, sort]);
+  const shownDebits = useMemo(() => filtered.reduce((s, r) => s + r.debit, 0), [filtered]);
+  const shownCredits = useMemo(() => filtered.reduce((s, r) => s + r.credit, 0), [filtered]);
+
+  useEffect(() => {
+    if (scroller.current) scroller.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [filtered, sort]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(sorted.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const windowRows = sorted.slice(first, last);
+
+  const setFilter = <K extends keyof LedgerFilters>(key: K, value: LedgerFilters[K]) => setFilters({ ...filters, [key]: value });
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(emptyLedgerFilters) || !!minAmount || !!maxAmount;
+  const clearFilters = () => { setFilters(emptyLedgerFilters); setMinAmount(''); setMaxAmount(''); };
+
+  const toggleSort = (key: LedgerSortKey) =>
+    setSort(sort.key === key ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: key === 'debit' || key === 'credit' ? 'desc' : 'asc' });
+
+  const openDrafts = drafts.filter(d => !d.voidedAt);
+  const listedDrafts = showVoided ? drafts : openDrafts;
+
+  const startEntry = () => {
+    setFormProblems([]);
+    setEditing(newDraft(entries, drafts, new Date().toISOString().slice(0, 10)));
+  };
+
+  const editDraft = (draft: DraftEntry) => {
+    setFormProblems([]);
+    setEditing(draft);
+  };
+
+  const post = (draft: DraftEntry, fromForm: boolean) => {
+    try {
+      const result = postDraft(entries, drafts, draft, accounts, lockedThrough, newPostingAudit(user, 'manual'));
+      onEntriesChange(result.entries);
+      onDraftsChange(result.drafts);
+      setEditing(null);
+      setProblems([]);
+    } catch (e) {
+      const found = e instanceof LedgerError ? e.problems : ['The entry could not be posted.'];
+      if (fromForm) setFormProblems(found); else setProblems(found);
+    }
+  };
+
+  const save = (draft: DraftEntry) => {
+    onDraftsChange(saveDraft(drafts, draft));
+    setEditing(null);
+  };
+
+  const voidOne = (draft: DraftEntry) => {
+    if (!window.confirm(`Void draft ${draft.reference || draft.memo || ''}? It stays listed as voided and can no longer be posted.`)) return;
+    onDraftsChange(voidDraft(drafts, draft.id));
+  };
+
+  const batchLabel = (batchId: string) => {
+    if (batchId === LEGACY_BATCH_ID) return 'Before audit trail';
+    const b = batches.find(x => x.batchId === batchId);
+    return b ? `${new Date(b.postedAt!).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} · ${b.postedBy} · ${b.entries.length} entr${b.entries.length === 1 ? 'y' : 'ies'}` : batchId;
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      {drafts.length > 0 && (
+        <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+          <div className="p-6 border-b bg-slate-50 flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><Pencil size={20} /> Draft Entries</h3>
+              <p className="text-xs font-bold text-slate-400 mt-1">Drafts are not part of any report until they are posted</p>
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+              <input type="checkbox" checked={showVoided} onChange={(e) => setShowVoided(e.target.checked)} className="w-4 h-4 accent-emerald-600" />
+              Show voided
+            </label>
+          </div>
+          <table className="w-full text-left border-collapse text-sm">
+            <tbody className="divide-y divide-slate-100">
+              {listedDrafts.map(d => {
+                const totals = entryTotals({ lines: d.lines.map(l => (isFinite(l.amount) ? l : { ...l, amount: 0 })) });
+                return (
+                  <tr key={d.id} className={d.voidedAt ? 'text-slate-400' : 'hover:bg-slate-50'}>
+                    <td className="px-6 py-3 font-mono whitespace-nowrap">{d.date}</td>
+                    <td className="px-6 py-3 font-mono text-xs">{d.reference || '-'}</td>
+                    <td className={`px-6 py-3 font-bold ${d.voidedAt ? 'line-through' : 'text-slate-800'}`}>{d.memo || <span className="italic font-medium">No memo</span>}</td>
+                    <td className="px-6 py-3 text-right font-mono">{formatCurrency(totals.debit, currency)}</td>
+                    <td className="px-6 py-3">
+                      {d.voidedAt
+                        ? <span className="px-2 py-1 rounded-md bg-slate-100 text-slate-500 text-[10px] font-black uppercase tracking-widest">Voided</span>
+                        : totals.difference === 0 && totals.debit > 0
+                          ? <span className="px-2 py-1 rounded-md bg-emerald-50 text-emerald-700 text-[10px] font-black uppercase tracking-widest">Balanced</span>
+                          : <span className="px-2 py-1 rounded-md bg-amber-50 text-amber-800 text-[10px] font-black uppercase tracking-widest">Out by {formatCurrency(Math.abs(totals.difference), currency)}</span>}
+                    </td>
+                    <td className="px-6 py-3">
+                      {!d.voidedAt && (
+                        <div className="flex justify-end gap-2">
+                          <button onClick={() => editDraft(d)} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg" title="Edit draft"><Pencil size={16} /></button>
+                          <button onClick={() => post(d, false)} className="p-2 text-slate-400 hover:text-emerald-700 hover:bg-emerald-50 rounded-lg" title="Post draft"><Send size={16} /></button>
+                          <button onClick={() => voidOne(d)} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Void draft"><Ban size={16} /></button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {listedDrafts.length === 0 && (
+                <tr><td className="px-6 py-6 text-center text-sm italic text-slate-400">No drafts</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-slate-50 flex flex-wrap items-end gap-4">
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Search
+            <div className="mt-1 relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input value={filters.search} onChange={(e) => setFilter('search', e.target.value)} placeholder="Description, memo, reference or account" className="w-72 p-3 pl-9 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500" />
+            </div>
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">From
+            <input type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} className="mt-1 block p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500" />
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">To
+            <input type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} className="mt-1 block p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500" />
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Account
+            <select value={filters.accountCode} onChange={(e) => setFilter('accountCode', e.target.value)} className="mt-1 block w-56 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+              <option value="">All accounts</option>
+              {accounts.map(a => <option key={a.code} value={a.code}>{a.code} · {a.name}</option>)}
+            </select>
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Category
+            <select value={filters.category} onChange={(e) => setFilter('category', e.target.value as AccountCategory | '')} className="mt-1 block w-36 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+              <option value="">All</option>
+              {Object.values(AccountCategory).map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Amount
+            <div className="mt-1 flex items-center gap-2">
+              <input value={minAmount} inputMode="decimal" onChange={(e) => setMinAmount(e.target.value)} placeholder="Min" className="w-24 p-3 border-2 rounded-xl text-sm font-bold font-mono text-slate-900 bg-white outline-none focus:border-emerald-500" />
+              <span className="text-slate-400">–</span>
+              <input value={maxAmount} inputMode="decimal" onChange={(e) => setMaxAmount(e.target.value)} placeholder="Max" className="w-24 p-3 border-2 rounded-xl text-sm font-bold font-mono text-slate-900 bg-white outline-none focus:border-emerald-500" />
+            </div>
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Batch
+            <select value={filters.batchId} onChange={(e) => setFilter('batchId', e.target.value)} className="mt-1 block w-72 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+              <option value="">All batches</option>
+              {batches.map(b => <option key={b.batchId} value={b.batchId}>{batchLabel(b.batchId)}</option>)}
+            </select>
+          </label>
+          {isFiltered && <button onClick={clearFilters} className="px-4 py-3 rounded-xl text-sm font-black text-slate-500 hover:bg-slate-100">Clear</button>}
+          <button onClick={startEntry} className="ml-auto flex items-center gap-2 px-5 py-3 bg-emerald-600 text-white rounded-xl text-sm font-black hover:bg-emerald-700">
+            <Plus size={16} /> New Entry
+          </button>
+        </div>
+
+        <div ref={scroller} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="overflow-y-auto" style={{ maxHeight: VIEWPORT_HEIGHT }}>
+          <table className="w-full table-fixed text-left border-collapse text-sm">
+            <thead className="bg-slate-50 sticky top-0 z-10">
+              <tr className="text-[10px] uppercase font-black tracking-widest text-slate-500 border-b">
+                {COLUMNS.map(c => (
+                  <th key={c.key} className={`px-6 py-4 ${c.className}`}>
+                    <button onClick={() => toggleSort(c.key)} className={`inline-flex items-center gap-1 uppercase ${sort.key === c.key ? 'text-slate-900' : ''}`}>
+                      {c.label}
+                      {sort.key !== c.key ? <ArrowUpDown size={12} className="opacity-40" /> : sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {first > 0 && <tr style={{ height: first * ROW_HEIGHT }}><td colSpan={COLUMNS.length}></td></tr>}
+              {windowRows.map(r => (
+                <tr key={r.key} style={{ height: ROW_HEIGHT }} className="hover:bg-slate-50">
+                  <td className="px-6 font-mono text-slate-500 whitespace-nowrap">{r.dateKey}</td>
+                  <td className="px-6 font-mono text-xs text-slate-400 truncate" title={r.tx.entryId}>{r.reference || r.tx.entryId}</td>
+                  <td className="px-6 truncate" title={r.tx.description === r.memo ? r.memo : `${r.tx.description} · ${r.memo}`}>
+                    <span className="font-bold text-slate-800">{r.tx.description}</span>
+                    {r.kind === 'closing' && <span className="ml-2 px-2 py-0.5 rounded-md bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest">Closing</span>}
+                    {r.kind === 'revaluation' && <span className="ml-2 px-2 py-0.5 rounded-md bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest">FX Revaluation</span>}
+                    {r.isReversal && <span className="ml-2 px-2 py-0.5 rounded-md bg-amber-100 text-amber-800 text-[10px] font-black uppercase tracking-widest">Reversal</span>}
+                    {r.isReversed && <span className="ml-2 px-2 py-0.5 rounded-md bg-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest">Reversed</span>}
+                  </td>
+                  <td className="px-6 text-slate-500 truncate"><span className="font-mono text-xs">{r.tx.accountCode}</span> {r.tx.accountName}</td>
+                  <td className="px-6 text-right font-mono text-emerald-700">{r.debit ? formatCurrency(r.debit, currency) : ''}</td>
+                  <td className="px-6 text-right font-mono text-slate-600">{r.credit ? formatCurrency(r.credit, currency) : ''}</td>
+                </tr>
+              ))}
+              {last < sorted.length && <tr style={{ height: (sorted.length - last) * ROW_HEIGHT }}><td colSpan={COLUMNS.length}></td></tr>}
+              {sorted.length === 0 && (
+                <tr><td colSpan={COLUMNS.length} className="py-10 text-center text-sm italic text-slate-400">{rows.length === 0 ? 'Nothing has been posted yet' : 'No lines match the filters'}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t bg-slate-900 text-white flex flex-wrap items-center gap-6 text-sm">
+          <span className="flex items-center gap-2 font-black"><BookOpen size={16} /> {filtered.length === rows.length ? `${rows.length} lines` : `${filtered.length} of ${rows.length} lines`}</span>
+          <span className="ml-auto font-mono">Debits <span className="font-black">{formatCurrency(shownDebits, currency)}</span></span>
+          <span className="font-mono">Credits <span className="font-black">{formatCurrency(shownCredits, currency)}</span></span>
+        </div>
+      </div>
+
+      {editing && (
+        <JournalEntryForm
+          key={editing.id}
+          draft={editing}
+          accounts={accounts}
+          currency={currency}
+          problems={formProblems}
+          onSave={save}
+          onPost={(draft) => post(draft, true)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GeneralLedger;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Bookmark, CheckCircle2, Save, Sparkles, Trash2 } from 'lucide-react';
+import { Account, ImportAmountLayout, ImportProfile, ImportTransforms, TransactionType } from '../types';
+import { ImportField } from '../utils/importValidation';
+import { AMOUNT_LAYOUT_LABELS, ProfileMatch } from '../utils/importProfiles';
+
+interface ImportMappingProps {
+  headers: string[];
+  fields: { key: ImportField; label: string; optional?: boolean }[];
+  mappings: Record<string, string>;
+  transforms: ImportTransforms;
+  accounts: Account[];
+  profiles: ImportProfile[];
+  matches: ProfileMatch[];
+  activeProfileId: string | null;
+  sourceSummary: string;
+  sourceProblems: string[];
+  onMappingsChange: (mappings: Record<string, string>) => void;
+  onTransformsChange: (transforms: ImportTransforms) => void;
+  onApplyProfile: (profileId: string) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+const ImportMapping: React.FC<ImportMappingProps> = ({
+  headers, fields, mappings, transforms, accounts, profiles, matches, activeProfileId, sourceSummary, sourceProblems,
+  onMappingsChange, onTransformsChange, onApplyProfile, onSaveProfile, onDeleteProfile
+}) => {
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const [profileName, setProfileName] = useState(activeProfile?.name ?? '');
+  const suggestions = matches.filter(m => m.profile.id !== activeProfileId);
+
+  const removeProfile = (profile: ImportProfile) => {
+    if (window.confirm(`Delete the "${profile.name}" import profile?`)) onDeleteProfile(profile.id);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-3 text-xs font-black uppercase tracking-widest text-slate-400">
+        <span>{sourceSummary}</span>
+        {activeProfile && <span className="px-3 py-1 rounded-lg bg-emerald-50 text-emerald-700 flex items-center gap-1"><Bookmark size={12} /> {activeProfile.name}</span>}
+      </div>
+
+      {sourceProblems.length > 0 && (
+        <div className="p-4 bg-amber-50 border-2 border-amber-200 rounded-2xl text-sm font-bold text-amber-800 flex gap-3">
+          <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+          <div>{sourceProblems.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="p-4 bg-indigo-50 border-2 border-indigo-100 rounded-2xl flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-indigo-700"><Sparkles size={14} /> Matching profiles</span>
+          {suggestions.map(m => (
+            <button key={m.profile.id} onClick={() => onApplyProfile(m.profile.id)} className="px-3 py-2 bg-white border-2 border-indigo-100 rounded-xl text-xs font-black text-indigo-700 hover:border-indigo-300">
+              {m.profile.name} <span className="text-indigo-400">{Math.round(m.score * 100)}%</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Profile
+          <select value={activeProfileId ?? ''} onChange={(e) => e.target.value && onApplyProfile(e.target.value)} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="">{profiles.length === 0 ? 'No saved profiles' : '-- Choose a profile --'}</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Amounts
+          <select value={transforms.amountLayout} onChange={(e) => onTransformsChange({ ...transforms, amountLayout: e.target.value as ImportAmountLayout })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {(Object.keys(AMOUNT_LAYOUT_LABELS) as ImportAmountLayout[]).map(l => <option key={l} value={l}>{AMOUNT_LAYOUT_LABELS[l]}</option>)}
+          </select>
+        </label>
+        {transforms.amountLayout === 'signed' && (
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Positive Amounts Are
+            <select value={transforms.positiveAmountIs} onChange={(e) => onTransformsChange({ ...transforms, positiveAmountIs: e.target.value as TransactionType })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+              <option value={TransactionType.DEBIT}>Debits</option>
+              <option value={TransactionType.CREDIT}>Credits</option>
+            </select>
+          </label>
+        )}
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Dates Written As
+          <select value={transforms.dateOrder ?? ''} onChange={(e) => onTransformsChange({ ...transforms, dateOrder: (e.target.value || undefined) as ImportTransforms['dateOrder'] })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="">Detect from file</option>
+            <option value="DMY">Day / Month</option>
+            <option value="MDY">Month / Day</option>
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Post Each Row Against
+          <select value={transforms.offsetAccountCode ?? ''} onChange={(e) => onTransformsChange({ ...transforms, offsetAccountCode: e.target.value || undefined })} className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="">Nothing (rows are full entries)</option>
+            {accounts.filter(a => a.active || a.code === transforms.offsetAccountCode).map(a => <option key={a.code} value={a.code}>{a.code} {a.name}</option>)}
+          </select>
+        </label>
+      </div>
+      {transforms.offsetAccountCode && (
+        <p className="text-xs font-bold text-slate-400 -mt-4">Each row becomes one entry against {transforms.offsetAccountCode}, the bank or card account the file comes from. Rows without an account get suggestions to review.</p>
+      )}
+
+      <div className="bg-white border-4 border-slate-100 rounded-[32px] overflow-hidden shadow-sm">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 border-b-2">
+            <tr>
+              <th className="px-8 py-6 text-sm font-black text-slate-900 uppercase tracking-widest">Financial Field</th>
+              <th className="px-8 py-6 text-sm font-black text-slate-900 uppercase tracking-widest">Detected CSV Column</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {fields.map(field => (
+              <tr key={field.key}>
+                <td className="px-8 py-6">
+                  <div className="flex items-center gap-3">
+                    <span className="font-black text-slate-800 tracking-tight text-lg">{field.label}</span>
+                    {field.optional && <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Optional</span>}
+                    {mappings[field.key] && <CheckCircle2 size={20} className="text-emerald-500" />}
+                  </div>
+                </td>
+                <td className="px-8 py-6">
+                  <select value={mappings[field.key] || ''} onChange={(e) => onMappingsChange({ ...mappings, [field.key]: e.target.value })} className="w-full p-4 border-2 rounded-xl bg-slate-50 font-bold focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 outline-none appearance-none transition-all">
+                    <option value="">-- Select Source Column --</option>
+                    {headers.map(h => ( <option key={h} value={h}>{h}</option> ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input value={profileName} onChange={(e) => setProfileName(e.target.value)} placeholder='Profile name, e.g. "Xero export"' className="w-72 p-3 border-2 rounded-xl text-sm font-bold outline-none focus:border-emerald-500" />
+        <button onClick={() => onSaveProfile(profileName)} disabled={!profileName.trim()} className="flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+          <Save size={16} /> {profiles.some(p => p.name.toLowerCase() === profileName.trim().toLowerCase()) ? 'Update Profile' : 'Save as Profile'}
+        </button>
+        {activeProfile && (
+          <button onClick={() => removeProfile(activeProfile)} className="p-3 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-xl" title="Delete profile">
+            <Trash2 size={16} />
+          </button>
+        )}
+        <p className="text-xs font-bold text-slate-400">Profiles keep the column mapping, amount and date settings and the account rows are posted against, and are suggested when a file has the same headers.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMapping;
@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Check, CheckCircle2, CopyX, Sparkles, XCircle } from 'lucide-react';
+import { DateOrder } from '../utils/dates';
+import { ImportField, ImportIssue, ImportRow, ImportValidation } from '../utils/importValidation';
+import { CONFIDENT_SUGGESTION, CategorySuggestion, SUGGESTION_SOURCE_LABELS } from '../utils/categorisation';
+
+interface ImportReviewProps {
+  rows: ImportRow[];
+  validation: ImportValidation;
+  fields: { key: ImportField; label: string }[];
+  dateOrder: DateOrder;
+  dateOrderConflicting: boolean;
+  suggestions: CategorySuggestion[]; // For included rows without an account
+  suggesting: boolean;
+  suggestionError: string | null;
+  onRowsChange: (rows: ImportRow[]) => void;
+  onDateOrderChange: (order: DateOrder) => void;
+  onSuggestWithModel: () => void;
+}
+
+type RowFilter = 'all' | 'issues' | 'errors';
+
+const ImportReview: React.FC<ImportReviewProps> = ({
+  rows, validation, fields, dateOrder, dateOrderConflicting, suggestions, suggesting, suggestionError, onRowsChange, onDateOrderChange, onSuggestWithModel
+}) => {
+  const [filter, setFilter] = useState<RowFilter>('all');
+
+  const issuesByRow = useMemo(() => {
+    const map = new Map<number, ImportIssue[]>();
+    validation.issues.forEach(issue => map.set(issue.rowIndex, [...(map.get(issue.rowIndex) ?? []), issue]));
+    return map;
+  }, [validation.issues]);
+
+  const included = rows.filter(r => !r.excluded);
+  const errorRows = included.filter(r => issuesByRow.get(r.index)?.some(i => i.severity === 'error'));
+  const warningCount = validation.issues.filter(i => i.severity === 'warning').length;
+  const duplicateRows = new Set<number>(validation.issues.filter(i => i.duplicateOf).map(i => i.rowIndex));
+  const visible = rows.filter(r => filter === 'all'
+    || (filter === 'issues' && issuesByRow.has(r.index))
+    || (filter === 'errors' && issuesByRow.get(r.index)?.some(i => i.severity === 'error')));
+
+  const updateRow = (index: number, change: Partial<ImportRow>) => onRowsChange(rows.map(r => r.index === index ? { ...r, ...change } : r));
+  const updateValue = (row: ImportRow, field: ImportField, value: string) => updateRow(row.index, { values: { ...row.values, [field]: value } });
+  const exclude = (indexes: Set<number>) => onRowsChange(rows.map(r => indexes.has(r.index) ? { ...r, excluded: true } : r));
+
+  // Accepting writes the account into the row, where it is validated like any typed value
+  const suggestionByRow = new Map<number, CategorySuggestion>(suggestions.map(s => [s.rowIndex, s]));
+  const unlabelled = included.filter(r => !r.values.accountName.trim());
+  const confident = suggestions.filter(s => s.confidence >= CONFIDENT_SUGGESTION);
+  const accept = (accepted: CategorySuggestion[]) => {
+    const byRow = new Map<number, CategorySuggestion>(accepted.map(s => [s.rowIndex, s]));
+    onRowsChange(rows.map(r => {
+      const s = byRow.get(r.index);
+      return s ? { ...r, values: { ...r.values, accountName: s.accountCode, category: s.category } } : r;
+    }));
+  };
+
+  const cellTone = (issues: ImportIssue[] | undefined, field: ImportField) => {
+    const own = issues?.filter(i => i.field === field) ?? [];
+    if (own.some(i => i.severity === 'error')) return 'border-rose-300 bg-rose-50';
+    if (own.length > 0) return 'border-amber-300 bg-amber-50';
+    return 'border-transparent hover:border-slate-200';
+  };
+
+  return (
+    <div className="space-y-6 animate-in slide-in-from-right-10">
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="flex gap-3 text-xs font-black uppercase tracking-widest">
+          <span className="px-3 py-2 rounded-xl bg-slate-100 text-slate-600">{included.length} of {rows.length} rows included</span>
+          <span className={`px-3 py-2 rounded-xl flex items-center gap-2 ${errorRows.length > 0 ? 'bg-rose-50 text-rose-700' : 'bg-emerald-50 text-emerald-700'}`}>
+            {errorRows.length > 0 ? <XCircle size={14} /> : <CheckCircle2 size={14} />} {errorRows.length} rows with errors
+          </span>
+          <span className={`px-3 py-2 rounded-xl flex items-center gap-2 ${warningCount > 0 ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-400'}`}>
+            <AlertTriangle size={14} /> {warningCount} warnings
+          </span>
+        </div>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Dates Written As
+          <select value={dateOrder} onChange={(e) => onDateOrderChange(e.target.value as DateOrder)} className="mt-1 block w-44 p-2 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="DMY">Day / Month</option>
+            <option value="MDY">Month / Day</option>
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Show
+          <select value={filter} onChange={(e) => setFilter(e.target.value as RowFilter)} className="mt-1 block w-44 p-2 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value="all">All rows</option>
+            <option value="issues">Rows with issues</option>
+            <option value="errors">Rows with errors</option>
+          </select>
+        </label>
+        <div className="flex gap-3 ml-auto">
+          <button onClick={() => exclude(duplicateRows)} disabled={duplicateRows.size === 0} className="flex items-center gap-2 px-4 py-2 border-2 rounded-xl text-xs font-black text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+            <CopyX size={14} /> Exclude {duplicateRows.size} Duplicates
+          </button>
+          <button onClick={() => exclude(new Set<number>(errorRows.map(r => r.index)))} disabled={errorRows.length === 0} className="flex items-center gap-2 px-4 py-2 border-2 rounded-xl text-xs font-black text-rose-600 hover:bg-rose-50 disabled:opacity-50">
+            <XCircle size={14} /> Exclude Rows With Errors
+          </button>
+        </div>
+      </div>
+
+      {unlabelled.length > 0 && (
+        <div className="p-4 bg-indigo-50 border-2 border-indigo-100 rounded-2xl flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-indigo-700">
+            <Sparkles size={14} /> {unlabelled.length} rows without an account · {suggestions.length} suggested
+          </span>
+          <div className="flex gap-3 ml-auto">
+            <button onClick={() => accept(confident)} disabled={confident.length === 0} className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-indigo-100 rounded-xl text-xs font-black text-indigo-700 hover:border-indigo-300 disabled:opacity-50">
+              <Check size={14} /> Accept {confident.length} at {Math.round(CONFIDENT_SUGGESTION * 100)}% or More
+            </button>
+            <button onClick={onSuggestWithModel} disabled={suggesting || unlabelled.length === confident.length} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black hover:bg-indigo-700 disabled:opacity-50">
+              {suggesting ? <div className="h-3.5 w-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <Sparkles size={14} />} Ask the Language Model
+            </button>
+          </div>
+          {suggestionError && <p className="w-full text-sm font-bold text-rose-700 flex items-center gap-2"><AlertCircle size={14} /> {suggestionError}</p>}
+        </div>
+      )}
+
+      {dateOrderConflicting && (
+        <div className="p-4 bg-amber-50 border-2 border-amber-200 rounded-2xl text-sm font-bold text-amber-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <p>The date column mixes day-first and month-first dates. Rows that only fit the other order are errors; dates that fit both are read as {dateOrder === 'DMY' ? 'day/month' : 'month/day'}.</p>
+        </div>
+      )}
+
+      <div className="bg-white border-4 border-slate-100 rounded-[32px] overflow-x-auto shadow-sm">
+        <table className="w-full text-left border-collapse text-xs">
+          <thead className="bg-slate-50 border-b-2 text-[10px] uppercase font-black tracking-widest text-slate-500">
+            <tr>
+              <th className="px-3 py-4">Use</th>
+              <th className="px-3 py-4">Row</th>
+              {fields.map(f => <th key={f.key} className="px-3 py-4 whitespace-nowrap">{f.label}</th>)}
+            </tr>
+          </thead>
+          {visible.map(row => {
+            const issues = issuesByRow.get(row.index);
+            const suggestion = row.excluded ? undefined : suggestionByRow.get(row.index);
+            return (
+              <tbody key={row.index} className={`border-b border-slate-100 ${row.excluded ? 'opacity-40' : ''}`}>
+                <tr>
+                  <td className="px-3 py-2">
+                    <input type="checkbox" checked={!row.excluded} onChange={(e) => updateRow(row.index, { excluded: !e.target.checked })} />
+                  </td>
+                  {/* Line number in the file, counting the header as line 1 */}
+                  <td className="px-3 py-2 font-mono text-slate-400">{row.index + 2}</td>
+                  {fields.map(f => (
+                    <td key={f.key} className="px-1 py-1 align-top">
+                      <input
+                        value={row.values[f.key]}
+                        onChange={(e) => updateValue(row, f.key, e.target.value)}
+                        disabled={row.excluded}
+                        className={`w-full min-w-[80px] p-2 border-2 rounded-lg font-bold text-slate-800 outline-none focus:border-emerald-500 focus:bg-white ${cellTone(issues, f.key)}`}
+                      />
+                      {f.key === 'date' && validation.dates[row.index] && validation.dates[row.index] !== row.values.date && (
+                        <div className="px-2 text-[10px] font-mono text-slate-400">{validation.dates[row.index]}</div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                {suggestion && (
+                  <tr>
+                    <td colSpan={fields.length + 2} className="px-3 pb-2">
+                      <div className="flex flex-wrap items-center gap-3 font-bold text-indigo-700">
+                        <Sparkles size={12} />
+                        <span className="font-black">{suggestion.accountCode} {validation.chart.find(a => a.code === suggestion.accountCode)?.name}</span>
+                        <span className={`px-2 py-0.5 rounded-md font-black ${suggestion.confidence >= CONFIDENT_SUGGESTION ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>{Math.round(suggestion.confidence * 100)}%</span>
+                        <span className="text-[10px] uppercase font-black tracking-widest text-slate-400">{SUGGESTION_SOURCE_LABELS[suggestion.source]}</span>
+                        <span className="text-slate-500">{suggestion.reason}</span>
+                        <button onClick={() => accept([suggestion])} className="px-3 py-1 bg-indigo-600 text-white rounded-lg text-[10px] uppercase font-black tracking-widest hover:bg-indigo-700">Accept</button>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+                {!row.excluded && issues && (
+                  <tr>
+                    <td colSpan={fields.length + 2} className="px-3 pb-3">
+                      <ul className="space-y-1">
+                        {issues.map((issue, i) => (
+                          <li key={i} className={`flex items-center gap-2 font-bold ${issue.severity === 'error' ? 'text-rose-700' : 'text-amber-700'}`}>
+                            {issue.severity === 'error' ? <XCircle size={12} /> : <AlertTriangle size={12} />} {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            );
+          })}
+        </table>
+        {visible.length === 0 && <p className="p-8 text-center text-sm font-bold text-slate-400">No rows match this filter.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ImportReview;
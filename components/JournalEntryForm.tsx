@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle2, Plus, Save, Send, Trash2 } from 'lucide-react';
+import { Account, DraftEntry, JournalLine, TransactionType } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { entryTotals } from '../utils/ledger';
+import { parseMoney } from '../utils/bankImport';
+import { blankLine, searchAccounts } from '../utils/generalLedger';
+
+interface JournalEntryFormProps {
+  draft: DraftEntry;
+  accounts: Account[];
+  currency: string;
+  problems: string[];
+  onSave: (draft: DraftEntry) => void;
+  onPost: (draft: DraftEntry) => void;
+  onClose: () => void;
+}
+
+// Amounts are kept as typed so a half-entered figure such as "12." is not reformatted under the cursor
+interface LineInput {
+  id: string;
+  accountCode: string;
+  debit: string;
+  credit: string;
+  description: string;
+}
+
+const toInput = (line: JournalLine): LineInput => ({
+  id: line.id,
+  accountCode: line.accountCode,
+  debit: line.type === TransactionType.DEBIT && line.amount ? String(line.amount) : '',
+  credit: line.type === TransactionType.CREDIT && line.amount ? String(line.amount) : '',
+  description: line.description ?? ''
+});
+
+// A line with neither figure is an empty debit, and a negative figure belongs on the other side
+const toLine = (input: LineInput, original?: JournalLine): JournalLine => {
+  const enteredAsCredit = !input.debit.trim() && !!input.credit.trim();
+  const text = enteredAsCredit ? input.credit : input.debit;
+  const amount = text.trim() ? parseMoney(text) : 0;
+  const isCredit = amount < 0 ? !enteredAsCredit : enteredAsCredit;
+  return {
+    ...original,
+    id: input.id,
+    accountCode: input.accountCode,
+    amount: Math.round(Math.abs(amount) * 100) / 100, // NaN when the figure does not parse; posting reports it
+    type: isCredit ? TransactionType.CREDIT : TransactionType.DEBIT,
+    description: input.description || undefined
+  };
+};
+
+interface AccountPickerProps {
+  accounts: Account[];
+  value: string;
+  onChange: (code: string) => void;
+}
+
+const AccountPicker: React.FC<AccountPickerProps> = ({ accounts, value, onChange }) => {
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlight, setHighlight] = useState(0);
+  const selected = accounts.find(a => a.code === value);
+  const open = query !== null;
+  const matches = open ? searchAccounts(accounts, query) : [];
+
+  const choose = (account: Account) => {
+    onChange(account.code);
+    setQuery(null);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') { e.preventDefault(); setQuery(query ?? ''); setHighlight(Math.min(highlight + 1, matches.length - 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setHighlight(Math.max(highlight - 1, 0)); }
+    else if (e.key === 'Enter' && open && matches[highlight]) { e.preventDefault(); choose(matches[highlight]); }
+    else if (e.key === 'Escape') setQuery(null);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        value={open ? query : selected ? `${selected.code} · ${selected.name}` : value}
+        onChange={(e) => { setQuery(e.target.value); setHighlight(0); }}
+        onFocus={() => { setQuery(''); setHighlight(0); }}
+        onBlur={() => setQuery(null)}
+        onKeyDown={onKeyDown}
+        placeholder="Code or name"
+        className={`w-full p-2 border-2 rounded-lg text-sm font-bold outline-none focus:border-emerald-500 ${value && !selected ? 'border-rose-300 text-rose-700' : 'text-slate-900'}`}
+      />
+      {open && (
+        <div className="absolute z-10 left-0 right-0 mt-1 bg-white border-2 rounded-xl shadow-xl overflow-hidden">
+          {matches.map((a, i) => (
+            <button
+              key={a.code}
+              // Keeps focus in the input so the blur does not close the list before the click lands
+              onMouseDown={(e) => { e.preventDefault(); choose(a); }}
+              onMouseEnter={() => setHighlight(i)}
+              className={`w-full text-left px-3 py-2 text-sm ${i === highlight ? 'bg-emerald-50' : ''}`}
+            >
+              <span className="font-mono text-xs text-slate-400 mr-2">{a.code}</span>
+              <span className="font-bold text-slate-800">{a.name}</span>
+              <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-slate-400">{a.category}</span>
+            </button>
+          ))}
+          {matches.length === 0 && <p className="px-3 py-2 text-sm italic text-slate-400">No active account matches</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const JournalEntryForm: React.FC<JournalEntryFormProps> = ({ draft, accounts, currency, problems, onSave, onPost, onClose }) => {
+  const [date, setDate] = useState(draft.date);
+  const [reference, setReference] = useState(draft.reference ?? '');
+  const [memo, setMemo] = useState(draft.memo);
+  const [lines, setLines] = useState<LineInput[]>(draft.lines.map(toInput));
+
+  const current = (): DraftEntry => ({
+    ...draft,
+    date,
+    memo,
+    reference: reference || undefined,
+    lines: lines.map(l => toLine(l, draft.lines.find(o => o.id === l.id)))
+  });
+
+  const updateLine = (id: string, patch: Partial<LineInput>) => setLines(lines.map(l => (l.id === id ? { ...l, ...patch } : l)));
+
+  // Figures that do not parse count as zero in the running totals; posting reports them
+  const totals = entryTotals({ lines: current().lines.map(l => (isFinite(l.amount) ? l : { ...l, amount: 0 })) });
+  const balanced = totals.difference === 0 && totals.debit > 0;
+
+  const addLine = () => {
+    // A new line starts on whichever side would bring the entry back into balance
+    const line = toInput(blankLine(totals.difference > 0 ? TransactionType.CREDIT : TransactionType.DEBIT));
+    const gap = Math.abs(totals.difference);
+    if (gap) line[totals.difference > 0 ? 'credit' : 'debit'] = gap.toFixed(2);
+    setLines([...lines, line]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-xl z-[100] flex items-center justify-center p-6">
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-5xl overflow-hidden border border-slate-200 flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50 shrink-0">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tighter">Journal Entry</h3>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">Draft · started {new Date(draft.createdAt).toLocaleString()}</p>
+          </div>
+          <button onClick={onClose} className="bg-white p-2 rounded-full border shadow-sm hover:text-rose-500 transition-all hover:rotate-90">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Date
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="mt-1 block p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+            </label>
+            <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Reference
+              <input value={reference} onChange={(e) => setReference(e.target.value)} className="mt-1 block w-36 p-3 border-2 rounded-xl text-sm font-bold font-mono text-slate-900 outline-none focus:border-emerald-500" />
+            </label>
+            <label className="flex-1 min-w-[16rem] text-[10px] uppercase font-black tracking-widest text-slate-500">Memo
+              <input value={memo} onChange={(e) => setMemo(e.target.value)} placeholder="What the entry records" className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+            </label>
+          </div>
+
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="text-[10px] uppercase font-black tracking-widest text-slate-500 border-b">
+              <tr>
+                <th className="py-3 pr-3 w-72">Account</th>
+                <th className="py-3 pr-3">Line description</th>
+                <th className="py-3 pr-3 w-36 text-right">Debit</th>
+                <th className="py-3 pr-3 w-36 text-right">Credit</th>
+                <th className="py-3 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {lines.map(line => (
+                <tr key={line.id}>
+                  <td className="py-2 pr-3"><AccountPicker accounts={accounts} value={line.accountCode} onChange={(code) => updateLine(line.id, { accountCode: code })} /></td>
+                  <td className="py-2 pr-3"><input value={line.description} onChange={(e) => updateLine(line.id, { description: e.target.value })} placeholder={memo || 'Uses the memo'} className="w-full p-2 border-2 rounded-lg text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" /></td>
+                  <td className="py-2 pr-3"><input value={line.debit} inputMode="decimal" onChange={(e) => updateLine(line.id, { debit: e.target.value, credit: '' })} className="w-full p-2 border-2 rounded-lg text-sm font-bold font-mono text-right text-slate-900 outline-none focus:border-emerald-500" /></td>
+                  <td className="py-2 pr-3"><input value={line.credit} inputMode="decimal" onChange={(e) => updateLine(line.id, { credit: e.target.value, debit: '' })} className="w-full p-2 border-2 rounded-lg text-sm font-bold font-mono text-right text-slate-900 outline-none focus:border-emerald-500" /></td>
+                  <td className="py-2 text-right">
+                    <button onClick={() => setLines(lines.filter(l => l.id !== line.id))} disabled={lines.length <= 2} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg disabled:opacity-30" title="Remove line">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t-2 border-slate-200">
+                <td className="py-3" colSpan={2}>
+                  <button onClick={addLine} className="flex items-center gap-2 px-3 py-2 border-2 rounded-lg text-xs font-black text-slate-700 hover:bg-slate-50">
+                    <Plus size={14} /> Add Line
+                  </button>
+                </td>
+                <td className="py-3 pr-3 text-right font-mono font-black text-slate-900">{formatCurrency(totals.debit, currency)}</td>
+                <td className="py-3 pr-3 text-right font-mono font-black text-slate-900">{formatCurrency(totals.credit, currency)}</td>
+                <td></td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <div className={`p-4 rounded-2xl text-sm font-bold flex items-center gap-2 ${balanced ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-800'}`}>
+            {balanced ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+            {balanced
+              ? 'Balanced'
+              : totals.debit === 0 && totals.credit === 0
+                ? 'Enter the debit and credit amounts'
+                : `Out of balance by ${formatCurrency(Math.abs(totals.difference), currency)}: ${totals.difference > 0 ? 'debits' : 'credits'} exceed ${totals.difference > 0 ? 'credits' : 'debits'}`}
+          </div>
+
+          {problems.length > 0 && (
+            <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+              <AlertCircle size={18} className="shrink-0 mt-0.5" />
+              <div>{problems.map((p, i) => <p key={i}>{p}</p>)}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t bg-slate-50 flex justify-end gap-3 shrink-0">
+          <button onClick={onClose} className="px-5 py-3 rounded-xl text-sm font-black text-slate-500 hover:bg-slate-100">Cancel</button>
+          <button onClick={() => onSave(current())} className="flex items-center gap-2 px-5 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-white">
+            <Save size={16} /> Save Draft
+          </button>
+          <button onClick={() => onPost(current())} disabled={!balanced} className="flex items-center gap-2 px-5 py-3 bg-emerald-600 text-white rounded-xl text-sm font-black hover:bg-emerald-700 disabled:opacity-50">
+            <Send size={16} /> Post Entry
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalEntryForm;
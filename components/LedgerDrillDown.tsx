@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Plus, Search } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { Account, FinancialStatements, JournalEntry, TransactionType } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { DrillRequest, buildAccountCard } from '../utils/drillDown';
+
+interface LedgerDrillDownProps {
+  request: DrillRequest;
+  statements: FinancialStatements; // The statements the line came from; sets the period and any translation
+  entries: JournalEntry[];
+  accounts: Account[];
+  functionalCurrency: string;
+  onClose: () => void;
+}
+
+type SideFilter = '' | TransactionType;
+
+const LedgerDrillDown: React.FC<LedgerDrillDownProps> = ({ request, statements, entries, accounts, functionalCurrency, onClose }) => {
+  const [search, setSearch] = useState('');
+  const [accountFilter, setAccountFilter] = useState('');
+  const [sideFilter, setSideFilter] = useState<SideFilter>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const { source } = request;
+  const period = statements.period;
+  const card = useMemo(() => buildAccountCard(entries, accounts, source, period), [entries, accounts, source, period]);
+  const accountNames = new Map(accounts.map(a => [a.code, a.name]));
+
+  const query = search.trim().toLowerCase();
+  const visible = card.rows.filter(r =>
+    (!accountFilter || r.tx.accountCode === accountFilter) &&
+    (!sideFilter || r.tx.type === sideFilter) &&
+    (!from || r.tx.date.slice(0, 10) >= from) &&
+    (!to || r.tx.date.slice(0, 10) <= to) &&
+    (!query || [r.tx.description, r.reference ?? '', r.tx.entryId, r.tx.accountName, r.tx.accountCode].some(v => v.toLowerCase().includes(query))));
+  const filtered = visible.length !== card.rows.length;
+  const visibleDebits = visible.reduce((s, r) => s + r.debit, 0);
+  const visibleCredits = visible.reduce((s, r) => s + r.credit, 0);
+
+  // Postings are in the functional currency; a translated statement line is compared at the translation rate
+  const rate = statements.translation?.rate ?? 1;
+  const difference = Math.round((card.closing * rate - request.amount) * 100) / 100;
+  const agrees = Math.abs(difference) < 0.01;
+
+  const exportRows = () => {
+    const ws = XLSX.utils.json_to_sheet(visible.map(r => ({
+      Date: r.tx.date,
+      Entry: r.tx.entryId,
+      Reference: r.reference ?? '',
+      Description: r.tx.description,
+      'Account Code': r.tx.accountCode,
+      'Account Name': r.tx.accountName,
+      Debit: r.debit || null,
+      Credit: r.credit || null,
+      Balance: r.balance
+    })));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Postings');
+    const name = `${request.label}_${period?.label ?? 'All Activity'}`.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '');
+    XLSX.writeFile(wb, `${name}.xlsx`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-xl z-[100] flex items-center justify-center p-6">
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-6xl overflow-hidden border border-slate-200 flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50 shrink-0">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tighter">{request.label}</h3>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">
+              {period?.label ?? 'All recorded activity'} · {source.basis === 'movement' ? 'Postings in the period' : 'Balance at the period end'} · {formatCurrency(request.amount, statements.currency)}
+            </p>
+          </div>
+          <button onClick={onClose} className="bg-white p-2 rounded-full border shadow-sm hover:text-rose-500 transition-all hover:rotate-90">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 border-b flex flex-wrap items-end gap-4 shrink-0">
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Search
+            <div className="mt-1 relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Description, reference or entry" className="w-72 p-3 pl-9 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+            </div>
+          </label>
+          {source.accountCodes.length > 1 && (
+            <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Account
+              <select value={accountFilter} onChange={(e) => setAccountFilter(e.target.value)} className="mt-1 block w-56 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+                <option value="">All {source.accountCodes.length} accounts</option>
+                {source.accountCodes.map(code => <option key={code} value={code}>{code} · {accountNames.get(code) ?? code}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Side
+            <select value={sideFilter} onChange={(e) => setSideFilter(e.target.value as SideFilter)} className="mt-1 block w-32 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+              <option value="">Both</option>
+              <option value={TransactionType.DEBIT}>Debits</option>
+              <option value={TransactionType.CREDIT}>Credits</option>
+            </select>
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="mt-1 block p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+          </label>
+          <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="mt-1 block p-3 border-2 rounded-xl text-sm font-bold text-slate-900 outline-none focus:border-emerald-500" />
+          </label>
+          <button onClick={exportRows} disabled={visible.length === 0} className="ml-auto flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+            <FileSpreadsheet size={16} className="text-emerald-600" /> Export {filtered ? `${visible.length} of ${card.rows.length}` : 'Postings'}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr className="text-[10px] uppercase font-black tracking-widest text-slate-500">
+                <th className="py-3 px-4">Date</th>
+                <th className="py-3 px-4">Reference</th>
+                <th className="py-3 px-4">Description</th>
+                <th className="py-3 px-4">Account</th>
+                <th className="py-3 px-4 text-right">Debit</th>
+                <th className="py-3 px-4 text-right">Credit</th>
+                <th className="py-3 px-4 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {source.basis === 'balance' && (
+                <tr className="bg-slate-50/50">
+                  <td className="py-3 px-4 font-mono text-slate-400">{period?.start ?? ''}</td>
+                  <td colSpan={5} className="py-3 px-4 font-bold text-slate-500 italic">
+                    Opening balance{card.openingIncludesEarnings && ', including profit and loss brought forward'}
+                  </td>
+                  <td className="py-3 px-4 text-right font-mono font-bold text-slate-700">{formatCurrency(card.opening, functionalCurrency)}</td>
+                </tr>
+              )}
+              {visible.map(r => (
+                <tr key={`${r.tx.entryId}:${r.tx.id}`} className="hover:bg-slate-50">
+                  <td className="py-3 px-4 font-mono text-slate-500 whitespace-nowrap">{r.tx.date.slice(0, 10)}</td>
+                  <td className="py-3 px-4 font-mono text-xs text-slate-400">{r.reference ?? r.tx.entryId}</td>
+                  <td className="py-3 px-4 font-bold text-slate-800">{r.tx.description}</td>
+                  <td className="py-3 px-4 text-slate-500 whitespace-nowrap"><span className="font-mono text-xs">{r.tx.accountCode}</span> {r.tx.accountName}</td>
+                  <td className="py-3 px-4 text-right font-mono">{r.debit ? formatCurrency(r.debit, functionalCurrency) : ''}</td>
+                  <td className="py-3 px-4 text-right font-mono">{r.credit ? formatCurrency(r.credit, functionalCurrency) : ''}</td>
+                  <td className="py-3 px-4 text-right font-mono font-bold text-slate-900">{formatCurrency(r.balance, functionalCurrency)}</td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr><td colSpan={7} className="py-8 text-center text-sm italic text-slate-400">{card.rows.length === 0 ? 'No postings in this period' : 'No postings match the filters'}</td></tr>
+              )}
+            </tbody>
+            <tfoot>
+              {filtered && (
+                <tr className="border-t-2 border-slate-200 text-slate-500">
+                  <td colSpan={4} className="py-3 px-4 text-xs font-black uppercase tracking-widest">Shown ({visible.length} postings)</td>
+                  <td className="py-3 px-4 text-right font-mono font-bold">{formatCurrency(visibleDebits, functionalCurrency)}</td>
+                  <td className="py-3 px-4 text-right font-mono font-bold">{formatCurrency(visibleCredits, functionalCurrency)}</td>
+                  <td></td>
+                </tr>
+              )}
+              <tr className="border-t-4 border-slate-900 bg-slate-900 text-white">
+                <td colSpan={6} className="py-4 px-4 font-black">Closing balance</td>
+                <td className="py-4 px-4 text-right font-black font-mono">{formatCurrency(card.closing, functionalCurrency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        <div className={`p-4 border-t text-sm font-bold flex items-center gap-2 shrink-0 ${agrees ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+          {agrees ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+          {agrees
+            ? `Agrees to the statement line${statements.translation ? ` at ${rate.toFixed(4)} ${statements.currency} per ${functionalCurrency}` : ''}`
+            : `Differs from the statement line by ${formatCurrency(difference, statements.currency)}`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerDrillDown;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { AccountSubType, FinancialNote, NoteInclusion, NoteTable, NoteTemplate } from '../types';
+import { NOTE_INCLUSION_LABELS, NOTE_PLACEHOLDERS, NOTE_SUB_TYPES, NOTE_TABLE_LABELS, defaultNoteTemplates, templateProblems } from '../utils/notes';
+
+interface NoteTemplateEditorProps {
+  templates: NoteTemplate[];
+  notes: FinancialNote[]; // Notes presented for the selected period, for their numbers
+  onChange: (templates: NoteTemplate[]) => void;
+}
+
+const NoteTemplateEditor: React.FC<NoteTemplateEditorProps> = ({ templates, notes, onChange }) => {
+  const update = (id: string, patch: Partial<NoteTemplate>) => onChange(templates.map(t => t.id === id ? { ...t, ...patch } : t));
+  const move = (index: number, offset: number) => {
+    const next = [...templates];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+  const toggleSubType = (template: NoteTemplate, subType: AccountSubType) => update(template.id, {
+    subTypes: template.subTypes.includes(subType) ? template.subTypes.filter(st => st !== subType) : [...template.subTypes, subType]
+  });
+  const addTemplate = () => onChange([...templates, { id: `note-${Date.now()}`, title: 'New Note', body: '', table: 'none', subTypes: [], inclusion: 'auto' }]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-black text-slate-800">Placeholders</h3>
+          <div className="flex gap-2">
+            <button onClick={() => onChange(defaultNoteTemplates)} className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black border-2 text-slate-700 hover:bg-slate-50">
+              <RotateCcw size={14} /> Reset to Defaults
+            </button>
+            <button onClick={addTemplate} className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-black hover:bg-emerald-700">
+              <Plus size={14} /> Add Note
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2">
+          {NOTE_PLACEHOLDERS.map(p => (
+            <p key={p.token} className="text-xs text-slate-500"><span className="font-mono font-bold text-slate-800">{p.token}</span> · {p.meaning}</p>
+          ))}
+        </div>
+        <p className="mt-4 text-xs font-bold text-slate-400">
+          Notes are numbered in the order below, counting only those presented. A statement line refers to the first presented note that covers its account.
+        </p>
+      </div>
+
+      {templates.map((template, index) => {
+        const presented = notes.find(n => n.id === template.id);
+        const problems = templateProblems(template, templates);
+        return (
+          <div key={template.id} className="bg-white p-8 rounded-3xl border shadow-sm space-y-4">
+            <div className="flex items-center gap-4">
+              <span className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${presented ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-400'}`}>
+                {presented ? `Note ${presented.noteNumber}` : 'Not presented'}
+              </span>
+              <input
+                value={template.title}
+                onChange={(e) => update(template.id, { title: e.target.value })}
+                className="flex-1 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500"
+              />
+              <span className="text-[10px] font-mono text-slate-400" title="Refer to this note from another with {{note:id}}">{template.id}</span>
+              <div className="flex gap-1">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg disabled:opacity-30" title="Move up"><ArrowUp size={16} /></button>
+                <button onClick={() => move(index, 1)} disabled={index === templates.length - 1} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg disabled:opacity-30" title="Move down"><ArrowDown size={16} /></button>
+                <button onClick={() => onChange(templates.filter(t => t.id !== template.id))} className="p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Delete note"><Trash2 size={16} /></button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">
+                Present
+                <select
+                  value={template.inclusion}
+                  onChange={(e) => update(template.id, { inclusion: e.target.value as NoteInclusion })}
+                  className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500"
+                >
+                  {(Object.keys(NOTE_INCLUSION_LABELS) as NoteInclusion[]).map(i => <option key={i} value={i}>{NOTE_INCLUSION_LABELS[i]}</option>)}
+                </select>
+              </label>
+              <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">
+                Table
+                <select
+                  value={template.table}
+                  onChange={(e) => update(template.id, { table: e.target.value as NoteTable })}
+                  className="mt-1 block w-full p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500"
+                >
+                  {(Object.keys(NOTE_TABLE_LABELS) as NoteTable[]).map(t => <option key={t} value={t}>{NOTE_TABLE_LABELS[t]}</option>)}
+                </select>
+              </label>
+            </div>
+
+            <textarea
+              value={template.body}
+              onChange={(e) => update(template.id, { body: e.target.value })}
+              rows={3}
+              className="w-full p-4 border-2 rounded-xl text-sm text-slate-900 bg-white outline-none focus:border-emerald-500"
+            />
+
+            <div>
+              <p className="text-[10px] uppercase font-black tracking-widest text-slate-500 mb-2">Accounts Covered</p>
+              <div className="flex flex-wrap gap-2">
+                {NOTE_SUB_TYPES.map(st => (
+                  <button
+                    key={st}
+                    onClick={() => toggleSubType(template, st)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${template.subTypes.includes(st) ? 'bg-slate-900 text-white border-slate-900' : 'text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {st}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {problems.length > 0 && (
+              <div className="p-4 bg-amber-50 border-2 border-amber-200 rounded-2xl text-sm font-bold text-amber-800 space-y-1">
+                {problems.map(p => <p key={p} className="flex items-center gap-2"><AlertCircle size={14} /> {p}</p>)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default NoteTemplateEditor;
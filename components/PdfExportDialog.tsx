@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { BookOpen, Download, FileText, Plus } from 'lucide-react';
+import { PACK_SECTION_TITLES, FULL_PACK, PackSection } from '../utils/reportPack';
+
+export type PdfScope = 'pack' | 'report';
+
+interface PdfExportDialogProps {
+  activeSection: PackSection | null; // The report on screen, when it has a printed form
+  hasCommentary: boolean;
+  onExport: (scope: PdfScope, includeCommentary: boolean) => void;
+  onClose: () => void;
+}
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ activeSection, hasCommentary, onExport, onClose }) => {
+  const [scope, setScope] = useState<PdfScope>(activeSection ? 'report' : 'pack');
+  const [includeCommentary, setIncludeCommentary] = useState(hasCommentary);
+
+  const packContents = [...FULL_PACK, ...(includeCommentary ? ['commentary' as PackSection] : [])].map(s => PACK_SECTION_TITLES[s]);
+
+  return (
+    <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-xl z-[100] flex items-center justify-center p-6">
+      <div className="bg-white rounded-[40px] shadow-2xl w-full max-w-2xl overflow-hidden border border-slate-200">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tighter">Export PDF</h3>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400 mt-1">Generated in the browser; nothing is uploaded</p>
+          </div>
+          <button onClick={onClose} className="bg-white p-2 rounded-full border shadow-sm hover:text-rose-500 transition-all hover:rotate-90">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-4">
+          <button onClick={() => setScope('pack')} className={`w-full text-left p-5 border-2 rounded-2xl flex gap-4 transition-all ${scope === 'pack' ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:border-slate-300'}`}>
+            <BookOpen size={22} className="shrink-0 text-emerald-600" />
+            <div>
+              <p className="font-black text-slate-900">Full statement pack</p>
+              <p className="text-sm font-bold text-slate-500">Cover page, contents, {packContents.join(', ')}</p>
+            </div>
+          </button>
+          <button onClick={() => activeSection && setScope('report')} disabled={!activeSection} className={`w-full text-left p-5 border-2 rounded-2xl flex gap-4 transition-all disabled:opacity-50 ${scope === 'report' ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:border-slate-300'}`}>
+            <FileText size={22} className="shrink-0 text-emerald-600" />
+            <div>
+              <p className="font-black text-slate-900">{activeSection ? PACK_SECTION_TITLES[activeSection] : 'Active report'}</p>
+              <p className="text-sm font-bold text-slate-500">{activeSection ? 'Only the report on screen' : 'Open a statement, the notes or the AI CFO report to export it alone'}</p>
+            </div>
+          </button>
+
+          {scope === 'pack' && (
+            <label className={`flex items-center gap-3 text-sm font-bold ${hasCommentary ? 'text-slate-700' : 'text-slate-400'}`}>
+              <input type="checkbox" checked={includeCommentary} disabled={!hasCommentary} onChange={(e) => setIncludeCommentary(e.target.checked)} className="w-4 h-4 accent-emerald-600" />
+              Include AI CFO commentary{!hasCommentary && ' (generate an analysis first)'}
+            </label>
+          )}
+        </div>
+
+        <div className="p-8 border-t bg-slate-50 flex justify-end gap-3">
+          <button onClick={onClose} className="px-6 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-white">Cancel</button>
+          <button onClick={() => onExport(scope, includeCommentary)} className="flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-xl text-sm font-black hover:bg-emerald-700 shadow-lg shadow-emerald-200">
+            <Download size={16} /> Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportDialog;
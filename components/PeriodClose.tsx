@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { Lock, Unlock, AlertCircle } from 'lucide-react';
+import { Account, ClosedPeriod, JournalEntry, ReportingPeriod, TransactionType } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { findAccount } from '../utils/accounts';
+import { LedgerError } from '../utils/ledger';
+import { buildClosingEntry, closePeriod, isPeriodClosed, lockedThrough, reopenLatestPeriod } from '../utils/periodClose';
+import { newPostingAudit } from '../utils/audit';
+
+interface PeriodCloseProps {
+  currency: string;
+  user: string;
+  entries: JournalEntry[];
+  accounts: Account[];
+  closedPeriods: ClosedPeriod[];
+  period: ReportingPeriod;
+  onChange: (entries: JournalEntry[], closedPeriods: ClosedPeriod[]) => void;
+}
+
+const PeriodClose: React.FC<PeriodCloseProps> = ({ currency, user, entries, accounts, closedPeriods, period, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const closed = isPeriodClosed(period, closedPeriods);
+  const lock = lockedThrough(closedPeriods);
+
+  const preview = useMemo(() => {
+    if (closed) return null;
+    try { return buildClosingEntry(entries, accounts, period); }
+    catch (e) { return e instanceof LedgerError ? e : null; }
+  }, [entries, accounts, period, closed]);
+
+  const run = (action: () => { entries: JournalEntry[]; closedPeriods: ClosedPeriod[] }) => {
+    try {
+      const result = action();
+      setError(null);
+      onChange(result.entries, result.closedPeriods);
+    } catch (e) {
+      setError(e instanceof LedgerError ? [e.message, ...e.problems].join(' · ') : 'Period close failed.');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-in fade-in">
+      <div className="bg-white p-10 rounded-3xl border shadow-sm">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">{period.label}</h3>
+            <p className="text-sm font-bold text-slate-500 mt-1">{period.start} to {period.end} · {lock ? `Ledger locked through ${lock}` : 'No periods closed yet'}</p>
+          </div>
+          {closed ? (
+            <span className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-100 text-slate-600 text-xs font-black uppercase tracking-widest"><Lock size={14} /> Closed</span>
+          ) : (
+            <button onClick={() => run(() => closePeriod(entries, accounts, closedPeriods, period, newPostingAudit(user, 'manual')))} disabled={preview instanceof LedgerError} className="flex items-center gap-2 px-6 py-3 bg-slate-900 text-white rounded-xl font-black hover:bg-slate-800 transition-all disabled:opacity-50 shadow-lg">
+              <Lock size={16} /> Close Period
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-6 p-4 bg-rose-50 border border-rose-200 rounded-xl text-sm font-bold text-rose-700 flex items-center gap-3">
+            <AlertCircle size={18} className="shrink-0" /> {error}
+          </div>
+        )}
+
+        {!closed && (
+          <div className="mt-8">
+            <p className="text-[10px] uppercase font-black tracking-widest text-slate-500 mb-3">Closing entry preview</p>
+            {preview instanceof LedgerError && <p className="text-sm font-bold text-rose-600">{preview.message}</p>}
+            {preview === null && <p className="text-sm italic text-slate-400">No revenue, expense or drawings balances left to close — closing will only lock the period.</p>}
+            {preview && !(preview instanceof LedgerError) && (
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-100">
+                  {preview.lines.map(line => (
+                    <tr key={line.id}>
+                      <td className={`py-2 font-bold text-slate-700 ${line.type === TransactionType.CREDIT ? 'pl-10' : ''}`}>{line.accountCode} {findAccount(accounts, line.accountCode)?.name}</td>
+                      <td className="py-2 text-right font-mono">{line.type === TransactionType.DEBIT ? formatCurrency(line.amount, currency) : ''}</td>
+                      <td className="py-2 text-right font-mono">{line.type === TransactionType.CREDIT ? formatCurrency(line.amount, currency) : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-slate-50 text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+            <tr>
+              <th className="px-8 py-5">Closed Period</th>
+              <th className="px-8 py-5">Closed At</th>
+              <th className="px-8 py-5">Balances Carried Forward</th>
+              <th className="px-8 py-5"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 text-sm">
+            {closedPeriods.length === 0 && (
+              <tr><td colSpan={4} className="px-8 py-6 italic text-slate-400">No periods have been closed.</td></tr>
+            )}
+            {[...closedPeriods].sort((a, b) => b.end.localeCompare(a.end)).map(cp => (
+              <tr key={cp.periodId} className="align-top">
+                <td className="px-8 py-4 font-black text-slate-900">{cp.label}<div className="text-xs font-mono font-bold text-slate-400">{cp.start} – {cp.end}</div></td>
+                <td className="px-8 py-4 font-mono text-slate-500">{new Date(cp.closedAt).toLocaleString()}</td>
+                <td className="px-8 py-4">
+                  {Object.entries(cp.carriedForward).map(([code, balance]: [string, number]) => (
+                    <div key={code} className="flex justify-between gap-6 font-mono text-xs text-slate-600">
+                      <span>{code} {findAccount(accounts, code)?.name}</span>
+                      <span>{balance >= 0 ? `${formatCurrency(balance, currency)} Dr` : `${formatCurrency(-balance, currency)} Cr`}</span>
+                    </div>
+                  ))}
+                </td>
+                <td className="px-8 py-4 text-right">
+                  {cp.end === lock && (
+                    <button onClick={() => run(() => reopenLatestPeriod(entries, accounts, closedPeriods, newPostingAudit(user, 'manual')))} className="flex items-center gap-2 px-3 py-1.5 border rounded-lg text-xs font-black text-slate-600 hover:bg-slate-50">
+                      <Unlock size={14} /> Reopen
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PeriodClose;
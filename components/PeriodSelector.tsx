@@ -0,0 +1,35 @@
+import React from 'react';
+import { CalendarDays } from 'lucide-react';
+import { FiscalSettings, PeriodGranularity, ReportingPeriod } from '../types';
+import { monthName } from '../utils/periods';
+
+interface PeriodSelectorProps {
+  periods: ReportingPeriod[];
+  selected: ReportingPeriod;
+  granularity: PeriodGranularity;
+  fiscalSettings: FiscalSettings;
+  onSelect: (periodId: string) => void;
+  onGranularityChange: (granularity: PeriodGranularity) => void;
+  onFiscalSettingsChange: (settings: FiscalSettings) => void;
+}
+
+const selectClass = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-700 outline-none focus:border-emerald-500';
+
+const PeriodSelector: React.FC<PeriodSelectorProps> = ({ periods, selected, granularity, fiscalSettings, onSelect, onGranularityChange, onFiscalSettingsChange }) => (
+  <div className="flex items-center gap-2">
+    <CalendarDays size={16} className="text-slate-400" />
+    <select value={granularity} onChange={(e) => onGranularityChange(e.target.value as PeriodGranularity)} className={selectClass}>
+      <option value="month">Month</option>
+      <option value="quarter">Quarter</option>
+      <option value="year">Fiscal Year</option>
+    </select>
+    <select value={selected.id} onChange={(e) => onSelect(e.target.value)} className={selectClass}>
+      {periods.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+    </select>
+    <select value={fiscalSettings.yearEndMonth} onChange={(e) => onFiscalSettingsChange({ ...fiscalSettings, yearEndMonth: Number(e.target.value) })} className={selectClass} title="Fiscal year end">
+      {Array.from({ length: 12 }, (_, i) => i + 1).map(m => <option key={m} value={m}>FY ends {monthName(m)}</option>)}
+    </select>
+  </div>
+);
+
+export default PeriodSelector;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { LineChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Gauge, Pin, PinOff, Settings2 } from 'lucide-react';
+import { KpiSettings, RatioId, RatioThreshold } from '../types';
+import { RATIO_DEFINITIONS, RATIO_GROUP_LABELS, RATIO_IDS, RatioGroup, RatioPoint, RatioStatus, formatRatio, ratioStatus } from '../utils/ratios';
+
+interface RatioDashboardProps {
+  trend: RatioPoint[]; // Oldest first; the last point is the selected period
+  settings: KpiSettings;
+  currency: string;
+  onSettingsChange: (settings: KpiSettings) => void;
+}
+
+const STATUS_TONES: Record<RatioStatus, { card: string; text: string; stroke: string }> = {
+  ok: { card: 'border-emerald-200', text: 'text-emerald-600', stroke: '#10b981' },
+  amber: { card: 'border-amber-300 bg-amber-50', text: 'text-amber-700', stroke: '#f59e0b' },
+  red: { card: 'border-rose-300 bg-rose-50', text: 'text-rose-700', stroke: '#ef4444' },
+  none: { card: '', text: 'text-slate-400', stroke: '#64748b' }
+};
+
+const STATUS_LABELS: Record<RatioStatus, string> = { ok: 'Within thresholds', amber: 'Amber', red: 'Red', none: 'No threshold' };
+
+const RatioDashboard: React.FC<RatioDashboardProps> = ({ trend, settings, currency, onSettingsChange }) => {
+  const [customising, setCustomising] = useState(false);
+  const current = trend[trend.length - 1];
+  const previous = trend[trend.length - 2];
+  if (!current) return null;
+
+  const togglePin = (id: RatioId) => onSettingsChange({
+    ...settings,
+    pinned: settings.pinned.includes(id) ? settings.pinned.filter(p => p !== id) : [...settings.pinned, id]
+  });
+  // A blank input clears that level
+  const setThreshold = (id: RatioId, level: keyof RatioThreshold, text: string) => {
+    const value = text.trim() === '' ? undefined : Number(text);
+    if (value !== undefined && isNaN(value)) return;
+    onSettingsChange({ ...settings, thresholds: { ...settings.thresholds, [id]: { ...settings.thresholds[id], [level]: value } } });
+  };
+
+  const status = (id: RatioId) => ratioStatus(id, current.values[id], settings.thresholds[id]);
+  const groups = Object.keys(RATIO_GROUP_LABELS) as RatioGroup[];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><Gauge size={20} /> Key Ratios · {current.period.label}</h3>
+        <button onClick={() => setCustomising(!customising)} className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-black border-2 ${customising ? 'bg-slate-900 text-white border-slate-900' : 'text-slate-700 hover:bg-slate-50'}`}>
+          <Settings2 size={14} /> {customising ? 'Done' : 'Customise'}
+        </button>
+      </div>
+
+      {settings.pinned.length === 0 && !customising && (
+        <p className="p-6 bg-white rounded-2xl border text-sm font-bold text-slate-400">No ratios are pinned. Use Customise to choose the cards shown here.</p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {settings.pinned.map(id => {
+          const definition = RATIO_DEFINITIONS[id];
+          const value = current.values[id];
+          const before = previous?.values[id] ?? null;
+          const tone = STATUS_TONES[status(id)];
+          const series = trend.map(p => ({ label: p.period.label, value: p.values[id] }));
+          return (
+            <div key={id} title={definition.formula} className={`bg-white p-6 rounded-2xl border-2 shadow-sm ${tone.card}`}>
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-slate-500 text-xs font-black uppercase tracking-widest">{definition.label}</p>
+                <span className={`text-[10px] font-black uppercase tracking-widest ${tone.text}`}>{STATUS_LABELS[status(id)]}</span>
+              </div>
+              <p className="text-3xl font-black text-slate-900 mt-2">{formatRatio(id, value, currency)}</p>
+              <p className="text-[10px] text-slate-400 font-bold mt-1">
+                {value === null ? definition.undefinedWhen : before === null ? 'No prior period value' : `${formatRatio(id, before, currency)} in ${previous.period.label}`}
+              </p>
+              <div className="h-12 mt-3">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={series}>
+                    <XAxis dataKey="label" hide />
+                    <YAxis hide domain={['auto', 'auto']} />
+                    <Tooltip formatter={(v: number) => formatRatio(id, v, currency)} />
+                    <Line type="monotone" dataKey="value" stroke={tone.stroke} strokeWidth={2} dot={false} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-[10px] text-slate-400 font-mono mt-2">{definition.formula}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {customising && (
+        <div className="bg-white p-8 rounded-3xl border shadow-sm overflow-x-auto">
+          <table className="w-full text-left border-collapse text-sm">
+            <thead>
+              <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+                <th className="py-3 px-2">Pin</th>
+                <th className="py-3 px-4">Ratio</th>
+                {trend.map(p => <th key={p.period.id} className="py-3 px-3 text-right whitespace-nowrap">{p.period.label}</th>)}
+                <th className="py-3 px-3 text-right">Amber At</th>
+                <th className="py-3 px-3 text-right">Red At</th>
+              </tr>
+            </thead>
+            {groups.map(group => (
+              <tbody key={group} className="divide-y divide-slate-100">
+                <tr><td colSpan={trend.length + 4} className="pt-6 pb-2 px-2 text-[10px] uppercase font-black tracking-widest text-slate-500">{RATIO_GROUP_LABELS[group]}</td></tr>
+                {RATIO_IDS.filter(id => RATIO_DEFINITIONS[id].group === group).map(id => {
+                  const definition = RATIO_DEFINITIONS[id];
+                  const pinned = settings.pinned.includes(id);
+                  return (
+                    <tr key={id} className="hover:bg-slate-50">
+                      <td className="py-3 px-2">
+                        <button onClick={() => togglePin(id)} title={pinned ? 'Remove from the dashboard' : 'Show on the dashboard'} className={`p-2 rounded-lg ${pinned ? 'text-emerald-600 bg-emerald-50' : 'text-slate-300 hover:text-slate-600'}`}>
+                          {pinned ? <Pin size={14} /> : <PinOff size={14} />}
+                        </button>
+                      </td>
+                      <td className="py-3 px-4">
+                        <p className="font-bold text-slate-800">{definition.label}</p>
+                        <p className="text-[10px] font-mono text-slate-400">{definition.formula} · {definition.higherIsBetter ? 'higher is better' : 'lower is better'}</p>
+                      </td>
+                      {trend.map(p => (
+                        <td key={p.period.id} className={`py-3 px-3 text-right font-mono whitespace-nowrap ${STATUS_TONES[ratioStatus(id, p.values[id], settings.thresholds[id])].text}`}>
+                          {formatRatio(id, p.values[id], currency)}
+                        </td>
+                      ))}
+                      {(['amber', 'red'] as const).map(level => (
+                        <td key={level} className="py-3 px-3 text-right">
+                          <input
+                            type="number"
+                            value={settings.thresholds[id]?.[level] ?? ''}
+                            onChange={(e) => setThreshold(id, level, e.target.value)}
+                            placeholder="None"
+                            className="w-24 p-2 border-2 rounded-lg text-right text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            ))}
+          </table>
+          <p className="mt-4 text-xs font-bold text-slate-400">
+            A card turns amber or red when the ratio falls below the level (or rises above it, for ratios where lower is better). Percentages are in percentage points; days and months as numbers.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RatioDashboard;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { CheckCircle2, AlertCircle } from 'lucide-react';
+import { BankAccount, ReconMatch } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { StatementReconciliation, bankAmount, bookLineKey } from '../utils/reconciliation';
+import { ReportHeader } from './ReportLayout';
+
+interface ReconciliationReportProps {
+  currency: string;
+  bankAccount: BankAccount;
+  ledgerAccountLabel: string;
+  reconciliation: StatementReconciliation;
+}
+
+interface ReportLine {
+  key: string;
+  date: string;
+  description: string;
+  amount: number;
+}
+
+const Section: React.FC<{ title: string; lines: ReportLine[]; total: number; currency: string; negate?: boolean }> = ({ title, lines, total, currency, negate }) => (
+  <>
+    <tr><td colSpan={3} className="pt-6 pb-2 font-bold text-slate-700">{title}</td></tr>
+    {lines.length === 0 && <tr><td colSpan={3} className="py-1 pl-8 text-slate-400 italic">None</td></tr>}
+    {lines.map(l => (
+      <tr key={l.key} className="text-slate-600">
+        <td className="py-1 pl-8 font-mono text-xs w-32">{l.date}</td>
+        <td className="py-1">{l.description}</td>
+        <td className="py-1 text-right font-mono">{formatCurrency(negate ? -l.amount : l.amount, currency)}</td>
+      </tr>
+    ))}
+    <tr className="border-t border-slate-200"><td colSpan={2} className="py-2 pl-8 text-xs font-black uppercase tracking-widest text-slate-500">Total</td><td className="py-2 text-right font-mono font-bold">{negate ? `(${formatCurrency(total, currency)})` : formatCurrency(total, currency)}</td></tr>
+  </>
+);
+
+const BalanceRow: React.FC<{ label: string; amount: number; currency: string }> = ({ label, amount, currency }) => (
+  <tr className="border-t-2 border-slate-900"><td colSpan={2} className="py-4 font-black text-slate-900">{label}</td><td className="py-4 text-right font-black font-mono">{formatCurrency(amount, currency)}</td></tr>
+);
+
+const bookLines = (matches: ReconMatch[], direction: 1 | -1): ReportLine[] =>
+  matches.filter(m => m.status === 'missing_in_statement').flatMap(m => m.bookEntries)
+    .filter(tx => Math.sign(bankAmount(tx)) === direction)
+    .map(tx => ({ key: bookLineKey(tx), date: tx.date, description: tx.description, amount: bankAmount(tx) }));
+
+// Formal bank reconciliation statement: bank balance to adjusted bank, book balance to adjusted book
+const ReconciliationReport: React.FC<ReconciliationReportProps> = ({ currency, bankAccount, ledgerAccountLabel, reconciliation }) => {
+  const { statement, matches, summary } = reconciliation;
+  const unrecorded: ReportLine[] = matches.filter(m => m.status === 'missing_in_book').flatMap(m => m.statementEntries)
+    .map(st => ({ key: st.id, date: st.date, description: st.description, amount: st.amount }));
+  const differences: ReportLine[] = matches.filter(m => m.status === 'amount_mismatch')
+    .map(m => ({ key: m.id, date: m.statementEntries[0].date, description: `${m.statementEntries.map(s => s.description).join(', ')} vs ${m.bookEntries.map(b => b.description).join(', ')}`, amount: m.difference }));
+  const reconciled = summary.difference === 0;
+
+  return (
+    <div className="max-w-4xl mx-auto bg-white p-12 rounded-3xl border shadow-xl">
+      <ReportHeader title="Bank Reconciliation Statement" subtitle={`${bankAccount.name}${bankAccount.accountNumber ? ` (${bankAccount.accountNumber})` : ''} · As at ${statement.periodEnd}`} />
+      <table className="w-full text-sm">
+        <tbody>
+          <tr><td colSpan={2} className="py-3 font-black text-slate-900">Balance per bank statement</td><td className="py-3 text-right font-black font-mono">{formatCurrency(summary.statementBalance, currency)}</td></tr>
+          <Section title="Add: deposits in transit" lines={bookLines(matches, 1)} total={summary.depositsInTransit} currency={currency} />
+          <Section title="Less: outstanding cheques and payments" lines={bookLines(matches, -1)} total={summary.outstandingPayments} currency={currency} negate />
+          <BalanceRow label="Adjusted bank balance" amount={summary.adjustedBankBalance} currency={currency} />
+
+          <tr><td colSpan={3} className="pt-10"></td></tr>
+          <tr><td colSpan={2} className="py-3 font-black text-slate-900">Balance per books ({ledgerAccountLabel})</td><td className="py-3 text-right font-black font-mono">{formatCurrency(summary.bookBalance, currency)}</td></tr>
+          <Section title="Add/(less): bank items not yet recorded" lines={unrecorded} total={summary.unrecordedBankItems} currency={currency} />
+          {differences.length > 0 && <Section title="Add/(less): amount differences on matched items" lines={differences} total={summary.amountDifferences} currency={currency} />}
+          <BalanceRow label="Adjusted book balance" amount={summary.adjustedBookBalance} currency={currency} />
+        </tbody>
+      </table>
+      <div className={`mt-8 px-5 py-3 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 ${reconciled ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+        {reconciled ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+        {reconciled ? 'Reconciled: adjusted bank equals adjusted book' : `Unexplained difference of ${formatCurrency(summary.difference, currency)}`}
+      </div>
+    </div>
+  );
+};
+
+export default ReconciliationReport;
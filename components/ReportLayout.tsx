@@ -0,0 +1,99 @@
+import React from 'react';
+import { ComparativeRow } from '../types';
+import { formatCurrency } from '../utils/finance';
+
+export const ReportHeader: React.FC<{ title: string; subtitle: string }> = ({ title, subtitle }) => (
+  <div className="text-center mb-12">
+    <h1 className="text-4xl font-black text-slate-900 tracking-tighter">{title}</h1>
+    <p className="text-slate-500 font-bold uppercase tracking-widest text-sm mt-3">{subtitle}</p>
+  </div>
+);
+
+export const formatChangePercent = (value: number | null): string =>
+  value === null ? 'n/a' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const changeColour = (change: number) => change > 0 ? 'text-emerald-600' : change < 0 ? 'text-rose-600' : 'text-slate-400';
+
+export interface ComparativeSection {
+  title: string;
+  rows: ComparativeRow[];
+  total?: { label: string; current: number; prior: number };
+}
+
+interface ComparativeTableProps {
+  currency: string;
+  currentLabel: string;
+  priorLabel: string;
+  sections: ComparativeSection[];
+  grandTotal?: { label: string; current: number; prior: number };
+  onDrillDown?: (row: ComparativeRow) => void; // Lines with a ledger source open their postings
+  highlightLabel?: string; // A line cited by the AI report, marked and scrolled into view
+}
+
+const HIGHLIGHT = 'bg-amber-50 ring-2 ring-inset ring-amber-300';
+
+export const scrollIntoView = (row: HTMLTableRowElement | null) => row?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+
+const TotalRow: React.FC<{ label: string; current: number; prior: number; currency: string; strong?: boolean; highlighted?: boolean }> = ({ label, current, prior, currency, strong, highlighted }) => {
+  const change = current - prior;
+  const percent = prior === 0 ? null : change / Math.abs(prior) * 100;
+  return (
+    <tr ref={highlighted ? scrollIntoView : undefined} className={`${strong ? 'border-t-4 border-slate-900 bg-slate-900 text-white' : 'border-t-2 border-slate-300'} ${highlighted ? (strong ? 'ring-4 ring-inset ring-amber-400' : HIGHLIGHT) : ''}`}>
+      <td className={`py-4 px-4 font-black ${strong ? 'text-xl' : 'text-slate-900'}`}>{label}</td>
+      <td className="py-4 px-4 text-right font-black font-mono">{formatCurrency(current, currency)}</td>
+      <td className={`py-4 px-4 text-right font-mono ${strong ? '' : 'text-slate-500'}`}>{formatCurrency(prior, currency)}</td>
+      <td className={`py-4 px-4 text-right font-mono font-bold ${strong ? '' : changeColour(change)}`}>{formatCurrency(change, currency)}</td>
+      <td className={`py-4 px-4 text-right font-mono font-bold ${strong ? '' : changeColour(change)}`}>{formatChangePercent(percent)}</td>
+    </tr>
+  );
+};
+
+export const ComparativeTable: React.FC<ComparativeTableProps> = ({ currency, currentLabel, priorLabel, sections, grandTotal, onDrillDown, highlightLabel }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className="border-b-4 border-slate-900">
+          <th className="py-5 px-4 font-black text-slate-900 uppercase tracking-tighter">Line Item</th>
+          <th className="py-5 px-4 font-black text-slate-900 uppercase tracking-tighter text-right">{currentLabel}</th>
+          <th className="py-5 px-4 font-black text-slate-500 uppercase tracking-tighter text-right">{priorLabel}</th>
+          <th className="py-5 px-4 font-black text-slate-500 uppercase tracking-tighter text-right">Change</th>
+          <th className="py-5 px-4 font-black text-slate-500 uppercase tracking-tighter text-right">%</th>
+        </tr>
+      </thead>
+      {sections.map(section => (
+        <tbody key={section.title}>
+          <tr>
+            <td colSpan={5} className="pt-8 pb-3 px-4 text-[10px] uppercase font-black tracking-widest text-slate-500">{section.title}</td>
+          </tr>
+          {section.rows.length === 0 && (
+            <tr><td colSpan={5} className="py-3 px-8 text-sm italic text-slate-400">No activity</td></tr>
+          )}
+          {section.rows.map(row => (
+            <tr
+              key={row.label}
+              ref={row.label === highlightLabel ? scrollIntoView : undefined}
+              onClick={onDrillDown && row.source ? () => onDrillDown(row) : undefined}
+              title={onDrillDown && row.source ? 'Show the ledger postings behind this line' : undefined}
+              className={`border-b border-slate-100 hover:bg-slate-50 transition-colors ${onDrillDown && row.source ? 'cursor-pointer group' : ''} ${row.label === highlightLabel ? HIGHLIGHT : ''}`}
+            >
+              <td className="py-3 px-8 font-bold text-slate-700">
+                <span className="group-hover:text-emerald-700 group-hover:underline">{row.label}</span>
+                {row.noteRef !== undefined && <span title={`Analysed in note ${row.noteRef}`} className="ml-3 px-2 py-0.5 rounded-md bg-slate-100 text-[10px] font-black uppercase tracking-widest text-slate-500">Note {row.noteRef}</span>}
+              </td>
+              <td className="py-3 px-4 text-right font-mono text-slate-900">{formatCurrency(row.current, currency)}</td>
+              <td className="py-3 px-4 text-right font-mono text-slate-500">{formatCurrency(row.prior, currency)}</td>
+              <td className={`py-3 px-4 text-right font-mono ${changeColour(row.change)}`}>{formatCurrency(row.change, currency)}</td>
+              <td className={`py-3 px-4 text-right font-mono ${changeColour(row.change)}`}>{formatChangePercent(row.changePercent)}</td>
+            </tr>
+          ))}
+          {section.total && <TotalRow {...section.total} currency={currency} highlighted={section.total.label === highlightLabel} />}
+        </tbody>
+      ))}
+      {grandTotal && (
+        <tfoot>
+          <TotalRow {...grandTotal} currency={currency} strong highlighted={grandTotal.label === highlightLabel} />
+        </tfoot>
+      )}
+    </table>
+  </div>
+);
@@ -0,0 +1,241 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { AlertCircle, Download, TrendingUp } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { Account, AccountCategory, CurrencySettings, ExchangeRate, JournalEntry } from '../types';
+import { formatCurrency } from '../utils/finance';
+import { monthKeyLabel } from '../utils/periods';
+import { TREND_VIEW_LABELS, TrendView, buildMonthlyTrend, rollingTwelve, translateTrend, yearOverYear } from '../utils/trend';
+import { FORECAST_HORIZONS, FORECAST_METHOD_LABELS, ForecastConfidence, ForecastMethod, forecastSeries } from '../utils/forecast';
+import { formatChangePercent } from './ReportLayout';
+
+interface TrendAnalysisProps {
+  currencySettings: CurrencySettings;
+  rates: ExchangeRate[];
+  entries: JournalEntry[];
+  accounts: Account[];
+}
+
+// 'revenue', 'expense', 'profit' or an account code
+type TrendMeasure = string;
+
+const TOTALS: Record<string, string> = { revenue: 'Total Revenue', expense: 'Total Expenses', profit: 'Net Profit' };
+
+const TrendAnalysis: React.FC<TrendAnalysisProps> = ({ currencySettings, rates, entries, accounts }) => {
+  const [measure, setMeasure] = useState<TrendMeasure>('revenue');
+  const [view, setView] = useState<TrendView>('monthly');
+  const [method, setMethod] = useState<ForecastMethod>('linear');
+  const [horizon, setHorizon] = useState(6);
+  const [confidence, setConfidence] = useState<ForecastConfidence>(95);
+
+  const functionalTrend = useMemo(() => buildMonthlyTrend(entries, accounts), [entries, accounts]);
+  const { trend, currency, missing } = useMemo(() => translateTrend(functionalTrend, rates, currencySettings), [functionalTrend, rates, currencySettings]);
+  const account = trend.accounts.find(a => a.code === measure);
+  const values = account?.values ?? (measure === 'expense' ? trend.expense : measure === 'profit' ? trend.profit : trend.revenue);
+  const measureLabel = account ? `${account.code} ${account.name}` : TOTALS[measure] ?? TOTALS.revenue;
+  const { forecast, problem } = useMemo(() => forecastSeries(trend.months, values, method, horizon, confidence), [trend.months, values, method, horizon, confidence]);
+
+  const rolling = rollingTwelve(values);
+  const yoy = yearOverYear(trend.months, values);
+  const last = forecast?.points.length ? trend.months.length - 1 : -1;
+  // The forecast line starts from the last actual month so the two lines meet
+  const data = view === 'monthly'
+    ? [
+      ...trend.months.map((m, i) => ({ label: monthKeyLabel(m), actual: values[i], fitted: forecast?.fitted[i] ?? null, forecast: i === last ? values[i] : null, band: null as number[] | null })),
+      ...(forecast?.points ?? []).map(p => ({ label: monthKeyLabel(p.month), actual: null, fitted: null, forecast: p.value, band: [p.lower, p.upper] }))
+    ]
+    : view === 'rolling'
+      ? trend.months.map((m, i) => ({ label: monthKeyLabel(m), rolling: rolling[i] })).filter(d => d.rolling !== null)
+      : yoy.map(p => ({ label: monthKeyLabel(p.month), current: p.value, prior: p.prior }));
+
+  // The last twelve months of history by account, against the twelve before where the ledger has them
+  const recent = trend.months.slice(-12);
+  const offset = trend.months.length - recent.length;
+  const sum = (v: number[], from: number, to: number) => v.slice(Math.max(from, 0), to).reduce((s, x) => s + x, 0);
+  const breakdown = (category: AccountCategory) => trend.accounts.filter(a => a.category === category);
+  const priorYearKnown = offset >= 12;
+
+  const exportForecast = () => {
+    if (!forecast) return;
+    const rows = [
+      ...trend.months.map((m, i) => ({ Month: m, Type: 'Actual', Amount: values[i], Fitted: forecast.fitted[i], Lower: null, Upper: null })),
+      ...forecast.points.map(p => ({ Month: p.month, Type: 'Forecast', Amount: p.value, Fitted: null, Lower: p.lower, Upper: p.upper }))
+    ];
+    const ws = XLSX.utils.json_to_sheet(rows);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Forecast');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([
+      { Setting: 'Series', Value: measureLabel },
+      { Setting: 'Method', Value: FORECAST_METHOD_LABELS[forecast.method] },
+      { Setting: 'Confidence', Value: `${forecast.confidence}%` },
+      { Setting: 'Residual standard deviation', Value: forecast.residualSd },
+      { Setting: 'Currency', Value: currency },
+      { Setting: 'Translation', Value: currency === currencySettings.functionalCurrency ? 'None; functional currency amounts' : `From ${currencySettings.functionalCurrency} at each month-end rate` }
+    ]), 'Method');
+    const name = `Forecast_${measureLabel}_${method}_${currency}`.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '');
+    XLSX.writeFile(wb, `${name}.xlsx`);
+  };
+
+  if (trend.months.length === 0) {
+    return <div className="max-w-6xl mx-auto p-12 bg-white rounded-3xl border text-center text-sm font-bold text-slate-400">Post some revenue or expenses to see their trend.</div>;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-wrap items-end gap-6">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Series
+          <select value={measure} onChange={(e) => setMeasure(e.target.value)} className="mt-1 block w-64 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {Object.entries(TOTALS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            {trend.accounts.map(a => <option key={a.code} value={a.code}>{a.code} {a.name}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">View
+          <select value={view} onChange={(e) => setView(e.target.value as TrendView)} className="mt-1 block w-48 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {(Object.keys(TREND_VIEW_LABELS) as TrendView[]).map(v => <option key={v} value={v}>{TREND_VIEW_LABELS[v]}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Forecast Method
+          <select value={method} onChange={(e) => setMethod(e.target.value as ForecastMethod)} className="mt-1 block w-56 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(m => <option key={m} value={m}>{FORECAST_METHOD_LABELS[m]}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Months Ahead
+          <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} className="mt-1 block w-28 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {FORECAST_HORIZONS.map(h => <option key={h} value={h}>{h}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Band
+          <select value={confidence} onChange={(e) => setConfidence(Number(e.target.value) as ForecastConfidence)} className="mt-1 block w-28 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            <option value={80}>80%</option>
+            <option value={95}>95%</option>
+          </select>
+        </label>
+        <button onClick={exportForecast} disabled={!forecast} className="ml-auto flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+          <Download size={16} /> Export Forecast
+        </button>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="p-6 bg-amber-50 border-2 border-amber-200 rounded-2xl text-sm font-bold text-amber-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <p>No {currencySettings.functionalCurrency}/{currencySettings.reportingCurrency} rate at the end of {missing.map(monthKeyLabel).join(', ')}, so trends and forecasts are shown in {currency}. Add rates under Currencies & FX.</p>
+        </div>
+      )}
+
+      {problem && (
+        <div className="p-6 bg-amber-50 border-2 border-amber-200 rounded-2xl text-sm font-bold text-amber-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <p>{problem}.</p>
+        </div>
+      )}
+
+      <div className="bg-white p-8 rounded-3xl border shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 mb-8 border-b pb-4 flex items-center gap-2">
+          <TrendingUp size={20} /> {measureLabel} · {TREND_VIEW_LABELS[view]} · {currency}
+        </h3>
+        {view === 'rolling' && data.length === 0 ? (
+          <p className="py-16 text-center text-sm font-bold text-slate-400">A rolling twelve-month view needs a full year of history; the ledger has {trend.months.length} months.</p>
+        ) : (
+          <div className="h-96">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip formatter={(value: number | number[]) => Array.isArray(value) ? value.map(v => formatCurrency(v, currency)).join(' to ') : formatCurrency(value, currency)} />
+                <Legend iconType="circle" />
+                {view === 'monthly' && <Area dataKey="band" name={`${confidence}% band`} stroke="none" fill="#6366f1" fillOpacity={0.15} />}
+                {view === 'monthly' && <Line dataKey="actual" name="Actual" stroke="#10b981" strokeWidth={3} dot={false} />}
+                {view === 'monthly' && forecast && <Line dataKey="fitted" name="Fitted" stroke="#94a3b8" strokeWidth={1} strokeDasharray="4 4" dot={false} />}
+                {view === 'monthly' && <Line dataKey="forecast" name="Forecast" stroke="#6366f1" strokeWidth={3} strokeDasharray="8 4" dot={false} />}
+                {view === 'rolling' && <Line dataKey="rolling" name="Trailing 12 months" stroke="#10b981" strokeWidth={3} dot={false} />}
+                {view === 'yoy' && <Line dataKey="current" name="This year" stroke="#10b981" strokeWidth={3} dot={false} />}
+                {view === 'yoy' && <Line dataKey="prior" name="Same month last year" stroke="#94a3b8" strokeWidth={3} dot={false} />}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {view === 'monthly' && forecast && (
+          <table className="w-full text-left border-collapse text-sm mt-8">
+            <thead>
+              <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+                <th className="py-3 px-4">Month</th>
+                <th className="py-3 px-4 text-right">Forecast</th>
+                <th className="py-3 px-4 text-right">Low ({confidence}%)</th>
+                <th className="py-3 px-4 text-right">High ({confidence}%)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {forecast.points.map(p => (
+                <tr key={p.month} className="hover:bg-slate-50">
+                  <td className="py-3 px-4 font-bold text-slate-700">{monthKeyLabel(p.month)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-900">{formatCurrency(p.value, currency)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-500">{formatCurrency(p.lower, currency)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-500">{formatCurrency(p.upper, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {view === 'yoy' && (
+          <table className="w-full text-left border-collapse text-sm mt-8">
+            <thead>
+              <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+                <th className="py-3 px-4">Month</th>
+                <th className="py-3 px-4 text-right">Amount</th>
+                <th className="py-3 px-4 text-right">Year Before</th>
+                <th className="py-3 px-4 text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {yoy.slice(-12).map(p => (
+                <tr key={p.month} className="hover:bg-slate-50">
+                  <td className="py-3 px-4 font-bold text-slate-700">{monthKeyLabel(p.month)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-900">{formatCurrency(p.value, currency)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-500">{p.prior === null ? 'n/a' : formatCurrency(p.prior, currency)}</td>
+                  <td className="py-3 px-4 text-right font-mono font-bold text-slate-700">{formatChangePercent(p.percent)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white p-8 rounded-3xl border shadow-sm overflow-x-auto">
+        <h3 className="text-lg font-black text-slate-800 mb-6">By Account · Last {recent.length} Months</h3>
+        <table className="w-full text-left border-collapse text-xs">
+          <thead>
+            <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+              <th className="py-3 px-3">Account</th>
+              {recent.map(m => <th key={m} className="py-3 px-3 text-right whitespace-nowrap">{monthKeyLabel(m)}</th>)}
+              <th className="py-3 px-3 text-right bg-slate-50">Total</th>
+              <th className="py-3 px-3 text-right">vs Prior 12</th>
+            </tr>
+          </thead>
+          {[AccountCategory.REVENUE, AccountCategory.EXPENSE].map(category => (
+            <tbody key={category} className="divide-y divide-slate-100">
+              <tr><td colSpan={recent.length + 3} className="pt-6 pb-2 px-3 text-[10px] uppercase font-black tracking-widest text-slate-500">{category}</td></tr>
+              {breakdown(category).map(a => {
+                const total = sum(a.values, offset, a.values.length);
+                const prior = sum(a.values, offset - 12, offset);
+                return (
+                  <tr key={a.code} onClick={() => setMeasure(a.code)} className={`cursor-pointer hover:bg-slate-50 ${measure === a.code ? 'bg-emerald-50' : ''}`}>
+                    <td className="py-2 px-3 font-bold text-slate-700 whitespace-nowrap">{a.code} {a.name}</td>
+                    {a.values.slice(offset).map((v, i) => <td key={i} className="py-2 px-3 text-right font-mono text-slate-600">{v ? formatCurrency(v, currency) : '-'}</td>)}
+                    <td className="py-2 px-3 text-right font-mono font-bold text-slate-900 bg-slate-50">{formatCurrency(total, currency)}</td>
+                    <td className="py-2 px-3 text-right font-mono text-slate-500">{priorYearKnown && prior ? formatChangePercent((total - prior) / Math.abs(prior) * 100) : 'n/a'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          ))}
+        </table>
+        <p className="mt-4 text-xs font-bold text-slate-400">Amounts by calendar month in {currency}{currency !== currencySettings.functionalCurrency && `, translated from ${currencySettings.functionalCurrency} at each month-end rate`}, signed so revenue earned and costs incurred are positive. Click an account to chart and forecast it.</p>
+      </div>
+    </div>
+  );
+};
+
+export default TrendAnalysis;
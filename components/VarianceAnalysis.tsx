@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { ArrowUpRight, ArrowDownRight, AlertCircle } from 'lucide-react';
+import { Account, AccountCategory, Budget, FinancialStatements, JournalEntry, MaterialityThresholds } from '../types';
+import { actualsByMonth, budgetLabel } from '../utils/budget';
+import { formatCurrency } from '../utils/finance';
+import { formatChangePercent, scrollIntoView } from './ReportLayout';
+
+interface VarianceAnalysisProps {
+  currency: string;
+  statements: FinancialStatements;
+  entries: JournalEntry[];
+  accounts: Account[];
+  budgets: Budget[];
+  selectedBudgetId: string | null;
+  months: string[]; // Months of the selected period
+  materiality: MaterialityThresholds;
+  onSelectBudget: (budgetId: string) => void;
+  onMaterialityChange: (thresholds: MaterialityThresholds) => void;
+  highlightLabel?: string; // Account cited by the AI report
+}
+
+const VarianceAnalysis: React.FC<VarianceAnalysisProps> = ({ currency, statements, entries, accounts, budgets, selectedBudgetId, months, materiality, onSelectBudget, onMaterialityChange, highlightLabel }) => {
+  const budget = budgets.find(b => b.id === selectedBudgetId);
+  const actuals = useMemo(() => actualsByMonth(entries, accounts, months), [entries, accounts, months]);
+  const lines = statements.variance.lines;
+
+  const section = (category: AccountCategory) => lines.filter(l => l.category === category);
+  const materialCount = lines.filter(l => l.material && !l.favourable).length;
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      <div className="bg-white p-8 rounded-3xl border shadow-sm flex flex-wrap items-end gap-6">
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Compare Against
+          <select value={selectedBudgetId ?? ''} onChange={(e) => onSelectBudget(e.target.value)} className="mt-1 block w-64 p-3 border-2 rounded-xl text-sm font-bold text-slate-900 bg-white outline-none focus:border-emerald-500">
+            {budgets.length === 0 && <option value="">No budgets yet</option>}
+            {budgets.map(b => <option key={b.id} value={b.id}>{budgetLabel(b)}</option>)}
+          </select>
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Materiality ({currency})
+          <input type="number" min={0} value={materiality.absolute} onChange={(e) => onMaterialityChange({ ...materiality, absolute: Number(e.target.value) || 0 })} className="mt-1 block w-32 p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+        </label>
+        <label className="text-[10px] uppercase font-black tracking-widest text-slate-500">Materiality (%)
+          <input type="number" min={0} value={materiality.percent} onChange={(e) => onMaterialityChange({ ...materiality, percent: Number(e.target.value) || 0 })} className="mt-1 block w-32 p-3 border-2 rounded-xl text-sm font-bold font-mono outline-none focus:border-emerald-500" />
+        </label>
+        <div className={`ml-auto px-5 py-3 rounded-xl text-xs font-black uppercase tracking-widest flex items-center gap-2 ${materialCount > 0 ? 'bg-rose-50 text-rose-700' : 'bg-emerald-50 text-emerald-700'}`}>
+          <AlertCircle size={16} /> {materialCount} material unfavourable variance{materialCount === 1 ? '' : 's'}
+        </div>
+      </div>
+
+      <div className="bg-white p-10 rounded-3xl border shadow-sm">
+        <h3 className="text-lg font-black text-slate-800 mb-6">Actual vs {budget ? budgetLabel(budget) : 'Budget'} · {statements.period?.label}</h3>
+        <table className="w-full text-left border-collapse text-sm">
+          <thead>
+            <tr className="border-b-4 border-slate-900 text-slate-900 uppercase tracking-tighter font-black">
+              <th className="py-4 px-4">Account</th>
+              <th className="py-4 px-4 text-right">Budget</th>
+              <th className="py-4 px-4 text-right">Actual</th>
+              <th className="py-4 px-4 text-right">Variance</th>
+              <th className="py-4 px-4 text-right">%</th>
+              <th className="py-4 px-4 text-center">F / U</th>
+            </tr>
+          </thead>
+          {[AccountCategory.REVENUE, AccountCategory.EXPENSE].map(category => (
+            <tbody key={category}>
+              <tr><td colSpan={6} className="pt-6 pb-2 px-4 text-[10px] uppercase font-black tracking-widest text-slate-500">{category}</td></tr>
+              {section(category).map(line => (
+                <tr key={line.accountCode} ref={line.accountName === highlightLabel ? scrollIntoView : undefined} className={`border-b border-slate-100 ${line.material ? (line.favourable ? 'bg-emerald-50/60' : 'bg-rose-50/60') : ''} ${line.accountName === highlightLabel ? 'ring-2 ring-inset ring-amber-300' : ''}`}>
+                  <td className="py-3 px-4 font-bold text-slate-700">{line.accountCode} {line.accountName}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-500">{formatCurrency(line.budget, statements.currency)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-900">{formatCurrency(line.actual, statements.currency)}</td>
+                  <td className={`py-3 px-4 text-right font-mono font-bold ${line.favourable ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(line.variance, statements.currency)}</td>
+                  <td className="py-3 px-4 text-right font-mono text-slate-600">{formatChangePercent(line.variancePercent)}</td>
+                  <td className="py-3 px-4 text-center">
+                    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-black uppercase ${line.favourable ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'}`}>
+                      {line.favourable ? <ArrowUpRight size={12} /> : <ArrowDownRight size={12} />}
+                      {line.favourable ? 'F' : 'U'}{line.material ? ' · Material' : ''}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+      </div>
+
+      {months.length > 1 && (
+        <div className="bg-white p-10 rounded-3xl border shadow-sm overflow-x-auto">
+          <h3 className="text-lg font-black text-slate-800 mb-6">Monthly Breakdown (Actual / Budget)</h3>
+          <table className="w-full text-left border-collapse text-xs">
+            <thead className="text-slate-500 uppercase font-black tracking-widest border-b">
+              <tr>
+                <th className="py-3 px-3">Account</th>
+                {months.map(m => <th key={m} className="py-3 px-3 text-right">{m}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {lines.map(line => (
+                <tr key={line.accountCode}>
+                  <td className="py-2 px-3 font-bold text-slate-700 whitespace-nowrap">{line.accountName}</td>
+                  {months.map(m => {
+                    const actual = actuals.get(line.accountCode)?.get(m) ?? 0;
+                    const planned = budget?.lines.find(l => l.accountCode === line.accountCode && l.month === m)?.amount ?? 0;
+                    const favourable = line.category === AccountCategory.REVENUE ? actual >= planned : actual <= planned;
+                    return (
+                      <td key={m} className="py-2 px-3 text-right font-mono whitespace-nowrap">
+                        <span className={favourable ? 'text-emerald-700' : 'text-rose-700'}>{formatCurrency(actual, currency)}</span>
+                        <span className="text-slate-400"> / {formatCurrency(planned, currency)}</span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VarianceAnalysis;
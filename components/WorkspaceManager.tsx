@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, AlertCircle, Download, FileUp, Building2, CheckCircle2 } from 'lucide-react';
+import { Workspace, WorkspaceBackup } from '../types';
+import { parseBackup } from '../utils/workspace';
+
+interface WorkspaceManagerProps {
+  workspaces: Workspace[];
+  activeId: string | null;
+  lastSavedAt: string | null;
+  storageError: string | null;
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string, withSampleData: boolean) => void;
+  onRename: (workspaceId: string, name: string) => void;
+  onDelete: (workspaceId: string) => void;
+  onBackup: () => void;
+  onRestore: (backup: WorkspaceBackup) => void;
+}
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const WorkspaceManager: React.FC<WorkspaceManagerProps> = ({ workspaces, activeId, lastSavedAt, storageError, onSwitch, onCreate, onRename, onDelete, onBackup, onRestore }) => {
+  const [name, setName] = useState('');
+  const [withSampleData, setWithSampleData] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const create = () => {
+    if (workspaces.some(w => w.name.toLowerCase() === name.trim().toLowerCase())) { setProblems([`A company called "${name.trim()}" already exists`]); return; }
+    onCreate(name, withSampleData);
+    setName('');
+    setProblems([]);
+  };
+
+  const rename = (workspace: Workspace, next: string) => {
+    const trimmed = next.trim();
+    if (!trimmed || trimmed === workspace.name) return;
+    if (workspaces.some(w => w.id !== workspace.id && w.name.toLowerCase() === trimmed.toLowerCase())) { setProblems([`A company called "${trimmed}" already exists`]); return; }
+    onRename(workspace.id, trimmed);
+    setProblems([]);
+  };
+
+  const remove = (workspace: Workspace) => {
+    if (window.confirm(`Delete ${workspace.name} and all of its data from this browser? Download a backup first if you may need it again.`)) onDelete(workspace.id);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const result = parseBackup(String(event.target?.result ?? ''));
+      setProblems(result.problems);
+      if (result.backup) onRestore(result.backup);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const errors = storageError ? [storageError, ...problems] : problems;
+
+  return (
+    <div className="space-y-8 animate-in fade-in">
+      {errors.length > 0 && (
+        <div className="p-6 bg-rose-50 border-2 border-rose-200 rounded-2xl text-sm font-bold text-rose-800 flex gap-3">
+          <AlertCircle size={18} className="shrink-0 mt-0.5" />
+          <div>{errors.map((p, i) => <p key={i}>{p}</p>)}</div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl border shadow-sm overflow-hidden">
+        <div className="p-6 border-b bg-slate-50 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-black text-slate-800 flex items-center gap-2"><Building2 size={20} /> Companies</h3>
+            <p className="text-xs font-bold text-slate-400 mt-1">
+              Each company keeps its own ledger, bank statements, rates and settings in this browser.
+              {lastSavedAt && <span className="ml-2 text-emerald-600">Saved {formatTimestamp(lastSavedAt)}</span>}
+            </p>
+          </div>
+          <div className="flex gap-3 shrink-0">
+            <button onClick={onBackup} disabled={!activeId} className="flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-white disabled:opacity-50">
+              <Download size={16} /> Back Up Current
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-3 border-2 rounded-xl text-sm font-black text-slate-700 hover:bg-white">
+              <FileUp size={16} /> Restore Backup
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleFile} accept=".json,application/json" className="hidden" />
+          </div>
+        </div>
+        <table className="w-full text-left border-collapse text-sm">
+          <thead className="text-slate-500 text-[10px] uppercase font-black tracking-widest border-b">
+            <tr>
+              <th className="px-6 py-4">Company</th>
+              <th className="px-6 py-4">Created</th>
+              <th className="px-6 py-4">Last Opened</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {workspaces.map(w => (
+              <tr key={w.id} className={w.id === activeId ? 'bg-emerald-50/60' : 'hover:bg-slate-50'}>
+                <td className="px-6 py-3">
+                  <input
+                    key={w.name}
+                    defaultValue={w.name}
+                    onBlur={(e) => rename(w, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    className="w-72 p-2 border-2 border-transparent hover:border-slate-200 rounded-xl text-sm font-bold text-slate-800 bg-transparent outline-none focus:border-emerald-500 focus:bg-white"
+                  />
+                </td>
+                <td className="px-6 py-3 text-slate-500">{formatTimestamp(w.createdAt)}</td>
+                <td className="px-6 py-3 text-slate-500">{formatTimestamp(w.lastOpenedAt)}</td>
+                <td className="px-6 py-3 text-right whitespace-nowrap">
+                  {w.id === activeId ? (
+                    <span className="inline-flex items-center gap-1 px-3 py-2 text-xs font-black uppercase tracking-widest text-emerald-700"><CheckCircle2 size={14} /> Open</span>
+                  ) : (
+                    <button onClick={() => onSwitch(w.id)} className="px-4 py-2 bg-slate-900 text-white rounded-lg text-xs font-black">Open</button>
+                  )}
+                  <button onClick={() => remove(w)} disabled={w.id === activeId} className="ml-2 p-2 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent" title={w.id === activeId ? 'Open another company before deleting this one' : 'Delete company'}>
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="p-6 border-t bg-slate-50/60 flex flex-wrap items-center gap-4">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="New company name" className="w-72 p-3 border-2 rounded-xl text-sm font-bold outline-none focus:border-emerald-500" />
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+            <input type="checkbox" checked={withSampleData} onChange={(e) => setWithSampleData(e.target.checked)} /> Start with sample data
+          </label>
+          <button onClick={create} disabled={!name.trim()} className="flex items-center gap-2 px-4 py-3 bg-emerald-600 text-white rounded-xl text-sm font-black disabled:opacity-50">
+            <Plus size={16} /> Add Company
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceManager;
@@ -0,0 +1,85 @@
+
+import { AnalysisProviderKind, AnalysisSettings, FinancialStatements } from "../types";
+import { CITABLE_REPORT_TITLES, CitableLine, REPORT_JSON_SCHEMA } from "../utils/analysisReport";
+import { RATIO_DEFINITIONS, RATIO_IDS, computeRatios, formatRatio } from "../utils/ratios";
+
+export type AnalysisFailure = "configuration" | "timeout" | "request" | "empty" | "invalid";
+
+export class AnalysisError extends Error {
+  constructor(message: string, public readonly reason: AnalysisFailure) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+export interface AnalysisRequest {
+  system: string;
+  prompt: string;
+  responseSchema: object; // JSON schema the response must follow
+  statements: FinancialStatements; // For providers that work from the figures rather than the prompt
+}
+
+export interface AnalysisOptions {
+  model: string;
+  temperature: number;
+  signal: AbortSignal; // Aborted when the configured timeout runs out
+}
+
+// Anything that can turn a set of statements into a JSON report. Providers that can stream yield
+// the response text piece by piece; the pieces joined together are the whole response.
+export interface AnalysisProvider {
+  id: AnalysisProviderKind;
+  label: string;
+  analyze: (request: AnalysisRequest, options: AnalysisOptions) => Promise<string>;
+  stream?: (request: AnalysisRequest, options: AnalysisOptions) => AsyncIterable<string>;
+}
+
+export const PROVIDER_LABELS: Record<AnalysisProviderKind, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible endpoint",
+  offline: "Offline analyst",
+  recorded: "Recorded responses"
+};
+
+export const DEFAULT_MODELS: Record<AnalysisProviderKind, string> = {
+  gemini: "gemini-3-flash-preview",
+  openai: "gpt-4o-mini",
+  offline: "rules",
+  recorded: "gemini-3-flash-preview" // Recordings are keyed by the model that answered
+};
+
+export const defaultAnalysisSettings: AnalysisSettings = {
+  provider: "gemini",
+  model: DEFAULT_MODELS.gemini,
+  temperature: 0.4,
+  timeoutMs: 60000,
+  baseUrl: "http://localhost:11434/v1",
+  apiKey: "",
+  recordResponses: false
+};
+
+export const ANALYSIS_SYSTEM_PROMPT = "You are a world-class CFO writing a strategic briefing for the board. Tone: professional, authoritative, and forward-looking. You answer only with JSON that follows the given schema, and every claim cites the statement lines it relies on by their ids.";
+
+export const buildAnalysisPrompt = (statements: FinancialStatements, catalog: CitableLine[], ratios = computeRatios(statements)): string => `
+Analyze the following financial statements and provide a high-level strategic report.
+Highlight key performance indicators, cash flow health, equity movements, and critical risks.
+
+Statement lines (amounts in ${statements.currency}${statements.period ? `, ${statements.period.label}` : ""}), one per row as id | statement > section > line | amount:
+${catalog.map(l => `${l.id} | ${CITABLE_REPORT_TITLES[l.report]} > ${l.section} > ${l.label} | ${l.amount.toFixed(2)}`).join("\n")}
+
+Financial ratios computed from these statements, one per row as ratio | formula | value:
+${RATIO_IDS.map(id => `${RATIO_DEFINITIONS[id].label} | ${RATIO_DEFINITIONS[id].formula} | ${ratios[id] === null ? `n/a (${RATIO_DEFINITIONS[id].undefinedWhen.toLowerCase()})` : formatRatio(id, ratios[id], statements.currency)}`).join("\n")}
+
+Equity components: ${JSON.stringify(statements.equityChanges)}
+${statements.variance.budgetLabel ? `Budget compared against: ${statements.variance.budgetLabel}. BV lines are variances, positive = favourable.` : "No budget is set; BV lines compare against zero."}
+
+Respond with one JSON object following this schema:
+${JSON.stringify(REPORT_JSON_SCHEMA)}
+
+- summary: the strategic outlook in two to four sentences.
+- sections: in this order, "Profitability & Growth Analysis", "Equity & Financial Position" (comment on capital adequacy based on Changes in Equity), "Liquidity & Cash Sustainability"; each with a few claims.
+- kpis: the measures that matter most, taking ratios from the list above rather than recomputing them; percentages in percentage points (12.5 for 12.5%).
+- risks: severity is one of critical, high, medium, low.
+- recommendations: strategic recommendations and risk mitigation.
+- Every claim, KPI, risk and recommendation lists in "citations" the ids of the lines above it relies on. Cite only ids from the list.
+`;
@@ -0,0 +1,130 @@
+
+import { AnalysisReport, AnalysisSettings, FinancialStatements, StoredAnalysisReport } from "../types";
+import {
+  REPORT_JSON_SCHEMA, buildCitationCatalog, hashStatements, parsePartialJson, previewReport, validateAnalysisReport
+} from "../utils/analysisReport";
+import { buildOfflineAnalysis } from "../utils/offlineAnalyst";
+import { ANALYSIS_SYSTEM_PROMPT, AnalysisError, AnalysisProvider, AnalysisRequest, PROVIDER_LABELS, buildAnalysisPrompt } from "./analysisProvider";
+import { BUILT_IN_GEMINI_KEY, createGeminiProvider } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleService";
+import { createRecordedProvider, recordResponses } from "./recordedProvider";
+import { sampleRecordings } from "./recordedFixtures";
+import { loadRecordedResponses, saveRecordedResponse } from "./workspaceStore";
+
+export const offlineProvider: AnalysisProvider = {
+  id: "offline",
+  label: PROVIDER_LABELS.offline,
+  analyze: async request => JSON.stringify(buildOfflineAnalysis(request.statements))
+};
+
+export interface ResolvedProvider {
+  provider: AnalysisProvider;
+  model: string;
+  fallbackReason?: string; // Why the offline analyst stands in for the configured provider
+}
+
+// Live providers keep what they answer when recording is switched on
+const live = (provider: AnalysisProvider, settings: AnalysisSettings): AnalysisProvider =>
+  settings.recordResponses ? recordResponses(provider, saveRecordedResponse) : provider;
+
+// Gemini cannot run without a key, so the offline analyst answers instead of failing outright.
+// Recorded responses replay the bundled sample recordings plus anything recorded in this browser.
+export const resolveProvider = (settings: AnalysisSettings): ResolvedProvider => {
+  switch (settings.provider) {
+    case "gemini": {
+      const key = settings.apiKey.trim() || BUILT_IN_GEMINI_KEY;
+      return key
+        ? { provider: live(createGeminiProvider(key), settings), model: settings.model }
+        : { provider: offlineProvider, model: "rules", fallbackReason: "No Gemini API key is configured" };
+    }
+    case "openai":
+      return { provider: live(createOpenAiCompatibleProvider(settings.baseUrl, settings.apiKey.trim()), settings), model: settings.model };
+    case "offline":
+      return { provider: offlineProvider, model: "rules" };
+    case "recorded":
+      return { provider: createRecordedProvider([...sampleRecordings, ...loadRecordedResponses()]), model: settings.model };
+  }
+};
+
+// Reuses the newest report made from the same statements by the same provider and model
+export const findCachedReport = (reports: StoredAnalysisReport[], statementsHash: string, settings: AnalysisSettings): StoredAnalysisReport | undefined => {
+  const { provider, model } = resolveProvider(settings);
+  return reports
+    .filter(r => r.statementsHash === statementsHash && r.providerLabel === provider.label && r.model === model)
+    .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))[0];
+};
+
+// Sends one request under the configured timeout and returns the response parsed as JSON. With
+// `onText`, providers that can stream hand over the response so far as it grows. Every failure
+// surfaces as an AnalysisError.
+export const requestJson = async (
+  resolved: ResolvedProvider,
+  request: AnalysisRequest,
+  settings: AnalysisSettings,
+  onText?: (text: string) => void
+): Promise<unknown> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+  const options = { model: resolved.model, temperature: settings.temperature, signal: controller.signal };
+  let text = "";
+  try {
+    if (resolved.provider.stream && onText) {
+      for await (const piece of resolved.provider.stream(request, options)) {
+        text += piece;
+        onText(text);
+      }
+    } else {
+      text = await resolved.provider.analyze(request, options);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) throw new AnalysisError(`${resolved.provider.label} did not answer within ${Math.round(settings.timeoutMs / 1000)} seconds.`, "timeout");
+    if (error instanceof AnalysisError) throw error;
+    throw new AnalysisError(`${resolved.provider.label} failed: ${error instanceof Error ? error.message : String(error)}`, "request");
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!text.trim()) throw new AnalysisError(`${resolved.provider.label} returned an empty response.`, "empty");
+  try {
+    // Some models wrap JSON in a markdown fence despite being asked not to
+    return JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, ""));
+  } catch {
+    throw new AnalysisError(`${resolved.provider.label} did not return valid JSON.`, "invalid");
+  }
+};
+
+// Lists the first few schema problems in an error message
+export const describeProblems = (problems: string[]): string =>
+  `${problems.slice(0, 5).join("; ")}${problems.length > 5 ? ` and ${problems.length - 5} more` : ""}`;
+
+// Runs one analysis and validates the response against the report schema.
+// Providers that stream report progress through `onProgress`.
+export const runAnalysis = async (
+  statements: FinancialStatements,
+  settings: AnalysisSettings,
+  onProgress?: (preview: AnalysisReport) => void,
+  provider?: AnalysisProvider
+): Promise<StoredAnalysisReport> => {
+  const resolved: ResolvedProvider = provider ? { provider, model: settings.model } : resolveProvider(settings);
+  const catalog = buildCitationCatalog(statements);
+  const request: AnalysisRequest = { system: ANALYSIS_SYSTEM_PROMPT, prompt: buildAnalysisPrompt(statements, catalog), responseSchema: REPORT_JSON_SCHEMA, statements };
+  const parsed = await requestJson(resolved, request, settings, onProgress && (text => {
+    const preview = previewReport(parsePartialJson(text), catalog);
+    if (preview) onProgress(preview);
+  }));
+  const { report, problems, droppedCitations } = validateAnalysisReport(parsed, catalog);
+  if (!report) throw new AnalysisError(`${resolved.provider.label} returned a report that does not match the schema: ${describeProblems(problems)}.`, "invalid");
+  const generatedAt = new Date().toISOString();
+  return {
+    id: `rep-${Date.parse(generatedAt).toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    statementsHash: hashStatements(statements),
+    periodLabel: statements.period?.label ?? "All recorded activity",
+    currency: statements.currency,
+    generatedAt,
+    providerLabel: resolved.provider.label,
+    model: resolved.model,
+    fallbackReason: resolved.fallbackReason,
+    droppedCitations,
+    report
+  };
+};
@@ -0,0 +1,88 @@
+
+import { Account, AnalysisSettings, FinancialStatements } from "../types";
+import { findAccount } from "../utils/accounts";
+import { CategorySuggestion, UnlabelledRow } from "../utils/categorisation";
+import { AnalysisError, AnalysisProvider, AnalysisRequest } from "./analysisProvider";
+import { ResolvedProvider, requestJson, resolveProvider } from "./analysisService";
+
+export const CATEGORISATION_SYSTEM_PROMPT = "You are a bookkeeper assigning bank and card transactions to accounts in a chart of accounts. You answer only with JSON that follows the given schema.";
+
+export const CATEGORISATION_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    suggestions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          row: { type: "integer" },
+          accountCode: { type: "string" },
+          confidence: { type: "number", description: "0 to 1" }
+        },
+        required: ["row", "accountCode", "confidence"]
+      }
+    }
+  },
+  required: ["suggestions"]
+};
+
+// A model's own confidence is not calibrated, so it never outranks a close match in past postings
+const MODEL_CONFIDENCE_CAP = 0.85;
+
+export const buildCategorisationPrompt = (rows: UnlabelledRow[], chart: Account[]): string => `
+Chart of accounts, one per row as code | name | category:
+${chart.filter(a => a.active).map(a => `${a.code} | ${a.name} | ${a.category}`).join("\n")}
+
+Transactions, one per row as row | side of the line to categorise | description:
+${rows.map(r => `${r.rowIndex} | ${r.type ?? "unknown"} | ${r.description}`).join("\n")}
+
+Respond with one JSON object following this schema:
+${JSON.stringify(CATEGORISATION_JSON_SCHEMA)}
+
+- Suggest one account code from the chart for each transaction you can place; leave out those you cannot.
+- A debit line is money spent (usually an expense or asset); a credit line is money received (usually revenue or a liability).
+- confidence is how sure you are, from 0 to 1.
+`;
+
+// Asks the configured language model for the rows the local engine could not place with confidence.
+// Codes outside the chart are dropped rather than trusted.
+export const suggestWithModel = async (
+  rows: UnlabelledRow[],
+  chart: Account[],
+  statements: FinancialStatements,
+  settings: AnalysisSettings,
+  provider?: AnalysisProvider
+): Promise<CategorySuggestion[]> => {
+  const resolved: ResolvedProvider = provider ? { provider, model: settings.model } : resolveProvider(settings);
+  if (resolved.provider.id === "offline") {
+    throw new AnalysisError(`${resolved.fallbackReason ? `${resolved.fallbackReason}. ` : ""}Model suggestions need a language model: choose one in the analysis settings.`, "configuration");
+  }
+  if (rows.length === 0) return [];
+  const request: AnalysisRequest = {
+    system: CATEGORISATION_SYSTEM_PROMPT,
+    prompt: buildCategorisationPrompt(rows, chart),
+    responseSchema: CATEGORISATION_JSON_SCHEMA,
+    statements
+  };
+  const response = await requestJson(resolved, request, settings);
+  const items = typeof response === "object" && response !== null && Array.isArray((response as { suggestions?: unknown }).suggestions)
+    ? (response as { suggestions: unknown[] }).suggestions
+    : null;
+  if (!items) throw new AnalysisError(`${resolved.provider.label} did not return a list of suggestions.`, "invalid");
+
+  const wanted = new Set(rows.map(r => r.rowIndex));
+  return items.flatMap(item => {
+    const { row, accountCode, confidence } = (item ?? {}) as { row?: unknown; accountCode?: unknown; confidence?: unknown };
+    const account = typeof accountCode === "string" ? findAccount(chart, accountCode.trim()) : undefined;
+    if (typeof row !== "number" || !wanted.has(row) || !account?.active) return [];
+    const stated = typeof confidence === "number" && isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0.5;
+    return [{
+      rowIndex: row,
+      accountCode: account.code,
+      category: account.category,
+      confidence: Math.round(stated * MODEL_CONFIDENCE_CAP * 100) / 100,
+      source: "model" as const,
+      reason: `Suggested by ${resolved.provider.label}`
+    }];
+  });
+};
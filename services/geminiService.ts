@@ -1,51 +1,52 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { FinancialStatements } from "../types";
+import { GoogleGenAI, GenerateContentParameters } from "@google/genai";
+import { AnalysisError, AnalysisOptions, AnalysisProvider, AnalysisRequest, PROVIDER_LABELS } from "./analysisProvider";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || "" });
+// The key the app was built with (GEMINI_API_KEY in .env.local); a key entered in settings takes precedence
+export const BUILT_IN_GEMINI_KEY = process.env.API_KEY || "";
 
-export const getFinancialAnalysis = async (statements: FinancialStatements) => {
-  const prompt = `
-    As a world-class CFO, analyze the following financial statements and provide a high-level strategic report.
-    Highlight key performance indicators, cash flow health, equity movements, and critical risks.
-    
-    Data Summary:
-    Income Statement: 
-    - Net Income: ${statements.incomeStatement.netIncome}
-    - Revenue: ${statements.incomeStatement.totalRevenue}
-    - Expenses: ${statements.incomeStatement.totalExpenses}
-    
-    Balance Sheet & Equity:
-    - Total Assets: ${statements.balanceSheet.totalAssets}
-    - Total Equity: ${statements.balanceSheet.totalEquity}
-    - Equity Components: ${JSON.stringify(statements.equityChanges)}
-    
-    Cash Flow: 
-    - Operating Activities: ${statements.cashFlow.operating.reduce((s, i) => s + i.amount, 0)}
-    - Net Change in Cash: ${statements.cashFlow.netCashFlow}
-    
-    Budget Variance:
-    - Revenue Variance: ${statements.variance.revenueActual - statements.variance.revenueBudget}
-    - Expense Variance: ${statements.variance.expenseBudget - statements.variance.expenseActual}
-    
-    Please structure your response with:
-    1. Executive Summary (Strategic Outlook)
-    2. Profitability & Growth Analysis
-    3. Equity & Financial Position (Comment on capital adequacy based on Changes in Equity)
-    4. Liquidity & Cash Sustainability
-    5. Strategic Recommendations & Risk Mitigation
-    
-    Tone: Professional, authoritative, and forward-looking.
-  `;
+const failed = (error: unknown, options: AnalysisOptions): never => {
+  if (error instanceof AnalysisError || options.signal.aborted) throw error;
+  console.error("Gemini Analysis Error:", error);
+  throw new AnalysisError(`Gemini request failed: ${error instanceof Error ? error.message : String(error)}`, "request");
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return "Failed to generate AI analysis. Please verify your data and try again.";
+// Gemini enforces the schema itself when asked for JSON with a response schema
+const parameters = (request: AnalysisRequest, options: AnalysisOptions): GenerateContentParameters => ({
+  model: options.model,
+  contents: request.prompt,
+  config: {
+    systemInstruction: request.system,
+    temperature: options.temperature,
+    responseMimeType: "application/json",
+    responseJsonSchema: request.responseSchema,
+    abortSignal: options.signal
   }
+});
+
+// The client is created per provider rather than at module load, so a missing key only matters when Gemini is used
+export const createGeminiProvider = (apiKey: string): AnalysisProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: "gemini",
+    label: PROVIDER_LABELS.gemini,
+    analyze: async (request, options) => {
+      try {
+        const response = await ai.models.generateContent(parameters(request, options));
+        if (!response.text) throw new AnalysisError("Gemini returned an empty response.", "empty");
+        return response.text;
+      } catch (error) {
+        return failed(error, options);
+      }
+    },
+    stream: async function* (request, options) {
+      try {
+        for await (const chunk of await ai.models.generateContentStream(parameters(request, options))) {
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        failed(error, options);
+      }
+    }
+  };
 };
@@ -0,0 +1,60 @@
+
+import { Account, AnalysisSettings, FinancialStatements, FiscalSettings } from "../types";
+import { LEDGER_QUERY_JSON_SCHEMA, LedgerQuery, validateLedgerQuery } from "../utils/ledgerQuery";
+import { monthName } from "../utils/periods";
+import { AnalysisError, AnalysisProvider, AnalysisRequest } from "./analysisProvider";
+import { ResolvedProvider, describeProblems, requestJson, resolveProvider } from "./analysisService";
+
+export const LEDGER_QUERY_SYSTEM_PROMPT = "You translate a manager's question about a company's ledger into one query for a local query engine. You never answer the question or state any figures yourself. You answer only with JSON that follows the given schema.";
+
+export interface LedgerContext {
+  accounts: Account[];
+  fiscal: FiscalSettings;
+  statements: FinancialStatements; // Those of the selected period
+  firstDate: string | null; // Range of the ledger, YYYY-MM-DD
+  lastDate: string | null;
+  today: string;
+}
+
+export const buildLedgerQueryPrompt = (question: string, context: LedgerContext): string => `
+Today is ${context.today}. The ledger runs from ${context.firstDate ?? "(empty)"} to ${context.lastDate ?? "(empty)"}; amounts are in ${context.statements.currency}.
+The fiscal year ends in ${monthName(context.fiscal.yearEndMonth)}; quarters and years are fiscal and named after the calendar year they end in (e.g. Q1 FY2024).
+The statements of the selected period (${context.statements.period?.label ?? "all recorded activity"}) can be queried with source "statements".
+
+Chart of accounts, one per row as code | name | category:
+${context.accounts.map(a => `${a.code} | ${a.name} | ${a.category}`).join("\n")}
+
+Respond with one JSON object following this schema:
+${JSON.stringify(LEDGER_QUERY_JSON_SCHEMA)}
+
+- source "transactions" reads every ledger posting. Measure "amount" is signed the natural way for each account: spending on an expense account and revenue earned are both positive.
+- Name accounts by code in filters.accounts; use filters.categories for whole categories such as all expenses.
+- Turn relative dates ("last quarter", "Q3", "this year") into filters.from and filters.to using the fiscal calendar, and group by the period the question compares.
+- To compare periods ("Q3 vs Q2"), cover both with the dates and group by that period. To find what grew or shrank most, group by the item and the period and order by change.
+- Use chart "line" for movements over time, "bar" for comparisons between items, "table" otherwise.
+
+Question: ${question}
+`;
+
+// Turns a question into a validated query. The model only ever chooses the query; the figures
+// come from running it over the ledger.
+export const translateQuestion = async (
+  question: string,
+  context: LedgerContext,
+  settings: AnalysisSettings,
+  provider?: AnalysisProvider
+): Promise<LedgerQuery> => {
+  const resolved: ResolvedProvider = provider ? { provider, model: settings.model } : resolveProvider(settings);
+  if (resolved.provider.id === "offline") {
+    throw new AnalysisError(`${resolved.fallbackReason ? `${resolved.fallbackReason}. ` : ""}Questions need a language model to turn them into queries: choose one in the analysis settings, or write the query by hand.`, "configuration");
+  }
+  const request: AnalysisRequest = {
+    system: LEDGER_QUERY_SYSTEM_PROMPT,
+    prompt: buildLedgerQueryPrompt(question, context),
+    responseSchema: LEDGER_QUERY_JSON_SCHEMA,
+    statements: context.statements
+  };
+  const { query, problems } = validateLedgerQuery(await requestJson(resolved, request, settings), context.accounts);
+  if (!query) throw new AnalysisError(`${resolved.provider.label} returned a query that cannot be run: ${describeProblems(problems)}.`, "invalid");
+  return query;
+};
@@ -0,0 +1,75 @@
+
+import { AnalysisError, AnalysisOptions, AnalysisProvider, AnalysisRequest, PROVIDER_LABELS } from "./analysisProvider";
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, a gateway, or a local model server.
+// JSON mode is the structured output those servers share; the schema itself travels in the prompt.
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string): AnalysisProvider => {
+  const post = async (request: AnalysisRequest, options: AnalysisOptions, stream: boolean): Promise<Response> => {
+    if (!baseUrl.trim()) throw new AnalysisError("Enter the endpoint's base URL in the analysis settings.", "configuration");
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.trim().replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({
+          model: options.model,
+          temperature: options.temperature,
+          response_format: { type: "json_object" },
+          stream,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt }
+          ]
+        }),
+        signal: options.signal
+      });
+    } catch (error) {
+      if (options.signal.aborted) throw error;
+      throw new AnalysisError(`Could not reach ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`, "request");
+    }
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => "")).slice(0, 300);
+      throw new AnalysisError(`The endpoint answered ${response.status} ${response.statusText}${detail ? `: ${detail}` : ""}`, "request");
+    }
+    return response;
+  };
+
+  return {
+    id: "openai",
+    label: PROVIDER_LABELS.openai,
+    analyze: async (request, options) => {
+      const body = (await (await post(request, options, false)).json()) as ChatCompletion;
+      const text = body.choices?.[0]?.message?.content;
+      if (!text) throw new AnalysisError("The endpoint returned an empty response.", "empty");
+      return text;
+    },
+    // Server-sent events: "data: {chunk}" lines, ending with "data: [DONE]"
+    stream: async function* (request, options) {
+      const response = await post(request, options, true);
+      if (!response.body) throw new AnalysisError("The endpoint did not stream a response.", "empty");
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, "");
+          if (!line.trim().startsWith("data:") || data === "[DONE]") continue;
+          const delta = (JSON.parse(data) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,56 @@
+
+import { RecordedResponse } from "./recordedProvider";
+
+// A report for the sample company's opening view: October 2023, the first budget selected, USD
+// throughout. The key hashes the exact prompt, so it stops matching whenever the sample ledger or the
+// prompt changes; record a fresh one with "Record responses" switched on and replace it.
+const sampleOctoberReport = {
+  summary: {
+    text: "October 2023 closed with net income of $16,100.00 on revenue of $22,600.00, a margin above 70%. Fresh capital of $50,000.00 lifted cash to $50,500.00, but only $5,500.00 of that came from operations as receivables absorbed much of the month's sales.",
+    citations: ["IS-6", "IS-2", "CF-6", "BS-1", "CF-3", "CF-2"]
+  },
+  sections: [
+    {
+      title: "Profitability & Growth Analysis",
+      claims: [
+        { text: "Revenue of $22,600.00 against expenses of $6,500.00 left net income of $16,100.00.", citations: ["IS-2", "IS-5", "IS-6"] },
+        { text: "Payroll of $4,500.00 is the largest cost, followed by rent of $2,000.00; both are fixed in the short term.", citations: ["IS-4", "IS-3"] },
+        { text: "Sales fell $7,400.00 short of budget; rent came in on plan, but payroll ran $500.00 over it.", citations: ["BV-1", "BV-2", "BV-3"] }
+      ]
+    },
+    {
+      title: "Equity & Financial Position",
+      claims: [
+        { text: "Equity of $104,100.00 funds almost all of the $106,100.00 asset base; liabilities are only $2,000.00.", citations: ["BS-10", "BS-4", "BS-6"] },
+        { text: "Common stock of $50,000.00 was issued in the month, and retained earnings closed at $54,100.00.", citations: ["EQ-1", "EQ-2"] }
+      ]
+    },
+    {
+      title: "Liquidity & Cash Sustainability",
+      claims: [
+        { text: "Receivables rose by $10,600.00 to $50,600.00, holding operating cash flow to $5,500.00.", citations: ["CF-2", "BS-2", "CF-3"] },
+        { text: "Cash of $50,500.00 covers several months of the current $6,500.00 monthly cost base.", citations: ["BS-1", "IS-5"] },
+        { text: "Equipment purchases of $5,000.00 were the only investing outflow.", citations: ["CF-4", "CF-5"] }
+      ]
+    }
+  ],
+  kpis: [
+    { label: "Revenue", value: 22600, unit: "currency", citations: ["IS-2"] },
+    { label: "Net income", value: 16100, unit: "currency", citations: ["IS-6"] },
+    { label: "Operating cash flow", value: 5500, unit: "currency", citations: ["CF-3"] },
+    { label: "Net margin", value: 71.2, unit: "percent", citations: ["IS-6", "IS-2"] },
+    { label: "Current ratio", value: 50.55, unit: "ratio", citations: ["BS-1", "BS-2", "BS-5"] }
+  ],
+  risks: [
+    { title: "Collections lag sales", severity: "high", detail: "Receivables now exceed a full month's revenue twice over; slow collection would strain cash once the capital injection is spent.", citations: ["BS-2", "IS-2", "CF-2"] },
+    { title: "Revenue below budget", severity: "medium", detail: "Sales were 24.7% under budget for the month.", citations: ["BV-1"] }
+  ],
+  recommendations: [
+    { title: "Tighten credit control", detail: "Chase the oldest receivables and review payment terms on new sales.", citations: ["BS-2", "CF-2"] },
+    { title: "Revisit the sales forecast", detail: "Rebase the budget on October's run rate before committing to further fixed costs.", citations: ["BV-1", "IS-4", "IS-3"] }
+  ]
+};
+
+export const sampleRecordings: RecordedResponse[] = [
+  { key: "e0c657f7", model: "gemini-3-flash-preview", response: JSON.stringify(sampleOctoberReport) }
+];
@@ -0,0 +1,55 @@
+
+import { hashText } from "../utils/analysisReport";
+import { AnalysisError, AnalysisProvider, AnalysisRequest, PROVIDER_LABELS } from "./analysisProvider";
+
+// A response captured from a real provider, keyed by the request that produced it
+export interface RecordedResponse {
+  key: string;
+  model: string;
+  response: string;
+}
+
+export const requestKey = (request: AnalysisRequest, model: string): string =>
+  hashText(`${model}\u0000${request.system}\u0000${request.prompt}`);
+
+// Replays recorded responses so the AI tab can be exercised without a network or a key.
+// A request nobody recorded is an error rather than a guess. Streaming replays the response in
+// fixed-size pieces so progressive rendering can be exercised too.
+export const createRecordedProvider = (recordings: RecordedResponse[], chunkSize = 64): AnalysisProvider => {
+  const byKey = new Map(recordings.map(r => [r.key, r.response]));
+  const lookup = (request: AnalysisRequest, model: string): string => {
+    const response = byKey.get(requestKey(request, model));
+    if (response === undefined) throw new AnalysisError(`No response was recorded for this request (key ${requestKey(request, model)}).`, "configuration");
+    return response;
+  };
+  return {
+    id: "recorded",
+    label: PROVIDER_LABELS.recorded,
+    analyze: async (request, options) => lookup(request, options.model),
+    stream: async function* (request, options) {
+      const response = lookup(request, options.model);
+      for (let i = 0; i < response.length; i += chunkSize) yield response.slice(i, i + chunkSize);
+    }
+  };
+};
+
+// Wraps a live provider and hands every complete response to `onRecord`, for replay later
+export const recordResponses = (provider: AnalysisProvider, onRecord: (recording: RecordedResponse) => void): AnalysisProvider => {
+  const { stream } = provider;
+  return {
+    ...provider,
+    analyze: async (request, options) => {
+      const response = await provider.analyze(request, options);
+      onRecord({ key: requestKey(request, options.model), model: options.model, response });
+      return response;
+    },
+    stream: stream && async function* (request, options) {
+      let response = "";
+      for await (const piece of stream(request, options)) {
+        response += piece;
+        yield piece;
+      }
+      onRecord({ key: requestKey(request, options.model), model: options.model, response });
+    }
+  };
+};
@@ -0,0 +1,168 @@
+
+import { AnalysisSettings, Workspace, WorkspaceData } from "../types";
+import { SCHEMA_VERSION, migrateWorkspaceData } from "../utils/workspace";
+import { defaultAnalysisSettings } from "./analysisProvider";
+import { RecordedResponse } from "./recordedProvider";
+
+// IndexedDB layout. DB_VERSION tracks object stores only; the shape of stored
+// workspace data is versioned separately by SCHEMA_VERSION and migrated on load.
+const DB_NAME = "finreport";
+const DB_VERSION = 1;
+const WORKSPACES = "workspaces";
+const DATA = "workspaceData";
+
+interface StoredData {
+  workspaceId: string;
+  schemaVersion: number;
+  data: WorkspaceData;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACES)) db.createObjectStore(WORKSPACES, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(DATA)) db.createObjectStore(DATA, { keyPath: "workspaceId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const isStorageAvailable = () => typeof indexedDB !== "undefined";
+
+// Most recently opened first
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  const db = await openDb();
+  const all = await requestResult(db.transaction(WORKSPACES).objectStore(WORKSPACES).getAll() as IDBRequest<Workspace[]>);
+  return all.sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt));
+};
+
+const getWorkspace = async (workspaceId: string): Promise<Workspace | undefined> => {
+  const db = await openDb();
+  return requestResult(db.transaction(WORKSPACES).objectStore(WORKSPACES).get(workspaceId) as IDBRequest<Workspace | undefined>);
+};
+
+// Data stored by an older app version is migrated and written back in the current shape
+export const loadWorkspaceData = async (workspaceId: string): Promise<WorkspaceData | null> => {
+  const db = await openDb();
+  const stored = await requestResult(db.transaction(DATA).objectStore(DATA).get(workspaceId) as IDBRequest<StoredData | undefined>);
+  if (!stored) return null;
+  const data = migrateWorkspaceData(stored.data, stored.schemaVersion);
+  const workspace = stored.schemaVersion !== SCHEMA_VERSION ? await getWorkspace(workspaceId) : undefined;
+  if (workspace) await saveWorkspace(workspace, data);
+  return data;
+};
+
+// Metadata and data are written in one transaction so a workspace never exists without its data
+export const saveWorkspace = async (workspace: Workspace, data: WorkspaceData): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([WORKSPACES, DATA], "readwrite");
+  tx.objectStore(WORKSPACES).put(workspace);
+  tx.objectStore(DATA).put({ workspaceId: workspace.id, schemaVersion: SCHEMA_VERSION, data } satisfies StoredData);
+  await transactionDone(tx);
+};
+
+export const touchWorkspace = async (workspace: Workspace): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(WORKSPACES, "readwrite");
+  tx.objectStore(WORKSPACES).put(workspace);
+  await transactionDone(tx);
+};
+
+export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([WORKSPACES, DATA], "readwrite");
+  tx.objectStore(WORKSPACES).delete(workspaceId);
+  tx.objectStore(DATA).delete(workspaceId);
+  await transactionDone(tx);
+};
+
+// The name stamped on postings belongs to the person at this browser, not to a company
+const USER_NAME_KEY = "finreport.userName";
+
+export const loadUserName = (): string => {
+  try {
+    return localStorage.getItem(USER_NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const saveUserName = (name: string) => {
+  try {
+    localStorage.setItem(USER_NAME_KEY, name);
+  } catch (error) {
+    console.error("Could not remember the user name:", error);
+  }
+};
+
+// Analysis settings hold API keys, so like the user name they stay in this browser
+const ANALYSIS_SETTINGS_KEY = "finreport.analysisSettings";
+
+// Settings saved by an older version gain any fields added since from the defaults
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const stored = localStorage.getItem(ANALYSIS_SETTINGS_KEY);
+    return stored ? { ...defaultAnalysisSettings, ...JSON.parse(stored) } : defaultAnalysisSettings;
+  } catch {
+    return defaultAnalysisSettings;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  try {
+    localStorage.setItem(ANALYSIS_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not remember the analysis settings:", error);
+  }
+};
+
+// Recorded provider responses may quote the figures they were asked about, so they stay in this browser too
+const RECORDED_RESPONSES_KEY = "finreport.recordedResponses";
+
+export const loadRecordedResponses = (): RecordedResponse[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RECORDED_RESPONSES_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+// A newer response to the same request replaces the older one
+export const saveRecordedResponse = (recording: RecordedResponse) => {
+  try {
+    const kept = loadRecordedResponses().filter(r => r.key !== recording.key);
+    localStorage.setItem(RECORDED_RESPONSES_KEY, JSON.stringify([...kept, recording]));
+  } catch (error) {
+    console.error("Could not keep the recorded response:", error);
+  }
+};
+
+export const clearRecordedResponses = () => {
+  try {
+    localStorage.removeItem(RECORDED_RESPONSES_KEY);
+  } catch (error) {
+    console.error("Could not clear the recorded responses:", error);
+  }
+};
@@ -12,27 +12,157 @@ export enum TransactionType {
   CREDIT = 'Credit'
 }
 
+export enum AccountSubType {
+  CASH_EQUIVALENT = 'Cash & Cash Equivalents',
+  RECEIVABLE = 'Trade Receivables',
+  INVENTORY = 'Inventory',
+  CURRENT_ASSET = 'Other Current Asset',
+  NON_CURRENT_ASSET = 'Property, Plant & Equipment',
+  ACCUMULATED_DEPRECIATION = 'Accumulated Depreciation',
+  PAYABLE = 'Trade Payables',
+  CURRENT_LIABILITY = 'Other Current Liability',
+  NON_CURRENT_LIABILITY = 'Non-Current Liability',
+  SHARE_CAPITAL = 'Share Capital',
+  RETAINED_EARNINGS = 'Retained Earnings',
+  DRAWINGS = 'Drawings & Dividends',
+  OPERATING_REVENUE = 'Operating Revenue',
+  OTHER_INCOME = 'Other Income',
+  COST_OF_SALES = 'Cost of Sales',
+  OPERATING_EXPENSE = 'Operating Expense',
+  DEPRECIATION = 'Depreciation & Amortisation',
+  OTHER_EXPENSE = 'Other Expense'
+}
+
+export interface Account {
+  code: string;
+  name: string;
+  category: AccountCategory;
+  subType: AccountSubType;
+  normalBalance: TransactionType;
+  active: boolean;
+}
+
+export interface JournalLine {
+  id: string;
+  accountCode: string;
+  amount: number;
+  type: TransactionType;
+  description?: string; // Falls back to the entry memo
+  currency?: string; // Transaction currency; omitted means the functional currency
+  originalAmount?: number; // Amount in the transaction currency; `amount` is always functional
+}
+
+export type EntryKind = 'standard' | 'closing' | 'revaluation';
+
+export type PostingSource = 'manual' | 'import' | 'rule';
+
+// Who posted an entry, when and how. Entries posted together share a batch id.
+export interface PostingAudit {
+  postedAt: string; // ISO timestamp
+  postedBy: string;
+  source: PostingSource;
+  batchId: string;
+}
+
+// Posted entries are never edited or deleted; a correction is a new entry that reverses the original
+export interface JournalEntry {
+  id: string;
+  date: string; // Posting date
+  memo: string;
+  reference?: string;
+  kind?: EntryKind; // Defaults to 'standard'
+  lines: JournalLine[];
+  audit?: PostingAudit; // Missing only on entries posted before the audit trail existed
+  reversalOf?: string; // Id of the entry this one cancels
+}
+
+// A journal entry still being prepared. Drafts stay out of every statement and can be edited or
+// voided freely; posting turns one into a JournalEntry, after which it can only be reversed.
+export interface DraftEntry {
+  id: string;
+  date: string;
+  memo: string;
+  reference?: string;
+  lines: JournalLine[]; // May be incomplete or unbalanced until posted
+  createdAt: string;
+  updatedAt: string;
+  voidedAt?: string; // Voided drafts are kept for the record but can no longer be posted
+}
+
+// A single posted line, flattened out of its journal entry
 export interface Transaction {
   id: string;
+  entryId: string;
   date: string;
   description: string;
+  accountCode: string;
   accountName: string;
   category: AccountCategory;
   amount: number;
   type: TransactionType;
+  currency?: string;
+  originalAmount?: number;
+}
+
+export type PeriodGranularity = 'month' | 'quarter' | 'year';
+
+export interface FiscalSettings {
+  yearEndMonth: number; // 1-12, the fiscal year ends on the last day of this month
+}
+
+export interface ReportingPeriod {
+  id: string;
+  label: string;
+  granularity: PeriodGranularity;
+  start: string; // Inclusive, YYYY-MM-DD
+  end: string; // Inclusive, YYYY-MM-DD
+  fiscalYear: number;
+}
+
+export interface ClosedPeriod {
+  periodId: string;
+  label: string;
+  start: string;
+  end: string;
+  closedAt: string;
+  closingEntryId: string;
+  carriedForward: Record<string, number>; // Balance-sheet account code -> signed balance (debit positive)
 }
 
 export interface TrialBalanceItem {
+  accountCode: string;
   accountName: string;
   category: AccountCategory;
+  subType: AccountSubType;
   debit: number;
   credit: number;
 }
 
+// The ledger accounts a statement line is built from, so the line can be traced back to its postings
+export interface LineSource {
+  accountCodes: string[];
+  basis: 'movement' | 'balance'; // Postings in the period only, or everything up to its end
+  increasesWith: TransactionType; // Side of a posting that adds to the line's amount
+  cashEntriesOnly?: boolean; // Direct cash flow lines count only entries that also post to a cash account
+}
+
 export interface StatementItem {
   label: string;
   amount: number;
   isTotal?: boolean;
+  source?: LineSource;
+  noteRef?: number; // Number of the note that analyses the line
+}
+
+// One statement line set against the same line for the comparative period
+export interface ComparativeRow {
+  label: string;
+  current: number;
+  prior: number;
+  change: number;
+  changePercent: number | null; // null when the prior amount is zero
+  source?: LineSource; // Accounts behind the line in either period
+  noteRef?: number;
 }
 
 export interface EquityChangeItem {
@@ -44,11 +174,26 @@ export interface EquityChangeItem {
   closingBalance: number;
 }
 
+export type NoteInclusion = 'auto' | 'always' | 'never';
+export type NoteTable = 'none' | 'accounts' | 'movement';
+
+// An editable note to the financial statements; {{placeholders}} in the body are filled from the ledger
+export interface NoteTemplate {
+  id: string;
+  title: string;
+  body: string;
+  table: NoteTable; // One line per account, or opening balance, additions, reductions and closing balance
+  subTypes: AccountSubType[]; // Accounts the note covers: its table, totals and statement cross-references come from these
+  inclusion: NoteInclusion; // Auto: presented only when one of its accounts has a balance or movement
+}
+
 export interface FinancialNote {
-  noteNumber: number;
+  id: string; // Template the note was built from
+  noteNumber: number; // Position among the notes presented, from 1
   title: string;
   content: string;
   data?: StatementItem[];
+  totalLabel?: string; // "Total" when unset
 }
 
 export interface BankStatementItem {
@@ -56,15 +201,171 @@ export interface BankStatementItem {
   date: string;
   description: string;
   amount: number; // Positive is deposit, Negative is withdrawal
+  reference?: string; // Bank's own transaction id (FITID, AcctSvcrRef, cheque number)
+}
+
+export type BankStatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053';
+
+export interface BankAccount {
+  id: string;
+  name: string;
+  ledgerAccountCode: string; // Cash-equivalent account the bank account reconciles to
+  accountNumber?: string;
+}
+
+// A user decision about a group of book lines and statement lines. Book lines are
+// referenced as `${entryId}:${lineId}` because line ids are only unique within an entry.
+export interface MatchDecision {
+  bookLineKeys: string[];
+  statementItemIds: string[];
+  decidedAt: string;
+}
+
+export interface BankStatement {
+  id: string;
+  bankAccountId: string;
+  format: BankStatementFormat;
+  fileName?: string;
+  importedAt: string;
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  closingBalance: number;
+  items: BankStatementItem[];
+  confirmedMatches?: MatchDecision[];
+  rejectedMatches?: MatchDecision[]; // Automatic matches the user has unmatched
+}
+
+export type BankRuleMatch = 'contains' | 'starts_with' | 'regex';
+
+// Maps bank statement descriptions to the ledger account that records them
+export interface BankRule {
+  id: string;
+  pattern: string;
+  matchType: BankRuleMatch;
+  accountCode: string;
+  memo?: string; // Memo for the adjusting entry; defaults to the statement description
+}
+
+export interface ReconciliationSettings {
+  dateToleranceDays: number;
+  minSimilarity: number; // 0-1 description similarity needed to pair lines whose amounts differ
+  maxGroupSize: number; // Largest number of lines combined into one many-to-one match
+}
+
+export interface ReconciliationSummary {
+  statementBalance: number;
+  depositsInTransit: number; // Book receipts not yet on the statement
+  outstandingPayments: number; // Book payments not yet on the statement, as a positive number
+  adjustedBankBalance: number;
+  bookBalance: number;
+  unrecordedBankItems: number; // Net of statement lines missing from the books
+  amountDifferences: number; // Net of bank-less-book differences on paired lines
+  adjustedBookBalance: number;
+  difference: number;
+  statementRunningTotalValid: boolean; // Opening balance plus items equals the closing balance
 }
 
 export interface ReconMatch {
-  bookEntry?: Transaction;
-  statementEntry?: BankStatementItem;
+  id: string;
+  bookEntries: Transaction[];
+  statementEntries: BankStatementItem[];
   status: 'matched' | 'missing_in_statement' | 'missing_in_book' | 'amount_mismatch';
+  difference: number; // Statement total less book total (bank-side sign)
+  score?: number; // 0-1 confidence of an automatic match
+  confirmed?: boolean;
+}
+
+export type CashFlowMethod = 'indirect' | 'direct';
+
+export interface CashFlowStatement {
+  method: CashFlowMethod;
+  operating: StatementItem[];
+  investing: StatementItem[];
+  financing: StatementItem[];
+  netCashFlow: number;
+  openingCash: number;
+  closingCash: number;
+  difference: number; // Net cash flow less the actual change in cash-equivalent balances; non-zero needs investigating
+}
+
+export interface BudgetLine {
+  accountCode: string;
+  month: string; // YYYY-MM
+  amount: number; // Natural sign: revenue as a positive credit, expense as a positive debit
+}
+
+export interface Budget {
+  id: string;
+  scenario: string; // e.g. "Original", "Reforecast"
+  version: number;
+  createdAt: string;
+  note?: string;
+  lines: BudgetLine[];
+}
+
+export interface MaterialityThresholds {
+  absolute: number;
+  percent: number;
+}
+
+export type RatioId =
+  | 'currentRatio' | 'quickRatio' | 'debtToEquity'
+  | 'grossMargin' | 'operatingMargin' | 'netMargin' | 'returnOnAssets' | 'returnOnEquity'
+  | 'dso' | 'dpo' | 'assetTurnover'
+  | 'cashBurn' | 'runway';
+
+// Levels at which a ratio's card turns amber or red; whether higher or lower is worse comes from the ratio
+export interface RatioThreshold {
+  amber?: number;
+  red?: number;
+}
+
+export interface KpiSettings {
+  pinned: RatioId[]; // Cards on the dashboard, in order
+  thresholds: Partial<Record<RatioId, RatioThreshold>>;
+}
+
+export interface VarianceLine {
+  accountCode: string;
+  accountName: string;
+  category: AccountCategory;
+  actual: number;
+  budget: number;
+  variance: number; // Positive is favourable
+  variancePercent: number | null;
+  favourable: boolean;
+  material: boolean;
+}
+
+export interface CurrencySettings {
+  functionalCurrency: string; // Currency the ledger is kept in
+  reportingCurrency: string; // Currency statements and exports are presented in
+}
+
+// One unit of `base` buys `rate` units of `quote` on `date`
+export interface ExchangeRate {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+export interface RevaluationLine {
+  accountCode: string;
+  accountName: string;
+  currency: string;
+  foreignBalance: number; // Debit-positive balance in the foreign currency
+  carryingAmount: number; // Current functional-currency balance
+  rate: number;
+  revaluedAmount: number;
+  adjustment: number; // Positive is a gain
 }
 
 export interface FinancialStatements {
+  period?: ReportingPeriod; // Undefined means the whole ledger
+  currency: string; // Presentation currency of every amount below
+  translation?: { from: string; rate: number; rateDate: string }; // Set when translated from the functional currency
   trialBalance: TrialBalanceItem[];
   incomeStatement: {
     revenue: StatementItem[];
@@ -81,18 +382,150 @@ export interface FinancialStatements {
     totalLiabilities: number;
     totalEquity: number;
   };
-  cashFlow: {
-    operating: StatementItem[];
-    investing: StatementItem[];
-    financing: StatementItem[];
-    netCashFlow: number;
-  };
+  cashFlow: CashFlowStatement;
   equityChanges: EquityChangeItem[];
   notes: FinancialNote[];
   variance: {
+    budgetLabel?: string; // Scenario and version compared against, if any
     revenueActual: number;
     revenueBudget: number;
     expenseActual: number;
     expenseBudget: number;
+    lines: VarianceLine[];
   };
 }
+
+export interface Workspace {
+  id: string;
+  name: string; // Company name shown on reports
+  createdAt: string;
+  updatedAt: string;
+  lastOpenedAt: string;
+}
+
+// How a ledger file carries amounts: one amount plus a Debit/Credit column, one signed amount,
+// or separate Debit and Credit amount columns
+export type ImportAmountLayout = 'typed' | 'signed' | 'split';
+
+export interface ImportTransforms {
+  amountLayout: ImportAmountLayout;
+  positiveAmountIs: TransactionType; // Signed layout only
+  dateOrder?: 'DMY' | 'MDY'; // Unset: detected from the file
+  offsetAccountCode?: string; // Bank and card exports: each row is one side of an entry against this account
+}
+
+// A saved column mapping for one source system's export, e.g. "Xero export"
+export interface ImportProfile {
+  id: string;
+  name: string;
+  mappings: Record<string, string>; // Import field key -> source column header
+  transforms: ImportTransforms;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export type AnalysisProviderKind = 'gemini' | 'openai' | 'offline' | 'recorded';
+
+// How AI commentary is produced. Kept per browser rather than per workspace, so API keys never
+// travel inside a workspace or its backups.
+export interface AnalysisSettings {
+  provider: AnalysisProviderKind;
+  model: string;
+  temperature: number; // 0-2
+  timeoutMs: number;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. a local model server's /v1
+  apiKey: string; // Blank: Gemini falls back to the key the app was built with; OpenAI-compatible sends none
+  recordResponses: boolean; // Keep every live response in this browser so the recorded provider can replay it
+}
+
+// Reports an AI commentary claim can point back to
+export type CitableReport = 'income' | 'balance-sheet' | 'cashflow' | 'equity' | 'variance';
+
+// A statement line a claim relies on, resolved and copied at generation time so the claim still
+// reads correctly after the ledger changes
+export interface ReportCitation {
+  id: string; // Line id the model cited, e.g. "IS-3"; only meaningful for the statements it was generated from
+  report: CitableReport;
+  label: string;
+  amount: number;
+}
+
+export interface CitedClaim {
+  text: string;
+  citations: ReportCitation[];
+}
+
+export type KpiUnit = 'currency' | 'percent' | 'ratio' | 'months';
+
+export interface ReportKpi {
+  label: string;
+  value: number; // Percentages as percentage points, e.g. 12.5
+  unit: KpiUnit;
+  citations: ReportCitation[];
+}
+
+export type RiskSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ReportRisk {
+  title: string;
+  severity: RiskSeverity;
+  detail: string;
+  citations: ReportCitation[];
+}
+
+export interface ReportRecommendation {
+  title: string;
+  detail: string;
+  citations: ReportCitation[];
+}
+
+export interface AnalysisReport {
+  summary: CitedClaim;
+  sections: { title: string; claims: CitedClaim[] }[];
+  kpis: ReportKpi[];
+  risks: ReportRisk[];
+  recommendations: ReportRecommendation[];
+}
+
+// One generated report as kept in the workspace history
+export interface StoredAnalysisReport {
+  id: string;
+  statementsHash: string; // Same hash, provider and model means the cached report still applies
+  periodLabel: string;
+  currency: string;
+  generatedAt: string;
+  providerLabel: string;
+  model: string;
+  fallbackReason?: string;
+  droppedCitations: number; // Citations to lines that do not exist in the statements, removed on validation
+  report: AnalysisReport;
+}
+
+// Everything one company keeps between sessions; view state such as the selected tab stays in the app
+export interface WorkspaceData {
+  entries: JournalEntry[];
+  accounts: Account[];
+  fiscalSettings: FiscalSettings;
+  closedPeriods: ClosedPeriod[];
+  budgets: Budget[];
+  materiality: MaterialityThresholds;
+  kpiSettings: KpiSettings;
+  noteTemplates: NoteTemplate[];
+  bankAccounts: BankAccount[];
+  bankStatements: BankStatement[];
+  reconSettings: ReconciliationSettings;
+  bankRules: BankRule[];
+  currencySettings: CurrencySettings;
+  exchangeRates: ExchangeRate[];
+  importProfiles: ImportProfile[];
+  draftEntries: DraftEntry[];
+  analysisReports: StoredAnalysisReport[];
+}
+
+export interface WorkspaceBackup {
+  format: 'finreport-workspace';
+  schemaVersion: number;
+  exportedAt: string;
+  workspace: Pick<Workspace, 'name' | 'createdAt'>;
+  data: WorkspaceData;
+}
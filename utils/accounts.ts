@@ -0,0 +1,147 @@
+import { Account, AccountCategory, AccountSubType, TransactionType } from '../types';
+
+export const SUB_TYPE_CATEGORY: Record<AccountSubType, AccountCategory> = {
+  [AccountSubType.CASH_EQUIVALENT]: AccountCategory.ASSET,
+  [AccountSubType.RECEIVABLE]: AccountCategory.ASSET,
+  [AccountSubType.INVENTORY]: AccountCategory.ASSET,
+  [AccountSubType.CURRENT_ASSET]: AccountCategory.ASSET,
+  [AccountSubType.NON_CURRENT_ASSET]: AccountCategory.ASSET,
+  [AccountSubType.ACCUMULATED_DEPRECIATION]: AccountCategory.ASSET,
+  [AccountSubType.PAYABLE]: AccountCategory.LIABILITY,
+  [AccountSubType.CURRENT_LIABILITY]: AccountCategory.LIABILITY,
+  [AccountSubType.NON_CURRENT_LIABILITY]: AccountCategory.LIABILITY,
+  [AccountSubType.SHARE_CAPITAL]: AccountCategory.EQUITY,
+  [AccountSubType.RETAINED_EARNINGS]: AccountCategory.EQUITY,
+  [AccountSubType.DRAWINGS]: AccountCategory.EQUITY,
+  [AccountSubType.OPERATING_REVENUE]: AccountCategory.REVENUE,
+  [AccountSubType.OTHER_INCOME]: AccountCategory.REVENUE,
+  [AccountSubType.COST_OF_SALES]: AccountCategory.EXPENSE,
+  [AccountSubType.OPERATING_EXPENSE]: AccountCategory.EXPENSE,
+  [AccountSubType.DEPRECIATION]: AccountCategory.EXPENSE,
+  [AccountSubType.OTHER_EXPENSE]: AccountCategory.EXPENSE
+};
+
+// Sub-type a new account gets when only its category is known (e.g. on import)
+export const DEFAULT_SUB_TYPE: Record<AccountCategory, AccountSubType> = {
+  [AccountCategory.ASSET]: AccountSubType.CURRENT_ASSET,
+  [AccountCategory.LIABILITY]: AccountSubType.CURRENT_LIABILITY,
+  [AccountCategory.EQUITY]: AccountSubType.SHARE_CAPITAL,
+  [AccountCategory.REVENUE]: AccountSubType.OPERATING_REVENUE,
+  [AccountCategory.EXPENSE]: AccountSubType.OPERATING_EXPENSE
+};
+
+export const CURRENT_ASSET_SUB_TYPES = [AccountSubType.CASH_EQUIVALENT, AccountSubType.RECEIVABLE, AccountSubType.INVENTORY, AccountSubType.CURRENT_ASSET];
+export const CURRENT_LIABILITY_SUB_TYPES = [AccountSubType.PAYABLE, AccountSubType.CURRENT_LIABILITY];
+
+export const subTypesForCategory = (category: AccountCategory): AccountSubType[] =>
+  (Object.keys(SUB_TYPE_CATEGORY) as AccountSubType[]).filter(st => SUB_TYPE_CATEGORY[st] === category);
+
+// Contra accounts (accumulated depreciation, drawings) run against their category's usual side
+export const defaultNormalBalance = (subType: AccountSubType): TransactionType => {
+  if (subType === AccountSubType.ACCUMULATED_DEPRECIATION) return TransactionType.CREDIT;
+  if (subType === AccountSubType.DRAWINGS) return TransactionType.DEBIT;
+  const category = SUB_TYPE_CATEGORY[subType];
+  return category === AccountCategory.ASSET || category === AccountCategory.EXPENSE ? TransactionType.DEBIT : TransactionType.CREDIT;
+};
+
+const account = (code: string, name: string, subType: AccountSubType): Account => ({
+  code,
+  name,
+  category: SUB_TYPE_CATEGORY[subType],
+  subType,
+  normalBalance: defaultNormalBalance(subType),
+  active: true
+});
+
+export const defaultChartOfAccounts: Account[] = [
+  account('1000', 'Cash', AccountSubType.CASH_EQUIVALENT),
+  account('1100', 'Accounts Receivable', AccountSubType.RECEIVABLE),
+  account('1200', 'Inventory', AccountSubType.INVENTORY),
+  account('1300', 'Prepaid Expenses', AccountSubType.CURRENT_ASSET),
+  account('1500', 'Equipment', AccountSubType.NON_CURRENT_ASSET),
+  account('1510', 'Accumulated Depreciation', AccountSubType.ACCUMULATED_DEPRECIATION),
+  account('2000', 'Accounts Payable', AccountSubType.PAYABLE),
+  account('2100', 'Accrued Liabilities', AccountSubType.CURRENT_LIABILITY),
+  account('2500', 'Long-term Loan', AccountSubType.NON_CURRENT_LIABILITY),
+  account('3000', 'Common Stock', AccountSubType.SHARE_CAPITAL),
+  account('3100', 'Retained Earnings', AccountSubType.RETAINED_EARNINGS),
+  account('3200', 'Dividends & Drawings', AccountSubType.DRAWINGS),
+  account('4000', 'Sales Revenue', AccountSubType.OPERATING_REVENUE),
+  account('4900', 'Other Income', AccountSubType.OTHER_INCOME),
+  account('4950', 'Unrealised FX Gains', AccountSubType.OTHER_INCOME),
+  account('5000', 'Cost of Goods Sold', AccountSubType.COST_OF_SALES),
+  account('6000', 'Rent Expense', AccountSubType.OPERATING_EXPENSE),
+  account('6100', 'Payroll Expense', AccountSubType.OPERATING_EXPENSE),
+  account('6200', 'Bank Charges Expense', AccountSubType.OPERATING_EXPENSE),
+  account('6500', 'Depreciation Expense', AccountSubType.DEPRECIATION),
+  account('6950', 'Unrealised FX Losses', AccountSubType.OTHER_EXPENSE)
+];
+
+export const findAccount = (chart: Account[], code: string): Account | undefined =>
+  chart.find(a => a.code === code);
+
+// Imports and free-text fields may carry either the code or the account name
+export const lookupAccount = (chart: Account[], codeOrName: string): Account | undefined => {
+  const needle = codeOrName.trim().toLowerCase();
+  return chart.find(a => a.code.toLowerCase() === needle) || chart.find(a => a.name.toLowerCase() === needle);
+};
+
+export const accountsBySubType = (chart: Account[], ...subTypes: AccountSubType[]): Account[] =>
+  chart.filter(a => subTypes.includes(a.subType));
+
+export const isCashAccount = (acc: Account | undefined): boolean => acc?.subType === AccountSubType.CASH_EQUIVALENT;
+
+export const validateAccount = (acc: Account, chart: Account[], isNew: boolean): string[] => {
+  const problems: string[] = [];
+  if (!/^[A-Za-z0-9.-]+$/.test(acc.code)) problems.push('Account code may only contain letters, digits, dots and dashes');
+  if (isNew && chart.some(a => a.code === acc.code)) problems.push(`Account code ${acc.code} is already in use`);
+  if (!acc.name.trim()) problems.push('Account name is required');
+  if (chart.some(a => a.code !== acc.code && a.name.trim().toLowerCase() === acc.name.trim().toLowerCase())) problems.push(`Another account is already named "${acc.name}"`);
+  if (SUB_TYPE_CATEGORY[acc.subType] !== acc.category) problems.push(`${acc.subType} is not a ${acc.category} sub-type`);
+  return problems;
+};
+
+export const nextAccountCode = (chart: Account[], category: AccountCategory): string => {
+  const base = { [AccountCategory.ASSET]: 1000, [AccountCategory.LIABILITY]: 2000, [AccountCategory.EQUITY]: 3000, [AccountCategory.REVENUE]: 4000, [AccountCategory.EXPENSE]: 6000 }[category];
+  const used = new Set(chart.map(a => a.code));
+  let code = base;
+  while (used.has(String(code))) code += 10;
+  return String(code);
+};
+
+// Resolves the account column of imported rows against the chart. Unknown accounts are
+// created from the row's category; a category that contradicts the chart is an error.
+export const resolveImportAccounts = (
+  chart: Account[],
+  rows: { account: string; category: string }[]
+): { chart: Account[]; codes: string[]; created: Account[]; problems: string[] } => {
+  const working = [...chart];
+  const created: Account[] = [];
+  const problems: string[] = [];
+  const categories = Object.values(AccountCategory) as string[];
+
+  const codes = rows.map((row, idx) => {
+    const category = categories.find(c => c.toLowerCase() === row.category.trim().toLowerCase()) as AccountCategory | undefined;
+    const existing = lookupAccount(working, row.account);
+    if (existing) {
+      if (category && category !== existing.category) problems.push(`Row ${idx + 1}: "${row.account}" is a ${existing.category} account in the chart, not ${category}`);
+      if (!existing.active) problems.push(`Row ${idx + 1}: "${row.account}" is inactive`);
+      return existing.code;
+    }
+    if (!row.account.trim()) {
+      problems.push(`Row ${idx + 1}: no account given`);
+      return '';
+    }
+    if (!category) {
+      problems.push(`Row ${idx + 1}: "${row.account}" is not in the chart of accounts and "${row.category}" is not a valid category`);
+      return '';
+    }
+    const subType = DEFAULT_SUB_TYPE[category];
+    const acc: Account = { code: nextAccountCode(working, category), name: row.account.trim(), category, subType, normalBalance: defaultNormalBalance(subType), active: true };
+    working.push(acc);
+    created.push(acc);
+    return acc.code;
+  });
+
+  return { chart: working, codes, created, problems };
+};
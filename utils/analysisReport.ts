@@ -0,0 +1,296 @@
+import {
+  AnalysisReport, CitableReport, CitedClaim, FinancialStatements, KpiUnit, ReportCitation, ReportKpi, ReportRecommendation, ReportRisk, RiskSeverity, StatementItem
+} from '../types';
+import { formatCurrency } from './finance';
+
+export const KPI_UNITS: KpiUnit[] = ['currency', 'percent', 'ratio', 'months'];
+export const RISK_SEVERITIES: RiskSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export const CITABLE_REPORT_TITLES: Record<CitableReport, string> = {
+  income: 'Income Statement',
+  'balance-sheet': 'Balance Sheet',
+  cashflow: 'Cash Flow',
+  equity: 'Changes in Equity',
+  variance: 'Budget Variance'
+};
+
+// FNV-1a; stable across sessions and cheap enough to run over a full set of statements
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const hashStatements = (statements: FinancialStatements): string => hashText(JSON.stringify(statements));
+
+// A statement line the model may cite, with a short id it can quote back
+export interface CitableLine {
+  id: string;
+  report: CitableReport;
+  section: string;
+  label: string; // As shown on the report, so a citation can find its row again
+  amount: number;
+}
+
+// Ids are numbered per statement in report order: IS-1, BS-4, CF-2, EQ-1, BV-3
+export const buildCitationCatalog = (statements: FinancialStatements): CitableLine[] => {
+  const lines: CitableLine[] = [];
+  const counters: Record<string, number> = {};
+  const add = (prefix: string, report: CitableReport, section: string, label: string, amount: number) => {
+    counters[prefix] = (counters[prefix] ?? 0) + 1;
+    lines.push({ id: `${prefix}-${counters[prefix]}`, report, section, label, amount });
+  };
+  const addItems = (prefix: string, report: CitableReport, section: string, items: StatementItem[]) =>
+    items.forEach(i => add(prefix, report, section, i.label, i.amount));
+  const sum = (items: StatementItem[]) => items.reduce((s, i) => s + i.amount, 0);
+
+  const { incomeStatement: is, balanceSheet: bs, cashFlow: cf } = statements;
+  addItems('IS', 'income', 'Revenue', is.revenue);
+  add('IS', 'income', 'Revenue', 'Total Revenue', is.totalRevenue);
+  addItems('IS', 'income', 'Expenses', is.expenses);
+  add('IS', 'income', 'Expenses', 'Total Expenses', is.totalExpenses);
+  add('IS', 'income', 'Result', 'NET INCOME', is.netIncome);
+
+  addItems('BS', 'balance-sheet', 'Assets', bs.assets);
+  add('BS', 'balance-sheet', 'Assets', 'Total Assets', bs.totalAssets);
+  addItems('BS', 'balance-sheet', 'Liabilities', bs.liabilities);
+  add('BS', 'balance-sheet', 'Liabilities', 'Total Liabilities', bs.totalLiabilities);
+  addItems('BS', 'balance-sheet', 'Equity', bs.equity);
+  add('BS', 'balance-sheet', 'Equity', 'Total Equity', bs.totalEquity);
+
+  addItems('CF', 'cashflow', 'Operating Activities', cf.operating);
+  add('CF', 'cashflow', 'Operating Activities', 'Net Cash from Operating Activities', sum(cf.operating));
+  addItems('CF', 'cashflow', 'Investing Activities', cf.investing);
+  add('CF', 'cashflow', 'Investing Activities', 'Net Cash from Investing Activities', sum(cf.investing));
+  addItems('CF', 'cashflow', 'Financing Activities', cf.financing);
+  add('CF', 'cashflow', 'Financing Activities', 'Net Cash from Financing Activities', sum(cf.financing));
+  add('CF', 'cashflow', 'Result', 'NET CHANGE IN CASH', cf.netCashFlow);
+
+  statements.equityChanges.forEach(e => add('EQ', 'equity', 'Closing balance', e.accountName, e.closingBalance));
+
+  statements.variance.lines.forEach(l => add('BV', 'variance', `Variance to ${statements.variance.budgetLabel ?? 'budget'} (positive is favourable)`, l.accountName, l.variance));
+  return lines;
+};
+
+// The shape the model is asked for; claims cite catalogue ids rather than repeating the lines
+const citations = { type: 'array', items: { type: 'string' }, description: 'Ids of the statement lines the claim relies on, e.g. "IS-3"' };
+const claim = { type: 'object', properties: { text: { type: 'string' }, citations }, required: ['text', 'citations'] };
+export const REPORT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: claim,
+    sections: {
+      type: 'array',
+      items: { type: 'object', properties: { title: { type: 'string' }, claims: { type: 'array', items: claim } }, required: ['title', 'claims'] }
+    },
+    kpis: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { label: { type: 'string' }, value: { type: 'number' }, unit: { type: 'string', enum: KPI_UNITS }, citations },
+        required: ['label', 'value', 'unit', 'citations']
+      }
+    },
+    risks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { title: { type: 'string' }, severity: { type: 'string', enum: RISK_SEVERITIES }, detail: { type: 'string' }, citations },
+        required: ['title', 'severity', 'detail', 'citations']
+      }
+    },
+    recommendations: {
+      type: 'array',
+      items: { type: 'object', properties: { title: { type: 'string' }, detail: { type: 'string' }, citations }, required: ['title', 'detail', 'citations'] }
+    }
+  },
+  required: ['summary', 'sections', 'kpis', 'risks', 'recommendations']
+};
+
+export interface ReportValidation {
+  report: AnalysisReport | null; // null when the response does not match the schema
+  problems: string[];
+  droppedCitations: number;
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks the response against REPORT_JSON_SCHEMA and swaps cited ids for the lines they name.
+// Ids that are not in the catalogue are dropped and counted rather than failing the report.
+export const validateAnalysisReport = (value: unknown, catalog: CitableLine[]): ReportValidation => {
+  const byId = new Map(catalog.map(l => [l.id.toUpperCase(), l]));
+  const problems: string[] = [];
+  let droppedCitations = 0;
+
+  const text = (v: unknown, path: string): string => {
+    if (typeof v === 'string' && v.trim()) return v.trim();
+    problems.push(`${path} must be a non-empty string`);
+    return '';
+  };
+  const cite = (v: unknown, path: string): ReportCitation[] => {
+    if (!Array.isArray(v)) { problems.push(`${path} must be a list of line ids`); return []; }
+    const found = new Map<string, ReportCitation>();
+    v.forEach(id => {
+      const line = typeof id === 'string' ? byId.get(id.trim().toUpperCase()) : undefined;
+      if (!line) droppedCitations++;
+      else found.set(line.id, { id: line.id, report: line.report, label: line.label, amount: line.amount });
+    });
+    return [...found.values()];
+  };
+  const list = <T>(v: unknown, path: string, item: (x: Json, path: string) => T): T[] => {
+    if (!Array.isArray(v)) { problems.push(`${path} must be a list`); return []; }
+    return v.flatMap((x, i) => {
+      if (isObject(x)) return [item(x, `${path}[${i}]`)];
+      problems.push(`${path}[${i}] must be an object`);
+      return [];
+    });
+  };
+  const oneOf = <T extends string>(v: unknown, allowed: T[], path: string): T => {
+    if (allowed.includes(v as T)) return v as T;
+    problems.push(`${path} must be one of ${allowed.join(', ')}`);
+    return allowed[0];
+  };
+  const claimOf = (x: Json, path: string): CitedClaim => ({ text: text(x.text, `${path}.text`), citations: cite(x.citations, `${path}.citations`) });
+
+  if (!isObject(value)) return { report: null, problems: ['The response is not a JSON object'], droppedCitations: 0 };
+  const report: AnalysisReport = {
+    summary: isObject(value.summary) ? claimOf(value.summary, 'summary') : (problems.push('summary must be an object'), { text: '', citations: [] }),
+    sections: list(value.sections, 'sections', (x, path) => ({ title: text(x.title, `${path}.title`), claims: list(x.claims, `${path}.claims`, claimOf) })),
+    kpis: list(value.kpis, 'kpis', (x, path): ReportKpi => {
+      const n = typeof x.value === 'number' ? x.value : Number.NaN;
+      if (!isFinite(n)) problems.push(`${path}.value must be a number`);
+      return { label: text(x.label, `${path}.label`), value: n, unit: oneOf(x.unit, KPI_UNITS, `${path}.unit`), citations: cite(x.citations, `${path}.citations`) };
+    }),
+    risks: list(value.risks, 'risks', (x, path): ReportRisk => ({
+      title: text(x.title, `${path}.title`), severity: oneOf(x.severity, RISK_SEVERITIES, `${path}.severity`), detail: text(x.detail, `${path}.detail`), citations: cite(x.citations, `${path}.citations`)
+    })),
+    recommendations: list(value.recommendations, 'recommendations', (x, path): ReportRecommendation => ({
+      title: text(x.title, `${path}.title`), detail: text(x.detail, `${path}.detail`), citations: cite(x.citations, `${path}.citations`)
+    }))
+  };
+  return { report: problems.length === 0 ? report : null, problems, droppedCitations };
+};
+
+// Parses JSON that is still arriving. Open strings and containers are closed; if that is not enough,
+// the text is cut back to the last complete member. Returns undefined until anything parses.
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  const cuts: { at: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') { stack.push(ch === '{' ? '}' : ']'); cuts.push({ at: i + 1, closers: [...stack].reverse().join('') }); }
+    else if (ch === '}' || ch === ']') stack.pop();
+    else if (ch === ',') cuts.push({ at: i, closers: [...stack].reverse().join('') });
+  }
+  const attempt = (candidate: string) => {
+    try { return { value: JSON.parse(candidate) as unknown }; } catch { return null; }
+  };
+  const start = text.indexOf('{');
+  if (start < 0) return undefined;
+  const whole = attempt(`${text}${inString && !escaped ? '"' : ''}${[...stack].reverse().join('')}`);
+  if (whole) return whole.value;
+  for (let c = cuts.length - 1; c >= 0; c--) {
+    const cut = attempt(text.slice(0, cuts[c].at) + cuts[c].closers);
+    if (cut) return cut.value;
+  }
+  return undefined;
+};
+
+// Whatever of the report has arrived so far, for rendering while a response streams in
+export const previewReport = (partial: unknown, catalog: CitableLine[]): AnalysisReport | null => {
+  if (!isObject(partial)) return null;
+  const byId = new Map(catalog.map(l => [l.id.toUpperCase(), l]));
+  const str = (v: unknown) => (typeof v === 'string' ? v : '');
+  const arr = (v: unknown) => (Array.isArray(v) ? v.filter(isObject) : []);
+  const cite = (v: unknown): ReportCitation[] => (Array.isArray(v) ? v : []).flatMap(id => {
+    const line = typeof id === 'string' ? byId.get(id.toUpperCase()) : undefined;
+    return line ? [{ id: line.id, report: line.report, label: line.label, amount: line.amount }] : [];
+  });
+  const claim = (x: Json): CitedClaim => ({ text: str(x.text), citations: cite(x.citations) });
+  return {
+    summary: isObject(partial.summary) ? claim(partial.summary) : { text: '', citations: [] },
+    sections: arr(partial.sections).map(s => ({ title: str(s.title), claims: arr(s.claims).map(claim).filter(c => c.text) })),
+    kpis: arr(partial.kpis).filter(k => typeof k.value === 'number' && KPI_UNITS.includes(k.unit as KpiUnit))
+      .map(k => ({ label: str(k.label), value: k.value as number, unit: k.unit as KpiUnit, citations: cite(k.citations) })),
+    risks: arr(partial.risks).filter(r => RISK_SEVERITIES.includes(r.severity as RiskSeverity))
+      .map(r => ({ title: str(r.title), severity: r.severity as RiskSeverity, detail: str(r.detail), citations: cite(r.citations) })),
+    recommendations: arr(partial.recommendations).map(r => ({ title: str(r.title), detail: str(r.detail), citations: cite(r.citations) }))
+  };
+};
+
+export const formatKpi = (kpi: Pick<ReportKpi, 'value' | 'unit'>, currency: string): string => {
+  switch (kpi.unit) {
+    case 'currency': return formatCurrency(kpi.value, currency);
+    case 'percent': return `${kpi.value.toFixed(1)}%`;
+    case 'ratio': return `${kpi.value.toFixed(2)}x`;
+    case 'months': return `${kpi.value.toFixed(1)} months`;
+  }
+};
+
+const citationText = (items: ReportCitation[]) => (items.length > 0 ? ` [${items.map(c => c.label).join('; ')}]` : '');
+
+// Markdown-style text for the PDF pack's commentary, with citations written out as line names
+export const reportToText = (report: AnalysisReport, currency: string): string => [
+  '## Executive Summary',
+  `${report.summary.text}${citationText(report.summary.citations)}`,
+  '',
+  '## Key Performance Indicators',
+  ...report.kpis.map(k => `- ${k.label}: ${formatKpi(k, currency)}${citationText(k.citations)}`),
+  '',
+  ...report.sections.flatMap(s => [`## ${s.title}`, ...s.claims.map(c => `${c.text}${citationText(c.citations)}`), '']),
+  '## Risks',
+  ...report.risks.map(r => `- [${r.severity.toUpperCase()}] ${r.title}: ${r.detail}${citationText(r.citations)}`),
+  '',
+  '## Recommendations',
+  ...report.recommendations.map(r => `- ${r.title}: ${r.detail}${citationText(r.citations)}`)
+].join('\n');
+
+// Every claim in the report, for counting those that cite nothing
+export const reportClaims = (report: AnalysisReport): { citations: ReportCitation[] }[] =>
+  [report.summary, ...report.sections.flatMap(s => s.claims), ...report.kpis, ...report.risks, ...report.recommendations];
+
+export interface KpiComparison {
+  label: string;
+  unit: KpiUnit;
+  current: number | null;
+  previous: number | null;
+  change: number | null;
+}
+
+const normalise = (label: string) => label.trim().toLowerCase();
+
+// KPIs matched by label; a KPI in only one report shows null on the other side
+export const compareKpis = (current: AnalysisReport, previous: AnalysisReport): KpiComparison[] => {
+  const prior = new Map(previous.kpis.map(k => [normalise(k.label), k]));
+  const rows: KpiComparison[] = current.kpis.map(k => {
+    const p = prior.get(normalise(k.label));
+    prior.delete(normalise(k.label));
+    return { label: k.label, unit: k.unit, current: k.value, previous: p?.value ?? null, change: p ? k.value - p.value : null };
+  });
+  prior.forEach(p => rows.push({ label: p.label, unit: p.unit, current: null, previous: p.value, change: null }));
+  return rows;
+};
+
+// Risks matched by title: raised since the earlier report, or no longer reported
+export const compareRisks = (current: AnalysisReport, previous: AnalysisReport) => {
+  const before = new Set(previous.risks.map(r => normalise(r.title)));
+  const now = new Set(current.risks.map(r => normalise(r.title)));
+  return {
+    raised: current.risks.filter(r => !before.has(normalise(r.title))),
+    resolved: previous.risks.filter(r => !now.has(normalise(r.title)))
+  };
+};
@@ -0,0 +1,100 @@
+import { Account, JournalEntry, PostingAudit, PostingSource, TransactionType } from '../types';
+import { LedgerError, entryTotals, postEntries } from './ledger';
+
+export const SOURCE_LABELS: Record<PostingSource, string> = { manual: 'Manual', import: 'Import', rule: 'Bank rule' };
+
+// Entries without audit details predate the trail; they are listed together under this batch id
+export const LEGACY_BATCH_ID = 'before-audit-trail';
+
+export const newPostingAudit = (postedBy: string, source: PostingSource, postedAt: string = new Date().toISOString()): PostingAudit => ({
+  postedAt,
+  postedBy: postedBy.trim() || 'Unnamed user',
+  source,
+  batchId: `batch-${Date.parse(postedAt).toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+});
+
+// Original entry id -> the entry that reverses it
+export const reversalsByEntry = (entries: JournalEntry[]): Map<string, JournalEntry> =>
+  new Map(entries.filter(e => e.reversalOf).map(e => [e.reversalOf!, e]));
+
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// A reversal lands on the original date when that is still open, otherwise on the first open day
+export const reversalDate = (entry: JournalEntry, lockedThrough?: string): string =>
+  lockedThrough && entry.date.slice(0, 10) <= lockedThrough ? addDays(lockedThrough, 1) : entry.date.slice(0, 10);
+
+// Same accounts and amounts with every side flipped. The kind is kept so a reversed closing entry
+// stays out of period statements just like the entry it cancels.
+export const buildReversal = (entry: JournalEntry, date: string): JournalEntry => ({
+  id: `rev-${entry.id}`,
+  date,
+  memo: `Reversal of ${entry.reference || entry.memo}`,
+  reference: entry.reference ? `REV-${entry.reference}` : undefined,
+  kind: entry.kind,
+  reversalOf: entry.id,
+  lines: entry.lines.map(line => ({
+    ...line,
+    id: `${line.id}-rev`,
+    type: line.type === TransactionType.DEBIT ? TransactionType.CREDIT : TransactionType.DEBIT
+  }))
+});
+
+// Posts one reversal per entry as a single batch. Reversals and already-reversed entries are refused,
+// so an entry can only ever be cancelled once.
+export const reverseEntries = (
+  ledger: JournalEntry[],
+  entryIds: string[],
+  chart: Account[],
+  lockedThrough: string | undefined,
+  audit: PostingAudit
+): JournalEntry[] => {
+  const reversed = reversalsByEntry(ledger);
+  const problems: string[] = [];
+  const reversals = entryIds.flatMap(id => {
+    const entry = ledger.find(e => e.id === id);
+    if (!entry) { problems.push(`Entry ${id} is not in the ledger`); return []; }
+    const label = entry.reference || entry.memo;
+    if (entry.reversalOf) { problems.push(`${label} is itself a reversal; post the original again instead`); return []; }
+    if (reversed.has(id)) { problems.push(`${label} was already reversed by ${reversed.get(id)!.reference || reversed.get(id)!.id}`); return []; }
+    return [buildReversal(entry, reversalDate(entry, lockedThrough))];
+  });
+  if (problems.length > 0) throw new LedgerError(`${problems.length} problem(s) prevented the reversal`, problems);
+  return postEntries(ledger, reversals, chart, lockedThrough, audit);
+};
+
+export interface AuditBatch {
+  batchId: string;
+  postedAt?: string;
+  postedBy?: string;
+  sources: PostingSource[];
+  entries: JournalEntry[];
+  total: number; // Sum of debits across the batch
+  reversedCount: number; // Entries in this batch cancelled by a later reversal
+  reversesBatchIds: string[]; // Batches whose entries this batch reverses
+}
+
+// The ledger grouped by posting batch, newest first
+export const summariseBatches = (entries: JournalEntry[]): AuditBatch[] => {
+  const reversed = reversalsByEntry(entries);
+  const batchOf = new Map(entries.map(e => [e.id, e.audit?.batchId ?? LEGACY_BATCH_ID]));
+  const batches = new Map<string, AuditBatch>();
+  entries.forEach(entry => {
+    const batchId = entry.audit?.batchId ?? LEGACY_BATCH_ID;
+    let batch = batches.get(batchId);
+    if (!batch) {
+      batch = { batchId, postedAt: entry.audit?.postedAt, postedBy: entry.audit?.postedBy, sources: [], entries: [], total: 0, reversedCount: 0, reversesBatchIds: [] };
+      batches.set(batchId, batch);
+    }
+    batch.entries.push(entry);
+    batch.total = Math.round((batch.total + entryTotals(entry).debit) * 100) / 100;
+    if (entry.audit && !batch.sources.includes(entry.audit.source)) batch.sources.push(entry.audit.source);
+    if (reversed.has(entry.id)) batch.reversedCount++;
+    const target = entry.reversalOf && batchOf.get(entry.reversalOf);
+    if (target && !batch.reversesBatchIds.includes(target)) batch.reversesBatchIds.push(target);
+  });
+  return [...batches.values()].sort((a, b) => (b.postedAt ?? '').localeCompare(a.postedAt ?? ''));
+};
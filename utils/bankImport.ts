@@ -0,0 +1,252 @@
+import { BankStatement, BankStatementFormat, BankStatementItem } from '../types';
+import { DateOrder, normaliseDate } from './dates';
+
+export interface ParsedStatement {
+  items: BankStatementItem[];
+  openingBalance?: number;
+  closingBalance?: number;
+  periodStart?: string;
+  periodEnd?: string;
+  accountNumber?: string;
+  problems: string[];
+}
+
+export interface CsvStatementMapping {
+  date: number;
+  description: number;
+  amount?: number; // Signed amount column
+  debit?: number; // Or separate money-out / money-in columns
+  credit?: number;
+  balance?: number; // Running balance, used to derive opening and closing balances
+  reference?: number;
+  dateOrder: DateOrder;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const parseMoney = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  let text = String(value ?? '').trim();
+  const negative = /^\(.*\)$/.test(text) || /-$/.test(text);
+  text = text.replace(/[()\s]/g, '').replace(/-$/, '');
+  // "1.234,56" style: the last separator is the decimal point
+  if (/,\d{1,2}$/.test(text) && text.lastIndexOf(',') > text.lastIndexOf('.')) text = text.replace(/\./g, '').replace(',', '.');
+  const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+  return negative ? -amount : amount;
+};
+
+export const detectStatementFormat = (text: string, fileName = ''): BankStatementFormat => {
+  const head = text.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head) || /\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  if (/^\s*!Type:/im.test(head) || /\.qif$/i.test(fileName)) return 'qif';
+  if (/camt\.053|<BkToCstmrStmt>/i.test(head)) return 'camt053';
+  return 'csv';
+};
+
+const withIds = (items: Omit<BankStatementItem, 'id'>[], prefix: string): BankStatementItem[] =>
+  items.map((item, idx) => ({ id: `${prefix}-${idx + 1}`, ...item }));
+
+// OFX 1.x is SGML (leaf tags are not closed), OFX 2.x is XML; reading leaf values by regex handles both
+const ofxValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+const ofxDate = (value: string | undefined) => (value ? normaliseDate(value.slice(0, 8)) : null);
+
+export const parseOfx = (text: string, idPrefix: string): ParsedStatement => {
+  const problems: string[] = [];
+  const items: Omit<BankStatementItem, 'id'>[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+  blocks.forEach((block, idx) => {
+    const date = ofxDate(ofxValue(block, 'DTPOSTED'));
+    const amount = parseMoney(ofxValue(block, 'TRNAMT'));
+    if (!date || isNaN(amount)) { problems.push(`Transaction ${idx + 1}: missing date or amount`); return; }
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    items.push({
+      date,
+      description: [name, memo].filter(Boolean).join(' - ') || 'Bank transaction',
+      amount,
+      reference: ofxValue(block, 'FITID') ?? ofxValue(block, 'CHECKNUM')
+    });
+  });
+
+  const ledgerBal = text.match(/<LEDGERBAL>[\s\S]*?(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>)/i)?.[0];
+  const closingBalance = ledgerBal ? parseMoney(ofxValue(ledgerBal, 'BALAMT')) : undefined;
+  const net = items.reduce((s, i) => s + i.amount, 0);
+
+  return {
+    items: withIds(items, idPrefix),
+    closingBalance: closingBalance !== undefined && !isNaN(closingBalance) ? closingBalance : undefined,
+    openingBalance: closingBalance !== undefined && !isNaN(closingBalance) ? round(closingBalance - net) : undefined,
+    periodStart: ofxDate(ofxValue(text, 'DTSTART')) ?? undefined,
+    periodEnd: ofxDate(ofxValue(text, 'DTEND')) ?? undefined,
+    accountNumber: ofxValue(text, 'ACCTID'),
+    problems
+  };
+};
+
+// QIF has no balance records; Quicken writes the opening balance as a first "Opening Balance" payee
+export const parseQif = (text: string, idPrefix: string, dateOrder: DateOrder = 'MDY'): ParsedStatement => {
+  const problems: string[] = [];
+  const items: Omit<BankStatementItem, 'id'>[] = [];
+  let openingBalance: number | undefined;
+
+  text.split(/^\^\s*$/m).forEach((record, idx) => {
+    const fields: Record<string, string> = {};
+    record.split(/\r?\n/).forEach(line => {
+      if (!line || line.startsWith('!')) return;
+      const code = line[0];
+      if (!(code in fields)) fields[code] = line.slice(1).trim();
+    });
+    if (!fields.D && !fields.T && !fields.U) return;
+
+    const date = normaliseDate(fields.D, dateOrder);
+    const amount = parseMoney(fields.T ?? fields.U);
+    if (!date || isNaN(amount)) { problems.push(`Record ${idx + 1}: unreadable date "${fields.D ?? ''}" or amount`); return; }
+    if (/^opening balance$/i.test(fields.P ?? '') && items.length === 0 && openingBalance === undefined) {
+      openingBalance = amount;
+      return;
+    }
+    items.push({
+      date,
+      description: [fields.P, fields.M].filter(Boolean).join(' - ') || 'Bank transaction',
+      amount,
+      reference: fields.N
+    });
+  });
+
+  return {
+    items: withIds(items, idPrefix),
+    openingBalance,
+    closingBalance: openingBalance !== undefined ? round(openingBalance + items.reduce((s, i) => s + i.amount, 0)) : undefined,
+    problems
+  };
+};
+
+const childText = (el: Element | undefined | null, path: string[]): string | undefined => {
+  let current: Element | undefined | null = el;
+  for (const name of path) {
+    current = current ? Array.from(current.children).find(c => c.localName === name) : undefined;
+  }
+  return current?.textContent?.trim() || undefined;
+};
+
+// ISO 20022 bank-to-customer statement. Only the first <Stmt> is read.
+export const parseCamt053 = (text: string, idPrefix: string): ParsedStatement => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return { items: [], problems: ['The file is not well-formed XML'] };
+  const stmt = doc.getElementsByTagNameNS('*', 'Stmt')[0];
+  if (!stmt) return { items: [], problems: ['No <Stmt> element found'] };
+
+  const signed = (el: Element) => {
+    const amount = parseMoney(childText(el, ['Amt']));
+    return childText(el, ['CdtDbtInd']) === 'DBIT' ? -amount : amount;
+  };
+
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  Array.from(stmt.children).filter(c => c.localName === 'Bal').forEach(bal => {
+    const code = childText(bal, ['Tp', 'CdOrPrtry', 'Cd']);
+    if (code === 'OPBD' || (code === 'PRCD' && openingBalance === undefined)) openingBalance = signed(bal);
+    if (code === 'CLBD') closingBalance = signed(bal);
+  });
+
+  const problems: string[] = [];
+  const items: Omit<BankStatementItem, 'id'>[] = [];
+  Array.from(stmt.children).filter(c => c.localName === 'Ntry').forEach((entry, idx) => {
+    const date = normaliseDate(childText(entry, ['BookgDt', 'Dt']) ?? childText(entry, ['BookgDt', 'DtTm']) ?? childText(entry, ['ValDt', 'Dt']));
+    const amount = signed(entry);
+    if (!date || isNaN(amount)) { problems.push(`Entry ${idx + 1}: missing booking date or amount`); return; }
+    const txDtls = entry.getElementsByTagNameNS('*', 'TxDtls')[0];
+    const description = childText(txDtls, ['RmtInf', 'Ustrd']) ?? childText(entry, ['AddtlNtryInf']) ?? childText(txDtls, ['RltdPties', 'Cdtr', 'Nm']) ?? 'Bank transaction';
+    items.push({ date, description, amount, reference: childText(entry, ['AcctSvcrRef']) ?? childText(entry, ['NtryRef']) });
+  });
+
+  return {
+    items: withIds(items, idPrefix),
+    openingBalance,
+    closingBalance,
+    periodStart: normaliseDate(childText(stmt, ['FrToDt', 'FrDtTm'])) ?? undefined,
+    periodEnd: normaliseDate(childText(stmt, ['FrToDt', 'ToDtTm'])) ?? undefined,
+    accountNumber: childText(stmt, ['Acct', 'Id', 'IBAN']) ?? childText(stmt, ['Acct', 'Id', 'Othr', 'Id']),
+    problems
+  };
+};
+
+// CSV rows exclude the header. A running balance column gives the opening and closing balances.
+export const parseCsvStatement = (rows: unknown[][], mapping: CsvStatementMapping, idPrefix: string): ParsedStatement => {
+  const problems: string[] = [];
+  const parsed: (Omit<BankStatementItem, 'id'> & { balance?: number })[] = [];
+
+  rows.forEach((row, idx) => {
+    if (row.every(cell => String(cell ?? '').trim() === '')) return;
+    const date = normaliseDate(row[mapping.date], mapping.dateOrder);
+    let amount: number;
+    if (mapping.amount !== undefined) amount = parseMoney(row[mapping.amount]);
+    else {
+      const out = mapping.debit !== undefined ? parseMoney(row[mapping.debit]) : NaN;
+      const inn = mapping.credit !== undefined ? parseMoney(row[mapping.credit]) : NaN;
+      amount = (isNaN(inn) ? 0 : Math.abs(inn)) - (isNaN(out) ? 0 : Math.abs(out));
+    }
+    if (!date) { problems.push(`Row ${idx + 2}: unreadable date "${row[mapping.date] ?? ''}"`); return; }
+    if (isNaN(amount)) { problems.push(`Row ${idx + 2}: unreadable amount`); return; }
+    const balance = mapping.balance !== undefined ? parseMoney(row[mapping.balance]) : undefined;
+    parsed.push({
+      date,
+      description: String(row[mapping.description] ?? '').trim() || 'Bank transaction',
+      amount: round(amount),
+      reference: mapping.reference !== undefined ? String(row[mapping.reference] ?? '').trim() || undefined : undefined,
+      balance: balance !== undefined && !isNaN(balance) ? balance : undefined
+    });
+  });
+
+  // Many banks list newest first; flip those so same-day rows keep a chaining running balance
+  const newestFirst = parsed.length > 1 && parsed[0].date > parsed[parsed.length - 1].date;
+  const ordered = (newestFirst ? [...parsed].reverse() : parsed).sort((a, b) => a.date.localeCompare(b.date));
+  const first = ordered[0];
+  const last = ordered[ordered.length - 1];
+
+  return {
+    items: withIds(ordered.map(({ balance, ...item }) => item), idPrefix),
+    openingBalance: first?.balance !== undefined ? round(first.balance - first.amount) : undefined,
+    closingBalance: last?.balance,
+    problems
+  };
+};
+
+// Fills in period dates and whichever balance the file did not provide
+export const buildStatement = (
+  parsed: ParsedStatement,
+  bankAccountId: string,
+  format: BankStatementFormat,
+  fileName?: string,
+  importedAt: string = new Date().toISOString()
+): BankStatement => {
+  const dates = parsed.items.map(i => i.date).sort();
+  const net = parsed.items.reduce((s, i) => s + i.amount, 0);
+  const opening = parsed.openingBalance ?? (parsed.closingBalance !== undefined ? round(parsed.closingBalance - net) : 0);
+  return {
+    id: `stmt-${bankAccountId}-${Date.parse(importedAt)}`,
+    bankAccountId,
+    format,
+    fileName,
+    importedAt,
+    periodStart: parsed.periodStart ?? dates[0] ?? importedAt.slice(0, 10),
+    periodEnd: parsed.periodEnd ?? dates[dates.length - 1] ?? importedAt.slice(0, 10),
+    openingBalance: opening,
+    closingBalance: parsed.closingBalance ?? round(opening + net),
+    items: parsed.items
+  };
+};
+
+export const parseStatementText = (text: string, format: BankStatementFormat, idPrefix: string, dateOrder: DateOrder = 'MDY'): ParsedStatement => {
+  switch (format) {
+    case 'ofx': return parseOfx(text, idPrefix);
+    case 'qif': return parseQif(text, idPrefix, dateOrder);
+    case 'camt053': return parseCamt053(text, idPrefix);
+    default: return { items: [], problems: ['CSV statements need a column mapping'] };
+  }
+};
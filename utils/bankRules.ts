@@ -0,0 +1,70 @@
+import { Account, BankAccount, BankRule, BankStatement, BankStatementItem, JournalEntry, ReconMatch, TransactionType } from '../types';
+import { findAccount } from './accounts';
+import { uniqueEntryId } from './ledger';
+
+export interface AdjustmentProposal {
+  item: BankStatementItem;
+  rule?: BankRule;
+  accountCode?: string; // Account the rule suggests; the user picks one when no rule applies
+}
+
+export const ruleMatches = (rule: BankRule, description: string): boolean => {
+  const text = description.trim().toLowerCase();
+  const pattern = rule.pattern.trim().toLowerCase();
+  if (!pattern) return false;
+  switch (rule.matchType) {
+    case 'starts_with': return text.startsWith(pattern);
+    case 'regex':
+      try { return new RegExp(rule.pattern, 'i').test(description); }
+      catch { return false; }
+    default: return text.includes(pattern);
+  }
+};
+
+// The first matching rule wins, so more specific rules belong higher in the list
+export const findRule = (rules: BankRule[], description: string): BankRule | undefined =>
+  rules.find(rule => ruleMatches(rule, description));
+
+export const validateRule = (rule: BankRule, chart: Account[]): string[] => {
+  const problems: string[] = [];
+  if (!rule.pattern.trim()) problems.push('A rule needs a description pattern');
+  if (rule.matchType === 'regex') {
+    try { new RegExp(rule.pattern); }
+    catch { problems.push(`"${rule.pattern}" is not a valid regular expression`); }
+  }
+  const acc = findAccount(chart, rule.accountCode);
+  if (!acc) problems.push(`Account ${rule.accountCode} is not in the chart of accounts`);
+  else if (!acc.active) problems.push(`${acc.code} ${acc.name} is inactive`);
+  return problems;
+};
+
+export const proposeAdjustments = (matches: ReconMatch[], rules: BankRule[]): AdjustmentProposal[] =>
+  matches.filter(m => m.status === 'missing_in_book').flatMap(m => m.statementEntries).map(item => {
+    const rule = findRule(rules, item.description);
+    return { item, rule, accountCode: rule?.accountCode };
+  });
+
+// Dated on the bank date with the bank amount, so the next reconciliation matches it exactly.
+// A deposit debits the bank's ledger account; a withdrawal credits it. The ledger is passed so an
+// item whose earlier adjustment was reversed can be posted again under a fresh id.
+export const buildAdjustingEntry = (ledger: JournalEntry[], statement: BankStatement, bankAccount: BankAccount, item: BankStatementItem, accountCode: string, rule?: BankRule): JournalEntry => {
+  const id = uniqueEntryId(ledger, `bankadj-${statement.id}-${item.id}`);
+  const deposit = item.amount > 0;
+  const amount = Math.abs(item.amount);
+  return {
+    id,
+    date: item.date,
+    memo: rule?.memo || item.description,
+    reference: item.reference || `BANK-${item.id}`,
+    lines: [
+      { id: `${id}-bank`, accountCode: bankAccount.ledgerAccountCode, amount, type: deposit ? TransactionType.DEBIT : TransactionType.CREDIT, description: item.description },
+      { id: `${id}-${accountCode}`, accountCode, amount, type: deposit ? TransactionType.CREDIT : TransactionType.DEBIT }
+    ]
+  };
+};
+
+export const sampleBankRules: BankRule[] = [
+  { id: 'rule-bank-fee', pattern: 'BANK FEE', matchType: 'contains', accountCode: '6200', memo: 'Bank charges' },
+  { id: 'rule-service-charge', pattern: 'SERVICE CHARGE', matchType: 'contains', accountCode: '6200', memo: 'Bank charges' },
+  { id: 'rule-interest', pattern: '^INT(EREST)?\\b', matchType: 'regex', accountCode: '4900', memo: 'Bank interest received' }
+];
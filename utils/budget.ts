@@ -0,0 +1,176 @@
+import { Account, AccountCategory, Budget, BudgetLine, JournalEntry, MaterialityThresholds, ReportingPeriod, TransactionType, TrialBalanceItem, VarianceLine } from '../types';
+import { lookupAccount } from './accounts';
+import { flattenEntries } from './ledger';
+
+export const defaultMateriality: MaterialityThresholds = { absolute: 1000, percent: 10 };
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export const monthsInPeriod = (period: ReportingPeriod): string[] => {
+  const months: string[] = [];
+  const [startYear, startMonth] = period.start.split('-').map(Number);
+  const last = period.end.slice(0, 7);
+  for (let i = 0; ; i++) {
+    const index = startYear * 12 + startMonth - 1 + i;
+    const key = `${Math.floor(index / 12)}-${String(index % 12 + 1).padStart(2, '0')}`;
+    if (key > last) return months;
+    months.push(key);
+  }
+};
+
+// Accepts "2024-03", "2024/03", "03/2024", "Mar 2024", "March-24" and Excel serial dates
+export const parseBudgetMonth = (value: unknown): string | null => {
+  if (typeof value === 'number' && value > 20000 && value < 80000) {
+    const d = new Date(Math.round((value - 25569) * 86400 * 1000));
+    return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+  const text = String(value ?? '').trim().toLowerCase();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})$/);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}`;
+  match = text.match(/^(\d{1,2})[-/.](\d{4})$/);
+  if (match) return `${match[2]}-${match[1].padStart(2, '0')}`;
+  match = text.match(/^([a-z]{3})[a-z]*[\s\-/']*(\d{2}|\d{4})$/);
+  if (match && MONTH_NAMES.includes(match[1])) {
+    const year = match[2].length === 2 ? `20${match[2]}` : match[2];
+    return `${year}-${String(MONTH_NAMES.indexOf(match[1]) + 1).padStart(2, '0')}`;
+  }
+  return null;
+};
+
+const parseAmount = (value: unknown): number => typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.-]+/g, ''));
+
+// Reads either a wide sheet (Account, then one column per month) or a long one
+// (Account, Month, Amount). The first row must be the header.
+export const parseBudgetRows = (rows: unknown[][], chart: Account[]): { lines: BudgetLine[]; problems: string[] } => {
+  const problems: string[] = [];
+  const lines: BudgetLine[] = [];
+  if (rows.length < 2) return { lines, problems: ['The budget file needs a header row and at least one account row'] };
+
+  const header = rows[0].map(h => String(h ?? '').trim());
+  const headerMonths = header.map(parseBudgetMonth);
+  const isWide = headerMonths.slice(1).some(m => m !== null);
+  const monthCol = header.findIndex(h => /month|period/i.test(h));
+  const amountCol = header.findIndex(h => /amount|budget|value/i.test(h));
+  if (!isWide && (monthCol < 0 || amountCol < 0)) {
+    return { lines, problems: ['Could not find month columns, or Month and Amount columns, in the header'] };
+  }
+
+  rows.slice(1).forEach((row, idx) => {
+    const rowNo = idx + 2;
+    const accountRef = String(row[0] ?? '').trim();
+    if (!accountRef) return;
+    const acc = lookupAccount(chart, accountRef);
+    if (!acc) { problems.push(`Row ${rowNo}: "${accountRef}" is not in the chart of accounts`); return; }
+    if (acc.category !== AccountCategory.REVENUE && acc.category !== AccountCategory.EXPENSE) {
+      problems.push(`Row ${rowNo}: ${acc.name} is a ${acc.category} account; budgets cover revenue and expense accounts`);
+      return;
+    }
+
+    const add = (month: string | null, raw: unknown, col: number) => {
+      if (raw === undefined || raw === null || String(raw).trim() === '') return;
+      const amount = parseAmount(raw);
+      if (!month) problems.push(`Row ${rowNo}: column ${col + 1} has no recognisable month`);
+      else if (isNaN(amount)) problems.push(`Row ${rowNo}: "${raw}" is not a number`);
+      else lines.push({ accountCode: acc.code, month, amount });
+    };
+    if (isWide) headerMonths.forEach((month, col) => col > 0 && add(month, row[col], col));
+    else add(parseBudgetMonth(row[monthCol]), row[amountCol], amountCol);
+  });
+
+  return { lines: mergeBudgetLines(lines), problems };
+};
+
+// Sums duplicate account/month pairs so each cell appears once
+export const mergeBudgetLines = (lines: BudgetLine[]): BudgetLine[] => {
+  const merged = new Map<string, BudgetLine>();
+  lines.forEach(l => {
+    const key = `${l.accountCode}|${l.month}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, amount: existing.amount + l.amount } : { ...l });
+  });
+  return Array.from(merged.values()).sort((a, b) => a.accountCode.localeCompare(b.accountCode) || a.month.localeCompare(b.month));
+};
+
+export const scenarios = (budgets: Budget[]): string[] => [...new Set(budgets.map(b => b.scenario))];
+
+export const latestVersion = (budgets: Budget[], scenario: string): Budget | undefined =>
+  budgets.filter(b => b.scenario === scenario).sort((a, b) => b.version - a.version)[0];
+
+export const saveBudgetVersion = (budgets: Budget[], scenario: string, lines: BudgetLine[], note?: string): Budget[] => {
+  const version = (latestVersion(budgets, scenario)?.version ?? 0) + 1;
+  return [...budgets, { id: `budget-${scenario.toLowerCase().replace(/\W+/g, '-')}-v${version}`, scenario, version, createdAt: new Date().toISOString(), note, lines: mergeBudgetLines(lines) }];
+};
+
+export const budgetLabel = (budget: Budget) => `${budget.scenario} v${budget.version}`;
+
+export const budgetByAccount = (budget: Budget | undefined, months: string[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  budget?.lines.filter(l => months.includes(l.month)).forEach(l => totals.set(l.accountCode, (totals.get(l.accountCode) ?? 0) + l.amount));
+  return totals;
+};
+
+// Favourable means more revenue or less expense than budgeted. A line is material only
+// when it breaches both the absolute and the percentage threshold.
+export const buildVarianceLines = (
+  trialBalance: TrialBalanceItem[],
+  chart: Account[],
+  budgeted: Map<string, number>,
+  thresholds: MaterialityThresholds
+): VarianceLine[] => {
+  const codes = new Set([...trialBalance.filter(i => i.category === AccountCategory.REVENUE || i.category === AccountCategory.EXPENSE).map(i => i.accountCode), ...budgeted.keys()]);
+  return chart
+    .filter(acc => codes.has(acc.code))
+    .map(acc => {
+      const tb = trialBalance.find(i => i.accountCode === acc.code);
+      const isRevenue = acc.category === AccountCategory.REVENUE;
+      const actual = tb ? (isRevenue ? tb.credit - tb.debit : tb.debit - tb.credit) : 0;
+      const budget = budgeted.get(acc.code) ?? 0;
+      const variance = isRevenue ? actual - budget : budget - actual;
+      const variancePercent = budget === 0 ? null : variance / Math.abs(budget) * 100;
+      return {
+        accountCode: acc.code,
+        accountName: acc.name,
+        category: acc.category,
+        actual,
+        budget,
+        variance,
+        variancePercent,
+        favourable: variance >= 0,
+        material: Math.abs(variance) >= thresholds.absolute && (variancePercent === null || Math.abs(variancePercent) >= thresholds.percent)
+      };
+    });
+};
+
+// Actual revenue and expense per account per month, in the same natural sign as budgets.
+// Closing entries are ignored so closed months still show their results.
+export const actualsByMonth = (entries: JournalEntry[], chart: Account[], months: string[]): Map<string, Map<string, number>> => {
+  const actuals = new Map<string, Map<string, number>>();
+  flattenEntries(entries.filter(e => e.kind !== 'closing' && months.includes(e.date.slice(0, 7))), chart).forEach(tx => {
+    if (tx.category !== AccountCategory.REVENUE && tx.category !== AccountCategory.EXPENSE) return;
+    const natural = (tx.type === TransactionType.CREDIT) === (tx.category === AccountCategory.REVENUE) ? tx.amount : -tx.amount;
+    const byMonth = actuals.get(tx.accountCode) ?? new Map<string, number>();
+    byMonth.set(tx.date.slice(0, 7), (byMonth.get(tx.date.slice(0, 7)) ?? 0) + natural);
+    actuals.set(tx.accountCode, byMonth);
+  });
+  return actuals;
+};
+
+export const totalBudget = (lines: VarianceLine[], category: AccountCategory) =>
+  lines.filter(l => l.category === category).reduce((s, l) => s + l.budget, 0);
+
+export const sampleBudgets: Budget[] = [
+  {
+    id: 'budget-original-v1',
+    scenario: 'Original',
+    version: 1,
+    createdAt: '2023-08-15T09:00:00.000Z',
+    lines: [
+      { accountCode: '4000', month: '2023-09', amount: 35000 },
+      { accountCode: '4000', month: '2023-10', amount: 30000 },
+      { accountCode: '6000', month: '2023-09', amount: 2000 },
+      { accountCode: '6000', month: '2023-10', amount: 2000 },
+      { accountCode: '6100', month: '2023-09', amount: 4000 },
+      { accountCode: '6100', month: '2023-10', amount: 4000 }
+    ]
+  }
+];
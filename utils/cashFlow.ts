@@ -0,0 +1,116 @@
+import { Account, AccountCategory, AccountSubType, CashFlowMethod, CashFlowStatement, LineSource, StatementItem, Transaction, TransactionType } from '../types';
+import { isCashAccount } from './accounts';
+
+type Activity = 'operating' | 'investing' | 'financing';
+
+const ACTIVITY_BY_SUB_TYPE: Partial<Record<AccountSubType, Activity>> = {
+  [AccountSubType.RECEIVABLE]: 'operating',
+  [AccountSubType.INVENTORY]: 'operating',
+  [AccountSubType.CURRENT_ASSET]: 'operating',
+  [AccountSubType.PAYABLE]: 'operating',
+  [AccountSubType.CURRENT_LIABILITY]: 'operating',
+  [AccountSubType.ACCUMULATED_DEPRECIATION]: 'operating',
+  [AccountSubType.NON_CURRENT_ASSET]: 'investing',
+  [AccountSubType.NON_CURRENT_LIABILITY]: 'financing',
+  [AccountSubType.SHARE_CAPITAL]: 'financing',
+  [AccountSubType.RETAINED_EARNINGS]: 'financing',
+  [AccountSubType.DRAWINGS]: 'financing'
+};
+
+// Revenue and expense accounts are always operating
+export const cashFlowActivity = (acc: Account): Activity =>
+  acc.category === AccountCategory.REVENUE || acc.category === AccountCategory.EXPENSE ? 'operating' : ACTIVITY_BY_SUB_TYPE[acc.subType] ?? 'operating';
+
+const signed = (tx: Transaction) => tx.type === TransactionType.DEBIT ? tx.amount : -tx.amount;
+const round = (amount: number) => Math.round(amount * 100) / 100;
+const total = (items: StatementItem[]) => round(items.reduce((s, i) => s + i.amount, 0));
+
+// Every cash flow line is the cash effect of postings to its accounts, so credits add to it
+const movementSource = (accountCodes: string[], cashEntriesOnly?: boolean): LineSource =>
+  ({ accountCodes, basis: 'movement', increasesWith: TransactionType.CREDIT, ...(cashEntriesOnly && { cashEntriesOnly }) });
+
+// Bracketed wording marks the direction that reduces cash, so labels stay stable across periods
+const indirectLabel = (acc: Account) => {
+  if (acc.subType === AccountSubType.ACCUMULATED_DEPRECIATION) return `Depreciation and amortisation (${acc.name})`;
+  if (acc.category === AccountCategory.ASSET) return `(Increase)/decrease in ${acc.name}`;
+  return `Increase/(decrease) in ${acc.name}`;
+};
+
+// Indirect: start from net income and reverse every non-cash balance-sheet movement.
+// A debit movement on a non-cash account is a use of cash, a credit movement a source.
+const indirect = (periodTxs: Transaction[], byCode: Map<string, Account>, netIncome: number) => {
+  const movements = new Map<string, number>();
+  periodTxs.forEach(tx => {
+    const acc = byCode.get(tx.accountCode);
+    if (!acc || isCashAccount(acc) || acc.category === AccountCategory.REVENUE || acc.category === AccountCategory.EXPENSE) return;
+    movements.set(acc.code, (movements.get(acc.code) ?? 0) + signed(tx));
+  });
+
+  const profitAndLossCodes = [...new Set(periodTxs.filter(tx => tx.category === AccountCategory.REVENUE || tx.category === AccountCategory.EXPENSE).map(tx => tx.accountCode))];
+  const sections: Record<Activity, StatementItem[]> = { operating: [{ label: 'Net income', amount: round(netIncome), source: movementSource(profitAndLossCodes) }], investing: [], financing: [] };
+  const adjustments: StatementItem[] = [];
+  movements.forEach((movement, code) => {
+    if (round(movement) === 0) return;
+    const acc = byCode.get(code)!;
+    const item = { label: indirectLabel(acc), amount: round(-movement), source: movementSource([code]) };
+    const activity = cashFlowActivity(acc);
+    // Non-cash items come straight after net income, ahead of working-capital movements
+    if (acc.subType === AccountSubType.ACCUMULATED_DEPRECIATION) adjustments.push(item);
+    else sections[activity].push(item);
+  });
+  sections.operating.splice(1, 0, ...adjustments);
+  return sections;
+};
+
+// Direct: every cash posting is attributed to the non-cash lines of the same entry,
+// classified by the counter-account. Transfers between cash accounts net to nothing.
+const direct = (periodTxs: Transaction[], byCode: Map<string, Account>) => {
+  const byEntry = new Map<string, Transaction[]>();
+  periodTxs.forEach(tx => byEntry.set(tx.entryId, [...(byEntry.get(tx.entryId) ?? []), tx]));
+
+  const totals: Record<Activity, Map<string, number>> = { operating: new Map(), investing: new Map(), financing: new Map() };
+  const codesByLabel = new Map<string, Set<string>>();
+  byEntry.forEach(lines => {
+    if (!lines.some(tx => isCashAccount(byCode.get(tx.accountCode)))) return;
+    lines.forEach(tx => {
+      const acc = byCode.get(tx.accountCode);
+      if (!acc || isCashAccount(acc)) return;
+      const bucket = totals[cashFlowActivity(acc)];
+      // Labels follow the account's nature rather than the sign so comparatives line up
+      const label = acc.normalBalance === TransactionType.CREDIT || acc.subType === AccountSubType.RECEIVABLE ? `Receipts: ${acc.name}` : `Payments: ${acc.name}`;
+      bucket.set(label, (bucket.get(label) ?? 0) - signed(tx));
+      codesByLabel.set(label, (codesByLabel.get(label) ?? new Set<string>()).add(acc.code));
+    });
+  });
+
+  const toItems = (m: Map<string, number>) => Array.from(m.entries())
+    .filter(([, amount]) => round(amount) !== 0)
+    .map(([label, amount]) => ({ label, amount: round(amount), source: movementSource([...codesByLabel.get(label)!], true) }));
+  return { operating: toItems(totals.operating), investing: toItems(totals.investing), financing: toItems(totals.financing) };
+};
+
+// Builds the cash flow statement and proves it against the movement in cash-equivalent balances
+export const calculateCashFlow = (
+  openingTxs: Transaction[],
+  periodTxs: Transaction[],
+  chart: Account[],
+  netIncome: number,
+  method: CashFlowMethod
+): CashFlowStatement => {
+  const byCode = new Map(chart.map(a => [a.code, a]));
+  const cashBalance = (txs: Transaction[]) => txs.filter(tx => isCashAccount(byCode.get(tx.accountCode))).reduce((s, tx) => s + signed(tx), 0);
+
+  const sections = method === 'indirect' ? indirect(periodTxs, byCode, netIncome) : direct(periodTxs, byCode);
+  const openingCash = round(cashBalance(openingTxs));
+  const closingCash = round(openingCash + cashBalance(periodTxs));
+  const netCashFlow = round(total(sections.operating) + total(sections.investing) + total(sections.financing));
+
+  return {
+    method,
+    ...sections,
+    netCashFlow,
+    openingCash,
+    closingCash,
+    difference: round(netCashFlow - (closingCash - openingCash))
+  };
+};
@@ -0,0 +1,145 @@
+import { Account, AccountCategory, BankRule, Transaction, TransactionType } from '../types';
+import { findAccount } from './accounts';
+import { findRule } from './bankRules';
+import { descriptionSimilarity } from './reconciliation';
+
+export type SuggestionSource = 'rule' | 'history' | 'model';
+
+// An account proposed for an imported row that arrived without one
+export interface CategorySuggestion {
+  rowIndex: number;
+  accountCode: string;
+  category: AccountCategory;
+  confidence: number; // 0 to 1
+  source: SuggestionSource;
+  reason: string;
+}
+
+// A row to categorise: what the bank export says about it
+export interface UnlabelledRow {
+  rowIndex: number;
+  description: string;
+  type: TransactionType | null; // Side of the row's own line, when the amount could be read
+}
+
+// Posted lines reduced to distinct descriptions per account and side
+interface Example {
+  description: string;
+  tokens: Map<string, number>;
+  accountCode: string;
+  type: TransactionType;
+  count: number;
+}
+
+export interface HistoryModel {
+  examples: Example[];
+  idf: Map<string, number>;
+}
+
+export const SUGGESTION_SOURCE_LABELS: Record<SuggestionSource, string> = {
+  rule: 'Bank rule',
+  history: 'Past postings',
+  model: 'Language model'
+};
+
+// At or above this a suggestion can be accepted in bulk; below it the language model may be asked
+export const CONFIDENT_SUGGESTION = 0.8;
+
+const NEIGHBOURS = 5;
+const MIN_SIMILARITY = 0.3;
+
+// Words only: card numbers, dates and references change from one statement to the next
+const tokenise = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !/^\d+$/.test(t))
+    .forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+  return counts;
+};
+
+// Learns from every posted line except those on the import's offset account, which would otherwise
+// be the answer for every description
+export const buildHistoryModel = (transactions: Transaction[], exclude?: string): HistoryModel => {
+  const byKey = new Map<string, Example>();
+  transactions.forEach(tx => {
+    if (tx.accountCode === exclude || !tx.description.trim()) return;
+    const key = `${tx.description.trim().toLowerCase()}|${tx.accountCode}|${tx.type}`;
+    const example = byKey.get(key);
+    if (example) example.count++;
+    else byKey.set(key, { description: tx.description.trim(), tokens: tokenise(tx.description), accountCode: tx.accountCode, type: tx.type, count: 1 });
+  });
+  const examples = [...byKey.values()];
+  const documents = new Map<string, number>();
+  examples.forEach(e => e.tokens.forEach((_, t) => documents.set(t, (documents.get(t) ?? 0) + 1)));
+  const idf = new Map<string, number>();
+  documents.forEach((n, t) => idf.set(t, Math.log((examples.length + 1) / (n + 1)) + 1));
+  return { examples, idf };
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>, idf: Map<string, number>) => {
+  const weight = (t: string, n: number) => n * (idf.get(t) ?? 1);
+  let dot = 0;
+  a.forEach((n, t) => { if (b.has(t)) dot += weight(t, n) * weight(t, b.get(t)!); });
+  if (dot === 0) return 0;
+  const norm = (v: Map<string, number>) => Math.sqrt([...v].reduce((s, [t, n]) => s + weight(t, n) ** 2, 0));
+  return dot / (norm(a) * norm(b));
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Nearest past descriptions vote for their account, weighted by similarity and how often they were
+// posted. Confidence is the best match's similarity scaled by the winning account's share of the vote,
+// so a close match that past postings disagree about still scores low.
+const suggestFromHistory = (row: UnlabelledRow, model: HistoryModel, chart: Account[]): CategorySuggestion | null => {
+  const tokens = tokenise(row.description);
+  const neighbours = model.examples
+    .map(e => ({ e, similarity: 0.6 * cosine(tokens, e.tokens, model.idf) + 0.4 * descriptionSimilarity(row.description, e.description) }))
+    .filter(n => n.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, NEIGHBOURS);
+  if (neighbours.length === 0) return null;
+
+  const votes = new Map<string, number>();
+  neighbours.forEach(({ e, similarity }) => {
+    const side = row.type && row.type !== e.type ? 0.5 : 1; // Money in rarely lands where money out went
+    votes.set(e.accountCode, (votes.get(e.accountCode) ?? 0) + similarity * Math.log2(1 + e.count) * side);
+  });
+  const total = [...votes.values()].reduce((s, v) => s + v, 0);
+  const ranked = [...votes.entries()].sort((a, b) => b[1] - a[1]);
+  for (const [code, vote] of ranked) {
+    const account = findAccount(chart, code);
+    if (!account?.active) continue;
+    const best = neighbours.find(n => n.e.accountCode === code)!;
+    const postings = neighbours.filter(n => n.e.accountCode === code).reduce((s, n) => s + n.e.count, 0);
+    return {
+      rowIndex: row.rowIndex,
+      accountCode: code,
+      category: account.category,
+      confidence: round(Math.min(1, best.similarity) * (vote / total)),
+      source: 'history',
+      reason: `Like "${best.e.description}" (${postings} past posting${postings === 1 ? '' : 's'})`
+    };
+  }
+  return null;
+};
+
+// User rules come first and are trusted outright; past postings fill in the rest
+export const suggestCategories = (rows: UnlabelledRow[], rules: BankRule[], model: HistoryModel, chart: Account[]): CategorySuggestion[] =>
+  rows.flatMap(row => {
+    const rule = findRule(rules, row.description);
+    const ruled = rule && findAccount(chart, rule.accountCode);
+    if (rule && ruled?.active) {
+      return [{ rowIndex: row.rowIndex, accountCode: ruled.code, category: ruled.category, confidence: 1, source: 'rule' as const, reason: `Matches the rule "${rule.pattern}"` }];
+    }
+    const learned = suggestFromHistory(row, model, chart);
+    return learned ? [learned] : [];
+  });
+
+// One suggestion per row: a rule always wins, otherwise the more confident of the local and model suggestions
+export const mergeSuggestions = (local: CategorySuggestion[], model: CategorySuggestion[]): CategorySuggestion[] => {
+  const best = new Map<number, CategorySuggestion>();
+  [...local, ...model].forEach(s => {
+    const current = best.get(s.rowIndex);
+    if (!current || (current.source !== 'rule' && s.confidence > current.confidence)) best.set(s.rowIndex, s);
+  });
+  return [...best.values()].sort((a, b) => a.rowIndex - b.rowIndex);
+};
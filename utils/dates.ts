@@ -0,0 +1,69 @@
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isValidDay = (y: number, m: number, d: number) => {
+  if (m < 1 || m > 12 || d < 1) return false;
+  return d <= new Date(Date.UTC(y, m, 0)).getUTCDate();
+};
+
+const expandYear = (y: number) => (y < 100 ? (y < 70 ? 2000 + y : 1900 + y) : y);
+
+export const isIsoDate = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDay(...(value.split('-').map(Number) as [number, number, number]));
+
+// Excel stores dates as days since 1899-12-30
+export const excelSerialToIso = (serial: number): string => new Date(Math.round((serial - 25569) * 86400 * 1000)).toISOString().slice(0, 10);
+
+// Normalises a date to YYYY-MM-DD. Numeric day/month dates are read in the given order;
+// returns null when the value cannot be read as a real calendar date.
+export const normaliseDate = (value: unknown, order: DateOrder = 'MDY'): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  if (typeof value === 'number') return value > 0 && value < 2958466 ? excelSerialToIso(value) : null;
+
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})[-/.]?(\d{2})[-/.]?(\d{2})(?:[T\s[].*)?$/);
+  if (match) {
+    const [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return isValidDay(y, m, d) ? `${y}-${pad(m)}-${pad(d)}` : null;
+  }
+
+  // QIF writes years after an apostrophe, e.g. 10/5'23
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.']\s*(\d{2}|\d{4})$/);
+  if (match) {
+    const [a, b, y] = [Number(match[1]), Number(match[2]), expandYear(Number(match[3]))];
+    const [m, d] = order === 'DMY' ? [b, a] : [a, b];
+    return isValidDay(y, m, d) ? `${y}-${pad(m)}-${pad(d)}` : null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(text)) return normaliseDate(Number(text), order);
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+};
+
+const dayMonthParts = (value: unknown): [number, number] | null => {
+  const match = String(value ?? '').trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.']\s*(\d{2}|\d{4})$/);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+};
+
+// Reads the day/month order off dates that can only be one way round, e.g. 25/10 or 10/25.
+// `conflicting` means the column has both, so some rows were written in the other order.
+export const detectDateOrder = (values: unknown[]): { order: DateOrder; conflicting: boolean } => {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  values.forEach(value => {
+    const parts = dayMonthParts(value);
+    if (!parts) return;
+    if (parts[0] > 12 && parts[1] <= 12) dayFirst++;
+    if (parts[1] > 12 && parts[0] <= 12) monthFirst++;
+  });
+  return { order: dayFirst > monthFirst ? 'DMY' : 'MDY', conflicting: dayFirst > 0 && monthFirst > 0 };
+};
+
+// True for day/month dates where both numbers could be the month, e.g. 03/04/2023
+export const isAmbiguousDayMonth = (value: unknown): boolean => {
+  const parts = dayMonthParts(value);
+  return !!parts && parts[0] <= 12 && parts[1] <= 12 && parts[0] !== parts[1];
+};
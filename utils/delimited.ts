@@ -0,0 +1,89 @@
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+export const DELIMITER_LABELS: Record<Delimiter, string> = { ',': 'Comma', ';': 'Semicolon', '\t': 'Tab', '|': 'Pipe' };
+
+export interface DelimitedText {
+  rows: string[][];
+  delimiter: Delimiter;
+  problems: string[];
+}
+
+// Splits text into records per RFC 4180: fields may be quoted, quotes inside quoted fields are doubled,
+// and quoted fields may hold delimiters and line breaks. CRLF, LF and lone CR all end a record.
+const splitRecords = (text: string, delimiter: string): { rows: string[][]; unterminated: boolean } => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i += 2; continue; }
+      if (ch === '"') { quoted = false; i++; continue; }
+      field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && field.trim() === '') { quoted = true; field = ''; i++; continue; }
+    if (ch === delimiter) { row.push(field); field = ''; i++; continue; }
+    if (ch === '\r' || ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      continue;
+    }
+    field += ch;
+    i++;
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return { rows, unterminated: quoted };
+};
+
+// Picks the delimiter that splits the first lines into the most columns, most consistently
+export const detectDelimiter = (text: string): Delimiter => {
+  const sample = text.slice(0, 10000);
+  let best: Delimiter = ',';
+  let bestScore = 0;
+  (Object.keys(DELIMITER_LABELS) as Delimiter[]).forEach(delimiter => {
+    const widths = splitRecords(sample, delimiter).rows.slice(0, 20).filter(r => r.some(c => c.trim())).map(r => r.length);
+    if (widths.length === 0 || widths[0] < 2) return;
+    const consistent = widths.filter(w => w === widths[0]).length / widths.length;
+    const score = widths[0] * consistent;
+    if (score > bestScore) { best = delimiter; bestScore = score; }
+  });
+  return best;
+};
+
+export const parseDelimited = (text: string, delimiter: Delimiter = detectDelimiter(text)): DelimitedText => {
+  const { rows, unterminated } = splitRecords(text.replace(/^\uFEFF/, ''), delimiter);
+  const problems: string[] = [];
+  if (unterminated) problems.push('A quoted field is never closed; the rest of the file was read as one value');
+  const trimmed = rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(Boolean));
+  const width = trimmed[0]?.length ?? 0;
+  const ragged = trimmed.filter(r => r.length > width).length;
+  if (ragged > 0) problems.push(`${ragged} row(s) have more columns than the header; the extra values were ignored`);
+  return { rows: trimmed.map(r => r.slice(0, width)), delimiter, problems };
+};
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// Reads a byte-order mark if there is one, otherwise tries strict UTF-8 and falls back to Windows-1252,
+// which is what spreadsheet exports on Windows usually are
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: TextEncoding } => {
+  const bytes = new Uint8Array(buffer);
+  let encoding: TextEncoding;
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) encoding = 'utf-8';
+  else if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+  else {
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+    } catch {
+      encoding = 'windows-1252';
+    }
+  }
+  return { text: new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, ''), encoding };
+};
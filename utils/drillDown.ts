@@ -0,0 +1,73 @@
+import { Account, AccountCategory, AccountSubType, JournalEntry, LineSource, ReportingPeriod, Transaction, TransactionType, TrialBalanceItem } from '../types';
+import { isCashAccount } from './accounts';
+import { flattenEntries } from './ledger';
+import { isWithinPeriod, toDateKey } from './periods';
+
+// A statement line someone has asked to see the postings behind
+export interface DrillRequest {
+  label: string;
+  amount: number; // As shown on the statement, in the presentation currency
+  source: LineSource;
+}
+
+export interface PostingRow {
+  tx: Transaction;
+  reference?: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance in the line's sign, after this posting
+}
+
+// The postings behind a line laid out like an account ledger card, in the functional currency
+export interface AccountCard {
+  opening: number;
+  openingIncludesEarnings: boolean; // Retained earnings also carry profit and loss from before the period
+  rows: PostingRow[];
+  closing: number;
+}
+
+const isProfitAndLoss = (category: AccountCategory) => category === AccountCategory.REVENUE || category === AccountCategory.EXPENSE;
+
+// Trial balance rows read debit-positive for assets and expenses and credit-positive otherwise
+export const trialBalanceSource = (item: TrialBalanceItem): LineSource => ({
+  accountCodes: [item.accountCode],
+  basis: isProfitAndLoss(item.category) ? 'movement' : 'balance',
+  increasesWith: item.category === AccountCategory.ASSET || item.category === AccountCategory.EXPENSE ? TransactionType.DEBIT : TransactionType.CREDIT
+});
+
+// Follows calculateStatements: the period's own closing entry is left out, earlier closing entries are part
+// of opening balances, and retained earnings open with every profit and loss posting made before the period
+export const buildAccountCard = (entries: JournalEntry[], chart: Account[], source: LineSource, period?: ReportingPeriod): AccountCard => {
+  const codes = new Set(source.accountCodes);
+  const byCode = new Map(chart.map(a => [a.code, a]));
+  const effect = (tx: Transaction) => tx.type === source.increasesWith ? tx.amount : -tx.amount;
+
+  const inPeriod = (period ? entries.filter(e => isWithinPeriod(e.date, period)) : entries)
+    .filter(e => e.kind !== 'closing')
+    .filter(e => !source.cashEntriesOnly || e.lines.some(l => isCashAccount(byCode.get(l.accountCode))));
+  const before = period && source.basis === 'balance' ? entries.filter(e => toDateKey(e.date) < period.start) : [];
+  const broughtForward = flattenEntries(before, chart);
+
+  const retainedEarningsCode = chart.find(a => a.subType === AccountSubType.RETAINED_EARNINGS)?.code ?? 'RE';
+  const openingIncludesEarnings = codes.has(retainedEarningsCode) && broughtForward.some(tx => isProfitAndLoss(tx.category));
+  const opening = broughtForward
+    .filter(tx => codes.has(tx.accountCode) || (openingIncludesEarnings && isProfitAndLoss(tx.category)))
+    .reduce((s, tx) => s + effect(tx), 0);
+
+  const references = new Map(inPeriod.map(e => [e.id, e.reference]));
+  let balance = opening;
+  const rows = flattenEntries(inPeriod, chart)
+    .filter(tx => codes.has(tx.accountCode))
+    .sort((a, b) => toDateKey(a.date).localeCompare(toDateKey(b.date)))
+    .map(tx => {
+      balance += effect(tx);
+      return {
+        tx,
+        reference: references.get(tx.entryId),
+        debit: tx.type === TransactionType.DEBIT ? tx.amount : 0,
+        credit: tx.type === TransactionType.CREDIT ? tx.amount : 0,
+        balance
+      };
+    });
+  return { opening, openingIncludesEarnings, rows, closing: balance };
+};
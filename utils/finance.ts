@@ -1,35 +1,126 @@
 
-import { Transaction, FinancialStatements, AccountCategory, TransactionType, TrialBalanceItem, StatementItem, BankStatementItem, ReconMatch, EquityChangeItem, FinancialNote } from '../types';
+import { Transaction, JournalEntry, Account, AccountSubType, FinancialStatements, AccountCategory, TransactionType, TrialBalanceItem, StatementItem, ComparativeRow, LineSource, ReportingPeriod, CashFlowMethod, Budget, MaterialityThresholds, CurrencySettings, ExchangeRate, EquityChangeItem, NoteTemplate } from '../types';
+import { flattenEntries } from './ledger';
+import { calculateCashFlow } from './cashFlow';
+import { budgetByAccount, budgetLabel, buildVarianceLines, defaultMateriality, monthsInPeriod, totalBudget } from './budget';
+import { isWithinPeriod, toDateKey } from './periods';
+import { defaultCurrencySettings, findRate, translateStatements } from './fx';
+import { buildNotes, defaultNoteTemplates } from './notes';
 
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
+// Formats in the viewer's locale; pass the ISO code of the currency the amount is in
+export const formatCurrency = (amount: number, currency: string = defaultCurrencySettings.functionalCurrency): string => {
+  return new Intl.NumberFormat(undefined, {
     style: 'currency',
-    currency: 'USD',
+    currency,
   }).format(amount);
 };
 
-export const calculateStatements = (transactions: Transaction[]): FinancialStatements => {
-  // 1. Trial Balance
-  const accountMap = new Map<string, { category: AccountCategory; debit: number; credit: number }>();
+// Printed statement style: no symbol, two decimals, negatives in brackets and a dash for nil.
+// Fixed to en-US grouping so printed packs read the same whoever exports them.
+const ACCOUNTING_FORMAT = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+export const formatAccounting = (amount: number): string => {
+  const rounded = Math.round(amount * 100) / 100;
+  if (rounded === 0) return '-';
+  const text = ACCOUNTING_FORMAT.format(Math.abs(rounded));
+  return rounded < 0 ? `(${text})` : text;
+};
+
+type Movement = { debit: number; credit: number };
+
+const accumulate = (transactions: Transaction[]): Map<string, Movement> => {
+  const map = new Map<string, Movement>();
   transactions.forEach((tx) => {
-    const current = accountMap.get(tx.accountName) || { category: tx.category, debit: 0, credit: 0 };
+    const current = map.get(tx.accountCode) || { debit: 0, credit: 0 };
     if (tx.type === TransactionType.DEBIT) current.debit += tx.amount;
     else current.credit += tx.amount;
-    accountMap.set(tx.accountName, current);
+    map.set(tx.accountCode, current);
+  });
+  return map;
+};
+
+const isProfitAndLoss = (category: AccountCategory) => category === AccountCategory.REVENUE || category === AccountCategory.EXPENSE;
+
+// Lines sharing a label draw on every account behind any of them
+const mergeSources = (items: StatementItem[]): LineSource | undefined => {
+  const sources = items.map(i => i.source).filter((src): src is LineSource => !!src);
+  return sources.length === 0 ? undefined : { ...sources[0], accountCodes: [...new Set(sources.flatMap(src => src.accountCodes))] };
+};
+
+// Aligns two sets of statement lines by label, keeping the current period's order first.
+// Lines sharing a label are summed.
+export const buildComparative = (current: StatementItem[], prior: StatementItem[]): ComparativeRow[] => {
+  const totals = (items: StatementItem[]) => items.reduce((m, i) => m.set(i.label, (m.get(i.label) ?? 0) + i.amount), new Map<string, number>());
+  const currentByLabel = totals(current);
+  const priorByLabel = totals(prior);
+  const labels = [...new Set([...currentByLabel.keys(), ...priorByLabel.keys()])];
+  return labels.map(label => {
+    const cur = currentByLabel.get(label) ?? 0;
+    const pri = priorByLabel.get(label) ?? 0;
+    // Note numbers belong to the current period's notes, which are the ones presented
+    const noteRef = current.find(i => i.label === label && i.noteRef)?.noteRef;
+    return { label, current: cur, prior: pri, change: cur - pri, changePercent: pri === 0 ? null : (cur - pri) / Math.abs(pri) * 100, source: mergeSources([...current, ...prior].filter(i => i.label === label)), noteRef };
   });
+};
+
+export interface StatementOptions {
+  cashFlowMethod?: CashFlowMethod;
+  budget?: Budget;
+  materiality?: MaterialityThresholds;
+  currency?: CurrencySettings;
+  rates?: ExchangeRate[];
+  noteTemplates?: NoteTemplate[];
+}
+
+// Income statement and cash flow cover the period; balance-sheet accounts are as of its end.
+// Profit and loss from before the period start is carried in retained earnings.
+// A period's own closing entry is left out so its statements show the pre-closing view;
+// closing entries of earlier periods have already moved their results into retained earnings.
+export const calculateStatements = (entries: JournalEntry[], chart: Account[], period?: ReportingPeriod, options: StatementOptions = {}): FinancialStatements => {
+  const periodEntries = (period ? entries.filter(e => isWithinPeriod(e.date, period)) : entries).filter(e => e.kind !== 'closing');
+  const broughtForward = period ? flattenEntries(entries.filter(e => toDateKey(e.date) < period.start), chart) : [];
+  const transactions = flattenEntries(periodEntries, chart);
+
+  const openingMap = accumulate(broughtForward);
+  const periodMap = accumulate(transactions);
+  const closingMap = accumulate([...broughtForward, ...transactions]);
+
+  const priorEarnings = broughtForward
+    .filter(tx => isProfitAndLoss(tx.category))
+    .reduce((s, tx) => s + (tx.type === TransactionType.CREDIT ? tx.amount : -tx.amount), 0);
+  const retainedEarningsAccount = chart.find(a => a.subType === AccountSubType.RETAINED_EARNINGS);
+  const retainedEarningsCode = retainedEarningsAccount?.code ?? 'RE';
+
+  // 1. Trial Balance
+  const trialBalance: TrialBalanceItem[] = chart
+    .map((acc) => {
+      const movement = (isProfitAndLoss(acc.category) ? periodMap : closingMap).get(acc.code);
+      return movement && { accountCode: acc.code, accountName: acc.name, category: acc.category, subType: acc.subType, ...movement };
+    })
+    .filter((i): i is TrialBalanceItem => !!i);
+
+  if (priorEarnings !== 0) {
+    let reRow = trialBalance.find(i => i.accountCode === retainedEarningsCode);
+    if (!reRow) {
+      reRow = { accountCode: retainedEarningsCode, accountName: retainedEarningsAccount?.name ?? 'Retained Earnings', category: AccountCategory.EQUITY, subType: AccountSubType.RETAINED_EARNINGS, debit: 0, credit: 0 };
+      trialBalance.push(reRow);
+    }
+    if (priorEarnings > 0) reRow.credit += priorEarnings;
+    else reRow.debit -= priorEarnings;
+  }
+  trialBalance.sort((a, b) => a.accountCode.localeCompare(b.accountCode));
 
-  const trialBalance: TrialBalanceItem[] = Array.from(accountMap.entries()).map(([accountName, data]) => ({
-    accountName,
-    ...data,
-  }));
+  // Profit and loss lines cover the period's postings; balance-sheet lines everything to its end
+  const accountSource = (item: TrialBalanceItem, increasesWith: TransactionType): LineSource =>
+    ({ accountCodes: [item.accountCode], basis: isProfitAndLoss(item.category) ? 'movement' : 'balance', increasesWith });
+  const earningsSource: LineSource = { accountCodes: trialBalance.filter(i => isProfitAndLoss(i.category)).map(i => i.accountCode), basis: 'movement', increasesWith: TransactionType.CREDIT };
 
   // 2. Income Statement
   const revenueItems: StatementItem[] = trialBalance
     .filter((i) => i.category === AccountCategory.REVENUE)
-    .map((i) => ({ label: i.accountName, amount: i.credit - i.debit }));
+    .map((i) => ({ label: i.accountName, amount: i.credit - i.debit, source: accountSource(i, TransactionType.CREDIT) }));
   const expenseItems: StatementItem[] = trialBalance
     .filter((i) => i.category === AccountCategory.EXPENSE)
-    .map((i) => ({ label: i.accountName, amount: i.debit - i.credit }));
+    .map((i) => ({ label: i.accountName, amount: i.debit - i.credit, source: accountSource(i, TransactionType.DEBIT) }));
 
   const totalRev = revenueItems.reduce((s, i) => s + i.amount, 0);
   const totalExp = expenseItems.reduce((s, i) => s + i.amount, 0);
@@ -38,157 +129,130 @@ export const calculateStatements = (transactions: Transaction[]): FinancialState
   // 3. Balance Sheet
   const assetItems: StatementItem[] = trialBalance
     .filter((i) => i.category === AccountCategory.ASSET)
-    .map((i) => ({ label: i.accountName, amount: i.debit - i.credit }));
+    .map((i) => ({ label: i.accountName, amount: i.debit - i.credit, source: accountSource(i, TransactionType.DEBIT) }));
   const liabilityItems: StatementItem[] = trialBalance
     .filter((i) => i.category === AccountCategory.LIABILITY)
-    .map((i) => ({ label: i.accountName, amount: i.credit - i.debit }));
+    .map((i) => ({ label: i.accountName, amount: i.credit - i.debit, source: accountSource(i, TransactionType.CREDIT) }));
   
   const rawEquityItems: StatementItem[] = trialBalance
     .filter((i) => i.category === AccountCategory.EQUITY)
-    .map((i) => ({ label: i.accountName, amount: i.credit - i.debit }));
+    .map((i) => ({ label: i.accountName, amount: i.credit - i.debit, source: accountSource(i, TransactionType.CREDIT) }));
   
-  const balanceSheetEquity = [...rawEquityItems, { label: 'Current Period Earnings', amount: netInc }];
+  const balanceSheetEquity = [...rawEquityItems, { label: 'Current Period Earnings', amount: netInc, source: earningsSource }];
 
   const totalAssets = assetItems.reduce((s, i) => s + i.amount, 0);
   const totalLiabilities = liabilityItems.reduce((s, i) => s + i.amount, 0);
   const totalEquity = balanceSheetEquity.reduce((s, i) => s + i.amount, 0);
 
   // 4. Statement of Changes in Equity
-  const equityChanges: EquityChangeItem[] = rawEquityItems.map(item => ({
-    accountName: item.label,
-    openingBalance: item.amount > 50000 ? 50000 : 0, // Heuristic for sample data
-    additions: item.amount > 50000 ? item.amount - 50000 : item.amount,
-    netIncome: 0,
-    withdrawals: 0,
-    closingBalance: item.amount
-  }));
-  
-  // Add Retained Earnings row
+  const equityAccounts = chart.filter(a => a.category === AccountCategory.EQUITY && a.code !== retainedEarningsCode && closingMap.has(a.code));
+  const equityChanges: EquityChangeItem[] = equityAccounts.map(acc => {
+    const opening = openingMap.get(acc.code) || { debit: 0, credit: 0 };
+    const moved = periodMap.get(acc.code) || { debit: 0, credit: 0 };
+    const openingBalance = opening.credit - opening.debit;
+    return {
+      accountName: acc.name,
+      openingBalance,
+      additions: moved.credit,
+      netIncome: 0,
+      withdrawals: moved.debit,
+      closingBalance: openingBalance + moved.credit - moved.debit
+    };
+  });
+
+  const reOpening = openingMap.get(retainedEarningsCode) || { debit: 0, credit: 0 };
+  const reMoved = periodMap.get(retainedEarningsCode) || { debit: 0, credit: 0 };
+  const reOpeningBalance = reOpening.credit - reOpening.debit + priorEarnings;
   equityChanges.push({
-    accountName: 'Retained Earnings',
-    openingBalance: 0,
-    additions: 0,
+    accountName: retainedEarningsAccount?.name ?? 'Retained Earnings',
+    openingBalance: reOpeningBalance,
+    additions: reMoved.credit,
     netIncome: netInc,
-    withdrawals: 0,
-    closingBalance: netInc
+    withdrawals: reMoved.debit,
+    closingBalance: reOpeningBalance + reMoved.credit - reMoved.debit + netInc
   });
 
-  // 5. Cash Flow (Heuristic)
-  const cashAccounts = ['Cash', 'Bank', 'Petty Cash'];
-  const op: StatementItem[] = [];
-  const inv: StatementItem[] = [];
-  const fin: StatementItem[] = [];
-
-  transactions.filter(tx => cashAccounts.some(acc => tx.accountName.includes(acc))).forEach(tx => {
-    const amt = tx.type === TransactionType.DEBIT ? tx.amount : -tx.amount;
-    if (tx.category === AccountCategory.REVENUE || tx.category === AccountCategory.EXPENSE) op.push({ label: tx.description, amount: amt });
-    else if (tx.category === AccountCategory.ASSET && !cashAccounts.some(acc => tx.accountName.includes(acc))) inv.push({ label: tx.description, amount: amt });
-    else if (tx.category === AccountCategory.LIABILITY || tx.category === AccountCategory.EQUITY) fin.push({ label: tx.description, amount: amt });
+  // 5. Cash Flow
+  const cashFlow = calculateCashFlow(broughtForward, transactions, chart, netInc, options.cashFlowMethod ?? 'indirect');
+
+  // 6. Notes to Financial Statements, worded in the currency the statements end up in.
+  // Left in the functional currency when no rate is available; callers compare `currency` to what they asked for
+  const currency = options.currency ?? defaultCurrencySettings;
+  const rateDate = period?.end ?? toDateKey(new Date().toISOString());
+  const rate = findRate(options.rates ?? [], currency.functionalCurrency, currency.reportingCurrency, rateDate);
+  const translated = currency.reportingCurrency !== currency.functionalCurrency && rate !== null;
+  const { notes, references } = buildNotes(options.noteTemplates ?? defaultNoteTemplates, {
+    chart, period, opening: openingMap, movement: periodMap,
+    currency: translated ? currency.reportingCurrency : currency.functionalCurrency,
+    rate: translated ? rate : 1
+  });
+  // Lines drawn from a single account point at the note analysing it
+  const withNotes = (items: StatementItem[]): StatementItem[] => items.map(i => {
+    const noteRef = i.source?.accountCodes.length === 1 ? references.get(i.source.accountCodes[0]) : undefined;
+    return noteRef ? { ...i, noteRef } : i;
   });
 
-  // 6. Notes to Financial Statements
-  const notes: FinancialNote[] = [
-    {
-      noteNumber: 1,
-      title: 'Basis of Preparation',
-      content: 'The financial statements have been prepared on the historical cost basis in accordance with International Financial Reporting Standards (IFRS).'
-    },
-    {
-      noteNumber: 2,
-      title: 'Revenue Recognition',
-      content: 'Revenue is recognized when the significant risks and rewards of ownership have been transferred to the customer. For this period, revenue primarily consists of product sales.',
-      data: revenueItems
-    },
-    {
-      noteNumber: 3,
-      title: 'Cash and Cash Equivalents',
-      content: 'Cash and cash equivalents comprise cash on hand and demand deposits with banks.',
-      data: assetItems.filter(a => cashAccounts.some(ca => a.label.includes(ca)))
-    },
-    {
-      noteNumber: 4,
-      title: 'Property, Plant and Equipment',
-      content: 'Equipment is stated at cost less accumulated depreciation. Depreciation is calculated on a straight-line basis over the estimated useful lives of the assets.',
-      data: assetItems.filter(a => !cashAccounts.some(ca => a.label.includes(ca)))
-    }
-  ];
+  // 7. Budget Variance
+  const budgetMonths = period ? monthsInPeriod(period) : [...new Set(options.budget?.lines.map(l => l.month) ?? [])];
+  const varianceLines = buildVarianceLines(trialBalance, chart, budgetByAccount(options.budget, budgetMonths), options.materiality ?? defaultMateriality);
 
-  return {
+  const statements: FinancialStatements = {
+    period,
+    currency: currency.functionalCurrency,
     trialBalance,
-    incomeStatement: { revenue: revenueItems, expenses: expenseItems, totalRevenue: totalRev, totalExpenses: totalExp, netIncome: netInc },
-    balanceSheet: { assets: assetItems, liabilities: liabilityItems, equity: balanceSheetEquity, totalAssets, totalLiabilities, totalEquity },
-    cashFlow: { operating: op, investing: inv, financing: fin, netCashFlow: totalAssets - totalLiabilities - totalEquity + netInc },
+    incomeStatement: { revenue: withNotes(revenueItems), expenses: withNotes(expenseItems), totalRevenue: totalRev, totalExpenses: totalExp, netIncome: netInc },
+    balanceSheet: { assets: withNotes(assetItems), liabilities: withNotes(liabilityItems), equity: withNotes(balanceSheetEquity), totalAssets, totalLiabilities, totalEquity },
+    cashFlow,
     equityChanges,
     notes,
     variance: {
+      budgetLabel: options.budget && budgetLabel(options.budget),
       revenueActual: totalRev,
-      revenueBudget: 65000,
+      revenueBudget: totalBudget(varianceLines, AccountCategory.REVENUE),
       expenseActual: totalExp,
-      expenseBudget: 15000
+      expenseBudget: totalBudget(varianceLines, AccountCategory.EXPENSE),
+      lines: varianceLines
     }
   };
-};
-
-export const performBankReconciliation = (bookEntries: Transaction[], statementEntries: BankStatementItem[]): ReconMatch[] => {
-  const matches: ReconMatch[] = [];
-  const matchedStatementIds = new Set<string>();
-
-  bookEntries.forEach(book => {
-    const bookAmount = book.type === TransactionType.DEBIT ? book.amount : -book.amount;
-    const match = statementEntries.find(st => st.date === book.date && st.amount === bookAmount && !matchedStatementIds.has(st.id));
-    if (match) {
-      matches.push({ bookEntry: book, statementEntry: match, status: 'matched' });
-      matchedStatementIds.add(match.id);
-    } else {
-      matches.push({ bookEntry: book, status: 'missing_in_statement' });
-    }
-  });
 
-  statementEntries.forEach(st => {
-    if (!matchedStatementIds.has(st.id)) {
-      matches.push({ statementEntry: st, status: 'missing_in_book' });
-    }
-  });
-
-  return matches;
+  return translated
+    ? translateStatements(statements, currency.reportingCurrency, rate, rateDate)
+    : statements;
 };
 
-export const getTrendData = (transactions: Transaction[]) => {
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const dataMap = new Map<string, { revenue: number, expense: number, profit: number }>();
-
-  transactions.forEach(tx => {
-    const monthIndex = new Date(tx.date).getMonth();
-    const monthLabel = months[monthIndex];
-    const current = dataMap.get(monthLabel) || { revenue: 0, expense: 0, profit: 0 };
-    if (tx.category === AccountCategory.REVENUE) current.revenue += tx.amount;
-    else if (tx.category === AccountCategory.EXPENSE) current.expense += tx.amount;
-    current.profit = current.revenue - current.expense;
-    dataMap.set(monthLabel, current);
-  });
-
-  return months.map(m => ({ month: m, ...dataMap.get(m) || { revenue: 0, expense: 0, profit: 0 } }));
-};
-
-export const sampleTransactions: Transaction[] = [
-  { id: '1', date: '2023-10-01', description: 'Initial Capital', accountName: 'Cash', category: AccountCategory.ASSET, amount: 50000, type: TransactionType.DEBIT },
-  { id: '2', date: '2023-10-01', description: 'Initial Capital', accountName: 'Common Stock', category: AccountCategory.EQUITY, amount: 50000, type: TransactionType.CREDIT },
-  { id: '3', date: '2023-10-05', description: 'Monthly Rent', accountName: 'Rent Expense', category: AccountCategory.EXPENSE, amount: 2000, type: TransactionType.DEBIT },
-  { id: '4', date: '2023-10-05', description: 'Monthly Rent', accountName: 'Cash', category: AccountCategory.ASSET, amount: 2000, type: TransactionType.CREDIT },
-  { id: '5', date: '2023-10-10', description: 'Product Sale', accountName: 'Cash', category: AccountCategory.ASSET, amount: 12000, type: TransactionType.DEBIT },
-  { id: '6', date: '2023-10-10', description: 'Product Sale', accountName: 'Sales Revenue', category: AccountCategory.REVENUE, amount: 12000, type: TransactionType.CREDIT },
-  { id: '7', date: '2023-10-15', description: 'Office Equipment', accountName: 'Equipment', category: AccountCategory.ASSET, amount: 5000, type: TransactionType.DEBIT },
-  { id: '8', date: '2023-10-15', description: 'Office Equipment', accountName: 'Cash', category: AccountCategory.ASSET, amount: 5000, type: TransactionType.CREDIT },
-  { id: '9', date: '2023-10-20', description: 'Employee Salaries', accountName: 'Payroll Expense', category: AccountCategory.EXPENSE, amount: 4500, type: TransactionType.DEBIT },
-  { id: '10', date: '2023-10-20', description: 'Employee Salaries', accountName: 'Cash', category: AccountCategory.ASSET, amount: 4500, type: TransactionType.CREDIT },
-  { id: '11', date: '2023-09-10', description: 'Prior Sale', accountName: 'Sales Revenue', category: AccountCategory.REVENUE, amount: 40000, type: TransactionType.CREDIT },
-  { id: '12', date: '2023-09-15', description: 'Prior Rent', accountName: 'Rent Expense', category: AccountCategory.EXPENSE, amount: 2000, type: TransactionType.DEBIT },
-];
+const line = (id: string, accountCode: string, amount: number, type: TransactionType) => ({ id, accountCode, amount, type });
 
-export const sampleBankStatement: BankStatementItem[] = [
-  { id: 'st1', date: '2023-10-01', description: 'DEPOSIT CAPITAL', amount: 50000 },
-  { id: 'st2', date: '2023-10-05', description: 'CHECK #101 RENT', amount: -2000 },
-  { id: 'st3', date: '2023-10-10', description: 'POS CREDIT SALE', amount: 12000 },
-  { id: 'st4', date: '2023-10-15', description: 'EQUIPMENT PURCHASE', amount: -5000 },
-  { id: 'st5', date: '2023-10-22', description: 'BANK FEE', amount: -25 },
+export const sampleJournalEntries: JournalEntry[] = [
+  { id: 'je-1', date: '2023-10-01', memo: 'Initial Capital', reference: 'JE-0001', lines: [
+    line('1', '1000', 50000, TransactionType.DEBIT),
+    line('2', '3000', 50000, TransactionType.CREDIT),
+  ] },
+  { id: 'je-2', date: '2023-10-05', memo: 'Monthly Rent', reference: 'JE-0002', lines: [
+    line('3', '6000', 2000, TransactionType.DEBIT),
+    line('4', '1000', 2000, TransactionType.CREDIT),
+  ] },
+  { id: 'je-3', date: '2023-10-10', memo: 'Product Sale', reference: 'JE-0003', lines: [
+    line('5', '1000', 12000, TransactionType.DEBIT),
+    line('6', '4000', 12000, TransactionType.CREDIT),
+  ] },
+  { id: 'je-4', date: '2023-10-15', memo: 'Office Equipment', reference: 'JE-0004', lines: [
+    line('7', '1500', 5000, TransactionType.DEBIT),
+    line('8', '1000', 5000, TransactionType.CREDIT),
+  ] },
+  { id: 'je-5', date: '2023-10-20', memo: 'Employee Salaries', reference: 'JE-0005', lines: [
+    line('9', '6100', 4500, TransactionType.DEBIT),
+    line('10', '1000', 4500, TransactionType.CREDIT),
+  ] },
+  { id: 'je-6', date: '2023-09-10', memo: 'Prior Sale', reference: 'JE-0006', lines: [
+    line('13', '1100', 40000, TransactionType.DEBIT),
+    line('11', '4000', 40000, TransactionType.CREDIT),
+  ] },
+  { id: 'je-7', date: '2023-09-15', memo: 'Prior Rent', reference: 'JE-0007', lines: [
+    line('12', '6000', 2000, TransactionType.DEBIT),
+    line('14', '2000', 2000, TransactionType.CREDIT),
+  ] },
+  { id: 'je-8', date: '2023-10-12', memo: 'Export Sale (EUR 10,000)', reference: 'JE-0008', lines: [
+    { ...line('15', '1100', 10600, TransactionType.DEBIT), currency: 'EUR', originalAmount: 10000 },
+    { ...line('16', '4000', 10600, TransactionType.CREDIT), currency: 'EUR', originalAmount: 10000 },
+  ] },
 ];
@@ -0,0 +1,129 @@
+import { shiftMonthKey } from './periods';
+
+export type ForecastMethod = 'linear' | 'movingAverage' | 'seasonal';
+export type ForecastConfidence = 80 | 95;
+
+export interface ForecastPoint {
+  month: string; // YYYY-MM
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface Forecast {
+  method: ForecastMethod;
+  confidence: ForecastConfidence;
+  fitted: (number | null)[]; // The model's value for each month of history, where it has one
+  points: ForecastPoint[];
+  residualSd: number; // Spread of the history around the fitted values
+}
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  linear: 'Linear regression',
+  movingAverage: '3-month moving average',
+  seasonal: 'Seasonal decomposition'
+};
+
+// Months of history each method needs before it says anything
+export const MIN_HISTORY: Record<ForecastMethod, number> = {
+  linear: 3,
+  movingAverage: 4,
+  seasonal: 24
+};
+
+export const FORECAST_HORIZONS = [3, 6, 9, 12];
+
+const Z: Record<ForecastConfidence, number> = { 80: 1.2816, 95: 1.96 };
+const WINDOW = 3;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+
+// Least squares over t = 0..n-1. `spread(t)` is the standard error of a new observation at t.
+const regression = (values: number[]) => {
+  const n = values.length;
+  const tBar = (n - 1) / 2;
+  const yBar = mean(values);
+  const sxx = values.reduce((s, _, t) => s + (t - tBar) ** 2, 0);
+  const slope = values.reduce((s, y, t) => s + (t - tBar) * (y - yBar), 0) / sxx;
+  const at = (t: number) => yBar + slope * (t - tBar);
+  const sse = values.reduce((s, y, t) => s + (y - at(t)) ** 2, 0);
+  const sd = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+  return { at, sd, spread: (t: number) => sd * Math.sqrt(1 + 1 / n + (t - tBar) ** 2 / sxx) };
+};
+
+// Calendar month (1-12) of a YYYY-MM key
+const calendarMonth = (month: string) => Number(month.slice(5, 7));
+
+// Classical additive decomposition: a centred 12-month average gives the trend, the average gap to it
+// for each calendar month gives that month's seasonal effect, and a straight line through the
+// seasonally adjusted series carries the trend forward
+const seasonalIndices = (months: string[], values: number[]): Map<number, number> => {
+  const gaps = new Map<number, number[]>();
+  for (let i = 6; i < values.length - 6; i++) {
+    const centred = (0.5 * values[i - 6] + values.slice(i - 5, i + 6).reduce((s, v) => s + v, 0) + 0.5 * values[i + 6]) / 12;
+    const month = calendarMonth(months[i]);
+    gaps.set(month, [...(gaps.get(month) ?? []), values[i] - centred]);
+  }
+  const raw = new Map([...gaps].map(([month, g]) => [month, mean(g)]));
+  const offset = mean([...raw.values()]); // Effects over a year add up to zero
+  return new Map([...raw].map(([month, effect]) => [month, effect - offset]));
+};
+
+export const forecastSeries = (
+  months: string[],
+  values: number[],
+  method: ForecastMethod,
+  horizon: number,
+  confidence: ForecastConfidence = 95
+): { forecast?: Forecast; problem?: string } => {
+  if (values.length < MIN_HISTORY[method]) {
+    return { problem: `${FORECAST_METHOD_LABELS[method]} needs at least ${MIN_HISTORY[method]} months of history; the ledger has ${values.length}` };
+  }
+  const z = Z[confidence];
+  const n = values.length;
+  const last = months[n - 1];
+  const ahead = Array.from({ length: Math.min(Math.max(horizon, 1), 12) }, (_, i) => ({ h: i + 1, month: shiftMonthKey(last, i + 1) }));
+  const point = (month: string, value: number, spread: number): ForecastPoint =>
+    ({ month, value: round(value), lower: round(value - z * spread), upper: round(value + z * spread) });
+
+  if (method === 'linear') {
+    const fit = regression(values);
+    return {
+      forecast: {
+        method, confidence,
+        fitted: values.map((_, t) => round(fit.at(t))),
+        points: ahead.map(({ h, month }) => point(month, fit.at(n - 1 + h), fit.spread(n - 1 + h))),
+        residualSd: round(fit.sd)
+      }
+    };
+  }
+
+  if (method === 'movingAverage') {
+    // One-step-ahead errors of the average give the spread, which widens with the square root of the horizon
+    const fitted = values.map((_, i) => i < WINDOW ? null : mean(values.slice(i - WINDOW, i)));
+    const errors = fitted.flatMap((f, i) => f === null ? [] : [values[i] - f]);
+    const sd = Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / errors.length);
+    const level = mean(values.slice(n - WINDOW));
+    return {
+      forecast: {
+        method, confidence,
+        fitted: fitted.map(f => f === null ? null : round(f)),
+        points: ahead.map(({ h, month }) => point(month, level, sd * Math.sqrt(h))),
+        residualSd: round(sd)
+      }
+    };
+  }
+
+  const indices = seasonalIndices(months, values);
+  const effect = (month: string) => indices.get(calendarMonth(month)) ?? 0;
+  const fit = regression(values.map((v, i) => v - effect(months[i])));
+  return {
+    forecast: {
+      method, confidence,
+      fitted: values.map((_, t) => round(fit.at(t) + effect(months[t]))),
+      points: ahead.map(({ h, month }) => point(month, fit.at(n - 1 + h) + effect(month), fit.spread(n - 1 + h))),
+      residualSd: round(fit.sd)
+    }
+  };
+};
@@ -0,0 +1,221 @@
+import { Account, AccountSubType, CurrencySettings, ExchangeRate, FinancialStatements, JournalEntry, ReportingPeriod, RevaluationLine, StatementItem, TransactionType } from '../types';
+import { findAccount } from './accounts';
+import { flattenEntries } from './ledger';
+import { DateOrder, normaliseDate } from './dates';
+
+export const defaultCurrencySettings: CurrencySettings = { functionalCurrency: 'USD', reportingCurrency: 'USD' };
+
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'SGD', 'HKD', 'INR', 'ZAR'];
+
+// Balances settled in a fixed number of currency units; these are retranslated at the closing rate
+export const MONETARY_SUB_TYPES = [AccountSubType.CASH_EQUIVALENT, AccountSubType.RECEIVABLE, AccountSubType.PAYABLE, AccountSubType.CURRENT_LIABILITY, AccountSubType.NON_CURRENT_LIABILITY];
+
+export const FX_GAIN_ACCOUNT = '4950';
+export const FX_LOSS_ACCOUNT = '6950';
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const latestQuote = (rates: ExchangeRate[], base: string, quote: string, date: string): number | null => {
+  let best: ExchangeRate | undefined;
+  rates.forEach(r => {
+    if (r.base === base && r.quote === quote && r.date <= date && (!best || r.date > best.date)) best = r;
+  });
+  if (best) return best.rate;
+  let inverse: ExchangeRate | undefined;
+  rates.forEach(r => {
+    if (r.base === quote && r.quote === base && r.date <= date && (!inverse || r.date > inverse.date)) inverse = r;
+  });
+  return inverse ? 1 / inverse.rate : null;
+};
+
+// Latest rate on or before the date: direct, inverse, or crossed through one other currency
+export const findRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+  const direct = latestQuote(rates, from, to, date);
+  if (direct !== null) return direct;
+  for (const via of new Set(rates.flatMap(r => [r.base, r.quote]))) {
+    if (via === from || via === to) continue;
+    const first = latestQuote(rates, from, via, date);
+    const second = first !== null ? latestQuote(rates, via, to, date) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+// Reads Date, Base/From, Quote/To and Rate columns. A sheet with only Date, Currency and Rate
+// is read as rates into the functional currency.
+export const parseRateRows = (rows: unknown[][], functionalCurrency: string, dateOrder: DateOrder = 'MDY'): { rates: ExchangeRate[]; problems: string[] } => {
+  const problems: string[] = [];
+  const rates: ExchangeRate[] = [];
+  if (rows.length < 2) return { rates, problems: ['The rate file needs a header row and at least one rate'] };
+
+  const header = rows[0].map(h => String(h ?? '').trim().toLowerCase());
+  const col = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+  const dateCol = col(/date/);
+  const baseCol = col(/^(base|from)/);
+  const quoteCol = col(/^(quote|to)\b/);
+  const currencyCol = col(/currency|ccy/);
+  const rateCol = col(/rate|value/);
+  if (dateCol < 0 || rateCol < 0 || (baseCol < 0 && currencyCol < 0)) {
+    return { rates, problems: ['Could not find Date, Rate and Base (or Currency) columns in the header'] };
+  }
+
+  rows.slice(1).forEach((row, idx) => {
+    if (row.every(cell => String(cell ?? '').trim() === '')) return;
+    const rowNo = idx + 2;
+    const date = normaliseDate(row[dateCol], dateOrder);
+    const base = String(row[baseCol >= 0 ? baseCol : currencyCol] ?? '').trim().toUpperCase();
+    const quote = quoteCol >= 0 ? String(row[quoteCol] ?? '').trim().toUpperCase() : functionalCurrency;
+    const rate = typeof row[rateCol] === 'number' ? row[rateCol] as number : parseFloat(String(row[rateCol] ?? '').replace(/[^0-9.eE-]/g, ''));
+    if (!date) problems.push(`Row ${rowNo}: unreadable date "${row[dateCol] ?? ''}"`);
+    else if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote)) problems.push(`Row ${rowNo}: currencies must be three-letter ISO codes`);
+    else if (isNaN(rate) || rate <= 0) problems.push(`Row ${rowNo}: "${row[rateCol] ?? ''}" is not a positive rate`);
+    else if (base !== quote) rates.push({ date, base, quote, rate });
+  });
+  return { rates, problems };
+};
+
+// Incoming rates replace any existing rate for the same pair and date
+export const mergeRates = (existing: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const key = (r: ExchangeRate) => `${r.date}|${r.base}|${r.quote}`;
+  const merged = new Map(existing.map(r => [key(r), r]));
+  incoming.forEach(r => merged.set(key(r), r));
+  return [...merged.values()].sort((a, b) => b.date.localeCompare(a.date) || a.base.localeCompare(b.base) || a.quote.localeCompare(b.quote));
+};
+
+// Converts foreign-currency lines at the rate for the entry date. Lines keep their original amount;
+// rounding left over after conversion goes on the largest converted line so the entry still balances.
+export const convertEntryToFunctional = (entry: JournalEntry, functionalCurrency: string, rates: ExchangeRate[]): { entry: JournalEntry; problems: string[] } => {
+  const problems: string[] = [];
+  const lines = entry.lines.map(line => {
+    if (!line.currency || line.currency === functionalCurrency) return { ...line, currency: undefined, originalAmount: undefined };
+    const rate = findRate(rates, line.currency, functionalCurrency, entry.date);
+    const originalAmount = line.originalAmount ?? line.amount;
+    if (rate === null) {
+      problems.push(`${entry.reference || entry.memo}: no ${line.currency}/${functionalCurrency} rate on or before ${entry.date}`);
+      return line;
+    }
+    return { ...line, originalAmount, amount: round(originalAmount * rate) };
+  });
+
+  const converted = lines.filter(l => l.currency && l.currency !== functionalCurrency);
+  const net = lines.reduce((s, l) => s + Math.round(l.amount * 100) * (l.type === TransactionType.DEBIT ? 1 : -1), 0);
+  if (problems.length === 0 && net !== 0 && converted.length > 0 && Math.abs(net) <= lines.length) {
+    const largest = converted.reduce((a, b) => (b.amount > a.amount ? b : a));
+    largest.amount = round(largest.amount + (largest.type === TransactionType.DEBIT ? -net : net) / 100);
+  }
+  return { entry: { ...entry, lines }, problems };
+};
+
+// Foreign-currency balances of monetary accounts, with their carrying amount in the functional currency
+export const foreignBalances = (entries: JournalEntry[], chart: Account[], functionalCurrency: string, asOf: string) => {
+  const balances = new Map<string, { accountCode: string; currency: string; foreign: number; carrying: number }>();
+  flattenEntries(entries.filter(e => e.date.slice(0, 10) <= asOf), chart).forEach(tx => {
+    const acc = findAccount(chart, tx.accountCode);
+    if (!acc || !MONETARY_SUB_TYPES.includes(acc.subType) || !tx.currency || tx.currency === functionalCurrency) return;
+    const sign = tx.type === TransactionType.DEBIT ? 1 : -1;
+    const key = `${tx.accountCode}|${tx.currency}`;
+    const current = balances.get(key) ?? { accountCode: tx.accountCode, currency: tx.currency, foreign: 0, carrying: 0 };
+    current.foreign += sign * (tx.originalAmount ?? 0);
+    current.carrying += sign * tx.amount;
+    balances.set(key, current);
+  });
+  return [...balances.values()];
+};
+
+// Retranslates foreign monetary balances at the period-end rate. Adjustment lines carry the foreign
+// currency with a zero original amount, so they move the carrying amount without changing the foreign balance.
+export const buildRevaluation = (
+  entries: JournalEntry[],
+  chart: Account[],
+  settings: CurrencySettings,
+  rates: ExchangeRate[],
+  period: ReportingPeriod
+): { lines: RevaluationLine[]; entry?: JournalEntry; problems: string[] } => {
+  const problems: string[] = [];
+  const lines: RevaluationLine[] = [];
+  foreignBalances(entries, chart, settings.functionalCurrency, period.end).forEach(b => {
+    const rate = findRate(rates, b.currency, settings.functionalCurrency, period.end);
+    const acc = findAccount(chart, b.accountCode)!;
+    if (rate === null) { problems.push(`No ${b.currency}/${settings.functionalCurrency} rate on or before ${period.end} for ${acc.name}`); return; }
+    const revaluedAmount = round(b.foreign * rate);
+    lines.push({
+      accountCode: b.accountCode,
+      accountName: acc.name,
+      currency: b.currency,
+      foreignBalance: round(b.foreign),
+      carryingAmount: round(b.carrying),
+      rate,
+      revaluedAmount,
+      adjustment: round(revaluedAmount - b.carrying)
+    });
+  });
+
+  const adjusting = lines.filter(l => l.adjustment !== 0);
+  if (adjusting.length === 0 || problems.length > 0) return { lines, problems };
+  [FX_GAIN_ACCOUNT, FX_LOSS_ACCOUNT].forEach(code => {
+    if (!findAccount(chart, code)) problems.push(`Account ${code} is needed to record unrealised exchange differences`);
+  });
+  if (problems.length > 0) return { lines, problems };
+
+  const id = `fxreval-${period.id}`;
+  const gains = round(adjusting.filter(l => l.adjustment > 0).reduce((s, l) => s + l.adjustment, 0));
+  const losses = round(-adjusting.filter(l => l.adjustment < 0).reduce((s, l) => s + l.adjustment, 0));
+  const entry: JournalEntry = {
+    id,
+    date: period.end,
+    memo: `Unrealised FX revaluation ${period.label}`,
+    reference: `FX-${period.id}`,
+    kind: 'revaluation',
+    lines: [
+      ...adjusting.map(l => ({
+        id: `${id}-${l.accountCode}-${l.currency}`,
+        accountCode: l.accountCode,
+        amount: Math.abs(l.adjustment),
+        type: l.adjustment > 0 ? TransactionType.DEBIT : TransactionType.CREDIT,
+        description: `${l.currency} ${l.foreignBalance.toFixed(2)} at ${l.rate}`,
+        currency: l.currency,
+        originalAmount: 0
+      })),
+      ...(gains > 0 ? [{ id: `${id}-gain`, accountCode: FX_GAIN_ACCOUNT, amount: gains, type: TransactionType.CREDIT }] : []),
+      ...(losses > 0 ? [{ id: `${id}-loss`, accountCode: FX_LOSS_ACCOUNT, amount: losses, type: TransactionType.DEBIT }] : [])
+    ]
+  };
+  return { lines, entry, problems };
+};
+
+const scale = (items: StatementItem[], rate: number) => items.map(i => ({ ...i, amount: round(i.amount * rate) }));
+
+// Convenience translation of the whole set at one closing rate, so every statement keeps its internal totals
+export const translateStatements = (statements: FinancialStatements, currency: string, rate: number, rateDate: string): FinancialStatements => {
+  const x = (amount: number) => round(amount * rate);
+  const { incomeStatement: is, balanceSheet: bs, cashFlow: cf, variance } = statements;
+  return {
+    ...statements,
+    currency,
+    translation: { from: statements.currency, rate, rateDate },
+    trialBalance: statements.trialBalance.map(i => ({ ...i, debit: x(i.debit), credit: x(i.credit) })),
+    incomeStatement: { revenue: scale(is.revenue, rate), expenses: scale(is.expenses, rate), totalRevenue: x(is.totalRevenue), totalExpenses: x(is.totalExpenses), netIncome: x(is.netIncome) },
+    balanceSheet: { assets: scale(bs.assets, rate), liabilities: scale(bs.liabilities, rate), equity: scale(bs.equity, rate), totalAssets: x(bs.totalAssets), totalLiabilities: x(bs.totalLiabilities), totalEquity: x(bs.totalEquity) },
+    cashFlow: { ...cf, operating: scale(cf.operating, rate), investing: scale(cf.investing, rate), financing: scale(cf.financing, rate), netCashFlow: x(cf.netCashFlow), openingCash: x(cf.openingCash), closingCash: x(cf.closingCash), difference: x(cf.difference) },
+    equityChanges: statements.equityChanges.map(e => ({ ...e, openingBalance: x(e.openingBalance), additions: x(e.additions), withdrawals: x(e.withdrawals), netIncome: x(e.netIncome), closingBalance: x(e.closingBalance) })),
+    notes: statements.notes.map(n => ({ ...n, data: n.data && scale(n.data, rate) })),
+    variance: {
+      ...variance,
+      revenueActual: x(variance.revenueActual),
+      revenueBudget: x(variance.revenueBudget),
+      expenseActual: x(variance.expenseActual),
+      expenseBudget: x(variance.expenseBudget),
+      lines: variance.lines.map(l => ({ ...l, actual: x(l.actual), budget: x(l.budget), variance: x(l.variance) }))
+    }
+  };
+};
+
+export const sampleExchangeRates: ExchangeRate[] = [
+  { date: '2023-10-31', base: 'EUR', quote: 'USD', rate: 1.0575 },
+  { date: '2023-10-31', base: 'GBP', quote: 'USD', rate: 1.2155 },
+  { date: '2023-10-01', base: 'EUR', quote: 'USD', rate: 1.0600 },
+  { date: '2023-10-01', base: 'GBP', quote: 'USD', rate: 1.2200 },
+  { date: '2023-09-01', base: 'EUR', quote: 'USD', rate: 1.0800 },
+  { date: '2023-09-01', base: 'GBP', quote: 'USD', rate: 1.2600 }
+];
@@ -0,0 +1,180 @@
+import { Account, AccountCategory, DraftEntry, EntryKind, JournalEntry, JournalLine, PostingAudit, Transaction, TransactionType } from '../types';
+import { LEGACY_BATCH_ID, reversalsByEntry } from './audit';
+import { LedgerError, flattenEntries, postEntries, uniqueEntryId } from './ledger';
+import { toDateKey } from './periods';
+
+// One posted line with the entry details the general ledger shows, filters and sorts on
+export interface LedgerRow {
+  key: string; // `${entryId}:${lineId}`, since line ids are only unique within an entry
+  tx: Transaction;
+  dateKey: string; // YYYY-MM-DD
+  reference?: string;
+  memo: string;
+  kind: EntryKind;
+  batchId: string;
+  isReversal: boolean;
+  isReversed: boolean;
+  debit: number;
+  credit: number;
+  searchText: string; // Lower-cased once here so searching a large ledger stays cheap
+}
+
+export interface LedgerFilters {
+  search: string;
+  from: string; // Inclusive, YYYY-MM-DD; empty for no limit
+  to: string;
+  accountCode: string;
+  category: AccountCategory | '';
+  minAmount: number | null; // Compared with the line amount, whichever side it is on
+  maxAmount: number | null;
+  batchId: string;
+}
+
+export const emptyLedgerFilters: LedgerFilters = {
+  search: '', from: '', to: '', accountCode: '', category: '', minAmount: null, maxAmount: null, batchId: ''
+};
+
+export type LedgerSortKey = 'date' | 'reference' | 'description' | 'account' | 'debit' | 'credit';
+
+export type SortDirection = 'asc' | 'desc';
+
+export const buildLedgerRows = (entries: JournalEntry[], chart: Account[]): LedgerRow[] => {
+  const byId = new Map(entries.map(e => [e.id, e]));
+  const reversed = reversalsByEntry(entries);
+  return flattenEntries(entries, chart).map(tx => {
+    const entry = byId.get(tx.entryId)!;
+    const reference = entry.reference;
+    return {
+      key: `${tx.entryId}:${tx.id}`,
+      tx,
+      dateKey: toDateKey(tx.date),
+      reference,
+      memo: entry.memo,
+      kind: entry.kind ?? 'standard',
+      batchId: entry.audit?.batchId ?? LEGACY_BATCH_ID,
+      isReversal: !!entry.reversalOf,
+      isReversed: reversed.has(entry.id),
+      debit: tx.type === TransactionType.DEBIT ? tx.amount : 0,
+      credit: tx.type === TransactionType.CREDIT ? tx.amount : 0,
+      searchText: [tx.description, entry.memo, reference ?? '', tx.entryId, tx.accountCode, tx.accountName].join('\u0000').toLowerCase()
+    };
+  });
+};
+
+// Every search word must appear somewhere in the line, in any order
+export const filterLedgerRows = (rows: LedgerRow[], filters: LedgerFilters): LedgerRow[] => {
+  const words = filters.search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const { from, to, accountCode, category, minAmount, maxAmount, batchId } = filters;
+  return rows.filter(r =>
+    (!from || r.dateKey >= from) &&
+    (!to || r.dateKey <= to) &&
+    (!accountCode || r.tx.accountCode === accountCode) &&
+    (!category || r.tx.category === category) &&
+    (minAmount === null || r.tx.amount >= minAmount) &&
+    (maxAmount === null || r.tx.amount <= maxAmount) &&
+    (!batchId || r.batchId === batchId) &&
+    words.every(w => r.searchText.includes(w)));
+};
+
+// One collator for every comparison; localeCompare with options builds a new one per call,
+// which is far too slow for a six-figure ledger
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+const compareBy: Record<LedgerSortKey, (a: LedgerRow, b: LedgerRow) => number> = {
+  date: (a, b) => a.dateKey.localeCompare(b.dateKey),
+  reference: (a, b) => collator.compare(a.reference ?? a.tx.entryId, b.reference ?? b.tx.entryId),
+  description: (a, b) => collator.compare(a.tx.description, b.tx.description),
+  account: (a, b) => collator.compare(a.tx.accountCode, b.tx.accountCode),
+  debit: (a, b) => a.debit - b.debit,
+  credit: (a, b) => a.credit - b.credit
+};
+
+// Sorting is stable, so lines that tie keep their ledger order and an entry's lines stay together
+export const sortLedgerRows = (rows: LedgerRow[], key: LedgerSortKey, direction: SortDirection): LedgerRow[] => {
+  const compare = compareBy[key];
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => sign * compare(a, b));
+};
+
+// Active accounts for an autocomplete, best matches first: code prefix, then a word of the name
+// starting with the query, then the query anywhere in the name
+export const searchAccounts = (chart: Account[], query: string, limit = 8): Account[] => {
+  const q = query.trim().toLowerCase();
+  const active = chart.filter(a => a.active);
+  if (!q) return active.slice(0, limit);
+  const rank = (a: Account) => {
+    const name = a.name.toLowerCase();
+    if (a.code.toLowerCase().startsWith(q)) return 0;
+    if (name.split(/[^a-z0-9]+/).some(word => word.startsWith(q))) return 1;
+    if (name.includes(q) || a.code.toLowerCase().includes(q)) return 2;
+    return -1;
+  };
+  return active
+    .map(a => ({ a, r: rank(a) }))
+    .filter(m => m.r >= 0)
+    .sort((x, y) => x.r - y.r || collator.compare(x.a.code, y.a.code))
+    .slice(0, limit)
+    .map(m => m.a);
+};
+
+const lineId = () => `ln-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const blankLine = (type: TransactionType = TransactionType.DEBIT): JournalLine => ({ id: lineId(), accountCode: '', amount: 0, type });
+
+// The next JE-nnnn reference after the highest one used by a posted entry or a draft
+export const nextReference = (entries: JournalEntry[], drafts: DraftEntry[]): string => {
+  const highest = [...entries, ...drafts].reduce((max, e) => {
+    const match = /^JE-(\d+)$/i.exec(e.reference ?? '');
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+  return `JE-${String(highest + 1).padStart(4, '0')}`;
+};
+
+export const newDraft = (entries: JournalEntry[], drafts: DraftEntry[], date: string, now: string = new Date().toISOString()): DraftEntry => ({
+  id: `draft-${Date.parse(now).toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  date,
+  memo: '',
+  reference: nextReference(entries, drafts),
+  lines: [blankLine(TransactionType.DEBIT), blankLine(TransactionType.CREDIT)],
+  createdAt: now,
+  updatedAt: now
+});
+
+// Adds the draft or replaces the saved copy with the same id
+export const saveDraft = (drafts: DraftEntry[], draft: DraftEntry, now: string = new Date().toISOString()): DraftEntry[] => {
+  const saved = { ...draft, updatedAt: now };
+  return drafts.some(d => d.id === draft.id) ? drafts.map(d => (d.id === draft.id ? saved : d)) : [...drafts, saved];
+};
+
+export const voidDraft = (drafts: DraftEntry[], draftId: string, now: string = new Date().toISOString()): DraftEntry[] =>
+  drafts.map(d => (d.id === draftId ? { ...d, voidedAt: now, updatedAt: now } : d));
+
+// Lines left completely empty are dropped rather than reported, so spare rows in the form do no harm
+export const draftToEntry = (draft: DraftEntry, ledger: JournalEntry[]): JournalEntry => ({
+  id: uniqueEntryId(ledger, draft.id.replace(/^draft-/, 'je-')),
+  date: draft.date,
+  memo: draft.memo.trim(),
+  reference: draft.reference?.trim() || undefined,
+  lines: draft.lines
+    .filter(l => l.accountCode || l.amount)
+    .map(l => ({ ...l, description: l.description?.trim() || undefined }))
+});
+
+// Posts the draft through the normal ledger checks and removes it from the drafts.
+// Throws LedgerError, leaving both lists untouched, when the draft is voided or fails validation.
+export const postDraft = (
+  ledger: JournalEntry[],
+  drafts: DraftEntry[],
+  draft: DraftEntry,
+  chart: Account[],
+  lockedThrough: string | undefined,
+  audit: PostingAudit
+): { entries: JournalEntry[]; drafts: DraftEntry[] } => {
+  const label = draft.reference || draft.memo || 'This draft';
+  if (draft.voidedAt) throw new LedgerError('The draft was not posted', [`${label} was voided and can no longer be posted`]);
+  if (!draft.memo.trim()) throw new LedgerError('The draft was not posted', [`${label}: enter a memo describing the entry`]);
+  return {
+    entries: postEntries(ledger, [draftToEntry(draft, ledger)], chart, lockedThrough, audit),
+    drafts: drafts.filter(d => d.id !== draft.id)
+  };
+};
@@ -0,0 +1,127 @@
+import { ImportAmountLayout, ImportProfile, ImportTransforms, TransactionType } from '../types';
+import { ImportField } from './importValidation';
+
+export const defaultImportTransforms: ImportTransforms = { amountLayout: 'typed', positiveAmountIs: TransactionType.DEBIT };
+
+export const AMOUNT_LAYOUT_LABELS: Record<ImportAmountLayout, string> = {
+  typed: 'Amount with a Debit/Credit column',
+  signed: 'One signed amount column',
+  split: 'Separate Debit and Credit columns'
+};
+
+// Columns each layout reads amounts from; the others are not mapped
+export const AMOUNT_FIELDS: Record<ImportAmountLayout, ImportField[]> = {
+  typed: ['amount', 'type'],
+  signed: ['amount'],
+  split: ['debit', 'credit']
+};
+const ALL_AMOUNT_FIELDS: ImportField[] = ['amount', 'type', 'debit', 'credit'];
+
+// Header names common accounting exports use for each field, compared without case, spaces or punctuation
+const HEADER_HINTS: Record<ImportField, string[]> = {
+  date: ['date', 'postingdate', 'transactiondate', 'txndate', 'entrydate', 'journaldate'],
+  description: ['description', 'memo', 'narration', 'narrative', 'details', 'particulars'],
+  accountName: ['account', 'accountcode', 'accountname', 'glaccount', 'accountno', 'nominalcode', 'ledgeraccount'],
+  category: ['category', 'accounttype', 'class', 'accountclass'],
+  amount: ['amount', 'value', 'net', 'netamount', 'signedamount'],
+  type: ['type', 'drcr', 'debitcredit', 'side', 'entrytype'],
+  debit: ['debit', 'dr', 'debitamount', 'debits'],
+  credit: ['credit', 'cr', 'creditamount', 'credits'],
+  reference: ['reference', 'ref', 'journal', 'journalno', 'entryno', 'transactionid', 'voucher', 'num'],
+  currency: ['currency', 'ccy', 'currencycode']
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Exact hint matches win over partial ones, and each header is used for one field at most
+export const guessMappings = (headers: string[], fields: ImportField[]): Record<string, string> => {
+  const mappings: Record<string, string> = {};
+  const used = new Set<string>();
+  const pick = (field: ImportField, test: (header: string, hint: string) => boolean) => {
+    if (mappings[field]) return;
+    const hints = HEADER_HINTS[field];
+    for (const hint of hints) {
+      const match = headers.find(h => !used.has(h) && test(normaliseHeader(h), hint));
+      if (match) { mappings[field] = match; used.add(match); return; }
+    }
+  };
+  fields.forEach(field => pick(field, (header, hint) => header === hint));
+  fields.forEach(field => pick(field, (header, hint) => hint.length > 3 && header.includes(hint)));
+  return mappings;
+};
+
+// Picks the layout the mapped columns point to, e.g. Debit and Credit columns without a type column
+export const guessAmountLayout = (mappings: Record<string, string>): ImportAmountLayout => {
+  if ((mappings.debit || mappings.credit) && !mappings.type) return 'split';
+  if (mappings.amount && !mappings.type) return 'signed';
+  return 'typed';
+};
+
+export const fieldUsedByLayout = (field: ImportField, layout: ImportAmountLayout): boolean =>
+  !ALL_AMOUNT_FIELDS.includes(field) || AMOUNT_FIELDS[layout].includes(field);
+
+// Drops mappings for amount columns the layout does not read
+export const mappingsForLayout = (mappings: Record<string, string>, layout: ImportAmountLayout): Record<string, string> => {
+  const next = { ...mappings };
+  ALL_AMOUNT_FIELDS.filter(f => !fieldUsedByLayout(f, layout)).forEach(f => delete next[f]);
+  return next;
+};
+
+// Split files may have only one of the two amount columns, e.g. a sales journal with credits only
+export const missingImportFields = (mappings: Record<string, string>, transforms: ImportTransforms): ImportField[] => {
+  // Rows of a bank export posted against an offset account may arrive without an account, to be suggested on review
+  const required: ImportField[] = transforms.offsetAccountCode ? ['date', 'description'] : ['date', 'description', 'accountName'];
+  const missing = [...required, ...(transforms.amountLayout === 'split' ? [] : AMOUNT_FIELDS[transforms.amountLayout])].filter(f => !mappings[f]);
+  if (transforms.amountLayout === 'split' && !mappings.debit && !mappings.credit) missing.push('debit', 'credit');
+  return missing;
+};
+
+export interface ProfileMatch {
+  profile: ImportProfile;
+  score: number; // Share of the profile's mapped columns present in the file, 0 to 1
+}
+
+// Profiles whose columns appear in the file, best match first
+export const matchProfiles = (profiles: ImportProfile[], headers: string[]): ProfileMatch[] => {
+  const present = new Set(headers.map(normaliseHeader));
+  return profiles
+    .map(profile => {
+      const columns = Object.values(profile.mappings).filter(Boolean);
+      const found = columns.filter(c => present.has(normaliseHeader(c))).length;
+      return { profile, score: columns.length > 0 ? found / columns.length : 0 };
+    })
+    .filter(m => m.score > 0)
+    .sort((a, b) => b.score - a.score || (b.profile.lastUsedAt ?? '').localeCompare(a.profile.lastUsedAt ?? ''));
+};
+
+// Maps the profile's columns onto this file's headers, tolerating case and spacing differences
+export const applyProfile = (profile: ImportProfile, headers: string[]): Record<string, string> => {
+  const byNormalised = new Map(headers.map(h => [normaliseHeader(h), h]));
+  const mappings: Record<string, string> = {};
+  Object.entries(profile.mappings).forEach(([field, column]) => {
+    const header = byNormalised.get(normaliseHeader(column));
+    if (header) mappings[field] = header;
+  });
+  return mappings;
+};
+
+// Saving under an existing name replaces that profile's mapping and keeps its id
+export const saveImportProfile = (
+  profiles: ImportProfile[],
+  name: string,
+  mappings: Record<string, string>,
+  transforms: ImportTransforms,
+  now: string = new Date().toISOString()
+): ImportProfile[] => {
+  const trimmed = name.trim();
+  const existing = profiles.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+  const profile: ImportProfile = {
+    id: existing?.id ?? `prof-${Date.parse(now).toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: trimmed,
+    mappings: mappingsForLayout(mappings, transforms.amountLayout),
+    transforms,
+    createdAt: existing?.createdAt ?? now,
+    lastUsedAt: existing?.lastUsedAt
+  };
+  return existing ? profiles.map(p => p.id === existing.id ? profile : p) : [...profiles, profile];
+};
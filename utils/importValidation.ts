@@ -0,0 +1,225 @@
+import { Account, AccountCategory, ExchangeRate, ImportTransforms, JournalEntry, TransactionType } from '../types';
+import { DateOrder, isAmbiguousDayMonth, normaliseDate } from './dates';
+import { findAccount, lookupAccount, resolveImportAccounts } from './accounts';
+import { parseMoney } from './bankImport';
+import { flattenEntries, groupLinesIntoEntries } from './ledger';
+import { convertEntryToFunctional } from './fx';
+import { descriptionSimilarity } from './reconciliation';
+
+export type ImportField = 'date' | 'description' | 'accountName' | 'category' | 'amount' | 'type' | 'debit' | 'credit' | 'reference' | 'currency';
+
+const IMPORT_FIELDS: ImportField[] = ['date', 'description', 'accountName', 'category', 'amount', 'type', 'debit', 'credit', 'reference', 'currency'];
+
+// One source row as text, so any cell can be corrected in place before posting
+export interface ImportRow {
+  index: number; // Data row position in the source file, from 0 (the header is not counted)
+  values: Record<ImportField, string>;
+  excluded: boolean;
+}
+
+export interface ImportIssue {
+  rowIndex: number;
+  field?: ImportField;
+  severity: 'error' | 'warning';
+  message: string;
+  duplicateOf?: string; // Id of the posted entry this row seems to repeat
+}
+
+export interface ImportContext {
+  chart: Account[];
+  ledger: JournalEntry[];
+  dateOrder: DateOrder;
+  dateOrderConflicting: boolean; // The date column mixes day-first and month-first rows
+  transforms: ImportTransforms;
+  functionalCurrency: string;
+  rates: ExchangeRate[];
+  lockedThrough?: string;
+  batch: string; // Makes entry and line ids unique to this import
+}
+
+export interface ImportValidation {
+  issues: ImportIssue[];
+  dates: Record<number, string>; // Row index -> posting date as read
+  sides: Record<number, TransactionType>; // Row index -> side of the row's own line, when its amount could be read
+  entries: JournalEntry[]; // Ready to post; empty while any included row has an error
+  chart: Account[]; // Chart including accounts the import creates
+  created: Account[];
+}
+
+const CATEGORIES = Object.values(AccountCategory) as string[];
+const NUMERIC = /^\(?[-+]?\s*[^\d\s().,-]{0,3}\s*[-+]?[\d.,\s']*\d[\d.,\s']*\)?-?\s*[A-Za-z]{0,3}$/;
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Unmapped fields read as blank
+export const rowsFromSheet = (rows: unknown[][], headers: string[], mappings: Record<string, string>): ImportRow[] =>
+  rows
+    .map((row, index) => {
+      const values = {} as Record<ImportField, string>;
+      IMPORT_FIELDS.forEach(field => {
+        const column = mappings[field] ? headers.indexOf(mappings[field]) : -1;
+        values[field] = column >= 0 ? String(row[column] ?? '').trim() : '';
+      });
+      return { index, values, excluded: false };
+    })
+    .filter(row => Object.values(row.values).some(Boolean));
+
+const parseSide = (value: string): TransactionType | null => {
+  const text = value.trim().toLowerCase();
+  if (/^(d|dr|debit)$/.test(text) || (text.includes('debit') && !text.includes('credit'))) return TransactionType.DEBIT;
+  if (/^(c|cr|credit)$/.test(text) || (text.includes('credit') && !text.includes('debit'))) return TransactionType.CREDIT;
+  return null;
+};
+
+const opposite = (type: TransactionType) => type === TransactionType.DEBIT ? TransactionType.CREDIT : TransactionType.DEBIT;
+
+const groupKey = (values: Record<ImportField, string>, date: string) => values.reference ? `ref:${values.reference}` : `${date}|${values.description}`;
+
+// Checks every included row and, when nothing blocks the commit, builds the entries to post.
+// Errors block the commit; warnings only ask for a second look.
+export const validateImport = (rows: ImportRow[], ctx: ImportContext): ImportValidation => {
+  const issues: ImportIssue[] = [];
+  const dates: Record<number, string> = {};
+  const sides: Record<number, TransactionType> = {};
+  const issue = (rowIndex: number, severity: ImportIssue['severity'], message: string, field?: ImportField, duplicateOf?: string) =>
+    issues.push({ rowIndex, field, severity, message, duplicateOf });
+  const otherOrder: DateOrder = ctx.dateOrder === 'DMY' ? 'MDY' : 'DMY';
+  const included = rows.filter(r => !r.excluded);
+
+  const lines = included.map(row => {
+    const v = row.values;
+    let ok = true;
+
+    const date = normaliseDate(v.date, ctx.dateOrder);
+    if (!date) {
+      ok = false;
+      const swapped = normaliseDate(v.date, otherOrder);
+      issue(row.index, 'error', swapped
+        ? `"${v.date}" is not a valid ${ctx.dateOrder === 'DMY' ? 'DD/MM' : 'MM/DD'} date; it looks like ${otherOrder === 'DMY' ? 'DD/MM' : 'MM/DD'}, which would be ${swapped}`
+        : v.date ? `"${v.date}" is not a date` : 'Date is missing', 'date');
+    } else {
+      dates[row.index] = date;
+      if (ctx.dateOrderConflicting && isAmbiguousDayMonth(v.date)) issue(row.index, 'warning', `"${v.date}" could be day or month first in this file; read as ${date}`, 'date');
+      if (ctx.lockedThrough && date <= ctx.lockedThrough) { ok = false; issue(row.index, 'error', `${date} falls in a closed period (locked through ${ctx.lockedThrough})`, 'date'); }
+    }
+
+    if (!v.description) { ok = false; issue(row.index, 'error', 'Description is missing', 'description'); }
+
+    const category = CATEGORIES.find(c => c.toLowerCase() === v.category.toLowerCase());
+    if (v.category && !category) { ok = false; issue(row.index, 'error', `Unknown category "${v.category}" (expected ${CATEGORIES.join(', ')})`, 'category'); }
+    const account = lookupAccount(ctx.chart, v.accountName);
+    if (!v.accountName) { ok = false; issue(row.index, 'error', 'Account is missing', 'accountName'); }
+    else if (account) {
+      if (category && category !== account.category) { ok = false; issue(row.index, 'error', `${account.code} ${account.name} is a ${account.category} account, not ${category}`, 'category'); }
+      if (!account.active) { ok = false; issue(row.index, 'error', `${account.code} ${account.name} is inactive`, 'accountName'); }
+    } else if (!v.category) { ok = false; issue(row.index, 'error', `"${v.accountName}" is not in the chart of accounts; give a category to create it`, 'accountName'); }
+    else if (category) issue(row.index, 'warning', `A new ${category} account "${v.accountName}" will be created`, 'accountName');
+
+    // Blank split columns count as zero; anything else must read as a number
+    const readNumber = (field: ImportField, blankIsZero: boolean) => {
+      const text = v[field];
+      const value = !text && blankIsZero ? 0 : NUMERIC.test(text) ? parseMoney(text) : NaN;
+      if (isNaN(value)) { ok = false; issue(row.index, 'error', text ? `"${text}" is not a number` : 'Amount is missing', field); }
+      return value;
+    };
+    let amount = NaN;
+    let type: TransactionType | null = null;
+    let amountField: ImportField = 'amount';
+    if (ctx.transforms.amountLayout === 'split') {
+      const debit = readNumber('debit', true);
+      const credit = readNumber('credit', true);
+      if (debit && credit) { ok = false; issue(row.index, 'error', 'Both the Debit and Credit columns hold an amount', 'credit'); }
+      else if (!isNaN(debit) && !isNaN(credit)) {
+        amountField = credit ? 'credit' : 'debit';
+        amount = credit || debit;
+        type = credit ? TransactionType.CREDIT : TransactionType.DEBIT;
+      }
+    } else {
+      amount = readNumber('amount', false);
+      if (ctx.transforms.amountLayout === 'signed') {
+        type = ctx.transforms.positiveAmountIs;
+      } else {
+        type = parseSide(v.type);
+        if (!type) { ok = false; issue(row.index, 'error', v.type ? `"${v.type}" is neither Debit nor Credit` : 'Debit/Credit is missing', 'type'); }
+      }
+    }
+    if (!isNaN(amount) && amount < 0 && type) {
+      type = opposite(type);
+      amount = -amount;
+      // A signed column is expected to carry negatives, so only the other layouts call it out
+      if (ctx.transforms.amountLayout !== 'signed') issue(row.index, 'warning', `Negative amount posted as a ${type}`, amountField);
+    }
+    if (amount === 0) issue(row.index, 'warning', 'Amount is zero', amountField);
+    if (!isNaN(amount) && type) sides[row.index] = type;
+
+    const currency = v.currency.toUpperCase();
+    if (currency && !/^[A-Z]{3}$/.test(currency)) { ok = false; issue(row.index, 'error', `"${v.currency}" is not an ISO currency code`, 'currency'); }
+
+    return ok && date && type ? {
+      rowIndex: row.index,
+      id: `new-${row.index}-${ctx.batch}`,
+      date,
+      description: v.description,
+      accountName: v.accountName,
+      category: v.category,
+      amount: Math.round(amount * 100) / 100,
+      type,
+      reference: v.reference || undefined,
+      currency: currency && currency !== ctx.functionalCurrency ? currency : undefined
+    } : null;
+  });
+  const valid = lines.filter((l): l is NonNullable<typeof l> => l !== null);
+
+  // A bank or card export lists one side of each entry; the other side is the account the file comes from
+  const offsetCode = ctx.transforms.offsetAccountCode;
+  const offset = offsetCode ? findAccount(ctx.chart, offsetCode) : undefined;
+  if (offsetCode && !offset?.active) {
+    const message = offset ? `${offset.code} ${offset.name}, the account rows are posted against, is inactive` : `Account ${offsetCode}, the account rows are posted against, is not in the chart of accounts`;
+    included.forEach(row => issue(row.index, 'error', message));
+  }
+
+  // Balance is checked on the amounts as written, per entry and currency. Rows posted against an
+  // offset account balance by construction.
+  const groups = new Map<string, { rows: number[]; net: number; debit: number; credit: number; label: string }>();
+  valid.forEach(line => {
+    const row = included.find(r => r.index === line.rowIndex)!;
+    const key = groupKey(row.values, line.date);
+    const group = groups.get(key) ?? { rows: [], net: 0, debit: 0, credit: 0, label: line.reference || `${line.date} ${line.description}` };
+    const cents = toCents(line.amount);
+    group.rows.push(line.rowIndex);
+    if (line.type === TransactionType.DEBIT) { group.net += cents; group.debit += cents; } else { group.net -= cents; group.credit += cents; }
+    groups.set(key, group);
+  });
+  groups.forEach(group => {
+    if (group.net === 0 || offsetCode) return;
+    const message = `Entry ${group.label} does not balance: debits ${(group.debit / 100).toFixed(2)}, credits ${(group.credit / 100).toFixed(2)}`;
+    group.rows.forEach(rowIndex => issue(rowIndex, 'error', message));
+  });
+
+  // Likely duplicates: same date, account, side and amount as a posted line with a similar description or the same reference
+  const posted = flattenEntries(ctx.ledger, ctx.chart);
+  const references = new Map(ctx.ledger.map(e => [e.id, e.reference]));
+  valid.forEach(line => {
+    const code = lookupAccount(ctx.chart, line.accountName)?.code;
+    const twin = code && posted.find(tx =>
+      tx.date.slice(0, 10) === line.date && tx.accountCode === code && tx.type === line.type && toCents(tx.amount) === toCents(line.amount) &&
+      ((line.reference && references.get(tx.entryId) === line.reference) || descriptionSimilarity(tx.description, line.description) >= 0.5));
+    if (twin) issue(line.rowIndex, 'warning', `Looks like a duplicate of ${references.get(twin.entryId) || twin.entryId} ("${twin.description}") already in the ledger`, undefined, twin.entryId);
+  });
+
+  const resolved = resolveImportAccounts(ctx.chart, valid.map(l => ({ account: l.accountName, category: l.category })));
+  let entries: JournalEntry[] = [];
+  if (!issues.some(i => i.severity === 'error')) {
+    const rowOfLine = new Map(valid.flatMap(l => [[l.id, l.rowIndex], [`${l.id}-offset`, l.rowIndex]]));
+    const grouped = groupLinesIntoEntries(valid.flatMap((l, idx) => {
+      const line = { id: l.id, date: l.date, description: l.description, accountCode: resolved.codes[idx], amount: l.amount, type: l.type, reference: l.reference, currency: l.currency };
+      return offset ? [line, { ...line, id: `${l.id}-offset`, accountCode: offset.code, type: opposite(l.type) }] : [line];
+    }), `imp-${ctx.batch}`);
+    const converted = grouped.map(entry => convertEntryToFunctional(entry, ctx.functionalCurrency, ctx.rates));
+    converted.forEach(({ entry, problems }) => problems.forEach(message =>
+      entry.lines.forEach(line => issue(rowOfLine.get(line.id)!, 'error', message, 'currency'))));
+    if (!issues.some(i => i.severity === 'error')) entries = converted.map(c => c.entry);
+  }
+
+  issues.sort((a, b) => a.rowIndex - b.rowIndex || (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  return { issues, dates, sides, entries, chart: resolved.chart, created: resolved.created };
+};
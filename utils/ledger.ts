@@ -0,0 +1,119 @@
+import { Account, AccountCategory, JournalEntry, PostingAudit, Transaction, TransactionType } from '../types';
+import { findAccount } from './accounts';
+
+export class LedgerError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+// Work in cents so that 0.1 + 0.2 style drift never unbalances an entry
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Accepts drafts too, which share the line shape but are not yet entries
+export const entryTotals = (entry: Pick<JournalEntry, 'lines'>) => {
+  let debit = 0;
+  let credit = 0;
+  entry.lines.forEach(line => {
+    if (line.type === TransactionType.DEBIT) debit += toCents(line.amount);
+    else credit += toCents(line.amount);
+  });
+  return { debit: debit / 100, credit: credit / 100, difference: (debit - credit) / 100 };
+};
+
+export const isBalanced = (entry: JournalEntry): boolean => entryTotals(entry).difference === 0;
+
+export const validateEntry = (entry: JournalEntry, chart: Account[]): string[] => {
+  const problems: string[] = [];
+  const label = entry.reference || entry.memo || entry.id;
+
+  if (!entry.date || isNaN(new Date(entry.date).getTime())) problems.push(`${label}: missing or invalid posting date`);
+  const hasSide = (type: TransactionType) => entry.lines.some(line => line.type === type);
+  if (!hasSide(TransactionType.DEBIT) || !hasSide(TransactionType.CREDIT)) problems.push(`${label}: an entry needs at least one debit and one credit line`);
+  entry.lines.forEach(line => {
+    const acc = findAccount(chart, line.accountCode);
+    if (!acc) problems.push(`${label}: line ${line.id} posts to unknown account "${line.accountCode}"`);
+    else if (!acc.active) problems.push(`${label}: account ${acc.code} ${acc.name} is inactive`);
+    if (!isFinite(line.amount) || line.amount < 0) problems.push(`${label}: line ${line.id} has an invalid amount`);
+  });
+
+  const { debit, credit, difference } = entryTotals(entry);
+  if (difference !== 0) problems.push(`${label}: debits (${debit.toFixed(2)}) and credits (${credit.toFixed(2)}) differ by ${Math.abs(difference).toFixed(2)}`);
+  else if (debit === 0) problems.push(`${label}: an entry must move an amount above zero`);
+
+  return problems;
+};
+
+// Posts entries onto the ledger, stamping any entry without audit details with `audit`.
+// Nothing is posted if any entry fails validation or falls on or before the lock date of a closed period.
+// The ledger is append-only: existing entries are never changed or removed.
+export const postEntries = (ledger: JournalEntry[], entries: JournalEntry[], chart: Account[], lockedThrough: string | undefined, audit: PostingAudit): JournalEntry[] => {
+  const existingIds = new Set(ledger.map(e => e.id));
+  const problems = entries.flatMap(entry => [
+    ...validateEntry(entry, chart),
+    ...(existingIds.has(entry.id) ? [`${entry.reference || entry.memo}: entry ${entry.id} is already posted`] : []),
+    ...(lockedThrough && entry.date.slice(0, 10) <= lockedThrough ? [`${entry.reference || entry.memo}: ${entry.date} falls in a closed period (locked through ${lockedThrough})`] : [])
+  ]);
+  if (problems.length > 0) {
+    throw new LedgerError(`${problems.length} problem(s) prevented posting`, problems);
+  }
+  return [...ledger, ...entries.map(entry => (entry.audit ? entry : { ...entry, audit }))];
+};
+
+// Suffixes a generated id when an earlier entry, since reversed, already holds it
+export const uniqueEntryId = (ledger: JournalEntry[], id: string): string => {
+  const taken = new Set(ledger.map(e => e.id));
+  if (!taken.has(id)) return id;
+  let n = 2;
+  while (taken.has(`${id}-${n}`)) n++;
+  return `${id}-${n}`;
+};
+
+// Account name and category are resolved from the chart so every line agrees with it
+export const flattenEntries = (entries: JournalEntry[], chart: Account[]): Transaction[] => {
+  const byCode = new Map(chart.map(a => [a.code, a]));
+  return entries.flatMap(entry => entry.lines.map(line => {
+    const acc = byCode.get(line.accountCode);
+    return {
+      id: line.id,
+      entryId: entry.id,
+      date: entry.date,
+      description: line.description || entry.memo,
+      accountCode: line.accountCode,
+      accountName: acc?.name ?? line.accountCode,
+      category: acc?.category ?? AccountCategory.ASSET,
+      amount: line.amount,
+      type: line.type,
+      currency: line.currency,
+      originalAmount: line.originalAmount
+    };
+  }));
+};
+
+// Groups loose imported lines into entries. Lines sharing a reference form one entry;
+// without a reference, the date and description are the only link between the sides.
+export const groupLinesIntoEntries = (
+  lines: (Omit<Transaction, 'entryId' | 'accountName' | 'category'> & { reference?: string })[],
+  idPrefix: string
+): JournalEntry[] => {
+  const groups = new Map<string, JournalEntry>();
+  lines.forEach(line => {
+    const key = line.reference ? `ref:${line.reference}` : `${line.date}|${line.description}`;
+    let entry = groups.get(key);
+    if (!entry) {
+      entry = { id: `${idPrefix}-${groups.size + 1}`, date: line.date, memo: line.description, reference: line.reference, lines: [] };
+      groups.set(key, entry);
+    }
+    entry.lines.push({
+      id: line.id,
+      accountCode: line.accountCode,
+      amount: line.amount,
+      type: line.type,
+      description: line.description !== entry.memo ? line.description : undefined,
+      currency: line.currency,
+      originalAmount: line.originalAmount
+    });
+  });
+  return Array.from(groups.values());
+};
@@ -0,0 +1,365 @@
+import { Account, AccountCategory, CitableReport, FinancialStatements, FiscalSettings, PeriodGranularity, Transaction, TransactionType } from '../types';
+import { CITABLE_REPORT_TITLES, buildCitationCatalog } from './analysisReport';
+import { periodContaining, shiftPeriod, toDateKey } from './periods';
+
+export type LedgerQuerySource = 'transactions' | 'statements';
+export type LedgerQueryDimension = 'account' | 'category' | PeriodGranularity;
+export type LedgerQueryMeasure = 'amount' | 'debit' | 'credit' | 'count';
+export type LedgerQueryOrder = 'value' | 'change' | 'group';
+export type LedgerQueryChart = 'table' | 'bar' | 'line';
+
+export interface LedgerQueryFilters {
+  from?: string; // Inclusive, YYYY-MM-DD
+  to?: string;
+  accounts?: string[]; // Account codes
+  categories?: AccountCategory[];
+  search?: string; // Every word must appear in the description (or the line name for statements)
+  reports?: CitableReport[]; // Statements only
+}
+
+// The only thing a question is ever turned into. It can filter, group and aggregate, nothing else,
+// so every figure in an answer is computed here from the ledger.
+export interface LedgerQuery {
+  source: LedgerQuerySource;
+  filters: LedgerQueryFilters;
+  groupBy: LedgerQueryDimension[]; // At most two, at most one of them a period
+  measure: LedgerQueryMeasure;
+  orderBy: LedgerQueryOrder;
+  direction: 'asc' | 'desc';
+  limit: number | null;
+  chart: LedgerQueryChart;
+}
+
+export interface LedgerQueryRow {
+  keys: string[]; // Sort key per groupBy dimension; periods sort by their start date
+  group: string[]; // One label per groupBy dimension
+  value: number;
+  change: number | null; // Against the previous period for the same group, when grouped by a period
+}
+
+export interface LedgerQueryResult {
+  columns: string[]; // Group columns followed by the measure
+  rows: LedgerQueryRow[];
+  total: number;
+  matched: number; // Postings or statement lines that passed the filters
+  hasChange: boolean;
+  currency: string; // Postings are in the functional currency; statement lines in the one the statements are presented in
+}
+
+// A starting point for writing a query by hand
+export const defaultLedgerQuery: LedgerQuery = {
+  source: 'transactions', filters: {}, groupBy: ['account'], measure: 'amount', orderBy: 'value', direction: 'desc', limit: 10, chart: 'bar'
+};
+
+export const QUERY_DIMENSIONS: LedgerQueryDimension[] = ['account', 'category', 'month', 'quarter', 'year'];
+export const QUERY_MEASURES: LedgerQueryMeasure[] = ['amount', 'debit', 'credit', 'count'];
+const ORDERS: LedgerQueryOrder[] = ['value', 'change', 'group'];
+const CHARTS: LedgerQueryChart[] = ['table', 'bar', 'line'];
+const REPORTS = Object.keys(CITABLE_REPORT_TITLES) as CitableReport[];
+const CATEGORIES = Object.values(AccountCategory);
+const MAX_LIMIT = 500;
+
+const DIMENSION_TITLES: Record<LedgerQueryDimension, string> = {
+  account: 'Account', category: 'Category', month: 'Month', quarter: 'Quarter', year: 'Year'
+};
+export const MEASURE_TITLES: Record<LedgerQueryMeasure, string> = {
+  amount: 'Amount', debit: 'Debits', credit: 'Credits', count: 'Postings'
+};
+
+const ALL_MATCHING = 'All matching postings';
+
+const isPeriod = (d: LedgerQueryDimension): d is PeriodGranularity => d === 'month' || d === 'quarter' || d === 'year';
+
+const joinList = (values: string[]) => `${values.slice(0, -1).join(', ')}${values.length > 1 ? ' and ' : ''}${values[values.length - 1]}`;
+
+// The shape the model is asked for
+export const LEDGER_QUERY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    source: { type: 'string', enum: ['transactions', 'statements'], description: 'transactions for ledger postings over any dates; statements for the lines of the statements of the selected period' },
+    filters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'First date included, YYYY-MM-DD' },
+        to: { type: 'string', description: 'Last date included, YYYY-MM-DD' },
+        accounts: { type: 'array', items: { type: 'string' }, description: 'Account codes' },
+        categories: { type: 'array', items: { type: 'string', enum: CATEGORIES } },
+        search: { type: 'string', description: 'Words that must all appear in the description' },
+        reports: { type: 'array', items: { type: 'string', enum: REPORTS }, description: 'Statements to include, for source statements' }
+      }
+    },
+    groupBy: { type: 'array', items: { type: 'string', enum: QUERY_DIMENSIONS }, description: 'At most two, at most one period (month, quarter, year)' },
+    measure: { type: 'string', enum: QUERY_MEASURES },
+    orderBy: { type: 'string', enum: ORDERS, description: 'change sorts by the movement against the previous period' },
+    direction: { type: 'string', enum: ['asc', 'desc'] },
+    limit: { type: ['integer', 'null'], description: `Rows to keep after sorting, at most ${MAX_LIMIT}` },
+    chart: { type: 'string', enum: CHARTS }
+  },
+  required: ['source', 'filters', 'groupBy', 'measure', 'orderBy', 'direction', 'limit', 'chart']
+};
+
+export interface QueryValidation {
+  query: LedgerQuery | null; // null when the query cannot be run
+  problems: string[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Anything the model sends is checked here before it runs: unknown fields, accounts that do not
+// exist and combinations the engine does not support are all problems, never guesses.
+export const validateLedgerQuery = (value: unknown, accounts: Account[]): QueryValidation => {
+  const problems: string[] = [];
+  if (!isObject(value)) return { query: null, problems: ['The query is not a JSON object'] };
+
+  const oneOf = <T extends string>(v: unknown, allowed: T[], path: string): T => {
+    if (allowed.includes(v as T)) return v as T;
+    problems.push(`${path} must be one of ${allowed.join(', ')}`);
+    return allowed[0];
+  };
+  const listOf = <T extends string>(v: unknown, path: string, check: (item: string) => T | null): T[] | undefined => {
+    if (v === undefined || v === null) return undefined;
+    if (!Array.isArray(v)) { problems.push(`${path} must be a list`); return undefined; }
+    return v.flatMap(item => {
+      const ok = typeof item === 'string' ? check(item.trim()) : null;
+      if (ok === null) problems.push(`${path} has an unknown value ${JSON.stringify(item)}`);
+      return ok === null ? [] : [ok];
+    });
+  };
+  const date = (v: unknown, path: string): string | undefined => {
+    if (v === undefined || v === null || v === '') return undefined;
+    if (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(v))) return v;
+    problems.push(`${path} must be a date in YYYY-MM-DD form`);
+    return undefined;
+  };
+
+  const source = oneOf(value.source, ['transactions', 'statements'], 'source');
+  const f = isObject(value.filters) ? value.filters : (value.filters === undefined ? {} : (problems.push('filters must be an object'), {}));
+  const codes = new Set(accounts.map(a => a.code));
+  const filters: LedgerQueryFilters = {
+    from: date(f.from, 'filters.from'),
+    to: date(f.to, 'filters.to'),
+    accounts: listOf(f.accounts, 'filters.accounts', c => (codes.has(c) ? c : null)),
+    categories: listOf(f.categories, 'filters.categories', c => CATEGORIES.find(k => k.toLowerCase() === c.toLowerCase()) ?? null),
+    search: typeof f.search === 'string' && f.search.trim() ? f.search.trim() : undefined,
+    reports: listOf(f.reports, 'filters.reports', r => (REPORTS.includes(r as CitableReport) ? r as CitableReport : null))
+  };
+  if (filters.from && filters.to && filters.from > filters.to) problems.push('filters.from is after filters.to');
+
+  const groupBy = listOf(value.groupBy, 'groupBy', d => (QUERY_DIMENSIONS.includes(d as LedgerQueryDimension) ? d as LedgerQueryDimension : null)) ?? [];
+  if (groupBy.length > 2) problems.push('groupBy takes at most two dimensions');
+  if (new Set(groupBy).size !== groupBy.length) problems.push('groupBy repeats a dimension');
+  if (groupBy.filter(isPeriod).length > 1) problems.push('groupBy takes at most one of month, quarter and year');
+
+  const measure = oneOf(value.measure, QUERY_MEASURES, 'measure');
+  const orderBy = oneOf(value.orderBy ?? 'value', ORDERS, 'orderBy');
+  if (orderBy === 'change' && !groupBy.some(isPeriod)) problems.push('orderBy change needs a month, quarter or year in groupBy');
+  const direction = oneOf(value.direction ?? 'desc', ['asc', 'desc'], 'direction');
+  let limit: number | null = null;
+  if (value.limit !== undefined && value.limit !== null) {
+    if (typeof value.limit === 'number' && Number.isInteger(value.limit) && value.limit > 0 && value.limit <= MAX_LIMIT) limit = value.limit;
+    else problems.push(`limit must be a whole number from 1 to ${MAX_LIMIT}`);
+  }
+  const chart = oneOf(value.chart ?? 'table', CHARTS, 'chart');
+
+  if (source === 'statements') {
+    if (groupBy.length > 0) problems.push('Statement lines cannot be grouped');
+    if (filters.from || filters.to) problems.push('Statements cover the selected period; dates apply to transactions only');
+    if (measure !== 'amount') problems.push('Statement lines only have an amount');
+    if (filters.accounts?.length || filters.categories?.length) problems.push('Statement lines are picked by statement and name, not by account or category');
+  } else if (filters.reports?.length) {
+    problems.push('filters.reports applies to statements only');
+  }
+
+  return { query: problems.length === 0 ? { source, filters, groupBy, measure, orderBy, direction, limit, chart } : null, problems };
+};
+
+// Debit-normal accounts (assets, expenses) read debits as positive, the rest read credits as positive
+const naturalAmount = (tx: Transaction) => {
+  const debitNormal = tx.category === AccountCategory.ASSET || tx.category === AccountCategory.EXPENSE;
+  return (tx.type === TransactionType.DEBIT) === debitNormal ? tx.amount : -tx.amount;
+};
+
+const measured = (tx: Transaction, measure: LedgerQueryMeasure) => {
+  switch (measure) {
+    case 'amount': return naturalAmount(tx);
+    case 'debit': return tx.type === TransactionType.DEBIT ? tx.amount : 0;
+    case 'credit': return tx.type === TransactionType.CREDIT ? tx.amount : 0;
+    case 'count': return 1;
+  }
+};
+
+const matchesWords = (text: string, search?: string) => {
+  if (!search) return true;
+  const haystack = text.toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every(w => haystack.includes(w));
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+interface Bucket { keys: string[]; labels: string[]; value: number }
+
+const sortRows = (rows: LedgerQueryRow[], query: LedgerQuery) => {
+  const sign = query.direction === 'asc' ? 1 : -1;
+  return rows.sort((a, b) => {
+    if (query.orderBy === 'group') return sign * a.keys.join('\u0000').localeCompare(b.keys.join('\u0000'));
+    const av = query.orderBy === 'change' ? a.change : a.value;
+    const bv = query.orderBy === 'change' ? b.change : b.value;
+    if (av === null || bv === null) return av === bv ? 0 : av === null ? 1 : -1; // Rows without a change go last
+    return sign * (av - bv);
+  });
+};
+
+// Runs a validated query over the ledger postings, or over the lines of the statements
+export const runLedgerQuery = (
+  query: LedgerQuery,
+  transactions: Transaction[],
+  statements: FinancialStatements,
+  fiscal: FiscalSettings
+): LedgerQueryResult => {
+  const { filters } = query;
+
+  if (query.source === 'statements') {
+    const lines = buildCitationCatalog(statements).filter(l =>
+      (!filters.reports?.length || filters.reports.includes(l.report)) && matchesWords(`${l.section} ${l.label}`, filters.search));
+    const rows = sortRows(lines.map(l => ({ keys: [l.id], group: [CITABLE_REPORT_TITLES[l.report], l.label], value: round(l.amount), change: null })), query);
+    const kept = query.limit ? rows.slice(0, query.limit) : rows;
+    return {
+      columns: ['Statement', 'Line', MEASURE_TITLES.amount],
+      rows: kept,
+      total: round(kept.reduce((s, r) => s + r.value, 0)),
+      matched: lines.length,
+      hasChange: false,
+      currency: statements.currency
+    };
+  }
+
+  const matching = transactions.filter(tx => {
+    const day = toDateKey(tx.date);
+    return (!filters.from || day >= filters.from)
+      && (!filters.to || day <= filters.to)
+      && (!filters.accounts?.length || filters.accounts.includes(tx.accountCode))
+      && (!filters.categories?.length || filters.categories.includes(tx.category))
+      && matchesWords(tx.description, filters.search);
+  });
+
+  // Each dimension gives a sort key and a label; periods sort by start date
+  const keyOf = (tx: Transaction, d: LedgerQueryDimension): [string, string] => {
+    if (d === 'account') return [tx.accountCode, `${tx.accountCode} ${tx.accountName}`];
+    if (d === 'category') return [tx.category, tx.category];
+    const period = periodContaining(tx.date, d, fiscal);
+    return [period.start, period.label];
+  };
+  const buckets = new Map<string, Bucket>();
+  matching.forEach(tx => {
+    const parts = query.groupBy.map(d => keyOf(tx, d));
+    const id = parts.map(p => p[0]).join('\u0000');
+    const bucket = buckets.get(id) ?? { keys: parts.map(p => p[0]), labels: parts.map(p => p[1]), value: 0 };
+    bucket.value += measured(tx, query.measure);
+    buckets.set(id, bucket);
+  });
+
+  // The change is against the previous period for the same group; a period with no postings counts
+  // as zero as long as it falls inside the range the query covers. A group that drops to nothing
+  // gets a zero row for the period after its last postings, so the drop shows as a change.
+  const periodAt = query.groupBy.findIndex(isPeriod);
+  const starts = [...buckets.values()].map(b => b.keys[periodAt]).sort();
+  if (periodAt >= 0) {
+    const granularity = query.groupBy[periodAt] as PeriodGranularity;
+    const lastStart = [starts[starts.length - 1], filters.to].filter((d): d is string => !!d).sort().pop()!;
+    [...buckets.values()].forEach(bucket => {
+      const next = shiftPeriod(periodContaining(bucket.keys[periodAt], granularity, fiscal), 1, fiscal);
+      if (next.start > lastStart) return;
+      const keys = bucket.keys.map((k, i) => (i === periodAt ? next.start : k));
+      const id = keys.join('\u0000');
+      if (!buckets.has(id)) buckets.set(id, { keys, labels: bucket.labels.map((l, i) => (i === periodAt ? next.label : l)), value: 0 });
+    });
+  }
+  const changeOf = (bucket: Bucket): number | null => {
+    if (periodAt < 0) return null;
+    const granularity = query.groupBy[periodAt] as PeriodGranularity;
+    const previous = shiftPeriod(periodContaining(bucket.keys[periodAt], granularity, fiscal), -1, fiscal);
+    if (previous.start < starts[0]) return null;
+    const keys = bucket.keys.map((k, i) => (i === periodAt ? previous.start : k));
+    return bucket.value - (buckets.get(keys.join('\u0000'))?.value ?? 0);
+  };
+
+  const rows = sortRows([...buckets.values()].map(b => {
+    const change = changeOf(b);
+    return { keys: b.keys, group: query.groupBy.length ? b.labels : [ALL_MATCHING], value: round(b.value), change: change === null ? null : round(change) };
+  }), query);
+  const kept = query.limit ? rows.slice(0, query.limit) : rows;
+  return {
+    columns: [...(query.groupBy.length ? query.groupBy.map(d => DIMENSION_TITLES[d]) : ['Selection']), MEASURE_TITLES[query.measure]],
+    rows: kept,
+    total: round(kept.reduce((s, r) => s + r.value, 0)),
+    matched: matching.length,
+    hasChange: periodAt >= 0,
+    currency: statements.translation?.from ?? statements.currency
+  };
+};
+
+// The panel promises figures that agree with the statements: the postings of the statements' period,
+// by category, must add up to the income statement (translated at the same rate when it is)
+export const ledgerDisagreements = (transactions: Transaction[], statements: FinancialStatements, fiscal: FiscalSettings): string[] => {
+  if (!statements.period) return [];
+  const { start, end } = statements.period;
+  const byCategory = runLedgerQuery({
+    ...defaultLedgerQuery, filters: { from: start, to: end, categories: [AccountCategory.REVENUE, AccountCategory.EXPENSE] }, groupBy: ['category'], limit: null
+  }, transactions, statements, fiscal);
+  const rate = statements.translation?.rate ?? 1;
+  const is = statements.incomeStatement;
+  const checks: [AccountCategory, number, number][] = [
+    [AccountCategory.REVENUE, is.totalRevenue, is.revenue.length],
+    [AccountCategory.EXPENSE, is.totalExpenses, is.expenses.length]
+  ];
+  return checks.flatMap(([category, reported, lines]) => {
+    const ledger = round((byCategory.rows.find(r => r.keys[0] === category)?.value ?? 0) * rate);
+    // Translated lines are rounded one by one, so allow a cent per line
+    return Math.abs(ledger - reported) > 0.01 * (lines + 1)
+      ? [`${category} postings for ${statements.period!.label} add up to ${ledger.toFixed(2)}, but the income statement shows ${reported.toFixed(2)}`]
+      : [];
+  });
+};
+
+// A plain-English reading of the query, shown with every answer
+export const describeLedgerQuery = (query: LedgerQuery, accounts: Account[]): string => {
+  const { filters } = query;
+  const parts: string[] = [];
+  parts.push(query.source === 'statements'
+    ? `Statement lines${filters.reports?.length ? ` from the ${joinList(filters.reports.map(r => CITABLE_REPORT_TITLES[r]))}` : ''} for the selected period`
+    : `${query.measure === 'count' ? 'Number of postings' : `${MEASURE_TITLES[query.measure]} of postings`}`);
+  if (filters.accounts?.length) parts.push(`to ${joinList(filters.accounts.map(c => accounts.find(a => a.code === c)?.name ?? c))}`);
+  if (filters.categories?.length) parts.push(`in ${joinList(filters.categories)} accounts`);
+  if (filters.search) parts.push(`mentioning "${filters.search}"`);
+  if (filters.from && filters.to) parts.push(`from ${filters.from} to ${filters.to}`);
+  else if (filters.from) parts.push(`from ${filters.from}`);
+  else if (filters.to) parts.push(`up to ${filters.to}`);
+  if (query.groupBy.length) parts.push(`by ${query.groupBy.join(' and ')}`);
+  const order = query.orderBy === 'group' ? (query.groupBy.length ? 'in order' : '') : `${query.direction === 'desc' ? 'largest' : 'smallest'} ${query.orderBy === 'change' ? 'change' : 'value'} first`;
+  if (order) parts.push(order);
+  if (query.limit) parts.push(`top ${query.limit}`);
+  return `${parts.join(', ')}.`;
+};
+
+// Rows reshaped for a chart: the period (or else the first dimension) along the axis, the other
+// dimension as series, keeping the series with the largest values
+export const chartSeries = (query: LedgerQuery, result: LedgerQueryResult, maxSeries = 8): { data: Record<string, string | number>[]; series: string[] } => {
+  const measure = result.columns[result.columns.length - 1];
+  const axisAt = Math.max(query.groupBy.findIndex(isPeriod), 0);
+  const points = new Map<string, { key: string; point: Record<string, string | number> }>();
+  const totals = new Map<string, number>();
+  result.rows.forEach(r => {
+    const axis = r.group[axisAt] ?? 'Total';
+    const series = r.group.length > 1 ? r.group[1 - axisAt] : measure;
+    const entry = points.get(axis) ?? { key: r.keys[axisAt] ?? '', point: { label: axis } };
+    entry.point[series] = r.value;
+    points.set(axis, entry);
+    totals.set(series, (totals.get(series) ?? 0) + Math.abs(r.value));
+  });
+  const series = [...totals.entries()].sort((a, b) => b[1] - a[1]).slice(0, maxSeries).map(([name]) => name);
+  const entries = [...points.values()];
+  if (query.groupBy.some(isPeriod)) entries.sort((a, b) => a.key.localeCompare(b.key));
+  return { data: entries.map(e => e.point), series };
+};
@@ -0,0 +1,182 @@
+import { Account, AccountCategory, AccountSubType, FinancialNote, NoteInclusion, NoteTable, NoteTemplate, ReportingPeriod, StatementItem, TransactionType } from '../types';
+import { formatPeriodEnd } from './periods';
+
+type Movement = { debit: number; credit: number };
+
+// Ledger figures a set of notes is built from, in the functional currency
+export interface NoteContext {
+  chart: Account[];
+  period?: ReportingPeriod;
+  opening: Map<string, Movement>; // Brought forward to the period start
+  movement: Map<string, Movement>; // Posted in the period
+  currency: string; // Currency the statements are presented in
+  rate: number; // Functional to presentation currency; 1 when untranslated
+}
+
+export const NOTE_INCLUSION_LABELS: Record<NoteInclusion, string> = {
+  auto: 'When its accounts have balances',
+  always: 'Always',
+  never: 'Never'
+};
+
+export const NOTE_TABLE_LABELS: Record<NoteTable, string> = {
+  none: 'No table',
+  accounts: 'One line per account',
+  movement: 'Movement schedule'
+};
+
+export const NOTE_PLACEHOLDERS: { token: string; meaning: string }[] = [
+  { token: '{{period}}', meaning: 'Name of the reporting period' },
+  { token: '{{periodEnd}}', meaning: 'Last day of the period, e.g. October 31, 2023' },
+  { token: '{{currency}}', meaning: 'Presentation currency code' },
+  { token: '{{accounts}}', meaning: "Names of the note's accounts that have balances or postings" },
+  { token: '{{total}}', meaning: "Total of the note's accounts (closing balance for balance-sheet accounts)" },
+  { token: '{{opening}}', meaning: 'Balance at the period start' },
+  { token: '{{additions}}', meaning: 'Postings that increased the balance in the period' },
+  { token: '{{reductions}}', meaning: 'Postings that decreased the balance in the period' },
+  { token: '{{depreciation}}', meaning: 'Depreciation charged to profit or loss in the period' },
+  { token: '{{note:id}}', meaning: 'Number of another note, by template id; "n/a" when it is not presented' }
+];
+
+// Retained earnings include profit brought forward from earlier periods, which the statement of
+// changes in equity analyses; a note built from its ledger balance alone would disagree with it
+export const NOTE_SUB_TYPES = (Object.values(AccountSubType) as AccountSubType[]).filter(st => st !== AccountSubType.RETAINED_EARNINGS);
+
+const template = (id: string, title: string, body: string, table: NoteTable, subTypes: AccountSubType[], inclusion: NoteInclusion = 'auto'): NoteTemplate =>
+  ({ id, title, body, table, subTypes, inclusion });
+
+export const defaultNoteTemplates: NoteTemplate[] = [
+  template('basis', 'Basis of Preparation',
+    'These financial statements cover {{period}} and are presented in {{currency}}. They are prepared from the balances recorded in the general ledger.',
+    'none', [], 'always'),
+  template('revenue', 'Revenue',
+    'Revenue is recognised when goods or services are delivered to the customer. Revenue and other income for the period were {{total}}.',
+    'accounts', [AccountSubType.OPERATING_REVENUE, AccountSubType.OTHER_INCOME]),
+  template('expenses', 'Expenses',
+    'Expenses for the period were {{total}}, including depreciation of {{depreciation}}.',
+    'accounts', [AccountSubType.COST_OF_SALES, AccountSubType.OPERATING_EXPENSE, AccountSubType.DEPRECIATION, AccountSubType.OTHER_EXPENSE]),
+  template('cash', 'Cash and Cash Equivalents',
+    'Cash and cash equivalents comprise {{accounts}}, totalling {{total}} at {{periodEnd}}.',
+    'accounts', [AccountSubType.CASH_EQUIVALENT]),
+  template('receivables', 'Trade and Other Receivables',
+    'Receivables and other current assets at {{periodEnd}} were {{total}}.',
+    'accounts', [AccountSubType.RECEIVABLE, AccountSubType.CURRENT_ASSET]),
+  template('inventory', 'Inventory',
+    'Inventory at {{periodEnd}} was {{total}}.',
+    'accounts', [AccountSubType.INVENTORY]),
+  template('ppe', 'Property, Plant and Equipment',
+    'Property, plant and equipment is carried at cost less accumulated depreciation. Additions in the period were {{additions}}; the depreciation charge of {{depreciation}} is included in expenses (note {{note:expenses}}).',
+    'movement', [AccountSubType.NON_CURRENT_ASSET, AccountSubType.ACCUMULATED_DEPRECIATION]),
+  template('payables', 'Trade and Other Payables',
+    'Payables and other current liabilities at {{periodEnd}} were {{total}}.',
+    'accounts', [AccountSubType.PAYABLE, AccountSubType.CURRENT_LIABILITY]),
+  template('borrowings', 'Non-Current Liabilities',
+    'Non-current liabilities moved from {{opening}} to {{total}}: {{additions}} was drawn and {{reductions}} repaid.',
+    'movement', [AccountSubType.NON_CURRENT_LIABILITY]),
+  template('equity', 'Share Capital',
+    'Share capital at {{periodEnd}} was {{total}}, after {{additions}} issued in the period.',
+    'movement', [AccountSubType.SHARE_CAPITAL])
+];
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)(?::([^}\s]+))?\s*\}\}/g;
+const KNOWN_PLACEHOLDERS = ['period', 'periodEnd', 'currency', 'accounts', 'total', 'opening', 'additions', 'reductions', 'depreciation', 'note'];
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const isProfitAndLoss = (category: AccountCategory) => category === AccountCategory.REVENUE || category === AccountCategory.EXPENSE;
+const increasesWith = (category: AccountCategory) =>
+  category === AccountCategory.ASSET || category === AccountCategory.EXPENSE ? TransactionType.DEBIT : TransactionType.CREDIT;
+
+// Positive on the side the account's category normally carries, as on the statements
+const natural = (category: AccountCategory, m: Movement = { debit: 0, credit: 0 }) =>
+  increasesWith(category) === TransactionType.DEBIT ? m.debit - m.credit : m.credit - m.debit;
+
+// Profit and loss accounts start every period at nil; balance-sheet accounts carry their balance forward
+const figures = (account: Account, ctx: NoteContext) => {
+  const moved = ctx.movement.get(account.code) ?? { debit: 0, credit: 0 };
+  const opening = isProfitAndLoss(account.category) ? 0 : natural(account.category, ctx.opening.get(account.code));
+  const debitSide = increasesWith(account.category) === TransactionType.DEBIT;
+  const additions = debitSide ? moved.debit : moved.credit;
+  const reductions = debitSide ? moved.credit : moved.debit;
+  return { opening, additions, reductions, closing: opening + additions - reductions };
+};
+
+const hasActivity = (account: Account, ctx: NoteContext) => {
+  const f = figures(account, ctx);
+  return round(f.closing) !== 0 || f.additions !== 0 || f.reductions !== 0;
+};
+
+export const noteAccounts = (template: NoteTemplate, chart: Account[]): Account[] =>
+  chart.filter(a => template.subTypes.includes(a.subType) && a.subType !== AccountSubType.RETAINED_EARNINGS);
+
+// Auto notes without any accounts have nothing to test and are presented like `always`
+const isPresented = (template: NoteTemplate, ctx: NoteContext) => {
+  if (template.inclusion !== 'auto') return template.inclusion === 'always';
+  const accounts = noteAccounts(template, ctx.chart);
+  return template.subTypes.length === 0 || accounts.some(a => hasActivity(a, ctx));
+};
+
+// Placeholders the engine does not recognise, and note references to templates that do not exist
+export const templateProblems = (template: NoteTemplate, templates: NoteTemplate[]): string[] => {
+  const problems: string[] = [];
+  if (!template.title.trim()) problems.push('The note has no title');
+  for (const [token, name, arg] of template.body.matchAll(PLACEHOLDER)) {
+    if (!KNOWN_PLACEHOLDERS.includes(name)) problems.push(`${token} is not a placeholder`);
+    else if (name === 'note' && !templates.some(t => t.id === arg)) problems.push(`${token} refers to no note template`);
+  }
+  if (template.table !== 'none' && template.subTypes.length === 0) problems.push('The note has a table but covers no accounts');
+  return problems;
+};
+
+// Presents the included templates in order, numbered from 1, and maps each covered account code to
+// the first note that analyses it so statement lines can cross-reference their note
+export const buildNotes = (templates: NoteTemplate[], ctx: NoteContext): { notes: FinancialNote[]; references: Map<string, number> } => {
+  const presented = templates.filter(t => isPresented(t, ctx));
+  const numbers = new Map(presented.map((t, i) => [t.id, i + 1] as [string, number]));
+  const money = (amount: number) => new Intl.NumberFormat(undefined, { style: 'currency', currency: ctx.currency }).format(round(amount * ctx.rate));
+  const depreciation = ctx.chart
+    .filter(a => a.subType === AccountSubType.DEPRECIATION)
+    .reduce((s, a) => s + natural(a.category, ctx.movement.get(a.code)), 0);
+
+  const references = new Map<string, number>();
+  const notes = presented.map((t): FinancialNote => {
+    const noteNumber = numbers.get(t.id)!;
+    const accounts = noteAccounts(t, ctx.chart).filter(a => hasActivity(a, ctx));
+    accounts.forEach(a => { if (!references.has(a.code)) references.set(a.code, noteNumber); });
+
+    const perAccount = accounts.map(a => ({ account: a, ...figures(a, ctx) }));
+    const sum = (key: 'opening' | 'additions' | 'reductions' | 'closing') => perAccount.reduce((s, f) => s + f[key], 0);
+    const values: Record<string, string> = {
+      period: ctx.period?.label ?? 'all recorded activity',
+      periodEnd: ctx.period ? formatPeriodEnd(ctx.period) : 'the reporting date',
+      currency: ctx.currency,
+      accounts: accounts.length === 0 ? 'no accounts' : accounts.map(a => a.name).join(', '),
+      total: money(sum('closing')),
+      opening: money(sum('opening')),
+      additions: money(sum('additions')),
+      reductions: money(sum('reductions')),
+      depreciation: money(depreciation)
+    };
+    const content = t.body.replace(PLACEHOLDER, (token, name: string, arg?: string) => {
+      if (name === 'note') return arg && numbers.has(arg) ? String(numbers.get(arg)) : 'n/a';
+      return values[name] ?? token;
+    });
+
+    let data: StatementItem[] | undefined;
+    if (t.table === 'accounts') {
+      data = perAccount.map(f => ({
+        label: f.account.name,
+        amount: f.closing,
+        source: { accountCodes: [f.account.code], basis: isProfitAndLoss(f.account.category) ? 'movement' : 'balance', increasesWith: increasesWith(f.account.category) }
+      }));
+    } else if (t.table === 'movement') {
+      // Rows add up to the closing balance, so every layout's sum-of-rows total still holds
+      data = [
+        { label: 'Opening balance', amount: sum('opening') },
+        { label: 'Additions', amount: sum('additions') },
+        { label: 'Reductions', amount: -sum('reductions') }
+      ];
+    }
+    return { id: t.id, noteNumber, title: t.title, content, data, totalLabel: t.table === 'movement' ? 'Closing balance' : undefined };
+  });
+  return { notes, references };
+};
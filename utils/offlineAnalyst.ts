@@ -0,0 +1,182 @@
+import { AccountCategory, AccountSubType, CitableReport, FinancialStatements, KpiUnit, RiskSeverity } from '../types';
+import { formatCurrency } from './finance';
+import { RISK_SEVERITIES, buildCitationCatalog } from './analysisReport';
+
+const CURRENT_ASSETS = [AccountSubType.CASH_EQUIVALENT, AccountSubType.RECEIVABLE, AccountSubType.INVENTORY, AccountSubType.CURRENT_ASSET];
+const CURRENT_LIABILITIES = [AccountSubType.PAYABLE, AccountSubType.CURRENT_LIABILITY];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const ratio = (value: number) => `${value.toFixed(2)}x`;
+
+// Whole months covered by the period, used to turn period expenses into a monthly burn
+const monthsCovered = (statements: FinancialStatements): number | null => {
+  const period = statements.period;
+  if (!period) return null;
+  const [sy, sm] = period.start.split('-').map(Number);
+  const [ey, em] = period.end.split('-').map(Number);
+  return (ey - sy) * 12 + (em - sm) + 1;
+};
+
+// The response shape the language models are asked for, with citations as catalogue ids
+interface Claim { text: string; citations: string[] }
+interface OfflineReport {
+  summary: Claim;
+  sections: { title: string; claims: Claim[] }[];
+  kpis: { label: string; value: number; unit: KpiUnit; citations: string[] }[];
+  risks: { title: string; severity: RiskSeverity; detail: string; citations: string[] }[];
+  recommendations: { title: string; detail: string; citations: string[] }[];
+}
+
+// A rule-based report written from the statements alone, in the same structure the language models
+// are asked for. The same statements always give the same report, so it also serves as a baseline
+// when no provider is configured or the network is unavailable.
+export const buildOfflineAnalysis = (statements: FinancialStatements): OfflineReport => {
+  const money = (amount: number) => formatCurrency(amount, statements.currency);
+  const { incomeStatement: is, balanceSheet: bs, cashFlow: cf, variance } = statements;
+
+  const catalog = buildCitationCatalog(statements);
+  const cite = (report: CitableReport, ...labels: string[]) =>
+    labels.flatMap(label => catalog.filter(l => l.report === report && l.label === label).map(l => l.id).slice(0, 1));
+  const risks: OfflineReport['risks'] = [];
+  const recommendations: OfflineReport['recommendations'] = [];
+  const flag = (severity: RiskSeverity, title: string, detail: string, action: string, citations: string[]) => {
+    risks.push({ title, severity, detail, citations });
+    recommendations.push({ title, detail: action, citations });
+  };
+
+  const signed = (category: AccountCategory, subTypes: AccountSubType[]) => statements.trialBalance
+    .filter(i => subTypes.includes(i.subType))
+    .reduce((s, i) => s + (category === AccountCategory.ASSET ? i.debit - i.credit : i.credit - i.debit), 0);
+  const lineLabels = (category: AccountCategory, subTypes: AccountSubType[]) =>
+    statements.trialBalance.filter(i => i.category === category && subTypes.includes(i.subType)).map(i => i.accountName);
+  const currentAssets = signed(AccountCategory.ASSET, CURRENT_ASSETS);
+  const currentLiabilities = signed(AccountCategory.LIABILITY, CURRENT_LIABILITIES);
+  const cash = signed(AccountCategory.ASSET, [AccountSubType.CASH_EQUIVALENT]);
+  const cashLines = cite('balance-sheet', ...lineLabels(AccountCategory.ASSET, [AccountSubType.CASH_EQUIVALENT]));
+  const operatingCash = cf.operating.reduce((s, i) => s + i.amount, 0);
+  const margin = is.totalRevenue ? is.netIncome / is.totalRevenue : null;
+  const months = monthsCovered(statements);
+  const profitable = is.netIncome >= 0;
+
+  const netIncome = cite('income', 'NET INCOME');
+  const revenue = cite('income', 'Total Revenue');
+  const operating = cite('cashflow', 'Net Cash from Operating Activities');
+  const kpis: OfflineReport['kpis'] = [
+    { label: 'Revenue', value: is.totalRevenue, unit: 'currency', citations: revenue },
+    { label: 'Net income', value: is.netIncome, unit: 'currency', citations: netIncome },
+    { label: 'Operating cash flow', value: operatingCash, unit: 'currency', citations: operating }
+  ];
+  if (margin !== null) kpis.push({ label: 'Net margin', value: margin * 100, unit: 'percent', citations: [...netIncome, ...revenue] });
+
+  // Profitability
+  const profitability: Claim[] = [{
+    text: `Revenue ${money(is.totalRevenue)}, expenses ${money(is.totalExpenses)}, net ${profitable ? 'profit' : 'loss'} ${money(Math.abs(is.netIncome))}.`,
+    citations: [...revenue, ...cite('income', 'Total Expenses'), ...netIncome]
+  }];
+  const topExpenses = [...is.expenses].sort((a, b) => b.amount - a.amount).slice(0, 3);
+  if (topExpenses.length > 0) {
+    profitability.push({
+      text: `The largest costs were ${topExpenses.map(e => `${e.label} (${money(e.amount)}${is.totalRevenue ? `, ${percent(e.amount / is.totalRevenue)} of revenue` : ''})`).join(', ')}.`,
+      citations: cite('income', ...topExpenses.map(e => e.label))
+    });
+  }
+  if (is.totalRevenue === 0) profitability.push({ text: 'No revenue was recorded in the period.', citations: revenue });
+  const topRevenue = [...is.revenue].sort((a, b) => b.amount - a.amount)[0];
+  if (topRevenue && is.revenue.length > 1 && is.totalRevenue > 0 && topRevenue.amount / is.totalRevenue > 0.6) {
+    const share = percent(topRevenue.amount / is.totalRevenue);
+    profitability.push({ text: `${topRevenue.label} provides ${share} of revenue, a concentration risk.`, citations: cite('income', topRevenue.label, 'Total Revenue') });
+    flag('medium', 'Revenue concentration', `${topRevenue.label} carries ${share} of revenue.`, `Broaden revenue beyond ${topRevenue.label}.`, cite('income', topRevenue.label, 'Total Revenue'));
+  }
+  if (margin !== null && margin < 0) {
+    flag('high', 'Loss-making', `The period closed with a net loss of ${money(-is.netIncome)}.`, 'Return to profitability: review the largest cost lines against the revenue they support.', [...netIncome, ...revenue]);
+  } else if (margin !== null && margin < 0.05) {
+    flag('medium', 'Thin margin', `The net margin of ${percent(margin)} leaves little headroom.`, 'Protect pricing and watch discretionary costs.', [...netIncome, ...revenue]);
+  }
+
+  // Financial position
+  const totals = cite('balance-sheet', 'Total Assets', 'Total Liabilities', 'Total Equity');
+  const position: Claim[] = [{
+    text: `Total assets ${money(bs.totalAssets)}, total liabilities ${money(bs.totalLiabilities)}, total equity ${money(bs.totalEquity)}${bs.totalAssets > 0 ? `; equity funds ${percent(bs.totalEquity / bs.totalAssets)} of assets` : ''}.`,
+    citations: totals
+  }];
+  if (bs.totalEquity > 0) {
+    const gearing = bs.totalLiabilities / bs.totalEquity;
+    kpis.push({ label: 'Liabilities to equity', value: gearing, unit: 'ratio', citations: cite('balance-sheet', 'Total Liabilities', 'Total Equity') });
+    position.push({ text: `Liabilities to equity is ${ratio(gearing)}.`, citations: cite('balance-sheet', 'Total Liabilities', 'Total Equity') });
+    if (gearing > 2) flag('high', 'High gearing', `Liabilities are ${ratio(gearing)} equity.`, 'Prioritise paying down debt or raising equity.', cite('balance-sheet', 'Total Liabilities', 'Total Equity'));
+  } else {
+    flag('critical', 'Negative equity', `Liabilities exceed assets by ${money(-bs.totalEquity)}.`, 'Restore positive equity through retained profits or a capital injection.', totals);
+  }
+  const equityLines = statements.equityChanges.map(e => e.accountName);
+  const withdrawals = statements.equityChanges.reduce((s, e) => s + e.withdrawals, 0);
+  const additions = statements.equityChanges.reduce((s, e) => s + e.additions, 0);
+  if (additions > 0) position.push({ text: `Owners contributed ${money(additions)} during the period.`, citations: cite('equity', ...equityLines) });
+  if (withdrawals > 0) {
+    position.push({ text: `Drawings and dividends of ${money(withdrawals)} were taken from equity.`, citations: cite('equity', ...equityLines) });
+    if (withdrawals > Math.max(is.netIncome, 0)) {
+      flag('medium', 'Distributions exceed earnings', `Distributions of ${money(withdrawals)} exceed the period's earnings.`, 'Align payouts with profit.', [...cite('equity', ...equityLines), ...netIncome]);
+    }
+  }
+
+  // Liquidity
+  const liquidity: Claim[] = [];
+  const currentLines = [
+    ...cite('balance-sheet', ...lineLabels(AccountCategory.ASSET, CURRENT_ASSETS)),
+    ...cite('balance-sheet', ...lineLabels(AccountCategory.LIABILITY, CURRENT_LIABILITIES))
+  ];
+  if (currentLiabilities > 0) {
+    const currentRatio = currentAssets / currentLiabilities;
+    kpis.push({ label: 'Current ratio', value: currentRatio, unit: 'ratio', citations: currentLines });
+    liquidity.push({ text: `Current assets of ${money(currentAssets)} against current liabilities of ${money(currentLiabilities)} give a current ratio of ${ratio(currentRatio)}.`, citations: currentLines });
+    if (currentRatio < 1) flag('high', 'Weak liquidity', `The current ratio of ${ratio(currentRatio)} is below 1.`, 'Secure working capital before obligations fall due.', currentLines);
+  } else {
+    liquidity.push({ text: `Current assets total ${money(currentAssets)} with no current liabilities outstanding.`, citations: currentLines });
+  }
+  liquidity.push({
+    text: `Operating cash flow of ${money(operatingCash)} against net income of ${money(is.netIncome)}${is.netIncome > 0 ? ` (cash conversion ${percent(operatingCash / is.netIncome)})` : ''}.`,
+    citations: [...operating, ...netIncome]
+  });
+  if (is.netIncome > 0 && operatingCash < is.netIncome * 0.8) {
+    flag('medium', 'Low cash conversion', `Only ${percent(operatingCash / is.netIncome)} of profit turned into operating cash.`, 'Tighten collection of receivables and review inventory levels.', [...operating, ...netIncome]);
+  }
+  if (months && is.totalExpenses > 0) {
+    const burn = is.totalExpenses / months;
+    const runway = cash / burn;
+    kpis.push({ label: 'Cash runway', value: runway, unit: 'months', citations: [...cashLines, ...cite('income', 'Total Expenses')] });
+    liquidity.push({ text: `Cash of ${money(cash)} covers ${runway.toFixed(1)} months of expenses at the period's average of ${money(burn)} a month.`, citations: [...cashLines, ...cite('income', 'Total Expenses')] });
+    if (runway < 3) flag('high', 'Short cash runway', `Cash covers only ${runway.toFixed(1)} months of expenses.`, 'Build a cash buffer of at least three months.', [...cashLines, ...cite('income', 'Total Expenses')]);
+  }
+  if (Math.abs(cf.difference) >= 0.01) {
+    liquidity.push({ text: `The cash flow statement does not reconcile to the movement in cash by ${money(cf.difference)}.`, citations: cite('cashflow', 'NET CHANGE IN CASH') });
+    flag('high', 'Unreconciled cash flow', `The cash flow statement is out by ${money(cf.difference)}.`, 'Investigate the difference before relying on the cash figures.', cite('cashflow', 'NET CHANGE IN CASH'));
+  }
+
+  // Material adverse budget variances, when there is a budget to compare against
+  if (variance.budgetLabel) variance.lines.filter(l => l.material && !l.favourable).sort((a, b) => a.variance - b.variance).slice(0, 3).forEach(l => {
+    flag('medium', `${l.accountName} over budget`,
+      `${l.accountName} is ${money(Math.abs(l.variance))} adverse to ${variance.budgetLabel}${l.variancePercent === null ? '' : ` (${l.variancePercent.toFixed(1)}%)`}.`,
+      'Confirm the cause and whether it recurs.', cite('variance', l.accountName));
+  });
+  if (recommendations.length === 0) {
+    recommendations.push({ title: 'Maintain controls', detail: 'No rule flagged a risk this period; keep monitoring the measures above.', citations: [...netIncome, ...operating] });
+  }
+
+  return {
+    summary: {
+      text: [
+        `${statements.period ? `For ${statements.period.label}` : 'Across all recorded activity'} the business ${profitable ? 'earned a net profit' : 'made a net loss'} of ${money(Math.abs(is.netIncome))} on revenue of ${money(is.totalRevenue)}${margin === null ? '' : `, a net margin of ${percent(margin)}`}.`,
+        `Operating activities ${operatingCash >= 0 ? 'generated' : 'consumed'} ${money(Math.abs(operatingCash))} of cash and the cash position ${cf.netCashFlow >= 0 ? 'rose' : 'fell'} by ${money(Math.abs(cf.netCashFlow))} to ${money(cf.closingCash)}.`,
+        `Equity stands at ${money(bs.totalEquity)} against total assets of ${money(bs.totalAssets)}.`
+      ].join(' '),
+      citations: [...netIncome, ...revenue, ...operating, ...cite('cashflow', 'NET CHANGE IN CASH'), ...cite('balance-sheet', 'Total Equity', 'Total Assets')]
+    },
+    sections: [
+      { title: 'Profitability & Growth Analysis', claims: profitability },
+      { title: 'Equity & Financial Position', claims: position },
+      { title: 'Liquidity & Cash Sustainability', claims: liquidity }
+    ],
+    kpis,
+    risks: risks.sort((a, b) => RISK_SEVERITIES.indexOf(a.severity) - RISK_SEVERITIES.indexOf(b.severity)),
+    recommendations
+  };
+};
@@ -0,0 +1,156 @@
+// A small PDF writer for text reports: standard Helvetica fonts, lines, filled boxes and internal links.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+export type PdfColour = [number, number, number]; // 0-255 RGB
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold', italic: 'Helvetica-Oblique' };
+const FONT_KEYS: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3' };
+
+// Advance widths in 1/1000 em for characters 32-126, from the Adobe core font metrics
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that the WinAnsi encoding still has a code for
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const encodeChar = (ch: string): number => {
+  if (WIN_ANSI[ch]) return WIN_ANSI[ch];
+  const code = ch.charCodeAt(0);
+  if (code === 0x202f || code === 0x2009 || code === 0xa0) return 32; // Narrow and non-breaking spaces from Intl
+  if (code === 0x2212) return 45; // Unicode minus sign
+  return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63; // Anything else prints as '?'
+};
+
+export const textWidth = (text: string, font: PdfFont, size: number): number => {
+  const table = font === 'bold' ? HELVETICA_BOLD : HELVETICA;
+  let units = 0;
+  for (const ch of text) {
+    const code = encodeChar(ch);
+    units += code >= 32 && code <= 126 ? table[code - 32] : 556;
+  }
+  return units * size / 1000;
+};
+
+// Greedy word wrap; words longer than the line are left to overflow
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const next = line ? `${line} ${word}` : word;
+      if (line && textWidth(next, font, size) > maxWidth) { lines.push(line); line = word; }
+      else line = next;
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const pdfString = (text: string) => {
+  let out = '(';
+  for (const ch of text) {
+    const code = encodeChar(ch);
+    out += code === 40 || code === 41 || code === 92 ? `\\${String.fromCharCode(code)}` : String.fromCharCode(code);
+  }
+  return `${out})`;
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const colour = ([r, g, b]: PdfColour) => `${num(r / 255)} ${num(g / 255)} ${num(b / 255)}`;
+
+interface PdfLink { page: number; x: number; y: number; width: number; height: number; targetPage: number }
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  colour?: PdfColour;
+  align?: 'left' | 'right' | 'center'; // Relative to x
+}
+
+export interface PdfDocument {
+  width: number;
+  height: number;
+  pageCount: () => number;
+  addPage: () => number; // Returns the new page's index, from 0
+  text: (page: number, text: string, x: number, y: number, options?: PdfTextOptions) => void; // y is the baseline
+  line: (page: number, x1: number, y1: number, x2: number, y2: number, width?: number, stroke?: PdfColour) => void;
+  rect: (page: number, x: number, y: number, width: number, height: number, fill: PdfColour) => void;
+  link: (page: number, x: number, y: number, width: number, height: number, targetPage: number) => void;
+  build: (title: string) => Uint8Array;
+}
+
+export const createPdfDocument = (width: number = A4.width, height: number = A4.height): PdfDocument => {
+  const pages: string[][] = [];
+  const links: PdfLink[] = [];
+  const flip = (y: number) => num(height - y);
+
+  return {
+    width,
+    height,
+    pageCount: () => pages.length,
+    addPage: () => pages.push([]) - 1,
+    text: (page, text, x, y, style = {}) => {
+      const font = style.font ?? 'regular';
+      const size = style.size ?? 10;
+      const w = textWidth(text, font, size);
+      const left = style.align === 'right' ? x - w : style.align === 'center' ? x - w / 2 : x;
+      pages[page].push(`BT ${colour(style.colour ?? [15, 23, 42])} rg /${FONT_KEYS[font]} ${num(size)} Tf ${num(left)} ${flip(y)} Td ${pdfString(text)} Tj ET`);
+    },
+    line: (page, x1, y1, x2, y2, lineWidth = 0.5, stroke = [148, 163, 184]) => {
+      pages[page].push(`${colour(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${flip(y1)} m ${num(x2)} ${flip(y2)} l S`);
+    },
+    rect: (page, x, y, w, h, fill) => {
+      pages[page].push(`${colour(fill)} rg ${num(x)} ${flip(y + h)} ${num(w)} ${num(h)} re f`);
+    },
+    link: (page, x, y, w, h, targetPage) => links.push({ page, x, y, width: w, height: h, targetPage }),
+    build: (title) => {
+      // Object numbers: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page and its content stream per page
+      const pageObj = (i: number) => 7 + i * 2;
+      const objects: string[] = [];
+      objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+      objects[2] = `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+      (['regular', 'bold', 'italic'] as PdfFont[]).forEach((font, i) => {
+        objects[3 + i] = `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`;
+      });
+      objects[6] = `<< /Title ${pdfString(title)} /Producer (FinReport Pro) >>`;
+      pages.forEach((ops, i) => {
+        const annots = links.filter(l => l.page === i).map(l =>
+          `<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${num(l.x)} ${flip(l.y + l.height)} ${num(l.x + l.width)} ${flip(l.y)}] /Dest [${pageObj(l.targetPage)} 0 R /XYZ 0 ${num(height)} 0] >>`);
+        objects[pageObj(i)] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageObj(i) + 1} 0 R${annots.length ? ` /Annots [${annots.join(' ')}]` : ''} >>`;
+        const stream = ops.join('\n');
+        objects[pageObj(i) + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+      });
+
+      // Every character above is a single byte, so string offsets are byte offsets
+      let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+      const offsets: number[] = [];
+      for (let n = 1; n < objects.length; n++) {
+        offsets[n] = out.length;
+        out += `${n} 0 obj\n${objects[n]}\nendobj\n`;
+      }
+      const xref = out.length;
+      out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+      for (let n = 1; n < objects.length; n++) out += `${String(offsets[n]).padStart(10, '0')} 00000 n \n`;
+      out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      const bytes = new Uint8Array(out.length);
+      for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+      return bytes;
+    }
+  };
+};
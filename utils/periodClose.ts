@@ -0,0 +1,98 @@
+import { Account, AccountCategory, AccountSubType, ClosedPeriod, JournalEntry, JournalLine, PostingAudit, ReportingPeriod, TransactionType } from '../types';
+import { LedgerError, flattenEntries, postEntries, uniqueEntryId } from './ledger';
+import { reverseEntries, reversalsByEntry } from './audit';
+import { toDateKey } from './periods';
+
+// Revenue, expense and drawings accounts start every period at zero
+const isTemporaryAccount = (acc: Account) =>
+  acc.category === AccountCategory.REVENUE || acc.category === AccountCategory.EXPENSE || acc.subType === AccountSubType.DRAWINGS;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Latest date covered by a closed period; nothing may be posted on or before it
+export const lockedThrough = (closed: ClosedPeriod[]): string | undefined =>
+  closed.reduce<string | undefined>((latest, p) => (!latest || p.end > latest ? p.end : latest), undefined);
+
+export const isPeriodClosed = (period: ReportingPeriod, closed: ClosedPeriod[]): boolean => {
+  const lock = lockedThrough(closed);
+  return !!lock && period.end <= lock;
+};
+
+// Signed (debit positive) balance per account, in cents, for everything posted up to the date
+const balancesAsOf = (entries: JournalEntry[], chart: Account[], date: string): Map<string, number> => {
+  const balances = new Map<string, number>();
+  flattenEntries(entries.filter(e => toDateKey(e.date) <= date), chart).forEach(tx => {
+    const signed = tx.type === TransactionType.DEBIT ? toCents(tx.amount) : -toCents(tx.amount);
+    balances.set(tx.accountCode, (balances.get(tx.accountCode) ?? 0) + signed);
+  });
+  return balances;
+};
+
+// Zeroes every temporary account into retained earnings as of the period end.
+// Returns null when there is nothing left to close.
+export const buildClosingEntry = (entries: JournalEntry[], chart: Account[], period: ReportingPeriod): JournalEntry | null => {
+  const retainedEarnings = chart.find(a => a.subType === AccountSubType.RETAINED_EARNINGS && a.active);
+  if (!retainedEarnings) throw new LedgerError('Cannot close a period without an active Retained Earnings account');
+
+  const balances = balancesAsOf(entries, chart, period.end);
+  const id = uniqueEntryId(entries, `close-${period.id}`);
+  const lines: JournalLine[] = [];
+  let net = 0;
+
+  chart.filter(isTemporaryAccount).forEach(acc => {
+    const balance = balances.get(acc.code) ?? 0;
+    if (balance === 0) return;
+    net += balance;
+    lines.push({ id: `${id}-${acc.code}`, accountCode: acc.code, amount: Math.abs(balance) / 100, type: balance > 0 ? TransactionType.CREDIT : TransactionType.DEBIT });
+  });
+  if (lines.length === 0) return null;
+
+  if (net !== 0) {
+    lines.push({ id: `${id}-${retainedEarnings.code}`, accountCode: retainedEarnings.code, amount: Math.abs(net) / 100, type: net > 0 ? TransactionType.DEBIT : TransactionType.CREDIT, description: 'Net result transferred to retained earnings' });
+  }
+
+  return { id, date: period.end, memo: `Closing entry ${period.label}`, reference: `CLOSE-${period.id}`, kind: 'closing', lines };
+};
+
+export const closePeriod = (
+  entries: JournalEntry[],
+  chart: Account[],
+  closed: ClosedPeriod[],
+  period: ReportingPeriod,
+  audit: PostingAudit
+): { entries: JournalEntry[]; closedPeriods: ClosedPeriod[] } => {
+  if (isPeriodClosed(period, closed)) throw new LedgerError(`${period.label} is already closed`);
+
+  const closingEntry = buildClosingEntry(entries, chart, period);
+  const nextEntries = closingEntry ? postEntries(entries, [closingEntry], chart, lockedThrough(closed), audit) : entries;
+
+  const carriedForward: Record<string, number> = {};
+  balancesAsOf(nextEntries, chart, period.end).forEach((cents, code) => {
+    const acc = chart.find(a => a.code === code);
+    if (cents !== 0 && acc && !isTemporaryAccount(acc)) carriedForward[code] = cents / 100;
+  });
+
+  return {
+    entries: nextEntries,
+    closedPeriods: [...closed, { periodId: period.id, label: period.label, start: period.start, end: period.end, closedAt: audit.postedAt, closingEntryId: closingEntry?.id ?? '', carriedForward }]
+  };
+};
+
+// Only the most recent close can be undone, so later periods never rest on a reopened one.
+// The closing entry stays in the ledger and is cancelled by a reversal on the period end.
+export const reopenLatestPeriod = (
+  entries: JournalEntry[],
+  chart: Account[],
+  closed: ClosedPeriod[],
+  audit: PostingAudit
+): { entries: JournalEntry[]; closedPeriods: ClosedPeriod[] } => {
+  const latest = lockedThrough(closed);
+  const target = closed.find(p => p.end === latest);
+  if (!target) throw new LedgerError('No closed period to reopen');
+  const closedPeriods = closed.filter(p => p !== target);
+  const reverse = target.closingEntryId && !reversalsByEntry(entries).has(target.closingEntryId);
+  return {
+    entries: reverse ? reverseEntries(entries, [target.closingEntryId], chart, lockedThrough(closedPeriods), audit) : entries,
+    closedPeriods
+  };
+};
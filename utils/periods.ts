@@ -0,0 +1,115 @@
+import { FiscalSettings, PeriodGranularity, ReportingPeriod } from '../types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTHS_LONG = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export const defaultFiscalSettings: FiscalSettings = { yearEndMonth: 12 };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const isoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+// Dates are compared as YYYY-MM-DD strings; anything after the day part is ignored
+export const toDateKey = (date: string): string => date.slice(0, 10);
+
+const parseYearMonth = (date: string): [number, number] => {
+  const [y, m] = toDateKey(date).split('-').map(Number);
+  return [y, m];
+};
+
+// First calendar month (1-12) of the fiscal year
+const fiscalStartMonth = (settings: FiscalSettings) => settings.yearEndMonth % 12 + 1;
+
+// Fiscal years are named after the calendar year they end in
+export const fiscalYearOf = (date: string, settings: FiscalSettings): number => {
+  const [y, m] = parseYearMonth(date);
+  return m > settings.yearEndMonth ? y + 1 : y;
+};
+
+const addMonths = (year: number, month: number, offset: number): [number, number] => {
+  const index = year * 12 + (month - 1) + offset;
+  return [Math.floor(index / 12), index % 12 + 1];
+};
+
+const buildPeriod = (granularity: PeriodGranularity, startYear: number, startMonth: number, settings: FiscalSettings): ReportingPeriod => {
+  const length = granularity === 'month' ? 1 : granularity === 'quarter' ? 3 : 12;
+  const [endYear, endMonth] = addMonths(startYear, startMonth, length - 1);
+  const start = isoDate(startYear, startMonth, 1);
+  const end = isoDate(endYear, endMonth, lastDayOfMonth(endYear, endMonth));
+  const fiscalYear = fiscalYearOf(end, settings);
+
+  let id: string;
+  let label: string;
+  if (granularity === 'month') {
+    id = `${startYear}-${pad(startMonth)}`;
+    label = `${MONTHS[startMonth - 1]} ${startYear}`;
+  } else if (granularity === 'quarter') {
+    const quarter = Math.floor(((startMonth - fiscalStartMonth(settings) + 12) % 12) / 3) + 1;
+    id = `FY${fiscalYear}-Q${quarter}`;
+    label = `Q${quarter} FY${fiscalYear}`;
+  } else {
+    id = `FY${fiscalYear}`;
+    label = `FY${fiscalYear}`;
+  }
+  return { id, label, granularity, start, end, fiscalYear };
+};
+
+export const periodContaining = (date: string, granularity: PeriodGranularity, settings: FiscalSettings): ReportingPeriod => {
+  const [y, m] = parseYearMonth(date);
+  if (granularity === 'month') return buildPeriod('month', y, m, settings);
+
+  const monthsIntoYear = (m - fiscalStartMonth(settings) + 12) % 12;
+  const monthsBack = granularity === 'quarter' ? monthsIntoYear % 3 : monthsIntoYear;
+  const [sy, sm] = addMonths(y, m, -monthsBack);
+  return buildPeriod(granularity, sy, sm, settings);
+};
+
+export const shiftPeriod = (period: ReportingPeriod, offset: number, settings: FiscalSettings): ReportingPeriod => {
+  const length = period.granularity === 'month' ? 1 : period.granularity === 'quarter' ? 3 : 12;
+  const [y, m] = parseYearMonth(period.start);
+  const [sy, sm] = addMonths(y, m, offset * length);
+  return buildPeriod(period.granularity, sy, sm, settings);
+};
+
+export const priorPeriod = (period: ReportingPeriod, settings: FiscalSettings): ReportingPeriod =>
+  shiftPeriod(period, -1, settings);
+
+export const isWithinPeriod = (date: string, period: ReportingPeriod): boolean => {
+  const key = toDateKey(date);
+  return key >= period.start && key <= period.end;
+};
+
+// Every period of the given granularity from the earliest to the latest date, most recent first
+export const listPeriods = (dates: string[], granularity: PeriodGranularity, settings: FiscalSettings): ReportingPeriod[] => {
+  const keys = dates.map(toDateKey).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d)).sort();
+  const today = new Date().toISOString().slice(0, 10);
+  const first = periodContaining(keys[0] ?? today, granularity, settings);
+  const last = periodContaining(keys[keys.length - 1] ?? today, granularity, settings);
+
+  const periods: ReportingPeriod[] = [];
+  for (let p = first; p.start <= last.start; p = shiftPeriod(p, 1, settings)) periods.push(p);
+  return periods.reverse();
+};
+
+export const formatPeriodEnd = (period: ReportingPeriod): string => {
+  const [y, m, d] = period.end.split('-').map(Number);
+  return `${MONTHS_LONG[m - 1]} ${d}, ${y}`;
+};
+
+export const monthName = (month: number): string => MONTHS_LONG[month - 1];
+
+// Month keys are YYYY-MM, e.g. "2024-03" reads "Mar 2024"
+export const monthKeyLabel = (monthKey: string): string => {
+  const [y, m] = monthKey.split('-').map(Number);
+  return `${MONTHS[m - 1]} ${y}`;
+};
+
+export const monthKeyEnd = (monthKey: string): string => {
+  const [y, m] = parseYearMonth(`${monthKey}-01`);
+  return isoDate(y, m, lastDayOfMonth(y, m));
+};
+
+export const shiftMonthKey = (monthKey: string, offset: number): string => {
+  const [y, m] = addMonths(...parseYearMonth(`${monthKey}-01`), offset);
+  return `${y}-${pad(m)}`;
+};
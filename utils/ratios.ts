@@ -0,0 +1,141 @@
+import { Account, AccountSubType, FinancialStatements, FiscalSettings, JournalEntry, KpiSettings, RatioId, RatioThreshold, ReportingPeriod } from '../types';
+import { StatementOptions, calculateStatements, formatCurrency } from './finance';
+import { shiftPeriod } from './periods';
+
+export type RatioGroup = 'liquidity' | 'leverage' | 'profitability' | 'efficiency' | 'cash';
+export type RatioUnit = 'times' | 'percent' | 'days' | 'currency' | 'months';
+export type RatioStatus = 'ok' | 'amber' | 'red' | 'none';
+
+export interface RatioDefinition {
+  label: string;
+  group: RatioGroup;
+  unit: RatioUnit;
+  formula: string;
+  higherIsBetter: boolean;
+  undefinedWhen: string; // Why the ratio has no value, e.g. a zero denominator
+}
+
+export type RatioValues = Record<RatioId, number | null>;
+
+export interface RatioPoint {
+  period: ReportingPeriod;
+  values: RatioValues;
+}
+
+export const RATIO_GROUP_LABELS: Record<RatioGroup, string> = {
+  liquidity: 'Liquidity',
+  leverage: 'Leverage',
+  profitability: 'Profitability',
+  efficiency: 'Efficiency',
+  cash: 'Cash Burn & Runway'
+};
+
+// In display order
+export const RATIO_DEFINITIONS: Record<RatioId, RatioDefinition> = {
+  currentRatio: { label: 'Current Ratio', group: 'liquidity', unit: 'times', formula: 'Current assets / Current liabilities', higherIsBetter: true, undefinedWhen: 'No current liabilities' },
+  quickRatio: { label: 'Quick Ratio', group: 'liquidity', unit: 'times', formula: '(Current assets - Inventory) / Current liabilities', higherIsBetter: true, undefinedWhen: 'No current liabilities' },
+  debtToEquity: { label: 'Debt to Equity', group: 'leverage', unit: 'times', formula: 'Total liabilities / Total equity', higherIsBetter: false, undefinedWhen: 'Equity is zero or negative' },
+  grossMargin: { label: 'Gross Margin', group: 'profitability', unit: 'percent', formula: '(Operating revenue - Cost of sales) / Operating revenue', higherIsBetter: true, undefinedWhen: 'No operating revenue' },
+  operatingMargin: { label: 'Operating Margin', group: 'profitability', unit: 'percent', formula: '(Operating revenue - Cost of sales - Operating expenses - Depreciation) / Operating revenue', higherIsBetter: true, undefinedWhen: 'No operating revenue' },
+  netMargin: { label: 'Net Margin', group: 'profitability', unit: 'percent', formula: 'Net income / Total revenue', higherIsBetter: true, undefinedWhen: 'No revenue' },
+  returnOnAssets: { label: 'Return on Assets', group: 'profitability', unit: 'percent', formula: 'Net income for the period / Total assets at its end', higherIsBetter: true, undefinedWhen: 'No assets' },
+  returnOnEquity: { label: 'Return on Equity', group: 'profitability', unit: 'percent', formula: 'Net income for the period / Total equity at its end', higherIsBetter: true, undefinedWhen: 'Equity is zero or negative' },
+  dso: { label: 'Days Sales Outstanding', group: 'efficiency', unit: 'days', formula: 'Trade receivables / Operating revenue x Days in period', higherIsBetter: false, undefinedWhen: 'No operating revenue' },
+  dpo: { label: 'Days Payable Outstanding', group: 'efficiency', unit: 'days', formula: 'Trade payables / (Cost of sales + Operating expenses) x Days in period', higherIsBetter: true, undefinedWhen: 'No cost of sales or operating expenses' },
+  assetTurnover: { label: 'Asset Turnover', group: 'efficiency', unit: 'times', formula: 'Total revenue for the period / Total assets at its end', higherIsBetter: true, undefinedWhen: 'No assets' },
+  cashBurn: { label: 'Monthly Cash Burn', group: 'cash', unit: 'currency', formula: '-(Net cash flow) / Months in period', higherIsBetter: false, undefinedWhen: 'The period has no length' },
+  runway: { label: 'Cash Runway', group: 'cash', unit: 'months', formula: 'Closing cash / Monthly cash burn', higherIsBetter: true, undefinedWhen: 'Cash is not falling' }
+};
+
+export const RATIO_IDS = Object.keys(RATIO_DEFINITIONS) as RatioId[];
+
+export const defaultKpiSettings: KpiSettings = {
+  pinned: ['currentRatio', 'netMargin', 'debtToEquity', 'runway'],
+  thresholds: {
+    currentRatio: { amber: 1.5, red: 1 },
+    quickRatio: { amber: 1, red: 0.7 },
+    debtToEquity: { amber: 1.5, red: 2.5 },
+    grossMargin: { amber: 30, red: 15 },
+    operatingMargin: { amber: 5, red: 0 },
+    netMargin: { amber: 5, red: 0 },
+    dso: { amber: 45, red: 60 },
+    runway: { amber: 12, red: 6 }
+  }
+};
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const daysIn = (period: ReportingPeriod) => Math.round((Date.parse(period.end) - Date.parse(period.start)) / 86400000) + 1;
+
+// A zero (or, where it says so, negative) denominator leaves the ratio undefined rather than infinite
+const divide = (numerator: number, denominator: number, positiveOnly = false): number | null =>
+  denominator === 0 || (positiveOnly && denominator < 0) ? null : numerator / denominator;
+
+const percent = (value: number | null) => value === null ? null : value * 100;
+
+// Balance-sheet lines are read off the trial balance by sub-type; P&L lines are the period's movements
+export const computeRatios = (statements: FinancialStatements): RatioValues => {
+  const { incomeStatement: is, balanceSheet: bs, cashFlow } = statements;
+  const debitBalance = (...subTypes: AccountSubType[]) => statements.trialBalance
+    .filter(i => subTypes.includes(i.subType)).reduce((s, i) => s + i.debit - i.credit, 0);
+  const creditBalance = (...subTypes: AccountSubType[]) => -debitBalance(...subTypes);
+
+  const inventory = debitBalance(AccountSubType.INVENTORY);
+  const currentAssets = debitBalance(AccountSubType.CASH_EQUIVALENT, AccountSubType.RECEIVABLE, AccountSubType.CURRENT_ASSET) + inventory;
+  const currentLiabilities = creditBalance(AccountSubType.PAYABLE, AccountSubType.CURRENT_LIABILITY);
+  const operatingRevenue = creditBalance(AccountSubType.OPERATING_REVENUE);
+  const costOfSales = debitBalance(AccountSubType.COST_OF_SALES);
+  const operatingExpenses = debitBalance(AccountSubType.OPERATING_EXPENSE);
+  const operatingIncome = operatingRevenue - costOfSales - operatingExpenses - debitBalance(AccountSubType.DEPRECIATION);
+
+  const days = statements.period ? daysIn(statements.period) : 0;
+  const months = days / DAYS_PER_MONTH;
+  const cashBurn = divide(-cashFlow.netCashFlow, months);
+
+  return {
+    currentRatio: divide(currentAssets, currentLiabilities),
+    quickRatio: divide(currentAssets - inventory, currentLiabilities),
+    debtToEquity: divide(bs.totalLiabilities, bs.totalEquity, true),
+    grossMargin: percent(divide(operatingRevenue - costOfSales, operatingRevenue)),
+    operatingMargin: percent(divide(operatingIncome, operatingRevenue)),
+    netMargin: percent(divide(is.netIncome, is.totalRevenue)),
+    returnOnAssets: percent(divide(is.netIncome, bs.totalAssets)),
+    returnOnEquity: percent(divide(is.netIncome, bs.totalEquity, true)),
+    dso: days ? divide(debitBalance(AccountSubType.RECEIVABLE) * days, operatingRevenue) : null,
+    dpo: days ? divide(creditBalance(AccountSubType.PAYABLE) * days, costOfSales + operatingExpenses) : null,
+    assetTurnover: divide(is.totalRevenue, bs.totalAssets),
+    cashBurn,
+    runway: cashBurn !== null && cashBurn > 0 ? cashFlow.closingCash / cashBurn : null
+  };
+};
+
+// The ratios of `count` consecutive periods ending with the given one, oldest first
+export const ratioTrend = (
+  entries: JournalEntry[],
+  chart: Account[],
+  period: ReportingPeriod,
+  fiscal: FiscalSettings,
+  options: StatementOptions,
+  count = 6
+): RatioPoint[] =>
+  Array.from({ length: count }, (_, i) => shiftPeriod(period, i - count + 1, fiscal))
+    .map(p => ({ period: p, values: computeRatios(calculateStatements(entries, chart, p, options)) }));
+
+export const ratioStatus = (id: RatioId, value: number | null, threshold?: RatioThreshold): RatioStatus => {
+  if (value === null || !threshold) return 'none';
+  const worse = (limit?: number) => limit !== undefined && (RATIO_DEFINITIONS[id].higherIsBetter ? value < limit : value > limit);
+  if (worse(threshold.red)) return 'red';
+  if (worse(threshold.amber)) return 'amber';
+  return threshold.red === undefined && threshold.amber === undefined ? 'none' : 'ok';
+};
+
+export const formatRatio = (id: RatioId, value: number | null, currency: string): string => {
+  if (value === null) return 'n/a';
+  switch (RATIO_DEFINITIONS[id].unit) {
+    case 'times': return `${value.toFixed(2)}x`;
+    case 'percent': return `${value.toFixed(1)}%`;
+    case 'days': return `${Math.round(value)} days`;
+    case 'currency': return formatCurrency(value, currency);
+    case 'months': return `${value.toFixed(1)} months`;
+  }
+};
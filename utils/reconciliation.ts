@@ -0,0 +1,261 @@
+import { Account, BankAccount, BankStatement, BankStatementItem, JournalEntry, MatchDecision, ReconciliationSettings, ReconciliationSummary, ReconMatch, Transaction, TransactionType } from '../types';
+import { reversalsByEntry } from './audit';
+import { flattenEntries } from './ledger';
+
+export const defaultReconciliationSettings: ReconciliationSettings = { dateToleranceDays: 3, minSimilarity: 0.3, maxGroupSize: 3 };
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+const cents = (amount: number) => Math.round(amount * 100);
+const DAY = 86400000;
+
+// Bank-side sign: debits to the cash account are deposits, credits are payments
+export const bankAmount = (tx: Transaction) => tx.type === TransactionType.DEBIT ? tx.amount : -tx.amount;
+
+export const bookLineKey = (tx: Transaction) => `${tx.entryId}:${tx.id}`;
+
+const normalise = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+const bigrams = (text: string): Map<string, number> => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) grams.set(text.slice(i, i + 2), (grams.get(text.slice(i, i + 2)) ?? 0) + 1);
+  return grams;
+};
+
+// Dice coefficient over character bigrams: 1 for identical text, 0 for nothing in common
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const [x, y] = [normalise(a), normalise(b)];
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  const [gx, gy] = [bigrams(x), bigrams(y)];
+  let shared = 0;
+  gx.forEach((count, gram) => { shared += Math.min(count, gy.get(gram) ?? 0); });
+  return (2 * shared) / (x.length - 1 + y.length - 1 || 1);
+};
+
+const sameGroup = (decision: MatchDecision, bookKeys: string[], statementIds: string[]) =>
+  decision.bookLineKeys.length === bookKeys.length && decision.statementItemIds.length === statementIds.length &&
+  bookKeys.every(k => decision.bookLineKeys.includes(k)) && statementIds.every(id => decision.statementItemIds.includes(id));
+
+export const buildMatch = (book: Transaction[], statement: BankStatementItem[], score?: number, confirmed?: boolean): ReconMatch => {
+  const difference = round(statement.reduce((s, i) => s + i.amount, 0) - book.reduce((s, tx) => s + bankAmount(tx), 0));
+  return {
+    id: [...book.map(bookLineKey), ...statement.map(s => s.id)].join('+'),
+    bookEntries: book,
+    statementEntries: statement,
+    status: book.length === 0 ? 'missing_in_book' : statement.length === 0 ? 'missing_in_statement' : cents(difference) === 0 ? 'matched' : 'amount_mismatch',
+    difference,
+    score,
+    confirmed
+  };
+};
+
+// Smallest combination of up to maxSize items whose amounts add up exactly to the target
+const findCombination = <T>(items: T[], amountOf: (item: T) => number, target: number, maxSize: number): T[] | null => {
+  const search = (start: number, remaining: number, picked: T[], size: number): T[] | null => {
+    if (picked.length === size) return remaining === 0 ? picked : null;
+    for (let i = start; i < items.length; i++) {
+      const amount = cents(amountOf(items[i]));
+      if (Math.abs(amount) > Math.abs(remaining)) continue;
+      const found = search(i + 1, remaining - amount, [...picked, items[i]], size);
+      if (found) return found;
+    }
+    return null;
+  };
+  for (let size = 2; size <= maxSize; size++) {
+    const found = search(0, target, [], size);
+    if (found) return found;
+  }
+  return null;
+};
+
+export interface MatchDecisions {
+  confirmedMatches?: MatchDecision[];
+  rejectedMatches?: MatchDecision[];
+}
+
+// Matching runs in passes: confirmed decisions, exact one-to-one amounts, many-to-one and
+// one-to-many combinations, then similar descriptions whose amounts differ. Book lines in
+// broughtForward were outstanding on an earlier statement and may clear any time after their date.
+export const performBankReconciliation = (
+  bookEntries: Transaction[],
+  statementEntries: BankStatementItem[],
+  settings: ReconciliationSettings = defaultReconciliationSettings,
+  decisions: MatchDecisions = {},
+  broughtForward: Set<string> = new Set()
+): ReconMatch[] => {
+  const matches: ReconMatch[] = [];
+  const book = new Map(bookEntries.map(tx => [bookLineKey(tx), tx]));
+  const bank = new Map(statementEntries.map(st => [st.id, st]));
+  const tolerance = settings.dateToleranceDays * DAY;
+
+  const inWindow = (tx: Transaction, st: BankStatementItem) => {
+    const gap = Date.parse(st.date) - Date.parse(tx.date);
+    return gap >= -tolerance && (gap <= tolerance || broughtForward.has(bookLineKey(tx)));
+  };
+  const pairScore = (tx: Transaction, st: BankStatementItem) => {
+    const gap = Math.min(Math.abs(Date.parse(st.date) - Date.parse(tx.date)), tolerance + DAY);
+    return round((1 - gap / (tolerance + DAY)) * 0.5 + descriptionSimilarity(tx.description, st.description) * 0.5);
+  };
+  const isRejected = (txs: Transaction[], sts: BankStatementItem[]) =>
+    (decisions.rejectedMatches ?? []).some(d => sameGroup(d, txs.map(bookLineKey), sts.map(s => s.id)));
+  const take = (txs: Transaction[], sts: BankStatementItem[], score: number, confirmed?: boolean) => {
+    txs.forEach(tx => book.delete(bookLineKey(tx)));
+    sts.forEach(st => bank.delete(st.id));
+    matches.push(buildMatch(txs, sts, score, confirmed));
+  };
+  const greedy = (pairs: { tx: Transaction; st: BankStatementItem; score: number }[]) =>
+    pairs.sort((a, b) => b.score - a.score).forEach(p => {
+      if (book.has(bookLineKey(p.tx)) && bank.has(p.st.id)) take([p.tx], [p.st], p.score);
+    });
+
+  (decisions.confirmedMatches ?? []).forEach(d => {
+    const txs = d.bookLineKeys.map(k => book.get(k));
+    const sts = d.statementItemIds.map(id => bank.get(id));
+    if (txs.every(Boolean) && sts.every(Boolean)) take(txs as Transaction[], sts as BankStatementItem[], 1, true);
+  });
+
+  const candidatePairs = (accept: (tx: Transaction, st: BankStatementItem) => number | null) => {
+    const pairs: { tx: Transaction; st: BankStatementItem; score: number }[] = [];
+    book.forEach(tx => bank.forEach(st => {
+      if (!inWindow(tx, st) || isRejected([tx], [st])) return;
+      const score = accept(tx, st);
+      if (score !== null) pairs.push({ tx, st, score });
+    }));
+    return pairs;
+  };
+
+  greedy(candidatePairs((tx, st) => cents(bankAmount(tx)) === cents(st.amount) ? pairScore(tx, st) : null));
+
+  if (settings.maxGroupSize > 1) {
+    const sameDirection = (a: number, b: number) => Math.sign(a) === Math.sign(b);
+    [...bank.values()].forEach(st => {
+      const candidates = [...book.values()].filter(tx => inWindow(tx, st) && sameDirection(bankAmount(tx), st.amount)).slice(0, 15);
+      const combo = findCombination(candidates, bankAmount, cents(st.amount), settings.maxGroupSize);
+      if (combo && !isRejected(combo, [st])) take(combo, [st], round(combo.reduce((s, tx) => s + pairScore(tx, st), 0) / combo.length));
+    });
+    [...book.values()].forEach(tx => {
+      const candidates = [...bank.values()].filter(st => inWindow(tx, st) && sameDirection(bankAmount(tx), st.amount)).slice(0, 15);
+      const combo = findCombination(candidates, st => st.amount, cents(bankAmount(tx)), settings.maxGroupSize);
+      if (combo && !isRejected([tx], combo)) take([tx], combo, round(combo.reduce((s, st) => s + pairScore(tx, st), 0) / combo.length));
+    });
+  }
+
+  greedy(candidatePairs((tx, st) => {
+    if (Math.sign(bankAmount(tx)) !== Math.sign(st.amount)) return null;
+    const similarity = descriptionSimilarity(tx.description, st.description);
+    return similarity >= settings.minSimilarity ? pairScore(tx, st) : null;
+  }));
+
+  book.forEach(tx => matches.push(buildMatch([tx], [])));
+  bank.forEach(st => matches.push(buildMatch([], [st])));
+  return matches;
+};
+
+// The reconciliation proves when the statement balance, adjusted for book items the bank
+// has not yet processed, equals the book balance adjusted for bank items not yet recorded.
+export const summariseReconciliation = (matches: ReconMatch[], statement: BankStatement, bookBalance: number): ReconciliationSummary => {
+  const unmatchedBook = matches.filter(m => m.status === 'missing_in_statement').flatMap(m => m.bookEntries.map(bankAmount));
+  const depositsInTransit = round(unmatchedBook.filter(a => a > 0).reduce((s, a) => s + a, 0));
+  const outstandingPayments = round(-unmatchedBook.filter(a => a < 0).reduce((s, a) => s + a, 0));
+  const unrecordedBankItems = round(matches.filter(m => m.status === 'missing_in_book').reduce((s, m) => s + m.difference, 0));
+  const amountDifferences = round(matches.filter(m => m.status === 'amount_mismatch').reduce((s, m) => s + m.difference, 0));
+  const adjustedBankBalance = round(statement.closingBalance + depositsInTransit - outstandingPayments);
+  const adjustedBookBalance = round(bookBalance + unrecordedBankItems + amountDifferences);
+  const itemsTotal = statement.items.reduce((s, i) => s + i.amount, 0);
+
+  return {
+    statementBalance: statement.closingBalance,
+    depositsInTransit,
+    outstandingPayments,
+    adjustedBankBalance,
+    bookBalance,
+    unrecordedBankItems,
+    amountDifferences,
+    adjustedBookBalance,
+    difference: round(adjustedBankBalance - adjustedBookBalance),
+    statementRunningTotalValid: Math.abs(statement.openingBalance + itemsTotal - statement.closingBalance) < 0.005
+  };
+};
+
+export interface StatementReconciliation {
+  statement: BankStatement;
+  matches: ReconMatch[];
+  summary: ReconciliationSummary;
+}
+
+// Reconciles a bank account's statements oldest first. Book lines still outstanding at the end
+// of one statement carry into the next, so a cheque written in March can clear in April.
+// Reversed entries and their reversals cancel out and are left out of matching, so a corrected
+// posting frees its bank line to be matched or adjusted again.
+export const reconcileBankAccount = (
+  entries: JournalEntry[],
+  chart: Account[],
+  bankAccount: BankAccount,
+  statements: BankStatement[],
+  settings: ReconciliationSettings = defaultReconciliationSettings
+): StatementReconciliation[] => {
+  const lines = flattenEntries(entries, chart).filter(tx => tx.accountCode === bankAccount.ledgerAccountCode);
+  const reversals = reversalsByEntry(entries);
+  const cancelled = new Set(entries.filter(e => e.reversalOf || reversals.has(e.id)).map(e => e.id));
+  const matchable = lines.filter(tx => !cancelled.has(tx.entryId));
+  let outstanding: Transaction[] = [];
+
+  return statements
+    .filter(s => s.bankAccountId === bankAccount.id)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd))
+    .map(statement => {
+      const current = matchable.filter(tx => tx.date >= statement.periodStart && tx.date <= statement.periodEnd);
+      const matches = performBankReconciliation([...outstanding, ...current], statement.items, settings, statement, new Set(outstanding.map(bookLineKey)));
+      outstanding = matches.filter(m => m.status === 'missing_in_statement').flatMap(m => m.bookEntries);
+      const bookBalance = round(lines.filter(tx => tx.date <= statement.periodEnd).reduce((s, tx) => s + bankAmount(tx), 0));
+      return { statement, matches, summary: summariseReconciliation(matches, statement, bookBalance) };
+    });
+};
+
+const decisionFor = (match: ReconMatch): MatchDecision => ({
+  bookLineKeys: match.bookEntries.map(bookLineKey),
+  statementItemIds: match.statementEntries.map(s => s.id),
+  decidedAt: new Date().toISOString()
+});
+
+export const confirmMatch = (statement: BankStatement, match: ReconMatch): BankStatement => ({
+  ...statement,
+  confirmedMatches: [...(statement.confirmedMatches ?? []), decisionFor(match)],
+  rejectedMatches: (statement.rejectedMatches ?? []).filter(d => !sameGroup(d, match.bookEntries.map(bookLineKey), match.statementEntries.map(s => s.id)))
+});
+
+// Unmatching a confirmed match drops the decision; unmatching an automatic one stops it being proposed again
+export const unmatch = (statement: BankStatement, match: ReconMatch): BankStatement => {
+  const keys = match.bookEntries.map(bookLineKey);
+  const ids = match.statementEntries.map(s => s.id);
+  return match.confirmed
+    ? { ...statement, confirmedMatches: (statement.confirmedMatches ?? []).filter(d => !sameGroup(d, keys, ids)) }
+    : { ...statement, rejectedMatches: [...(statement.rejectedMatches ?? []), decisionFor(match)] };
+};
+
+export const sampleBankAccounts: BankAccount[] = [
+  { id: 'bank-1', name: 'Operating Account', ledgerAccountCode: '1000', accountNumber: '****4821' }
+];
+
+export const sampleBankStatement: BankStatementItem[] = [
+  { id: 'st1', date: '2023-10-01', description: 'DEPOSIT CAPITAL', amount: 50000 },
+  { id: 'st2', date: '2023-10-05', description: 'CHECK #101 RENT', amount: -2000 },
+  { id: 'st3', date: '2023-10-10', description: 'POS CREDIT SALE', amount: 12000 },
+  { id: 'st4', date: '2023-10-15', description: 'EQUIPMENT PURCHASE', amount: -5000 },
+  { id: 'st5', date: '2023-10-22', description: 'BANK FEE', amount: -25 },
+];
+
+export const sampleBankStatements: BankStatement[] = [
+  {
+    id: 'stmt-bank-1-2023-10',
+    bankAccountId: 'bank-1',
+    format: 'csv',
+    fileName: 'operating-oct-2023.csv',
+    importedAt: '2023-11-02T09:00:00.000Z',
+    periodStart: '2023-10-01',
+    periodEnd: '2023-10-31',
+    openingBalance: 0,
+    closingBalance: 54975,
+    items: sampleBankStatement
+  }
+];
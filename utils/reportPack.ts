@@ -0,0 +1,374 @@
+import { ComparativeRow, FinancialStatements, StatementItem } from '../types';
+import { buildComparative, formatAccounting } from './finance';
+import { formatPeriodEnd } from './periods';
+import { PdfColour, PdfFont, PdfTextOptions, createPdfDocument, textWidth, wrapText } from './pdf';
+
+export type PackSection = 'trial-balance' | 'income' | 'balance-sheet' | 'equity' | 'cashflow' | 'notes' | 'commentary';
+
+export const PACK_SECTION_TITLES: Record<PackSection, string> = {
+  'trial-balance': 'Trial Balance',
+  income: 'Income Statement',
+  'balance-sheet': 'Balance Sheet',
+  equity: 'Statement of Changes in Equity',
+  cashflow: 'Statement of Cash Flows',
+  notes: 'Notes to the Financial Statements',
+  commentary: 'Management Commentary'
+};
+
+// App tabs that have a printed form; the AI CFO tab prints as the commentary
+export const PACK_SECTIONS_BY_TAB: Record<string, PackSection | undefined> = {
+  'trial-balance': 'trial-balance',
+  income: 'income',
+  'balance-sheet': 'balance-sheet',
+  equity: 'equity',
+  cashflow: 'cashflow',
+  notes: 'notes',
+  ai: 'commentary'
+};
+
+// The primary statements and notes; commentary is added when there is some
+export const FULL_PACK: PackSection[] = ['income', 'balance-sheet', 'equity', 'cashflow', 'notes'];
+
+export interface PackOptions {
+  companyName: string;
+  current: FinancialStatements;
+  prior: FinancialStatements;
+  sections: PackSection[];
+  cover: boolean; // Cover page and contents; a single report prints without them
+  commentary?: string;
+  generatedAt?: string;
+}
+
+const periodLine = (statements: FinancialStatements, prefix: string) =>
+  statements.period ? `${prefix} ${formatPeriodEnd(statements.period)}` : 'All Recorded Activity';
+
+const columnLabel = (statements: FinancialStatements) => statements.period?.label ?? 'Current';
+
+export const packFileName = (companyName: string, statements: FinancialStatements, section?: PackSection) =>
+  [companyName, section ? PACK_SECTION_TITLES[section] : 'Financial Statements', statements.period?.label ?? 'All Activity']
+    .join('_').replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') + '.pdf';
+
+const INK: PdfColour = [15, 23, 42];
+const MUTED: PdfColour = [100, 116, 139];
+const RULE: PdfColour = [203, 213, 225];
+const ACCENT: PdfColour = [5, 150, 105];
+const BAND: PdfColour = [241, 245, 249];
+
+const MARGIN = 56;
+const ROW = 15;
+
+interface TableSection {
+  title: string;
+  rows: ComparativeRow[];
+  total?: { label: string; current: number; prior: number };
+}
+
+// Lays the pack out top to bottom, starting a new page whenever the next block does not fit
+export const buildReportPack = (options: PackOptions): Uint8Array => {
+  const { companyName, current, prior, cover } = options;
+  const doc = createPdfDocument();
+  const right = doc.width - MARGIN;
+  const bottom = doc.height - MARGIN - 24;
+  const sections = options.sections.filter(s => s !== 'commentary' || options.commentary?.trim());
+  const sectionStart = new Map<PackSection, number>();
+  const notePages = new Map<number, number>();
+  const noteLinks: { page: number; x: number; y: number; noteNumber: number }[] = [];
+  const pageTitles: string[] = [];
+
+  let page = -1;
+  let y = 0;
+  const write = (text: string, x: number, style?: PdfTextOptions) => doc.text(page, text, x, y, style);
+
+  const newPage = (title: string) => {
+    page = doc.addPage();
+    pageTitles[page] = title;
+    y = MARGIN + 36;
+  };
+  const ensure = (height: number, title: string, continued?: () => void) => {
+    if (y + height <= bottom) return;
+    newPage(title);
+    write(`${title} (continued)`, MARGIN, { font: 'bold', size: 11, colour: MUTED });
+    y += 22;
+    continued?.();
+  };
+
+  const statementHeading = (section: PackSection, subtitle: string) => {
+    newPage(PACK_SECTION_TITLES[section]);
+    sectionStart.set(section, page);
+    write(PACK_SECTION_TITLES[section], MARGIN, { font: 'bold', size: 18 });
+    y += 18;
+    write(subtitle, MARGIN, { size: 9, colour: MUTED });
+    y += 13;
+    write(`Amounts in ${current.currency}${current.translation ? `, translated from ${current.translation.from} at ${current.translation.rate.toFixed(4)}` : ''}`, MARGIN, { size: 9, colour: MUTED });
+    y += 24;
+  };
+
+  // Two amount columns, current then comparative, with an optional note reference column before them
+  const amountCols = { note: right - 205, current: right - 95, prior: right };
+  const columnHeader = () => {
+    write('Note', amountCols.note, { font: 'bold', size: 8, colour: MUTED, align: 'center' });
+    write(columnLabel(current), amountCols.current, { font: 'bold', size: 8, colour: MUTED, align: 'right' });
+    write(columnLabel(prior), amountCols.prior, { font: 'bold', size: 8, colour: MUTED, align: 'right' });
+    y += 5;
+    doc.line(page, MARGIN, y, right, y, 0.75, INK);
+    y += 14;
+  };
+
+  const amountRow = (label: string, cur: number, pri: number, opts: { font?: PdfFont; indent?: number; noteNumber?: number } = {}) => {
+    const font = opts.font ?? 'regular';
+    write(label, MARGIN + (opts.indent ?? 0), { font, size: 9.5 });
+    if (opts.noteNumber !== undefined) {
+      write(String(opts.noteNumber), amountCols.note, { size: 9.5, colour: ACCENT, align: 'center' });
+      noteLinks.push({ page, x: amountCols.note - 10, y: y - 10, noteNumber: opts.noteNumber });
+    }
+    write(formatAccounting(cur), amountCols.current, { font, size: 9.5, align: 'right' });
+    write(formatAccounting(pri), amountCols.prior, { font, size: 9.5, colour: font === 'bold' ? INK : MUTED, align: 'right' });
+    y += ROW;
+  };
+
+  // Rules sit above a total's amounts; a grand total is also double underlined once written
+  const totalRule = () => {
+    doc.line(page, amountCols.current - 80, y - 11, amountCols.current, y - 11, 0.5, INK);
+    doc.line(page, amountCols.prior - 80, y - 11, amountCols.prior, y - 11, 0.5, INK);
+  };
+  const doubleUnderline = () => {
+    [amountCols.current, amountCols.prior].forEach(col => {
+      doc.line(page, col - 80, y - 10, col, y - 10, 0.5, INK);
+      doc.line(page, col - 80, y - 8, col, y - 8, 0.5, INK);
+    });
+  };
+
+  const comparativeStatement = (section: PackSection, subtitle: string, blocks: TableSection[], grandTotal?: { label: string; current: number; prior: number }) => {
+    const title = PACK_SECTION_TITLES[section];
+    statementHeading(section, subtitle);
+    columnHeader();
+    blocks.forEach(block => {
+      ensure(ROW * 3, title, columnHeader);
+      write(block.title.toUpperCase(), MARGIN, { font: 'bold', size: 8, colour: MUTED });
+      y += ROW;
+      if (block.rows.length === 0) { write('No activity', MARGIN + 12, { font: 'italic', size: 9, colour: MUTED }); y += ROW; }
+      block.rows.forEach(row => {
+        ensure(ROW, title, columnHeader);
+        amountRow(row.label, row.current, row.prior, { indent: 12, noteNumber: row.noteRef });
+      });
+      if (block.total) {
+        ensure(ROW * 2, title, columnHeader);
+        y += 4;
+        totalRule();
+        amountRow(block.total.label, block.total.current, block.total.prior, { font: 'bold' });
+      }
+      y += 8;
+    });
+    if (grandTotal) {
+      ensure(ROW * 2, title, columnHeader);
+      doc.rect(page, MARGIN - 6, y - 12, right - MARGIN + 12, ROW + 4, BAND);
+      totalRule();
+      amountRow(grandTotal.label, grandTotal.current, grandTotal.prior, { font: 'bold' });
+      doubleUnderline();
+    }
+  };
+
+  const sum = (items: StatementItem[]) => items.reduce((s, i) => s + i.amount, 0);
+
+  const renderers: Record<PackSection, () => void> = {
+    'trial-balance': () => {
+      const title = PACK_SECTION_TITLES['trial-balance'];
+      const cols = { debit: right - 95, credit: right };
+      const header = () => {
+        write('Code', MARGIN, { font: 'bold', size: 8, colour: MUTED });
+        write('Account', MARGIN + 50, { font: 'bold', size: 8, colour: MUTED });
+        write('Debit', cols.debit, { font: 'bold', size: 8, colour: MUTED, align: 'right' });
+        write('Credit', cols.credit, { font: 'bold', size: 8, colour: MUTED, align: 'right' });
+        y += 5;
+        doc.line(page, MARGIN, y, right, y, 0.75, INK);
+        y += 14;
+      };
+      statementHeading('trial-balance', periodLine(current, 'As at'));
+      header();
+      current.trialBalance.forEach(item => {
+        ensure(ROW, title, header);
+        write(item.accountCode, MARGIN, { size: 9.5, colour: MUTED });
+        write(item.accountName, MARGIN + 50, { size: 9.5 });
+        write(item.debit ? formatAccounting(item.debit) : '', cols.debit, { size: 9.5, align: 'right' });
+        write(item.credit ? formatAccounting(item.credit) : '', cols.credit, { size: 9.5, align: 'right' });
+        y += ROW;
+      });
+      ensure(ROW * 2, title, header);
+      y += 4;
+      doc.line(page, MARGIN, y - 11, right, y - 11, 0.5, INK);
+      write('Total', MARGIN, { font: 'bold', size: 9.5 });
+      write(formatAccounting(current.trialBalance.reduce((s, i) => s + i.debit, 0)), cols.debit, { font: 'bold', size: 9.5, align: 'right' });
+      write(formatAccounting(current.trialBalance.reduce((s, i) => s + i.credit, 0)), cols.credit, { font: 'bold', size: 9.5, align: 'right' });
+      y += ROW;
+    },
+    income: () => comparativeStatement('income', periodLine(current, 'For the Period Ended'), [
+      { title: 'Revenue', rows: buildComparative(current.incomeStatement.revenue, prior.incomeStatement.revenue), total: { label: 'Total Revenue', current: current.incomeStatement.totalRevenue, prior: prior.incomeStatement.totalRevenue } },
+      { title: 'Expenses', rows: buildComparative(current.incomeStatement.expenses, prior.incomeStatement.expenses), total: { label: 'Total Expenses', current: current.incomeStatement.totalExpenses, prior: prior.incomeStatement.totalExpenses } }
+    ], { label: 'Net Income', current: current.incomeStatement.netIncome, prior: prior.incomeStatement.netIncome }),
+    'balance-sheet': () => {
+      const cur = current.balanceSheet;
+      const pri = prior.balanceSheet;
+      comparativeStatement('balance-sheet', periodLine(current, 'As at'), [
+        { title: 'Assets', rows: buildComparative(cur.assets, pri.assets), total: { label: 'Total Assets', current: cur.totalAssets, prior: pri.totalAssets } },
+        { title: 'Liabilities', rows: buildComparative(cur.liabilities, pri.liabilities), total: { label: 'Total Liabilities', current: cur.totalLiabilities, prior: pri.totalLiabilities } },
+        { title: 'Equity', rows: buildComparative(cur.equity, pri.equity), total: { label: 'Total Equity', current: cur.totalEquity, prior: pri.totalEquity } }
+      ], { label: 'Total Liabilities and Equity', current: cur.totalLiabilities + cur.totalEquity, prior: pri.totalLiabilities + pri.totalEquity });
+    },
+    equity: () => {
+      const title = PACK_SECTION_TITLES.equity;
+      const labels = ['Opening', 'Net Income', 'Contributions', 'Drawings', 'Closing'];
+      const colRight = (i: number) => right - (labels.length - 1 - i) * 72;
+      const header = () => {
+        labels.forEach((label, i) => write(label, colRight(i), { font: 'bold', size: 8, colour: MUTED, align: 'right' }));
+        y += 5;
+        doc.line(page, MARGIN, y, right, y, 0.75, INK);
+        y += 14;
+      };
+      const row = (label: string, values: number[], font: PdfFont = 'regular') => {
+        write(label, MARGIN, { font, size: 9 });
+        values.forEach((v, i) => write(formatAccounting(v), colRight(i), { font, size: 9, align: 'right' }));
+        y += ROW;
+      };
+      statementHeading('equity', periodLine(current, 'For the Period Ended'));
+      header();
+      const rows = current.equityChanges;
+      rows.forEach(r => {
+        ensure(ROW, title, header);
+        row(r.accountName, [r.openingBalance, r.netIncome, r.additions, r.withdrawals, r.closingBalance]);
+      });
+      ensure(ROW * 2, title, header);
+      y += 4;
+      doc.line(page, MARGIN, y - 11, right, y - 11, 0.5, INK);
+      const total = (pick: (r: typeof rows[number]) => number) => rows.reduce((s, r) => s + pick(r), 0);
+      row('Total Equity', [total(r => r.openingBalance), total(r => r.netIncome), total(r => r.additions), total(r => r.withdrawals), current.balanceSheet.totalEquity], 'bold');
+      y += 10;
+      write(`${columnLabel(prior)} closing equity: ${formatAccounting(prior.balanceSheet.totalEquity)}`, MARGIN, { size: 9, colour: MUTED });
+      y += ROW;
+    },
+    cashflow: () => {
+      const cur = current.cashFlow;
+      const pri = prior.cashFlow;
+      comparativeStatement('cashflow', `${periodLine(current, 'For the Period Ended')} · ${cur.method} method`, [
+        { title: 'Operating Activities', rows: buildComparative(cur.operating, pri.operating), total: { label: 'Net Cash from Operating Activities', current: sum(cur.operating), prior: sum(pri.operating) } },
+        { title: 'Investing Activities', rows: buildComparative(cur.investing, pri.investing), total: { label: 'Net Cash from Investing Activities', current: sum(cur.investing), prior: sum(pri.investing) } },
+        { title: 'Financing Activities', rows: buildComparative(cur.financing, pri.financing), total: { label: 'Net Cash from Financing Activities', current: sum(cur.financing), prior: sum(pri.financing) } }
+      ], { label: 'Net Change in Cash', current: cur.netCashFlow, prior: pri.netCashFlow });
+      y += 14;
+      ensure(ROW * 3, PACK_SECTION_TITLES.cashflow);
+      amountRow('Cash at Beginning of Period', cur.openingCash, pri.openingCash);
+      amountRow('Cash at End of Period', cur.closingCash, pri.closingCash, { font: 'bold' });
+      if (Math.abs(cur.difference) >= 0.005) {
+        y += 6;
+        write(`Unreconciled difference to cash balances: ${formatAccounting(cur.difference)}`, MARGIN, { font: 'italic', size: 9, colour: [190, 18, 60] });
+        y += ROW;
+      }
+    },
+    notes: () => {
+      const title = PACK_SECTION_TITLES.notes;
+      statementHeading('notes', periodLine(current, 'For the Period Ended'));
+      current.notes.forEach(note => {
+        const body = wrapText(note.content, 'regular', 10, right - MARGIN);
+        ensure(24 + body.length * 14 + (note.data?.length ? ROW * 3 : 0), title);
+        notePages.set(note.noteNumber, page);
+        write(`${note.noteNumber}. ${note.title}`, MARGIN, { font: 'bold', size: 12 });
+        y += 18;
+        body.forEach(line => {
+          ensure(14, title);
+          write(line, MARGIN, { size: 10 });
+          y += 14;
+        });
+        if (note.data && note.data.length > 0) {
+          y += 8;
+          columnHeader();
+          const rows = buildComparative(note.data, prior.notes.find(n => n.id === note.id)?.data ?? []);
+          rows.forEach(r => {
+            ensure(ROW, title, columnHeader);
+            amountRow(r.label, r.current, r.prior, { indent: 12 });
+          });
+          ensure(ROW * 2, title, columnHeader);
+          y += 4;
+          totalRule();
+          amountRow(note.totalLabel ?? 'Total', rows.reduce((s, r) => s + r.current, 0), rows.reduce((s, r) => s + r.prior, 0), { font: 'bold' });
+        }
+        y += 18;
+      });
+    },
+    commentary: () => {
+      const title = PACK_SECTION_TITLES.commentary;
+      statementHeading('commentary', 'Generated analysis of the statements in this pack; not part of the audited financial statements');
+      (options.commentary ?? '').split('\n').forEach(raw => {
+        const heading = /^#{1,6}\s+/.test(raw);
+        const bullet = /^\s*[-*]\s+/.test(raw);
+        const text = raw.replace(/^#{1,6}\s+/, '').replace(/^\s*[-*]\s+/, '').replace(/\*\*|__|`/g, '').trim();
+        if (!text) { y += 6; return; }
+        const font: PdfFont = heading ? 'bold' : 'regular';
+        const size = heading ? 12 : 10;
+        const indent = bullet ? 14 : 0;
+        wrapText(text, font, size, right - MARGIN - indent).forEach((line, i) => {
+          ensure(size + 6, title);
+          if (bullet && i === 0) write('•', MARGIN + 2, { size });
+          write(line, MARGIN + indent, { font, size });
+          y += size + 4;
+        });
+        if (heading) y += 4;
+      });
+    }
+  };
+
+  if (cover) {
+    newPage('Cover');
+    y = 300;
+    doc.rect(page, 0, 0, doc.width, 12, ACCENT);
+    write(companyName, MARGIN, { font: 'bold', size: 28 });
+    y += 34;
+    write('Financial Statements', MARGIN, { size: 18, colour: MUTED });
+    y += 40;
+    doc.line(page, MARGIN, y, MARGIN + 120, y, 2, ACCENT);
+    y += 28;
+    write(periodLine(current, 'For the Period Ended'), MARGIN, { font: 'bold', size: 12 });
+    y += 18;
+    write(`Presented in ${current.currency}${current.translation ? ` (translated from ${current.translation.from})` : ''}`, MARGIN, { size: 11, colour: MUTED });
+    y = doc.height - MARGIN - 40;
+    write(`Prepared ${new Date(options.generatedAt ?? Date.now()).toLocaleDateString('en-US', { dateStyle: 'long' })}`, MARGIN, { size: 9, colour: MUTED });
+    newPage('Contents');
+  }
+  const contentsPage = cover ? page : -1;
+
+  sections.forEach(section => renderers[section]());
+
+  // Contents and note links need every page number, so they are drawn last
+  if (contentsPage >= 0) {
+    page = contentsPage;
+    y = MARGIN + 36;
+    write('Contents', MARGIN, { font: 'bold', size: 18 });
+    y += 36;
+    sections.forEach(section => {
+      const target = sectionStart.get(section)!;
+      const label = PACK_SECTION_TITLES[section];
+      const pageLabel = String(target + 1);
+      write(label, MARGIN, { size: 11 });
+      write(pageLabel, right, { size: 11, align: 'right' });
+      const from = MARGIN + textWidth(label, 'regular', 11) + 6;
+      const to = right - textWidth(pageLabel, 'regular', 11) - 6;
+      for (let x = from; x < to; x += 4) doc.text(page, '.', x, y, { size: 9, colour: RULE });
+      doc.link(page, MARGIN, y - 12, right - MARGIN, 16, target);
+      y += 22;
+    });
+  }
+  noteLinks.forEach(l => {
+    const target = notePages.get(l.noteNumber);
+    if (target !== undefined) doc.link(l.page, l.x, l.y, 20, 13, target);
+  });
+
+  const total = doc.pageCount();
+  for (let p = cover ? 1 : 0; p < total; p++) {
+    doc.text(p, companyName, MARGIN, MARGIN, { font: 'bold', size: 8, colour: MUTED });
+    doc.text(p, pageTitles[p], right, MARGIN, { size: 8, colour: MUTED, align: 'right' });
+    doc.line(p, MARGIN, MARGIN + 6, right, MARGIN + 6, 0.5, RULE);
+    doc.line(p, MARGIN, doc.height - MARGIN + 4, right, doc.height - MARGIN + 4, 0.5, RULE);
+    doc.text(p, periodLine(current, 'For the Period Ended'), MARGIN, doc.height - MARGIN + 18, { size: 8, colour: MUTED });
+    doc.text(p, `Page ${p + 1} of ${total}`, right, doc.height - MARGIN + 18, { size: 8, colour: MUTED, align: 'right' });
+  }
+
+  return doc.build(`${companyName} – ${cover ? 'Financial Statements' : PACK_SECTION_TITLES[sections[0]]}`);
+};
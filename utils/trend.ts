@@ -0,0 +1,83 @@
+import { Account, AccountCategory, CurrencySettings, ExchangeRate, JournalEntry } from '../types';
+import { actualsByMonth } from './budget';
+import { findRate } from './fx';
+import { monthKeyEnd, shiftMonthKey, toDateKey } from './periods';
+
+export type TrendView = 'monthly' | 'rolling' | 'yoy';
+
+// Revenue and expense by calendar month, every month from the first posting to the last
+export interface MonthlyTrend {
+  months: string[]; // YYYY-MM
+  revenue: number[];
+  expense: number[];
+  profit: number[];
+  accounts: { code: string; name: string; category: AccountCategory; values: number[] }[];
+}
+
+export interface YearOverYearPoint {
+  month: string;
+  value: number;
+  prior: number | null; // Same month a year earlier; null before the ledger starts
+  change: number | null;
+  percent: number | null; // Null when the prior month is zero
+}
+
+export const TREND_VIEW_LABELS: Record<TrendView, string> = {
+  monthly: 'Monthly',
+  rolling: 'Rolling 12 months',
+  yoy: 'Year over year'
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Amounts carry each account's natural sign, as budgets do: revenue earned and money spent are both
+// positive, and reversals reduce them. Closing entries are left out.
+export const buildMonthlyTrend = (entries: JournalEntry[], chart: Account[]): MonthlyTrend => {
+  const keys = entries.filter(e => e.kind !== 'closing').map(e => toDateKey(e.date).slice(0, 7)).sort();
+  const months: string[] = [];
+  for (let m = keys[0]; m && m <= keys[keys.length - 1]; m = shiftMonthKey(m, 1)) months.push(m);
+
+  const actuals = actualsByMonth(entries, chart, months);
+  const accounts = chart
+    .filter(a => actuals.has(a.code))
+    .map(a => ({ code: a.code, name: a.name, category: a.category, values: months.map(m => round(actuals.get(a.code)!.get(m) ?? 0)) }));
+
+  const total = (category: AccountCategory) => months.map((_, i) =>
+    round(accounts.filter(a => a.category === category).reduce((s, a) => s + a.values[i], 0)));
+  const revenue = total(AccountCategory.REVENUE);
+  const expense = total(AccountCategory.EXPENSE);
+  return { months, revenue, expense, profit: revenue.map((r, i) => round(r - expense[i])), accounts };
+};
+
+// Each month at its month-end rate, as that month's statements are translated. Left in the functional
+// currency when any month has no rate, so one series never mixes currencies; `missing` lists those months.
+export const translateTrend = (
+  trend: MonthlyTrend,
+  rates: ExchangeRate[],
+  currency: CurrencySettings
+): { trend: MonthlyTrend; currency: string; missing: string[] } => {
+  const monthRates = trend.months.map(m => findRate(rates, currency.functionalCurrency, currency.reportingCurrency, monthKeyEnd(m)));
+  const missing = trend.months.filter((_, i) => monthRates[i] === null);
+  if (missing.length > 0 || currency.functionalCurrency === currency.reportingCurrency) {
+    return { trend, currency: currency.functionalCurrency, missing };
+  }
+  const x = (values: number[]) => values.map((v, i) => round(v * monthRates[i]!));
+  const revenue = x(trend.revenue);
+  const expense = x(trend.expense);
+  return {
+    trend: { months: trend.months, revenue, expense, profit: revenue.map((r, i) => round(r - expense[i])), accounts: trend.accounts.map(a => ({ ...a, values: x(a.values) })) },
+    currency: currency.reportingCurrency,
+    missing
+  };
+};
+
+// Sum of the twelve months to each month; null until a full year of history exists
+export const rollingTwelve = (values: number[]): (number | null)[] =>
+  values.map((_, i) => i < 11 ? null : round(values.slice(i - 11, i + 1).reduce((s, v) => s + v, 0)));
+
+export const yearOverYear = (months: string[], values: number[]): YearOverYearPoint[] =>
+  months.map((month, i) => {
+    const prior = i >= 12 ? values[i - 12] : null;
+    const change = prior === null ? null : round(values[i] - prior);
+    return { month, value: values[i], prior, change, percent: prior ? round((values[i] - prior) / Math.abs(prior) * 100) : null };
+  });
@@ -0,0 +1,392 @@
+import * as XLSX from 'xlsx';
+import { Account, AccountCategory, AccountSubType, BankAccount, ExchangeRate, FinancialStatements, JournalEntry, StatementItem, TransactionType, TrialBalanceItem } from '../types';
+import { findRate } from './fx';
+import { flattenEntries } from './ledger';
+import { isWithinPeriod, monthKeyEnd, toDateKey } from './periods';
+import { StatementReconciliation } from './reconciliation';
+
+// Every sheet has a title, a subtitle, a note line and the column headers in rows 1-4;
+// the headers stay frozen above the data, which starts on row 5
+const HEADER_ROW = 4;
+const FIRST_ROW = HEADER_ROW + 1;
+
+export interface WorkbookInput {
+  companyName: string;
+  statements: FinancialStatements;
+  entries: JournalEntry[];
+  accounts: Account[];
+  functionalCurrency: string;
+  rates: ExchangeRate[];
+  reconciliations: { bankAccount: BankAccount; reconciliation: StatementReconciliation }[];
+}
+
+// A formula with the value it evaluates to, so viewers that do not recalculate still show figures
+interface Formula { f: string; v: number | string }
+type CellValue = string | number | null | Formula;
+type ColumnFormat = 'text' | 'money' | 'date' | 'percent';
+
+interface Column { header: string; width: number; format?: ColumnFormat }
+
+const formula = (f: string, v: number | string): Formula => ({ f, v });
+
+const moneyFormat = (currency: string) => `[$${currency}] #,##0.00;([$${currency}] #,##0.00);"-"`;
+const DATE_FORMAT = 'yyyy-mm-dd';
+const PERCENT_FORMAT = '0.0%;(0.0%)';
+
+const quoteSheet = (name: string) => /^[A-Za-z0-9_]+$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+const criterion = (value: string) => `"${value.replace(/"/g, '""')}"`;
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Days since 1899-12-30, Excel's date serial for a YYYY-MM-DD string
+const dateSerial = (date: string) => {
+  const [y, m, d] = toDateKey(date).split('-').map(Number);
+  return (Date.UTC(y, m - 1, d) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const createSheet = (title: string, subtitle: string, columns: Column[], currency: string) => {
+  const ws: XLSX.WorkSheet = {};
+  let row = FIRST_ROW;
+  const put = (r: number, c: number, value: CellValue, format: ColumnFormat = 'text') => {
+    if (value === null || value === '') return;
+    const z = format === 'money' ? moneyFormat(currency) : format === 'date' ? DATE_FORMAT : format === 'percent' ? PERCENT_FORMAT : undefined;
+    const address = XLSX.utils.encode_cell({ r: r - 1, c });
+    if (typeof value === 'object') ws[address] = { t: typeof value.v === 'number' ? 'n' : 's', v: value.v, f: value.f, ...(z && { z }) };
+    else if (typeof value === 'number') ws[address] = { t: 'n', v: value, ...(z && { z }) };
+    else ws[address] = { t: 's', v: value };
+  };
+  put(1, 0, title);
+  put(2, 0, subtitle);
+  columns.forEach((col, c) => put(HEADER_ROW, c, col.header));
+
+  return {
+    note: (value: CellValue, c = 0, format?: ColumnFormat) => put(3, c, value, format),
+    // Returns the row number the values were written to
+    add: (values: CellValue[]) => {
+      values.forEach((value, c) => put(row, c, value, columns[c]?.format));
+      return row++;
+    },
+    skip: () => { row++; },
+    nextRow: () => row,
+    worksheet: (): XLSX.WorkSheet => {
+      ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: Math.max(row - 2, HEADER_ROW - 1), c: columns.length - 1 } });
+      ws['!cols'] = columns.map(col => ({ wch: col.width }));
+      return ws;
+    }
+  };
+};
+
+type Sheet = ReturnType<typeof createSheet>;
+
+const sumColumn = (col: string, first: number, last: number) => last >= first ? `SUM(${col}${first}:${col}${last})` : '0';
+
+// Freezes the title and header rows of every sheet. The community build of SheetJS does not write
+// panes, so they are added to each sheet's XML after the workbook is zipped.
+const freezeHeaders = (bytes: Uint8Array, sheetCount: number): Uint8Array => {
+  const zip = XLSX.CFB.read(bytes, { type: 'array' });
+  const pane = `<pane ySplit="${HEADER_ROW}" topLeftCell="A${FIRST_ROW}" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A${FIRST_ROW}" sqref="A${FIRST_ROW}"/>`;
+  for (let i = 1; i <= sheetCount; i++) {
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${i}.xml`);
+    if (!entry) continue;
+    const xml = new TextDecoder().decode(entry.content);
+    entry.content = new TextEncoder().encode(xml.replace(/<sheetView([^>]*?)\/>/, `<sheetView$1>${pane}</sheetView>`));
+    entry.size = entry.content.length;
+  }
+  return XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true });
+};
+
+// Builds the statements workbook. Statement figures are formulas over the Trial Balance sheet,
+// whose balances are SUMIFS over the Ledger sheet, so every figure traces back to postings.
+export const buildWorkbook = (input: WorkbookInput): Uint8Array => {
+  const { companyName, statements, entries, accounts } = input;
+  const { period, currency, translation } = statements;
+  const wb = XLSX.utils.book_new();
+  const subtitle = (ccy: string) => `${companyName} · ${period?.label ?? 'All recorded activity'} · Amounts in ${ccy}`;
+
+  // Ledger: postings up to the period end. The period's own closing entry is left out, as in the statements.
+  const periodEntries = entries.filter(e => (period ? toDateKey(e.date) <= period.end : true) && !(e.kind === 'closing' && (!period || isWithinPeriod(e.date, period))));
+  const postings = periodEntries
+    .flatMap(entry => flattenEntries([entry], accounts).map(tx => ({ tx, entry })))
+    .sort((a, b) => toDateKey(a.tx.date).localeCompare(toDateKey(b.tx.date)));
+  const scopeOf = (date: string) => period && toDateKey(date) < period.start ? 'Brought forward' : 'Period';
+
+  const ledger = createSheet('General Ledger', subtitle(input.functionalCurrency), [
+    { header: 'Date', width: 12, format: 'date' },
+    { header: 'Month', width: 9 },
+    { header: 'Entry', width: 12 },
+    { header: 'Reference', width: 12 },
+    { header: 'Kind', width: 11 },
+    { header: 'Scope', width: 15 },
+    { header: 'Description', width: 36 },
+    { header: 'Account Code', width: 13 },
+    { header: 'Account Name', width: 30 },
+    { header: 'Category', width: 11 },
+    { header: 'Debit', width: 16, format: 'money' },
+    { header: 'Credit', width: 16, format: 'money' }
+  ], input.functionalCurrency);
+  ledger.note('Brought forward rows are postings before the period; they make up opening balances.');
+  postings.forEach(({ tx, entry }) => ledger.add([
+    dateSerial(tx.date), toDateKey(tx.date).slice(0, 7), entry.id, entry.reference ?? '', entry.kind ?? 'standard', scopeOf(tx.date),
+    tx.description, tx.accountCode, tx.accountName, tx.category,
+    tx.type === TransactionType.DEBIT ? tx.amount : null, tx.type === TransactionType.CREDIT ? tx.amount : null
+  ]));
+  const lastLedgerRow = Math.max(ledger.nextRow() - 1, FIRST_ROW);
+  const L = (col: string) => `Ledger!$${col}$${FIRST_ROW}:$${col}$${lastLedgerRow}`;
+  const LEDGER = { date: L('A'), month: L('B'), kind: L('E'), scope: L('F'), code: L('H'), name: L('I'), category: L('J'), debit: L('K'), credit: L('L') };
+  const sumifs = (side: 'debit' | 'credit', ...criteria: [string, string][]) =>
+    `SUMIFS(${LEDGER[side]},${criteria.map(([range, value]) => `${range},${value}`).join(',')})`;
+
+  const TB = quoteSheet('Trial Balance');
+  const RATE = `${TB}!$B$3`;
+  const translate = (f: string) => translation ? `ROUND((${f})*${RATE},2)` : f;
+
+  // Trial balance: profit and loss accounts over the period, balance-sheet accounts to its end
+  const tb = createSheet('Trial Balance', subtitle(currency), [
+    { header: 'Account Code', width: 13 },
+    { header: 'Account Name', width: 34 },
+    { header: 'Category', width: 11 },
+    { header: 'Debit', width: 18, format: 'money' },
+    { header: 'Credit', width: 18, format: 'money' }
+  ], currency);
+  if (translation) {
+    tb.note(`Translated from ${translation.from} at the ${translation.rateDate} rate`);
+    tb.note(translation.rate, 1);
+  }
+  const isPnl = (item: TrialBalanceItem) => item.category === AccountCategory.REVENUE || item.category === AccountCategory.EXPENSE;
+  const retainedEarnings = statements.trialBalance.find(i => i.subType === AccountSubType.RETAINED_EARNINGS);
+  const tbRows = new Map<string, number>();
+  const firstTbRow = tb.nextRow();
+  const lastTbRow = firstTbRow + statements.trialBalance.length - 1;
+  // Profit and loss before the period start, which the trial balance carries in retained earnings
+  const priorEarningsRow = lastTbRow + 3;
+  const priorEarnings = `${TB}!$D$${priorEarningsRow}`;
+  statements.trialBalance.forEach(item => {
+    const scope: [string, string][] = isPnl(item) ? [[LEDGER.scope, criterion('Period')]] : [];
+    const side = (s: 'debit' | 'credit') => sumifs(s, [LEDGER.code, criterion(item.accountCode)], ...scope);
+    const isRe = item === retainedEarnings;
+    tbRows.set(item.accountCode, tb.add([
+      item.accountCode, item.accountName, item.category,
+      formula(isRe ? `${translate(side('debit'))}+MAX(0,-${priorEarnings})` : translate(side('debit')), item.debit),
+      formula(isRe ? `${translate(side('credit'))}+MAX(0,${priorEarnings})` : translate(side('credit')), item.credit)
+    ]));
+  });
+  const totalDebit = statements.trialBalance.reduce((s, i) => s + i.debit, 0);
+  const totalCredit = statements.trialBalance.reduce((s, i) => s + i.credit, 0);
+  const tbTotalRow = tb.add(['', 'Total', '', formula(sumColumn('D', firstTbRow, lastTbRow), totalDebit), formula(sumColumn('E', firstTbRow, lastTbRow), totalCredit)]);
+  tb.add(['', 'Difference', '', formula(`D${tbTotalRow}-E${tbTotalRow}`, round(totalDebit - totalCredit))]);
+  const pnlBroughtForward = postings.filter(p => scopeOf(p.tx.date) === 'Brought forward' && (p.tx.category === AccountCategory.REVENUE || p.tx.category === AccountCategory.EXPENSE))
+    .reduce((s, p) => s + (p.tx.type === TransactionType.CREDIT ? p.tx.amount : -p.tx.amount), 0);
+  const pnlCategory = (s: 'debit' | 'credit') => [AccountCategory.REVENUE, AccountCategory.EXPENSE]
+    .map(c => sumifs(s, [LEDGER.category, criterion(c)], [LEDGER.scope, criterion('Brought forward')])).join('+');
+  tb.add(['', 'Earnings brought forward (in retained earnings)', '', formula(translate(`${pnlCategory('credit')}-(${pnlCategory('debit')})`), round(pnlBroughtForward * (translation?.rate ?? 1)))]);
+
+  // Natural-sign balance of a trial balance row, or the value itself when the line has no account row
+  const tbRef = (accountCode: string | undefined, category: AccountCategory, amount: number): CellValue => {
+    const r = accountCode ? tbRows.get(accountCode) : undefined;
+    if (r === undefined) return amount;
+    const debitNormal = category === AccountCategory.ASSET || category === AccountCategory.EXPENSE;
+    return formula(debitNormal ? `${TB}!D${r}-${TB}!E${r}` : `${TB}!E${r}-${TB}!D${r}`, amount);
+  };
+  const byName = new Map(statements.trialBalance.map(i => [i.accountName, i]));
+  const itemRef = (item: StatementItem): CellValue => {
+    const tbItem = byName.get(item.label);
+    return tbItem ? tbRef(tbItem.accountCode, tbItem.category, item.amount) : item.amount;
+  };
+  const lineLabel = (item: StatementItem) => `  ${item.label}${item.noteRef ? ` (Note ${item.noteRef})` : ''}`;
+
+  // Statement sections: heading, one row per line, then a SUM total; returns the total's row
+  const section = (sheet: Sheet, heading: string, items: StatementItem[], totalLabel: string, total: number, col = 'B') => {
+    sheet.add([heading]);
+    const first = sheet.nextRow();
+    items.forEach(item => sheet.add([lineLabel(item), itemRef(item)]));
+    return sheet.add([totalLabel, formula(sumColumn(col, first, sheet.nextRow() - 1), total)]);
+  };
+  const amountColumns: Column[] = [{ header: 'Line', width: 46 }, { header: period?.label ?? 'Amount', width: 20, format: 'money' }];
+
+  const { incomeStatement: is, balanceSheet: bs, cashFlow: cf } = statements;
+  const IS = quoteSheet('Income Statement');
+  const income = createSheet('Income Statement', subtitle(currency), amountColumns, currency);
+  const revenueRow = section(income, 'Revenue', is.revenue, 'Total revenue', is.totalRevenue);
+  income.skip();
+  const expenseRow = section(income, 'Expenses', is.expenses, 'Total expenses', is.totalExpenses);
+  income.skip();
+  const netIncomeRow = income.add(['Net income', formula(`B${revenueRow}-B${expenseRow}`, is.netIncome)]);
+  const netIncome = formula(`${IS}!B${netIncomeRow}`, is.netIncome);
+
+  const balance = createSheet('Balance Sheet', subtitle(currency), amountColumns, currency);
+  const assetsRow = section(balance, 'Assets', bs.assets, 'Total assets', bs.totalAssets);
+  balance.skip();
+  const liabilitiesRow = section(balance, 'Liabilities', bs.liabilities, 'Total liabilities', bs.totalLiabilities);
+  balance.skip();
+  balance.add(['Equity']);
+  const firstEquityRow = balance.nextRow();
+  bs.equity.forEach(item => balance.add([lineLabel(item), byName.has(item.label) ? itemRef(item) : netIncome]));
+  const equityRow = balance.add(['Total equity', formula(sumColumn('B', firstEquityRow, balance.nextRow() - 1), bs.totalEquity)]);
+  balance.skip();
+  const fundingRow = balance.add(['Total liabilities and equity', formula(`B${liabilitiesRow}+B${equityRow}`, bs.totalLiabilities + bs.totalEquity)]);
+  balance.add(['Difference', formula(`B${assetsRow}-B${fundingRow}`, round(bs.totalAssets - bs.totalLiabilities - bs.totalEquity))]);
+
+  // Cash flow lines come from the cash flow engine; net income, the subtotals and the cash balances are formulas
+  const cash = createSheet('Cash Flow', subtitle(currency), amountColumns, currency);
+  cash.note(cf.method === 'indirect' ? 'Indirect method' : 'Direct method');
+  const activity = (heading: string, items: StatementItem[]) => {
+    cash.add([heading]);
+    const first = cash.nextRow();
+    items.forEach((item, i) => cash.add([`  ${item.label}`, cf.method === 'indirect' && heading === 'Operating activities' && i === 0 ? netIncome : item.amount]));
+    return cash.add([`Net cash from ${heading.toLowerCase()}`, formula(sumColumn('B', first, cash.nextRow() - 1), round(items.reduce((s, i) => s + i.amount, 0)))]);
+  };
+  const operatingRow = activity('Operating activities', cf.operating);
+  cash.skip();
+  const investingRow = activity('Investing activities', cf.investing);
+  cash.skip();
+  const financingRow = activity('Financing activities', cf.financing);
+  cash.skip();
+  const netCashRow = cash.add(['Net increase/(decrease) in cash', formula(`B${operatingRow}+B${investingRow}+B${financingRow}`, cf.netCashFlow)]);
+  const cashCodes = statements.trialBalance.filter(i => i.subType === AccountSubType.CASH_EQUIVALENT).map(i => i.accountCode);
+  const cashBalance = (scope?: string) => cashCodes.length === 0 ? '0' : translate(cashCodes.map(code => {
+    const criteria: [string, string][] = [[LEDGER.code, criterion(code)], ...(scope ? [[LEDGER.scope, criterion(scope)] as [string, string]] : [])];
+    return `${sumifs('debit', ...criteria)}-${sumifs('credit', ...criteria)}`;
+  }).join('+'));
+  const openingRow = cash.add(['Cash at the beginning of the period', formula(cashBalance('Brought forward'), cf.openingCash)]);
+  const closingRow = cash.add(['Cash at the end of the period', formula(cashBalance(), cf.closingCash)]);
+  cash.add(['Unreconciled difference', formula(`B${netCashRow}-(B${closingRow}-B${openingRow})`, cf.difference)]);
+
+  // Equity movements read the Ledger by account name; retained earnings also carries earlier profits and this period's result
+  const equity = createSheet('Changes in Equity', subtitle(currency), [
+    { header: 'Component', width: 30 },
+    { header: 'Opening Balance', width: 18, format: 'money' },
+    { header: 'Contributions', width: 18, format: 'money' },
+    { header: 'Net Income', width: 18, format: 'money' },
+    { header: 'Withdrawals', width: 18, format: 'money' },
+    { header: 'Closing Balance', width: 18, format: 'money' }
+  ], currency);
+  const firstEquityChange = equity.nextRow();
+  statements.equityChanges.forEach((row, i) => {
+    const isRe = i === statements.equityChanges.length - 1;
+    const name: [string, string] = [LEDGER.name, criterion(row.accountName)];
+    const broughtForward: [string, string] = [LEDGER.scope, criterion('Brought forward')];
+    const inPeriod: [string, string] = [LEDGER.scope, criterion('Period')];
+    const opening = `${sumifs('credit', name, broughtForward)}-${sumifs('debit', name, broughtForward)}`;
+    const r = equity.nextRow();
+    equity.add([
+      row.accountName,
+      formula(isRe ? `${translate(opening)}+${priorEarnings}` : translate(opening), row.openingBalance),
+      formula(translate(sumifs('credit', name, inPeriod)), row.additions),
+      isRe ? netIncome : 0,
+      formula(translate(sumifs('debit', name, inPeriod)), row.withdrawals),
+      formula(`B${r}+C${r}+D${r}-E${r}`, row.closingBalance)
+    ]);
+  });
+  const lastEquityChange = equity.nextRow() - 1;
+  const changeTotal = (key: 'openingBalance' | 'additions' | 'netIncome' | 'withdrawals' | 'closingBalance') => statements.equityChanges.reduce((s, e) => s + e[key], 0);
+  equity.add(['Total', ...(['B', 'C', 'D', 'E', 'F'] as const).map((col, i) =>
+    formula(sumColumn(col, firstEquityChange, lastEquityChange), changeTotal((['openingBalance', 'additions', 'netIncome', 'withdrawals', 'closingBalance'] as const)[i])))]);
+
+  const notes = createSheet('Notes', subtitle(currency), amountColumns, currency);
+  statements.notes.forEach(note => {
+    notes.add([`Note ${note.noteNumber}: ${note.title}`]);
+    notes.add([note.content]);
+    if (note.data?.length) section(notes, 'Analysis', note.data, note.totalLabel ?? 'Total', note.data.reduce((s, i) => s + i.amount, 0));
+    notes.skip();
+  });
+
+  // Bank reconciliations are in the functional currency; the book balance is the ledger's bank account to the statement date
+  const recon = createSheet('Bank Reconciliation', subtitle(input.functionalCurrency), [{ header: 'Item', width: 46 }, { header: 'Amount', width: 20, format: 'money' }], input.functionalCurrency);
+  if (input.reconciliations.length === 0) recon.note('No bank statements have been imported for this period.');
+  input.reconciliations.forEach(({ bankAccount, reconciliation: { statement, summary } }) => {
+    recon.add([`${bankAccount.name} (${bankAccount.ledgerAccountCode}), statement to ${statement.periodEnd}`]);
+    const statementRow = recon.add(['  Balance per bank statement', summary.statementBalance]);
+    recon.add(['  Add deposits in transit', summary.depositsInTransit]);
+    recon.add(['  Less outstanding payments', -summary.outstandingPayments]);
+    const adjustedBankRow = recon.add(['Adjusted bank balance', formula(sumColumn('B', statementRow, statementRow + 2), summary.adjustedBankBalance)]);
+    const criteria: [string, string][] = [[LEDGER.code, criterion(bankAccount.ledgerAccountCode)], [LEDGER.date, `"<="&${dateSerial(statement.periodEnd)}`]];
+    const bookRow = recon.add(['  Balance per books', formula(`${sumifs('debit', ...criteria)}-${sumifs('credit', ...criteria)}`, summary.bookBalance)]);
+    recon.add(['  Add bank items not yet recorded', summary.unrecordedBankItems]);
+    recon.add(['  Add amount differences', summary.amountDifferences]);
+    const adjustedBookRow = recon.add(['Adjusted book balance', formula(sumColumn('B', bookRow, bookRow + 2), summary.adjustedBookBalance)]);
+    recon.add(['Difference', formula(`B${adjustedBankRow}-B${adjustedBookRow}`, summary.difference)]);
+    recon.skip();
+  });
+
+  const { variance } = statements;
+  const varianceSheet = createSheet('Budget Variance', subtitle(currency), [
+    { header: 'Account Code', width: 13 },
+    { header: 'Account Name', width: 30 },
+    { header: 'Category', width: 11 },
+    { header: 'Actual', width: 18, format: 'money' },
+    { header: 'Budget', width: 18, format: 'money' },
+    { header: 'Variance', width: 18, format: 'money' },
+    { header: 'Variance %', width: 12, format: 'percent' },
+    { header: 'Material', width: 10 }
+  ], currency);
+  varianceSheet.note(variance.budgetLabel ? `Compared with budget ${variance.budgetLabel}; positive variances are favourable` : 'No budget selected');
+  [AccountCategory.REVENUE, AccountCategory.EXPENSE].forEach(category => {
+    const lines = variance.lines.filter(l => l.category === category);
+    const first = varianceSheet.nextRow();
+    lines.forEach(line => {
+      const r = varianceSheet.nextRow();
+      varianceSheet.add([
+        line.accountCode, line.accountName, line.category,
+        tbRef(line.accountCode, category, line.actual),
+        line.budget,
+        formula(category === AccountCategory.REVENUE ? `D${r}-E${r}` : `E${r}-D${r}`, line.variance),
+        formula(`IF(E${r}=0,"",F${r}/ABS(E${r}))`, line.variancePercent === null ? '' : line.variancePercent / 100),
+        line.material ? 'Yes' : 'No'
+      ]);
+    });
+    const last = varianceSheet.nextRow() - 1;
+    const sum = (key: 'actual' | 'budget' | 'variance') => lines.reduce((s, l) => s + l[key], 0);
+    varianceSheet.add(['', `Total ${category === AccountCategory.REVENUE ? 'revenue' : 'expenses'}`, '',
+      formula(sumColumn('D', first, last), sum('actual')), formula(sumColumn('E', first, last), sum('budget')), formula(sumColumn('F', first, last), sum('variance'))]);
+    varianceSheet.skip();
+  });
+
+  // Monthly results from the Ledger, leaving out closing entries so closed months keep their figures.
+  // Each month is translated at its own month-end rate, as on the Trend tab; when any month has no
+  // rate the sheet stays in the functional currency, as the tab does.
+  const trading = postings.filter(p => p.entry.kind !== 'closing');
+  const months = [...new Set(trading.map(p => toDateKey(p.tx.date).slice(0, 7)))].sort();
+  const monthRates = translation ? months.map(m => findRate(input.rates, translation.from, currency, monthKeyEnd(m))) : [];
+  const missingRates = months.filter((_, i) => translation && monthRates[i] === null);
+  const trendRated = !!translation && missingRates.length === 0;
+  const trendCurrency = translation && !trendRated ? translation.from : currency;
+  const trend = createSheet('Trend', subtitle(trendCurrency), [
+    { header: 'Month', width: 10 },
+    { header: 'Revenue', width: 18, format: 'money' },
+    { header: 'Expenses', width: 18, format: 'money' },
+    { header: 'Net Income', width: 18, format: 'money' },
+    ...(trendRated ? [{ header: `Rate ${translation!.from}/${currency}`, width: 16 }] : [])
+  ], trendCurrency);
+  if (trendRated) trend.note(`Translated from ${translation!.from} at each month-end rate`);
+  else if (translation) trend.note(`In ${translation.from}, the functional currency: no ${currency} rate for ${missingRates.join(', ')}`);
+  months.forEach((month, i) => {
+    const r = trend.nextRow();
+    const rate = trendRated ? monthRates[i]! : 1;
+    const inMonth = trading.filter(p => toDateKey(p.tx.date).startsWith(month));
+    const natural = (category: AccountCategory) => round(inMonth.filter(p => p.tx.category === category)
+      .reduce((s, p) => s + ((p.tx.type === TransactionType.CREDIT) === (category === AccountCategory.REVENUE) ? p.tx.amount : -p.tx.amount), 0) * rate);
+    const net = (category: AccountCategory) => {
+      const criteria: [string, string][] = [[LEDGER.month, criterion(month)], [LEDGER.category, criterion(category)], [LEDGER.kind, criterion('<>closing')]];
+      const [plus, minus] = category === AccountCategory.REVENUE ? ['credit', 'debit'] as const : ['debit', 'credit'] as const;
+      const f = `${sumifs(plus, ...criteria)}-${sumifs(minus, ...criteria)}`;
+      return trendRated ? `ROUND((${f})*E${r},2)` : f;
+    };
+    const revenue = natural(AccountCategory.REVENUE);
+    const expenses = natural(AccountCategory.EXPENSE);
+    trend.add([
+      month, formula(net(AccountCategory.REVENUE), revenue), formula(net(AccountCategory.EXPENSE), expenses), formula(`B${r}-C${r}`, round(revenue - expenses)),
+      ...(trendRated ? [rate] : [])
+    ]);
+  });
+
+  const sheets: [string, Sheet][] = [
+    ['Trial Balance', tb], ['Income Statement', income], ['Balance Sheet', balance], ['Cash Flow', cash], ['Changes in Equity', equity],
+    ['Notes', notes], ['Bank Reconciliation', recon], ['Budget Variance', varianceSheet], ['Trend', trend], ['Ledger', ledger]
+  ];
+  sheets.forEach(([name, sheet]) => XLSX.utils.book_append_sheet(wb, sheet.worksheet(), name));
+  wb.Props = { Title: `${companyName} Financial Statements`, Company: companyName };
+  const bytes = new Uint8Array(XLSX.write(wb, { bookType: 'xlsx', type: 'array', compression: true }));
+  return freezeHeaders(bytes, sheets.length);
+};
+
+export const workbookFileName = (companyName: string, statements: FinancialStatements) =>
+  [companyName, 'Workbook', statements.period?.label ?? 'All Activity'].join('_').replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') + '.xlsx';
@@ -0,0 +1,142 @@
+import { TransactionType, Workspace, WorkspaceBackup, WorkspaceData } from '../types';
+import { defaultChartOfAccounts } from './accounts';
+import { defaultFiscalSettings } from './periods';
+import { defaultMateriality, sampleBudgets } from './budget';
+import { defaultReconciliationSettings, sampleBankAccounts, sampleBankStatements } from './reconciliation';
+import { sampleBankRules } from './bankRules';
+import { defaultCurrencySettings, sampleExchangeRates } from './fx';
+import { sampleJournalEntries } from './finance';
+import { defaultKpiSettings } from './ratios';
+import { defaultNoteTemplates } from './notes';
+
+// Bump when the stored shape changes and add a step to `migrations` that upgrades from the previous version
+export const SCHEMA_VERSION = 6;
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version being upgraded from; each step returns data in the next version's shape
+const migrations: Record<number, Migration> = {
+  // v2 replaced the single remembered import mapping with named profiles
+  1: ({ importMappings, ...data }) => {
+    const mappings = (importMappings ?? {}) as Record<string, string>;
+    const createdAt = new Date().toISOString();
+    return {
+      ...data,
+      importProfiles: Object.keys(mappings).length === 0 ? [] : [{
+        id: 'prof-previous',
+        name: 'Previous import',
+        mappings,
+        transforms: { amountLayout: 'typed', positiveAmountIs: TransactionType.DEBIT },
+        createdAt,
+        lastUsedAt: createdAt
+      }]
+    };
+  },
+  // v3 added draft journal entries
+  2: data => ({ ...data, draftEntries: [] }),
+  // v4 added the AI report history
+  3: data => ({ ...data, analysisReports: [] }),
+  // v5 added ratio KPI cards and their thresholds
+  4: data => ({ ...data, kpiSettings: defaultKpiSettings }),
+  // v6 replaced the fixed notes to the statements with editable templates
+  5: data => ({ ...data, noteTemplates: defaultNoteTemplates })
+};
+
+export const emptyWorkspaceData = (): WorkspaceData => ({
+  entries: [],
+  accounts: defaultChartOfAccounts,
+  fiscalSettings: defaultFiscalSettings,
+  closedPeriods: [],
+  budgets: [],
+  materiality: defaultMateriality,
+  kpiSettings: defaultKpiSettings,
+  noteTemplates: defaultNoteTemplates,
+  bankAccounts: [],
+  bankStatements: [],
+  reconSettings: defaultReconciliationSettings,
+  bankRules: [],
+  currencySettings: defaultCurrencySettings,
+  exchangeRates: [],
+  importProfiles: [],
+  draftEntries: [],
+  analysisReports: []
+});
+
+export const sampleWorkspaceData = (): WorkspaceData => ({
+  ...emptyWorkspaceData(),
+  entries: sampleJournalEntries,
+  budgets: sampleBudgets,
+  bankAccounts: sampleBankAccounts,
+  bankStatements: sampleBankStatements,
+  bankRules: sampleBankRules,
+  exchangeRates: sampleExchangeRates
+});
+
+// Runs every step from the stored version up to the current one, then fills keys added since with defaults
+export const migrateWorkspaceData = (stored: unknown, fromVersion: number): WorkspaceData => {
+  let data = { ...(stored as Record<string, unknown>) };
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const step = migrations[version];
+    if (step) data = step(data);
+  }
+  return { ...emptyWorkspaceData(), ...data } as WorkspaceData;
+};
+
+export const newWorkspace = (name: string, now = new Date().toISOString()): Workspace => ({
+  id: `ws-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim() || 'Untitled Company',
+  createdAt: now,
+  updatedAt: now,
+  lastOpenedAt: now
+});
+
+// Appends a counter when the name is taken, e.g. restoring a backup next to the original
+export const uniqueWorkspaceName = (name: string, workspaces: Workspace[]): string => {
+  const taken = new Set(workspaces.map(w => w.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+};
+
+export const buildBackup = (workspace: Workspace, data: WorkspaceData, exportedAt = new Date().toISOString()): WorkspaceBackup => ({
+  format: 'finreport-workspace',
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt,
+  workspace: { name: workspace.name, createdAt: workspace.createdAt },
+  data
+});
+
+export const backupFileName = (workspace: Workspace, exportedAt = new Date().toISOString()) =>
+  `${workspace.name.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'workspace'}_${exportedAt.slice(0, 10)}.json`;
+
+export const parseBackup = (text: string): { backup?: WorkspaceBackup; problems: string[] } => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { problems: ['The file is not valid JSON'] };
+  }
+  if (!raw || typeof raw !== 'object' || raw.format !== 'finreport-workspace') return { problems: ['The file is not a workspace backup'] };
+
+  const version = Number(raw.schemaVersion);
+  const problems: string[] = [];
+  if (!Number.isInteger(version) || version < 1) problems.push('The backup has no schema version');
+  else if (version > SCHEMA_VERSION) problems.push(`The backup was made by a newer version of the app (schema ${version}, this app reads up to ${SCHEMA_VERSION})`);
+  const data = raw.data as Record<string, unknown> | undefined;
+  if (!data || typeof data !== 'object') problems.push('The backup has no workspace data');
+  else if (!Array.isArray(data.entries) || !Array.isArray(data.accounts)) problems.push('The backup is missing its journal entries or chart of accounts');
+  if (problems.length > 0) return { problems };
+
+  const workspace = (raw.workspace ?? {}) as Partial<Workspace>;
+  return {
+    backup: {
+      format: 'finreport-workspace',
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: String(raw.exportedAt ?? ''),
+      workspace: { name: String(workspace.name || 'Restored Company'), createdAt: String(workspace.createdAt || new Date().toISOString()) },
+      data: migrateWorkspaceData(data, version)
+    },
+    problems
+  };
+};